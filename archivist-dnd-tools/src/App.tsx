@@ -4,6 +4,9 @@ import { EnhancedDPRSimulator } from './modules/EnhancedDPRSimulator';
 import { SimpleBuildLab } from './modules/SimpleBuildLab';
 import { LevelingExplorer } from './modules/leveling-explorer/LevelingExplorer';
 import { CharacterCompare } from './modules/character-compare/CharacterCompare';
+import { PartyPlanner } from './modules/party-planner/PartyPlanner';
+import { AdventuringDayPlanner } from './modules/adventuring-day/AdventuringDayPlanner';
+import { Library } from './modules/library/Library';
 
 function App() {
   return (
@@ -15,6 +18,9 @@ function App() {
           <Route path="/build-lab" element={<SimpleBuildLab />} />
           <Route path="/leveling-explorer" element={<LevelingExplorer />} />
           <Route path="/character-compare" element={<CharacterCompare />} />
+          <Route path="/party-planner" element={<PartyPlanner />} />
+          <Route path="/adventuring-day" element={<AdventuringDayPlanner />} />
+          <Route path="/library" element={<Library />} />
         </Route>
       </Routes>
     </Router>
@@ -6,6 +6,9 @@ const navItems = [
   { path: '/build-lab', label: 'Build Lab', key: 'buildLab' },
   { path: '/leveling-explorer', label: 'Leveling Explorer', key: 'levelingExplorer' },
   { path: '/character-compare', label: 'Character Compare', key: 'characterCompare' },
+  { path: '/party-planner', label: 'Party Planner', key: 'partyPlanner' },
+  { path: '/adventuring-day', label: 'Adventuring Day', key: 'adventuringDay' },
+  { path: '/library', label: 'Library', key: 'library' },
 ] as const;
 
 export const Navigation: React.FC = () => {
@@ -4,11 +4,11 @@
  */
 
 import React, { useMemo } from 'react';
-import type { SimpleBuild } from '../../store/simpleStore';
+import type { Build } from '../../types/build';
 import { DPRAnalysisEngine, type DPRCurve, type LevelDPRProgression } from '../../utils/dprAnalysis';
 
 interface DPRByACChartProps {
-  builds: Array<{ build: SimpleBuild; name: string; color: string }>;
+  builds: Array<{ build: Build; name: string; color: string }>;
   acRange: { min: number; max: number };
   showAdvantage?: boolean;
   showDisadvantage?: boolean;
@@ -16,7 +16,7 @@ interface DPRByACChartProps {
 }
 
 interface LevelProgressionChartProps {
-  build: SimpleBuild;
+  build: Build;
   buildName: string;
   targetAC?: number;
   maxLevel?: number;
@@ -1,9 +1,15 @@
 /**
- * Basic Ability Score Form with point buy, standard array, and manual entry
+ * Basic Ability Score Form with point buy, standard array, rolled scores and manual entry
  * This is a simplified version that integrates with our simple store
  */
 
 import React, { useState, useEffect } from 'react';
+import type { AbilityScoreMethod } from '../../types/build';
+import {
+  ABILITY_KEYS,
+  rollAbilityScores,
+  type AbilityLedgerEntry
+} from '../../engine/abilityScores';
 
 // Ability score interfaces
 export interface AbilityScores {
@@ -20,11 +26,16 @@ interface BasicAbilityScoreFormProps {
   onChange: (scores: AbilityScores) => void;
   method?: GenerationMethod;
   onMethodChange?: (method: GenerationMethod) => void;
+  racialBonuses?: Partial<AbilityScores>; // shown on top of the entered scores
+  floatingBonuses?: Partial<AbilityScores>; // racial bonuses moved with Tasha's custom origin rules
+  onFloatingBonusesChange?: (bonuses: Partial<AbilityScores> | undefined) => void;
+  ledger?: AbilityLedgerEntry[]; // every change to the scores by level; its last entry gives the final scores
+  issues?: string[];
   className?: string;
 }
 
 type AbilityKey = keyof AbilityScores;
-type GenerationMethod = 'pointBuy' | 'standardArray' | 'manual';
+type GenerationMethod = AbilityScoreMethod;
 
 // Standard arrays and point buy constants
 const STANDARD_ARRAY = [15, 14, 13, 12, 10, 8];
@@ -32,6 +43,13 @@ const POINT_BUY_BASE = 8;
 const POINT_BUY_MAX = 15;
 const POINT_BUY_TOTAL = 27;
 
+const METHOD_LABELS: Record<GenerationMethod, string> = {
+  pointBuy: 'Point buy',
+  standardArray: 'Standard array',
+  rolled: 'Rolled 4d6',
+  manual: 'Manual entry',
+};
+
 // Point costs for point buy
 const getPointCost = (score: number): number => {
   if (score <= 8) return 0;
@@ -50,27 +68,32 @@ export const BasicAbilityScoreForm: React.FC<BasicAbilityScoreFormProps> = ({
   onChange,
   method: initialMethod = 'pointBuy',
   onMethodChange,
+  racialBonuses = {},
+  floatingBonuses,
+  onFloatingBonusesChange,
+  ledger = [],
+  issues = [],
   className = '',
 }) => {
   const [method, setMethod] = useState<GenerationMethod>(initialMethod);
-  const [standardArrayAssignment, setStandardArrayAssignment] = useState<Record<AbilityKey, number>>({
-    strength: 15,
-    dexterity: 14,
-    constitution: 13,
-    intelligence: 12,
-    wisdom: 10,
-    charisma: 8,
-  });
 
   // Update method when prop changes
   useEffect(() => {
     setMethod(initialMethod);
   }, [initialMethod]);
 
-  // Notify parent when method changes
+  // Notify parent when method changes; switching method starts over with that method's scores,
+  // while opening the form keeps the scores a saved build already has
   const handleMethodChange = (newMethod: GenerationMethod) => {
     setMethod(newMethod);
     onMethodChange?.(newMethod);
+    if (newMethod === 'standardArray') {
+      applyStandardArray();
+    } else if (newMethod === 'pointBuy') {
+      resetToPointBuy();
+    } else if (newMethod === 'rolled') {
+      applyRolledScores();
+    }
   };
 
   // Ability names and descriptions
@@ -83,6 +106,16 @@ export const BasicAbilityScoreForm: React.FC<BasicAbilityScoreFormProps> = ({
     { key: 'charisma', name: 'Charisma', short: 'CHA', description: 'Force of personality' },
   ];
 
+  const activeRacialBonuses = floatingBonuses || racialBonuses;
+  // The race's bonus amounts largest first; a custom origin puts each on a different ability
+  const racialAmounts = Object.values(racialBonuses).filter((bonus): bonus is number => Boolean(bonus)).sort((a, b) => b - a);
+
+  // Final score from the ledger, or the score with the racial bonus capped at 20 without one
+  const getFinalScore = (ability: AbilityKey): number => {
+    if (ledger.length > 0) return ledger[ledger.length - 1].scores[ability];
+    return activeRacialBonuses[ability] ? Math.min(20, scores[ability] + (activeRacialBonuses[ability] || 0)) : scores[ability];
+  };
+
   // Calculate ability modifier
   const getModifier = (score: number): number => {
     return Math.floor((score - 10) / 2);
@@ -110,9 +143,46 @@ export const BasicAbilityScoreForm: React.FC<BasicAbilityScoreFormProps> = ({
     updateScores(newScores);
   };
 
-  // Apply standard array
+  // Apply standard array, highest value to Strength
   const applyStandardArray = () => {
-    updateScores(standardArrayAssignment);
+    onChange(ABILITY_KEYS.reduce((assigned, key, index) => ({ ...assigned, [key]: STANDARD_ARRAY[index] }), { ...scores }));
+  };
+
+  // Roll 4d6 drop lowest six times, highest roll to Strength; values can then be swapped around
+  const applyRolledScores = () => {
+    const rolled = rollAbilityScores();
+    onChange(ABILITY_KEYS.reduce((assigned, key, index) => ({ ...assigned, [key]: rolled[index] }), { ...scores }));
+  };
+
+  // Standard array and rolled values are a fixed set: giving an ability another's value swaps them
+  const handleSwap = (ability: AbilityKey, value: number) => {
+    const other = ABILITY_KEYS.find(key => key !== ability && scores[key] === value);
+    updateScores(other ? { [ability]: value, [other]: scores[ability] } : { [ability]: value });
+  };
+
+  // Move one of the race's bonuses, by its position in racialAmounts, to another ability
+  const handleFloatingBonusChange = (index: number, ability: AbilityKey | '') => {
+    const assigned = racialAmounts.map((_, position) => getFloatingAbility(position));
+    assigned[index] = ability || undefined;
+    const bonuses: Partial<AbilityScores> = {};
+    assigned.forEach((key, position) => {
+      if (key) bonuses[key] = racialAmounts[position];
+    });
+    onFloatingBonusesChange?.(bonuses);
+  };
+
+  // Ability holding the bonus at a position in racialAmounts; equal amounts fill in ability order
+  const getFloatingAbility = (index: number): AbilityKey | undefined => {
+    const holders = ABILITY_KEYS.filter(key => floatingBonuses?.[key] === racialAmounts[index]);
+    const earlier = racialAmounts.slice(0, index).filter(amount => amount === racialAmounts[index]).length;
+    return holders[earlier];
+  };
+
+  const formatChanges = (changes: Partial<AbilityScores>): string => {
+    return abilities
+      .filter(({ key }) => changes[key])
+      .map(({ key, short }) => `${formatModifier(changes[key] || 0)} ${short}`)
+      .join(', ');
   };
 
   // Reset to default point buy
@@ -128,15 +198,6 @@ export const BasicAbilityScoreForm: React.FC<BasicAbilityScoreFormProps> = ({
     updateScores(defaultScores);
   };
 
-  // Apply method change
-  useEffect(() => {
-    if (method === 'standardArray') {
-      applyStandardArray();
-    } else if (method === 'pointBuy') {
-      resetToPointBuy();
-    }
-  }, [method]);
-
   // Calculate point buy status
   const totalPointsUsed = method === 'pointBuy' ? getTotalPointCost(scores) : 0;
   const pointsRemaining = POINT_BUY_TOTAL - totalPointsUsed;
@@ -170,6 +231,17 @@ export const BasicAbilityScoreForm: React.FC<BasicAbilityScoreFormProps> = ({
           >
             Standard Array
           </button>
+          <button
+            type="button"
+            onClick={() => handleMethodChange('rolled')}
+            className={`px-4 py-2 rounded-md text-sm font-medium ${
+              method === 'rolled'
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-600 dark:text-gray-300 dark:hover:bg-gray-500'
+            }`}
+          >
+            Roll 4d6
+          </button>
           <button
             type="button"
             onClick={() => handleMethodChange('manual')}
@@ -211,12 +283,68 @@ export const BasicAbilityScoreForm: React.FC<BasicAbilityScoreFormProps> = ({
           <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
             <p className="text-sm text-yellow-800">
               <strong>Standard Array:</strong> Assign the values [15, 14, 13, 12, 10, 8] to your abilities.
-              You can change the assignments below.
+              Picking a value another ability has swaps the two.
             </p>
           </div>
         )}
+
+        {/* Rolled Scores */}
+        {method === 'rolled' && (
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg flex justify-between items-center">
+            <p className="text-sm text-yellow-800">
+              <strong>Rolled:</strong> [{ABILITY_KEYS.map(key => scores[key]).sort((a, b) => b - a).join(', ')}] from 4d6, dropping the lowest die.
+              Picking a value another ability has swaps the two.
+            </p>
+            <button
+              type="button"
+              onClick={applyRolledScores}
+              className="ml-3 px-3 py-1.5 text-sm font-medium bg-yellow-600 text-white rounded-md hover:bg-yellow-700"
+            >
+              Reroll
+            </button>
+          </div>
+        )}
       </div>
 
+      {/* Racial Bonuses */}
+      {racialAmounts.length > 0 && onFloatingBonusesChange && (
+        <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-gray-700 dark:text-gray-300">
+              <strong>Racial bonuses:</strong> {formatChanges(activeRacialBonuses)}
+            </span>
+            <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={floatingBonuses !== undefined}
+                onChange={(e) => onFloatingBonusesChange(e.target.checked ? { ...racialBonuses } : undefined)}
+                className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Custom origin (move bonuses to any abilities)
+            </label>
+          </div>
+          {floatingBonuses !== undefined && (
+            <div className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-2">
+              {racialAmounts.map((amount, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{formatModifier(amount)}</span>
+                  <select
+                    value={getFloatingAbility(index) || ''}
+                    onChange={(e) => handleFloatingBonusChange(index, e.target.value as AbilityKey | '')}
+                    className="flex-1 text-sm rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  >
+                    <option value="">Choose ability...</option>
+                    {abilities.map(({ key, name }) => (
+                      <option key={key} value={key}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Ability Scores */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {abilities.map(({ key, name, short, description }) => (
@@ -260,19 +388,17 @@ export const BasicAbilityScoreForm: React.FC<BasicAbilityScoreFormProps> = ({
                 </div>
               )}
 
-              {method === 'standardArray' && (
+              {(method === 'standardArray' || method === 'rolled') && (
                 <select
-                  value={standardArrayAssignment[key]}
-                  onChange={(e) => {
-                    const newValue = parseInt(e.target.value);
-                    setStandardArrayAssignment(prev => ({ ...prev, [key]: newValue }));
-                    updateScores({ [key]: newValue });
-                  }}
+                  value={scores[key]}
+                  onChange={(e) => handleSwap(key, parseInt(e.target.value))}
                   className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
                 >
-                  {STANDARD_ARRAY.map(value => (
-                    <option key={value} value={value}>{value}</option>
-                  ))}
+                  {[...new Set(method === 'standardArray' ? [...STANDARD_ARRAY, scores[key]] : ABILITY_KEYS.map(ability => scores[ability]))]
+                    .sort((a, b) => b - a)
+                    .map(value => (
+                      <option key={value} value={value}>{value}</option>
+                    ))}
                 </select>
               )}
 
@@ -291,17 +417,19 @@ export const BasicAbilityScoreForm: React.FC<BasicAbilityScoreFormProps> = ({
               <div className="flex justify-between items-center">
                 <div className="text-center">
                   <div className="text-2xl font-bold text-gray-900 dark:text-white">
-                    {scores[key]}
+                    {getFinalScore(key)}
+                  </div>
+                  <div className="text-sm text-gray-500 dark:text-gray-400">
+                    {getFinalScore(key) !== scores[key] ? `Score (base ${scores[key]})` : 'Score'}
                   </div>
-                  <div className="text-sm text-gray-500 dark:text-gray-400">Score</div>
                 </div>
                 <div className="text-center">
                   <div className={`text-xl font-bold ${
-                    getModifier(scores[key]) >= 0 
+                    getModifier(getFinalScore(key)) >= 0 
                       ? 'text-green-600 dark:text-green-400' 
                       : 'text-red-600 dark:text-red-400'
                   }`}>
-                    {formatModifier(getModifier(scores[key]))}
+                    {formatModifier(getModifier(getFinalScore(key)))}
                   </div>
                   <div className="text-sm text-gray-500 dark:text-gray-400">Modifier</div>
                 </div>
@@ -318,6 +446,62 @@ export const BasicAbilityScoreForm: React.FC<BasicAbilityScoreFormProps> = ({
         ))}
       </div>
 
+      {/* Ledger */}
+      {ledger.length > 1 && (
+        <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+          <h4 className="font-medium text-gray-900 dark:text-white mb-2">Ability Score Ledger</h4>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 dark:text-gray-400">
+                  <th className="py-1 pr-4 font-medium">Level</th>
+                  <th className="py-1 pr-4 font-medium">Source</th>
+                  <th className="py-1 pr-4 font-medium">Change</th>
+                  {abilities.map(({ key, short }) => (
+                    <th key={key} className="py-1 pr-2 font-mono font-medium text-center">{short}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {ledger.map((entry, index) => (
+                  <tr key={index} className="border-t border-gray-100 dark:border-gray-700">
+                    <td className="py-1 pr-4 text-gray-600 dark:text-gray-400">{entry.level}</td>
+                    <td className="py-1 pr-4 text-gray-900 dark:text-white">{entry.label}</td>
+                    <td className="py-1 pr-4 text-gray-600 dark:text-gray-400">
+                      {entry.source === 'base' ? METHOD_LABELS[method] : formatChanges(entry.changes) || 'No ability increase'}
+                      {Object.keys(entry.lost).length > 0 && (
+                        <span className="ml-1 text-red-600 dark:text-red-400">({formatChanges(entry.lost)} lost above 20)</span>
+                      )}
+                    </td>
+                    {abilities.map(({ key }) => (
+                      <td
+                        key={key}
+                        className={`py-1 pr-2 text-center ${
+                          entry.source !== 'base' && entry.changes[key] ? 'font-semibold text-blue-600 dark:text-blue-400' : 'text-gray-600 dark:text-gray-400'
+                        }`}
+                      >
+                        {entry.scores[key]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            Scores are capped at 20; magic items that set a score apply on top
+          </p>
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          {issues.map(issue => (
+            <p key={issue} className="text-sm text-red-700 dark:text-red-300">{issue}</p>
+          ))}
+        </div>
+      )}
+
       {/* Summary */}
       <div className="bg-gray-50 dark:bg-gray-700 p-4 rounded-lg">
         <h4 className="font-medium text-gray-900 dark:text-white mb-2">Ability Score Summary</h4>
@@ -326,14 +510,14 @@ export const BasicAbilityScoreForm: React.FC<BasicAbilityScoreFormProps> = ({
             <div key={key} className="text-center">
               <div className="font-mono text-gray-600 dark:text-gray-400">{short}</div>
               <div className="font-bold text-gray-900 dark:text-white">
-                {scores[key]} ({formatModifier(getModifier(scores[key]))})
+                {getFinalScore(key)} ({formatModifier(getModifier(getFinalScore(key)))})
               </div>
             </div>
           ))}
         </div>
         
         <div className="mt-3 text-xs text-gray-600 dark:text-gray-300">
-          <p><strong>Total Modifier Sum:</strong> {Object.values(scores).reduce((sum, score) => sum + getModifier(score), 0)}</p>
+          <p><strong>Total Modifier Sum:</strong> {abilities.reduce((sum, { key }) => sum + getModifier(getFinalScore(key)), 0)}</p>
           {method === 'pointBuy' && (
             <p><strong>Point Buy:</strong> {totalPointsUsed}/{POINT_BUY_TOTAL} points used</p>
           )}
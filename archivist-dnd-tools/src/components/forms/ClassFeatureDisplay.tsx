@@ -4,7 +4,7 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import type { ClassLevel } from '../../types/build';
+import type { ClassLevel, FeatureSelection } from '../../types/build';
 
 // Class feature definition
 export interface ClassFeature {
@@ -42,22 +42,10 @@ export interface FeatureImprovement {
 
 // Selected feature choices tracking
 export interface SelectedFeatures {
-  [featureId: string]: {
-    featureId: string;
-    selections: string[];
-    improvements?: {
-      type: string;
-      selections: string[];
-      customData?: any;
-      asi?: { [ability: string]: number };
-      feat?: string;
-      featAbility?: string; // For half-feat ability score choice
-    }[];
-  };
+  [featureId: string]: FeatureSelection;
 }
 
-// Type alias for backward compatibility
-export type FeatureSelection = SelectedFeatures[string];
+export type { FeatureSelection };
 
 interface ClassFeatureDisplayProps {
   classLevels: ClassLevel[];
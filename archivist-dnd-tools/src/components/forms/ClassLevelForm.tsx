@@ -17,6 +17,7 @@ interface ClassLevelFormProps {
   levels: ClassLevel[];
   onChange: (levels: ClassLevel[]) => void;
   error?: string;
+  race?: string; // for feat race prerequisites
   // Optional feature selection props
   featureSelections?: { [featureId: string]: FeatureSelection };
   onFeatureSelectionChange?: (featureId: string, selection: FeatureSelection) => void;
@@ -42,6 +43,7 @@ export const ClassLevelForm: React.FC<ClassLevelFormProps> = ({
   levels,
   onChange,
   error,
+  race,
   featureSelections = {},
   onFeatureSelectionChange,
 }) => {
@@ -246,6 +248,7 @@ export const ClassLevelForm: React.FC<ClassLevelFormProps> = ({
               {onFeatureSelectionChange && (
                 <InlineClassFeatures
                   classLevel={classLevel}
+                  race={race}
                   selections={featureSelections}
                   onSelectionChange={onFeatureSelectionChange}
                 />
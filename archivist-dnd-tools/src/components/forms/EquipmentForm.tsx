@@ -3,7 +3,8 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import type { Build, Weapon, Armor } from '../../types';
+import type { Build, Weapon, Armor, Accessory, Effect } from '../../types';
+import { ATTUNEMENT_LIMIT, getAccessoryItem, getAttunedCount, getMagicItems, isAttuned } from '../../engine/items';
 
 interface EquipmentFormProps {
   equipment: Build['equipment'];
@@ -124,6 +125,38 @@ export const EquipmentForm: React.FC<EquipmentFormProps> = ({
     onChange({ ...equipment, armor });
   };
 
+  const attunedCount = getAttunedCount(equipment);
+
+  const findAccessory = (item: Effect): Accessory | undefined => {
+    return equipment.accessories?.find(accessory => getAccessoryItem(accessory)?.id === item.id);
+  };
+
+  // Adding an item that needs attunement attunes it while a slot is free
+  const toggleItem = (item: Effect, carried: boolean) => {
+    const others = (equipment.accessories || []).filter(accessory => getAccessoryItem(accessory)?.id !== item.id);
+    if (!carried) {
+      onChange({ ...equipment, accessories: others });
+      return;
+    }
+    const accessory: Accessory = {
+      name: item.name,
+      itemId: item.id,
+      properties: [item.description],
+      ...(item.magicItem?.requiresAttunement ? { attuned: attunedCount < ATTUNEMENT_LIMIT } : {}),
+      ...(item.usage?.charges ? { charges: item.usage.charges } : {})
+    };
+    onChange({ ...equipment, accessories: [...others, accessory] });
+  };
+
+  const updateAccessory = (item: Effect, changes: Partial<Accessory>) => {
+    onChange({
+      ...equipment,
+      accessories: (equipment.accessories || []).map(accessory =>
+        getAccessoryItem(accessory)?.id === item.id ? { ...accessory, itemId: item.id, ...changes } : accessory
+      )
+    });
+  };
+
   const canDualWield = (mainHand: Weapon | null, offHand: Weapon | null): boolean => {
     if (!mainHand || !offHand) return true;
     
@@ -354,7 +387,8 @@ export const EquipmentForm: React.FC<EquipmentFormProps> = ({
       {activeSection === 'accessories' && (
         <div className="space-y-6">
           <p className="text-gray-600 text-sm">
-            Magic items and accessories that provide bonuses to attacks, damage, or AC.
+            Magic items and accessories that provide bonuses to attacks, damage, AC, ability scores or saving throws.
+            A character can be attuned to at most {ATTUNEMENT_LIMIT} items.
           </p>
 
           <div className="space-y-4">
@@ -435,44 +469,81 @@ export const EquipmentForm: React.FC<EquipmentFormProps> = ({
               </select>
             </div>
 
-            {/* Other Magic Items */}
+            {/* Magic Items */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Other Magic Items
-              </label>
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-medium text-gray-700">
+                  Magic Items
+                </label>
+                <span className={`text-xs font-medium ${attunedCount >= ATTUNEMENT_LIMIT ? 'text-orange-600' : 'text-gray-500'}`}>
+                  Attuned: {attunedCount}/{ATTUNEMENT_LIMIT}
+                </span>
+              </div>
+              {attunedCount > ATTUNEMENT_LIMIT && (
+                <div className="mb-2 p-2 bg-yellow-50 border border-yellow-200 rounded text-sm text-yellow-700">
+                  ⚠️ Only {ATTUNEMENT_LIMIT} items can be attuned at once; items past the limit are ignored
+                </div>
+              )}
               <div className="space-y-2">
-                {[
-                  { id: 'bracers-archery', name: 'Bracers of Archery', description: '+2 damage with ranged weapons' },
-                  { id: 'belt-giant-str', name: 'Belt of Giant Strength', description: 'Set Strength to 21-29' },
-                  { id: 'gauntlets-ogre', name: 'Gauntlets of Ogre Power', description: 'Strength 19' },
-                  { id: 'ring-protection', name: 'Ring of Protection', description: '+1 AC and saving throws' },
-                  { id: 'amulet-health', name: 'Amulet of Health', description: 'Constitution 19' },
-                ].map((item) => {
-                  const isChecked = equipment.accessories?.some(acc => acc.name === item.name) || false;
+                {getMagicItems().map((item) => {
+                  const accessory = findAccessory(item);
+                  const details = item.magicItem;
+                  const maxCharges = item.usage?.charges;
+                  const attuned = accessory ? isAttuned(accessory) : false;
                   return (
-                    <div key={item.id} className="flex items-center">
-                      <input 
-                        id={item.id} 
-                        type="checkbox" 
-                        checked={isChecked}
-                        onChange={(e) => {
-                          let newAccessories = equipment.accessories || [];
-                          if (e.target.checked) {
-                            // Add accessory if not already present
-                            if (!newAccessories.some(acc => acc.name === item.name)) {
-                              newAccessories = [...newAccessories, { name: item.name, properties: [item.description] }];
-                            }
-                          } else {
-                            // Remove accessory
-                            newAccessories = newAccessories.filter(acc => acc.name !== item.name);
-                          }
-                          onChange({ ...equipment, accessories: newAccessories });
-                        }}
-                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" 
-                      />
-                      <label htmlFor={item.id} className="ml-2 text-sm text-gray-700">
-                        {item.name} ({item.description})
-                      </label>
+                    <div key={item.id} className="p-2 border border-gray-200 rounded">
+                      <div className="flex items-center">
+                        <input
+                          id={item.id}
+                          type="checkbox"
+                          checked={Boolean(accessory)}
+                          onChange={(e) => toggleItem(item, e.target.checked)}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <label htmlFor={item.id} className="ml-2 text-sm text-gray-700">
+                          {item.name}
+                          <span className="ml-1 text-xs text-gray-500">
+                            ({details?.rarity}{details?.requiresAttunement ? ', requires attunement' : ''}
+                            {details?.appliesTo === 'weapon' ? ', enchants your main-hand weapon' : ''})
+                          </span>
+                        </label>
+                        {accessory && details?.requiresAttunement && (
+                          <label className="ml-auto flex items-center text-xs text-gray-600">
+                            <input
+                              type="checkbox"
+                              checked={attuned}
+                              disabled={!attuned && attunedCount >= ATTUNEMENT_LIMIT}
+                              onChange={(e) => updateAccessory(item, { attuned: e.target.checked })}
+                              className="mr-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:opacity-50"
+                            />
+                            Attuned
+                          </label>
+                        )}
+                      </div>
+                      <p className="mt-1 ml-6 text-xs text-gray-500">{item.description}</p>
+                      {accessory && details?.activation && (
+                        <p className="mt-1 ml-6 text-xs text-gray-600">
+                          <strong>{details.activation.type === 'bonus' ? 'Bonus action' : details.activation.type === 'action' ? 'Action' : 'Reaction'}:</strong>{' '}
+                          {details.activation.description}
+                        </p>
+                      )}
+                      {accessory && maxCharges && (
+                        <div className="mt-1 ml-6 flex items-center text-xs text-gray-600">
+                          <label htmlFor={`${item.id}-charges`} className="mr-2">Charges</label>
+                          <input
+                            id={`${item.id}-charges`}
+                            type="number"
+                            min={0}
+                            max={maxCharges}
+                            value={accessory.charges ?? maxCharges}
+                            onChange={(e) => updateAccessory(item, {
+                              charges: Math.max(0, Math.min(maxCharges, parseInt(e.target.value) || 0))
+                            })}
+                            className="w-16 rounded border-gray-300 text-xs"
+                          />
+                          <span className="ml-1">/ {maxCharges}{details?.rechargeDice ? `, regains ${details.rechargeDice} at dawn` : ''}</span>
+                        </div>
+                      )}
                     </div>
                   );
                 })}
@@ -7,6 +7,8 @@ import React, { useState } from 'react';
 import type { ClassLevel } from '../../types/build';
 import { getClassFeatures } from '../../data/classFeatures';
 import type { FeatureSelection } from './ClassFeatureDisplay';
+import { effectLibrary } from '../../data/effects';
+import { meetsRacePrerequisites } from '../../engine/races';
 
 // Common D&D 5e feats for selection
 interface FeatDefinition {
@@ -60,12 +62,14 @@ const COMMON_FEATS: FeatDefinition[] = [
 
 interface InlineClassFeaturesProps {
   classLevel: ClassLevel;
+  race?: string; // feats with a race prerequisite the race doesn't meet can't be chosen
   selections: { [featureId: string]: FeatureSelection };
   onSelectionChange: (featureId: string, selection: FeatureSelection) => void;
 }
 
 export const InlineClassFeatures: React.FC<InlineClassFeaturesProps> = ({
   classLevel,
+  race,
   selections,
   onSelectionChange,
 }) => {
@@ -282,11 +286,15 @@ export const InlineClassFeatures: React.FC<InlineClassFeaturesProps> = ({
                             className="w-full text-xs rounded border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
                           >
                             <option value="">Choose a feat...</option>
-                            {COMMON_FEATS.map((feat) => (
-                              <option key={feat.id} value={feat.id}>
-                                {feat.name}{feat.isHalfFeat ? ' (+1 ability)' : ''} - {feat.description}
-                              </option>
-                            ))}
+                            {COMMON_FEATS.map((feat) => {
+                              const libraryFeat = effectLibrary.feats[feat.id];
+                              const unmet = libraryFeat && !meetsRacePrerequisites(libraryFeat, race);
+                              return (
+                                <option key={feat.id} value={feat.id} disabled={unmet}>
+                                  {feat.name}{feat.isHalfFeat ? ' (+1 ability)' : ''} - {unmet ? `requires ${libraryFeat.prerequisites?.join(', ')}` : feat.description}
+                                </option>
+                              );
+                            })}
                           </select>
                           
                           {/* Half-feat ability score choice */}
@@ -0,0 +1,228 @@
+/**
+ * Spell selection form component
+ * Cantrips, spells known or prepared, a Wizard's spellbook and a Warlock's Mystic Arcanum for each
+ * spellcasting class, checked against the limits its level allows
+ */
+
+import React, { useMemo } from 'react';
+import type { Build, ClassSpellSelection } from '../../types/build';
+import type { SpellDefinition } from '../../data/spellCatalog';
+import {
+  getAlwaysPreparedSpells,
+  getClassSpellLimits,
+  getInvocationSpells,
+  getMysticArcanumOptions,
+  getSpellName,
+  getSpellOptions,
+  suggestSpellSelection,
+  validateSpellSelections,
+  type ClassSpellLimits,
+  type SpellcasterSheet
+} from '../../engine/spellcasting';
+
+type SpellSelections = NonNullable<Build['spellSelections']>;
+
+interface SpellSelectionFormProps {
+  sheet: Omit<SpellcasterSheet, 'spellSelections'>;
+  selections: SpellSelections;
+  onChange: (selections: SpellSelections) => void;
+  className?: string;
+}
+
+type SpellList = 'cantrips' | 'spells' | 'spellbook';
+
+const LEVEL_LABELS = ['Cantrips', '1st Level', '2nd Level', '3rd Level', '4th Level', '5th Level', '6th Level', '7th Level', '8th Level', '9th Level'];
+
+export const SpellSelectionForm: React.FC<SpellSelectionFormProps> = ({
+  sheet,
+  selections,
+  onChange,
+  className = ''
+}) => {
+  const build = useMemo(() => ({ ...sheet, spellSelections: selections }), [sheet, selections]);
+  const classLimits = useMemo(() => getClassSpellLimits(build), [build]);
+  const issues = useMemo(() => validateSpellSelections(build), [build]);
+  const invocationSpells = getInvocationSpells(build);
+
+  // Classes without saved choices start from the suggested ones the simulators are using
+  const getSelection = (limits: ClassSpellLimits): ClassSpellSelection => {
+    return selections[limits.className] || suggestSpellSelection(build, limits);
+  };
+
+  const updateSelection = (limits: ClassSpellLimits, changes: Partial<ClassSpellSelection>) => {
+    onChange({ ...selections, [limits.className]: { ...getSelection(limits), ...changes } });
+  };
+
+  const toggleSpell = (limits: ClassSpellLimits, list: SpellList, id: string, checked: boolean) => {
+    const current = getSelection(limits)[list] || [];
+    const next = checked ? [...current, id] : current.filter(spellId => spellId !== id);
+    // Removing a spell from the spellbook also unprepares it
+    const unprepared = list === 'spellbook' && !checked
+      ? { spells: getSelection(limits).spells.filter(spellId => spellId !== id) }
+      : {};
+    updateSelection(limits, { [list]: next, ...unprepared });
+  };
+
+  const resetSelection = (limits: ClassSpellLimits) => {
+    onChange(Object.fromEntries(Object.entries(selections).filter(([name]) => name !== limits.className)));
+  };
+
+  // One arcanum per spell level: picking a spell replaces the one chosen at that level
+  const setArcanum = (limits: ClassSpellLimits, spellLevel: number, id: string) => {
+    const atLevel = getMysticArcanumOptions(limits)[spellLevel].map(spell => spell.id);
+    const others = (getSelection(limits).mysticArcanum || []).filter(spellId => !atLevel.includes(spellId));
+    updateSelection(limits, { mysticArcanum: id ? [...others, id] : others });
+  };
+
+  if (classLimits.length === 0) {
+    return (
+      <div className={`text-center py-6 text-sm text-gray-500 dark:text-gray-400 ${className}`}>
+        None of this character's classes cast spells
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      {issues.length > 0 && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          {issues.map(issue => (
+            <p key={issue} className="text-sm text-red-700 dark:text-red-300">{issue}</p>
+          ))}
+        </div>
+      )}
+
+      {classLimits.map(limits => {
+        const selection = getSelection(limits);
+        const alwaysPrepared = getAlwaysPreparedSpells(build, limits.className);
+        const options = getSpellOptions(limits).filter(spell => !alwaysPrepared.includes(spell.id));
+        const levels = [...new Set(options.map(spell => spell.level))];
+        const counted = selection.spells.filter(id => !alwaysPrepared.includes(id)).length;
+        const arcanumOptions = getMysticArcanumOptions(limits);
+        const spellsLabel = limits.rules.preparation === 'known' ? 'Spells Known' : 'Prepared';
+
+        const renderCheckbox = (spell: SpellDefinition, list: SpellList, label: string, disabled = false) => (
+          <label className="flex items-center text-xs text-gray-600 dark:text-gray-400">
+            <input
+              type="checkbox"
+              checked={(selection[list] || []).includes(spell.id)}
+              disabled={disabled}
+              onChange={(e) => toggleSpell(limits, list, spell.id, e.target.checked)}
+              className="mr-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:opacity-50"
+            />
+            {label}
+          </label>
+        );
+
+        return (
+          <div key={limits.className} className="p-4 border border-gray-200 dark:border-gray-600 rounded-lg">
+            <div className="flex justify-between items-center mb-3">
+              <h4 className="text-md font-medium text-gray-900 dark:text-white capitalize">
+                {limits.className} {limits.classLevel}
+              </h4>
+              <div className="flex items-center space-x-4 text-xs">
+                {limits.cantrips > 0 && (
+                  <span className={selection.cantrips.length > limits.cantrips ? 'text-red-600 font-medium' : 'text-gray-500 dark:text-gray-400'}>
+                    Cantrips: {selection.cantrips.length}/{limits.cantrips}
+                  </span>
+                )}
+                {limits.spells > 0 && (
+                  <span className={counted > limits.spells ? 'text-red-600 font-medium' : 'text-gray-500 dark:text-gray-400'}>
+                    {spellsLabel}: {counted}/{limits.spells}
+                  </span>
+                )}
+                {limits.spellbookMinimum !== undefined && (
+                  <span className="text-gray-500 dark:text-gray-400">
+                    Spellbook: {(selection.spellbook || []).length} (at least {limits.spellbookMinimum})
+                  </span>
+                )}
+                {selections[limits.className] ? (
+                  <button
+                    onClick={() => resetSelection(limits)}
+                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Use suggested
+                  </button>
+                ) : (
+                  <span className="text-gray-400 dark:text-gray-500 italic">Suggested</span>
+                )}
+              </div>
+            </div>
+
+            {alwaysPrepared.length > 0 && (
+              <div className="mb-3">
+                <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Always Prepared</div>
+                <div className="flex flex-wrap gap-1">
+                  {alwaysPrepared.map(id => (
+                    <span key={id} className="px-2 py-0.5 text-xs rounded bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-200">
+                      {getSpellName(id)}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-3">
+              {levels.map(level => (
+                <div key={level}>
+                  <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">{LEVEL_LABELS[level]}</div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
+                    {options.filter(spell => spell.level === level).map(spell => {
+                      const inSpellbook = (selection.spellbook || []).includes(spell.id);
+                      return (
+                        <div key={spell.id} className="flex items-center justify-between p-1.5 border border-gray-100 dark:border-gray-700 rounded">
+                          <span className="text-sm text-gray-700 dark:text-gray-300" title={spell.description}>
+                            {spell.name}
+                            {!spell.classes.includes(limits.rules.spellList) && (
+                              <span className="ml-1 text-xs text-orange-600">(Magical Secrets)</span>
+                            )}
+                          </span>
+                          <div className="flex items-center space-x-3">
+                            {spell.level === 0 ? renderCheckbox(spell, 'cantrips', 'Known') : (
+                              <>
+                                {limits.rules.spellbook && renderCheckbox(spell, 'spellbook', 'Spellbook')}
+                                {renderCheckbox(spell, 'spells', limits.rules.preparation === 'known' ? 'Known' : 'Prepared', limits.rules.spellbook && !inSpellbook)}
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {limits.mysticArcanumLevels.length > 0 && (
+              <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-2">
+                {limits.mysticArcanumLevels.map(spellLevel => (
+                  <div key={spellLevel}>
+                    <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Mystic Arcanum ({LEVEL_LABELS[spellLevel]})
+                    </label>
+                    <select
+                      value={(selection.mysticArcanum || []).find(id => arcanumOptions[spellLevel].some(spell => spell.id === id)) || ''}
+                      onChange={(e) => setArcanum(limits, spellLevel, e.target.value)}
+                      className="w-full text-sm rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    >
+                      <option value="">None</option>
+                      {arcanumOptions[spellLevel].map(spell => (
+                        <option key={spell.id} value={spell.id}>{spell.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {limits.className === 'warlock' && invocationSpells.length > 0 && (
+              <p className="mt-3 text-xs text-gray-600 dark:text-gray-400">
+                Cast through invocations: {invocationSpells.map(getSpellName).join(', ')}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,481 +1,625 @@
 /**
  * Homebrew Editor Component
- * Allows users to create, edit, and manage custom effects
+ * Create and edit custom effects as declarative rules (conditions plus modifiers) that can be
+ * saved as JSON and applied by the simulators
  */
 
-import React, { useState, useRef } from 'react';
-import type { Effect, HookContext, HookResult } from '../../types/effects';
-import { validateEffectCombination } from '../../data/effects/comprehensiveEffects';
+import React, { useState } from 'react';
+import type { Effect, EffectRule, EffectRuleCondition } from '../../types/effects';
+import {
+  createHomebrewEffect,
+  validateHomebrewEffect,
+  describeEffectRule,
+  RULE_HOOK_LABELS
+} from '../../utils/homebrewEffects';
+import { checkRuleExpression, RULE_EXPRESSION_FIELDS } from '../../engine/ruleExpressions';
 
 interface HomebrewEditorProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (effect: Effect) => void;
   editingEffect?: Effect | null;
+  existingIds?: string[]; // ids of other saved homebrew effects
 }
 
-type EffectCategory = 'feat' | 'spell' | 'class-feature' | 'fighting-style' | 'magic-item' | 'condition' | 'custom';
-type HookType = keyof Effect['hooks'];
-
-const AVAILABLE_HOOKS: Array<{ key: HookType; label: string; description: string }> = [
-  { key: 'onAttackRoll', label: 'On Attack Roll', description: 'Triggered when making an attack roll' },
-  { key: 'onHit', label: 'On Hit', description: 'Triggered when an attack hits' },
-  { key: 'onCrit', label: 'On Critical Hit', description: 'Triggered on a critical hit' },
-  { key: 'onDamageRoll', label: 'On Damage Roll', description: 'Triggered when rolling damage' },
-  { key: 'onSave', label: 'On Saving Throw', description: 'Triggered when making a saving throw' },
-  { key: 'onFailSave', label: 'On Failed Save', description: 'Triggered when a saving throw fails' },
-  { key: 'onTurnStart', label: 'On Turn Start', description: 'Triggered at the start of your turn' },
-  { key: 'onTurnEnd', label: 'On Turn End', description: 'Triggered at the end of your turn' },
-  { key: 'onKill', label: 'On Kill', description: 'Triggered when you kill a creature' }
-];
-
-const EFFECT_CATEGORIES: Array<{ value: EffectCategory; label: string }> = [
+const EFFECT_TYPES: Array<{ value: Effect['type']; label: string }> = [
+  { value: 'feature', label: 'Class Feature' },
   { value: 'feat', label: 'Feat' },
   { value: 'spell', label: 'Spell' },
-  { value: 'class-feature', label: 'Class Feature' },
-  { value: 'fighting-style', label: 'Fighting Style' },
-  { value: 'magic-item', label: 'Magic Item' },
+  { value: 'item', label: 'Magic Item' },
+  { value: 'buff', label: 'Buff' },
   { value: 'condition', label: 'Condition' },
-  { value: 'custom', label: 'Custom' }
+  { value: 'debuff', label: 'Debuff' }
 ];
 
+const RULE_HOOKS: EffectRule['hook'][] = ['onAttackRoll', 'onHit', 'onCrit', 'onSave'];
+
+const WEAPON_PROPERTIES = ['melee', 'ranged', 'finesse', 'heavy', 'light', 'thrown', 'versatile', 'two-handed', 'reach'];
+const CREATURE_TYPES = ['aberration', 'beast', 'celestial', 'construct', 'dragon', 'elemental', 'fey', 'fiend', 'giant', 'humanoid', 'monstrosity', 'ooze', 'plant', 'undead'];
+const TARGET_CONDITIONS = ['blinded', 'frightened', 'grappled', 'paralyzed', 'poisoned', 'prone', 'restrained', 'stunned'];
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+
+// Empty number inputs clear the field rather than saving 0 or NaN
+const parseOptionalNumber = (value: string): number | undefined => {
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const ToggleChips: React.FC<{ options: string[]; selected: string[]; onChange: (selected: string[]) => void }> = ({
+  options,
+  selected,
+  onChange
+}) => (
+  <div className="flex flex-wrap gap-1">
+    {options.map(option => (
+      <button
+        key={option}
+        type="button"
+        onClick={() => onChange(selected.includes(option) ? selected.filter(value => value !== option) : [...selected, option])}
+        className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+          selected.includes(option)
+            ? 'bg-blue-600 border-blue-600 text-white'
+            : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-blue-400'
+        }`}
+      >
+        {option}
+      </button>
+    ))}
+  </div>
+);
+
+// Rule expression input that type-checks as you type
+const ExpressionInput: React.FC<{ value: string; onChange: (value: string) => void; placeholder?: string }> = ({
+  value,
+  onChange,
+  placeholder
+}) => {
+  const errors = value.trim() ? checkRuleExpression(value) : [];
+  return (
+    <div>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={`${inputClassName} font-mono text-sm ${errors.length ? 'border-red-400 dark:border-red-500' : ''}`}
+        placeholder={placeholder}
+        spellCheck={false}
+      />
+      {errors.map(error => (
+        <div key={error} className="text-xs text-red-600 dark:text-red-400 mt-1">{error}</div>
+      ))}
+    </div>
+  );
+};
+
+const ExpressionFieldReference: React.FC = () => (
+  <details className="text-xs text-gray-600 dark:text-gray-400">
+    <summary className="cursor-pointer">Expression fields and operators</summary>
+    <p className="mt-2">
+      Combine comparisons with <code>and</code>, <code>or</code>, <code>not</code> and parentheses. Operators: <code>==</code>,{' '}
+      <code>!=</code>, <code>&lt;</code>, <code>&lt;=</code>, <code>&gt;</code>, <code>&gt;=</code>, <code>list has "value"</code>,{' '}
+      <code>value in ["a", "b"]</code>.
+    </p>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 mt-2">
+      {Object.entries(RULE_EXPRESSION_FIELDS).map(([path, field]) => (
+        <div key={path}>
+          <code>{path}</code> ({field.type}) — {field.description}
+        </div>
+      ))}
+    </div>
+  </details>
+);
+
+// Every hook's modifier fields are optional, so a new rule starts empty
+const emptyRule = (hook: EffectRule['hook']): EffectRule => ({ hook, modifier: {} }) as EffectRule;
+
 export const HomebrewEditor: React.FC<HomebrewEditorProps> = ({
   isOpen,
   onClose,
   onSave,
-  editingEffect
+  editingEffect,
+  existingIds = []
 }) => {
-  // Form state
-  const [formData, setFormData] = useState<Partial<Effect>>(() => ({
-    id: editingEffect?.id || '',
-    name: editingEffect?.name || '',
-    description: editingEffect?.description || '',
-    category: editingEffect?.category || 'custom',
-    source: editingEffect?.source || { book: 'Homebrew', page: 1 },
-    level: editingEffect?.level,
-    class: editingEffect?.class,
-    school: editingEffect?.school,
-    concentration: editingEffect?.concentration || false,
-    duration: editingEffect?.duration,
-    range: editingEffect?.range,
-    components: editingEffect?.components || [],
-    hooks: editingEffect?.hooks || {},
-    prerequisites: editingEffect?.prerequisites || [],
-    resourceCost: editingEffect?.resourceCost,
-    oncePerTurn: editingEffect?.oncePerTurn || false
-  }));
-
-  const [activeTab, setActiveTab] = useState<'basic' | 'hooks' | 'preview'>('basic');
-  const [selectedHook, setSelectedHook] = useState<HookType | null>(null);
-  const [hookCode, setHookCode] = useState<string>('');
-  const [validationResult, setValidationResult] = useState<{ valid: boolean; errors: string[] }>({
-    valid: true,
-    errors: []
-  });
-
-  const hookEditorRef = useRef<HTMLTextAreaElement>(null);
-
-  // Handle form field changes
-  const updateField = (field: keyof Effect, value: any) => {
-    setFormData(prev => ({
-      ...prev,
-      [field]: value
-    }));
+  // Form state is the effect itself, so what is previewed is exactly what gets validated and saved
+  const [formData, setFormData] = useState<Effect>(() => editingEffect
+    ? { ...editingEffect, hooks: {}, rules: editingEffect.rules || [] }
+    : createHomebrewEffect());
+
+  const [activeTab, setActiveTab] = useState<'basic' | 'rules' | 'preview'>('basic');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const otherIds = existingIds.filter(id => id !== editingEffect?.id);
+  const rules = formData.rules || [];
+
+  // Requirements must all hold; the editor shows them as one expression
+  const requirements = formData.conditions?.requirements || [];
+  const appliesWhen = requirements.length > 1
+    ? requirements.map(requirement => `(${requirement})`).join(' and ')
+    : requirements[0] || '';
+
+  const updateField = <K extends keyof Effect>(field: K, value: Effect[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setErrors([]);
   };
 
-  // Handle hook editing
-  const openHookEditor = (hookType: HookType) => {
-    setSelectedHook(hookType);
-    const existingHook = formData.hooks?.[hookType];
-    if (existingHook) {
-      // Convert function back to string for editing
-      setHookCode(existingHook.toString());
-    } else {
-      // Provide template
-      setHookCode(`(context) => {
-  // Available context properties:
-  // context.characterLevel, context.hasAdvantage, context.isCritical
-  // context.weaponType, context.damageType, context.targetType, etc.
-  
-  // Return hook result object:
-  return {
-    // toHitBonus: 2,
-    // bonusDamage: '1d6',
-    // advantage: true,
-    // disadvantage: true
-  };
-}`);
-    }
+  const updateModifiers = (updates: Partial<Effect['modifiers']>) => {
+    updateField('modifiers', { ...formData.modifiers, ...updates });
   };
 
-  // Save hook code
-  const saveHook = () => {
-    if (!selectedHook) return;
-
-    try {
-      // Validate JavaScript syntax
-      const hookFunction = new Function('context', `return (${hookCode})(context)`);
-      
-      setFormData(prev => ({
-        ...prev,
-        hooks: {
-          ...prev.hooks,
-          [selectedHook]: hookFunction as any
-        }
-      }));
-
-      setSelectedHook(null);
-      setHookCode('');
-    } catch (error) {
-      alert('Invalid JavaScript code. Please check your syntax.');
-    }
+  const updateRule = (index: number, rule: EffectRule) => {
+    updateField('rules', rules.map((existing, i) => (i === index ? rule : existing)));
   };
 
-  // Delete hook
-  const deleteHook = (hookType: HookType) => {
-    setFormData(prev => ({
-      ...prev,
-      hooks: {
-        ...prev.hooks,
-        [hookType]: undefined
-      }
-    }));
+  // Conditions with nothing set are dropped so the saved rule stays minimal
+  const updateCondition = (index: number, updates: Partial<EffectRuleCondition>) => {
+    const rule = rules[index];
+    const when = Object.fromEntries(
+      Object.entries({ ...rule.when, ...updates }).filter(([, value]) =>
+        value !== undefined && value !== false && !(Array.isArray(value) && value.length === 0))
+    ) as EffectRuleCondition;
+    updateRule(index, { ...rule, when: Object.keys(when).length ? when : undefined });
   };
 
-  // Validate effect
-  const validateEffect = (): boolean => {
-    const errors: string[] = [];
-
-    if (!formData.name?.trim()) errors.push('Name is required');
-    if (!formData.description?.trim()) errors.push('Description is required');
-    if (!formData.category) errors.push('Category is required');
-
-    // ID validation
-    if (!formData.id?.trim()) errors.push('ID is required');
-    else if (!/^[a-z0-9-]+$/.test(formData.id)) {
-      errors.push('ID must contain only lowercase letters, numbers, and hyphens');
-    }
-
-    // Category-specific validation
-    if (formData.category === 'spell' && typeof formData.level !== 'number') {
-      errors.push('Spells must have a level (0-9)');
-    }
-
-    if (formData.category === 'class-feature' && !formData.class?.trim()) {
-      errors.push('Class features must specify a class');
-    }
-
-    setValidationResult({ valid: errors.length === 0, errors });
-    return errors.length === 0;
+  const updateRuleModifier = (index: number, updates: Record<string, unknown>) => {
+    const rule = rules[index];
+    const modifier = Object.fromEntries(
+      Object.entries({ ...rule.modifier, ...updates }).filter(([, value]) => value !== undefined && value !== '')
+    );
+    updateRule(index, { ...rule, modifier } as EffectRule);
   };
 
-  // Handle save
-  const handleSave = () => {
-    if (!validateEffect()) return;
-
-    const effect: Effect = {
-      id: formData.id!,
-      name: formData.name!,
-      description: formData.description!,
-      category: formData.category!,
-      source: formData.source!,
-      level: formData.level,
-      class: formData.class,
-      school: formData.school,
-      concentration: formData.concentration,
-      duration: formData.duration,
-      range: formData.range,
-      components: formData.components,
-      hooks: formData.hooks || {},
-      prerequisites: formData.prerequisites,
-      resourceCost: formData.resourceCost,
-      oncePerTurn: formData.oncePerTurn
-    };
-
-    onSave(effect);
-    onClose();
+  const changeRuleHook = (index: number, hook: EffectRule['hook']) => {
+    updateRule(index, { ...emptyRule(hook), when: rules[index].when });
   };
 
   // Generate ID from name
   const generateId = () => {
-    if (formData.name) {
+    if (formData.name && !formData.id) {
       const id = formData.name
         .toLowerCase()
         .replace(/[^a-z0-9\s]/g, '')
-        .replace(/\s+/g, '-')
-        .trim();
+        .trim()
+        .replace(/\s+/g, '-');
       updateField('id', id);
     }
   };
 
+  const handleSave = () => {
+    const result = validateHomebrewEffect(formData, otherIds);
+    if (!result.effect) {
+      setErrors(result.errors);
+      setActiveTab('preview');
+      return;
+    }
+
+    onSave(result.effect);
+    onClose();
+  };
+
   if (!isOpen) return null;
 
   const renderBasicTab = () => (
     <div className="space-y-6">
-      {/* Basic Information */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-            Name *
-          </label>
+          <label className={labelClassName}>Name *</label>
           <input
             type="text"
-            value={formData.name || ''}
+            value={formData.name}
             onChange={(e) => updateField('name', e.target.value)}
             onBlur={generateId}
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+            className={inputClassName}
             placeholder="Enter effect name"
           />
         </div>
-        
+
         <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-            ID * <button 
-              type="button" 
-              onClick={generateId}
-              className="ml-2 text-xs text-blue-600 hover:text-blue-800"
-            >
-              Generate
-            </button>
-          </label>
+          <label className={labelClassName}>ID *</label>
           <input
             type="text"
-            value={formData.id || ''}
+            value={formData.id}
             onChange={(e) => updateField('id', e.target.value)}
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+            disabled={Boolean(editingEffect)}
+            className={`${inputClassName} disabled:opacity-60`}
             placeholder="unique-effect-id"
           />
         </div>
       </div>
 
-      {/* Description */}
       <div>
-        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-          Description *
-        </label>
+        <label className={labelClassName}>Description</label>
         <textarea
           rows={3}
-          value={formData.description || ''}
+          value={formData.description}
           onChange={(e) => updateField('description', e.target.value)}
-          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+          className={inputClassName}
           placeholder="Describe what this effect does..."
         />
       </div>
 
-      {/* Category and Class */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-            Category *
-          </label>
+          <label className={labelClassName}>Type</label>
           <select
-            value={formData.category || ''}
-            onChange={(e) => updateField('category', e.target.value)}
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+            value={formData.type}
+            onChange={(e) => updateField('type', e.target.value as Effect['type'])}
+            className={inputClassName}
           >
-            {EFFECT_CATEGORIES.map(cat => (
-              <option key={cat.value} value={cat.value}>{cat.label}</option>
+            {EFFECT_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
             ))}
           </select>
         </div>
-        
+
         <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-            Class {formData.category === 'class-feature' && '*'}
-          </label>
+          <label className={labelClassName}>Level</label>
+          <input
+            type="number"
+            min={0}
+            max={20}
+            value={formData.level ?? ''}
+            onChange={(e) => updateField('level', parseOptionalNumber(e.target.value))}
+            className={inputClassName}
+          />
+        </div>
+
+        <div>
+          <label className={labelClassName}>Source Book</label>
           <input
             type="text"
-            value={formData.class || ''}
-            onChange={(e) => updateField('class', e.target.value)}
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
-            placeholder="Fighter, Wizard, etc."
+            value={formData.source.book}
+            onChange={(e) => updateField('source', { ...formData.source, book: e.target.value })}
+            className={inputClassName}
           />
         </div>
       </div>
 
-      {/* Level and School (for spells) */}
-      {formData.category === 'spell' && (
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {/* Static modifiers apply to every attack while the effect is active */}
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Always-on Modifiers</h4>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Level *
-            </label>
+            <label className={labelClassName}>To Hit</label>
             <input
               type="number"
-              min={0}
-              max={9}
-              value={formData.level || ''}
-              onChange={(e) => updateField('level', parseInt(e.target.value))}
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+              value={formData.modifiers.toHit ?? ''}
+              onChange={(e) => updateModifiers({ toHit: parseOptionalNumber(e.target.value) })}
+              className={inputClassName}
             />
           </div>
-          
           <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              School
-            </label>
-            <select
-              value={formData.school || ''}
-              onChange={(e) => updateField('school', e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
-            >
-              <option value="">Select school</option>
-              <option value="abjuration">Abjuration</option>
-              <option value="conjuration">Conjuration</option>
-              <option value="divination">Divination</option>
-              <option value="enchantment">Enchantment</option>
-              <option value="evocation">Evocation</option>
-              <option value="illusion">Illusion</option>
-              <option value="necromancy">Necromancy</option>
-              <option value="transmutation">Transmutation</option>
-            </select>
+            <label className={labelClassName}>Damage</label>
+            <input
+              type="number"
+              value={formData.modifiers.damage?.bonus ?? ''}
+              onChange={(e) => {
+                const bonus = parseOptionalNumber(e.target.value);
+                updateModifiers({ damage: bonus === undefined ? undefined : { ...formData.modifiers.damage, bonus } });
+              }}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className={labelClassName}>Crit Range</label>
+            <input
+              type="number"
+              min={2}
+              max={20}
+              value={formData.modifiers.critRange ?? ''}
+              onChange={(e) => updateModifiers({ critRange: parseOptionalNumber(e.target.value) })}
+              className={inputClassName}
+              placeholder="20"
+            />
+          </div>
+          <div>
+            <label className={labelClassName}>AC</label>
+            <input
+              type="number"
+              value={formData.modifiers.ac ?? ''}
+              onChange={(e) => updateModifiers({ ac: parseOptionalNumber(e.target.value) })}
+              className={inputClassName}
+            />
           </div>
         </div>
-      )}
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClassName}>Applies When</label>
+        <ExpressionInput
+          value={appliesWhen}
+          onChange={(value) => updateField('conditions', {
+            ...formData.conditions,
+            requirements: value.trim() ? [value] : undefined
+          })}
+          placeholder='e.g. weapon.properties has "heavy" and combat.advantage == "advantage"'
+        />
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Leave empty to apply on every attack and save. Rules below can add their own conditions.
+        </p>
+        <ExpressionFieldReference />
+      </div>
 
-      {/* Toggles */}
       <div className="space-y-3">
         <label className="flex items-center">
           <input
             type="checkbox"
-            checked={formData.concentration || false}
-            onChange={(e) => updateField('concentration', e.target.checked)}
+            checked={Boolean(formData.duration?.concentration)}
+            onChange={(e) => updateField('duration', e.target.checked ? { ...formData.duration, concentration: true } : undefined)}
             className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-500 focus:ring-blue-500"
           />
           <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">Requires Concentration</span>
         </label>
-        
+
         <label className="flex items-center">
           <input
             type="checkbox"
-            checked={formData.oncePerTurn || false}
-            onChange={(e) => updateField('oncePerTurn', e.target.checked)}
+            checked={formData.usage?.perTurn === 1}
+            onChange={(e) => updateField('usage', e.target.checked ? { ...formData.usage, perTurn: 1 } : undefined)}
             className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-500 focus:ring-blue-500"
           />
           <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">Once Per Turn</span>
         </label>
       </div>
-
-      {/* Source */}
-      <div>
-        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-          Source Book
-        </label>
-        <input
-          type="text"
-          value={formData.source?.book || 'Homebrew'}
-          onChange={(e) => updateField('source', { ...formData.source, book: e.target.value })}
-          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
-          placeholder="Source book name"
-        />
-      </div>
     </div>
   );
 
-  const renderHooksTab = () => (
-    <div className="space-y-6">
-      {/* Available Hooks */}
-      <div>
-        <h4 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-          Available Hooks
-        </h4>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-          {AVAILABLE_HOOKS.map(hook => (
-            <div
-              key={hook.key}
-              className="border border-gray-200 dark:border-gray-600 rounded-lg p-4"
-            >
-              <div className="flex justify-between items-start mb-2">
-                <h5 className="font-medium text-gray-900 dark:text-white">
-                  {hook.label}
-                </h5>
-                <div className="space-x-2">
-                  {formData.hooks?.[hook.key] ? (
-                    <>
-                      <button
-                        onClick={() => openHookEditor(hook.key)}
-                        className="text-blue-600 hover:text-blue-800 text-sm"
-                      >
-                        Edit
-                      </button>
-                      <button
-                        onClick={() => deleteHook(hook.key)}
-                        className="text-red-600 hover:text-red-800 text-sm"
-                      >
-                        Delete
-                      </button>
-                    </>
-                  ) : (
-                    <button
-                      onClick={() => openHookEditor(hook.key)}
-                      className="text-green-600 hover:text-green-800 text-sm"
-                    >
-                      Add
-                    </button>
-                  )}
-                </div>
-              </div>
-              <p className="text-sm text-gray-600 dark:text-gray-400">
-                {hook.description}
-              </p>
-              {formData.hooks?.[hook.key] && (
-                <div className="mt-2 text-xs text-green-600 dark:text-green-400">
-                  ✓ Configured
-                </div>
-              )}
-            </div>
+  const renderRule = (rule: EffectRule, index: number) => (
+    <div key={index} className="border border-gray-200 dark:border-gray-600 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <select
+          value={rule.hook}
+          onChange={(e) => changeRuleHook(index, e.target.value as EffectRule['hook'])}
+          className={`${inputClassName} md:w-64`}
+        >
+          {RULE_HOOKS.map(hook => (
+            <option key={hook} value={hook}>{RULE_HOOK_LABELS[hook]}</option>
           ))}
-        </div>
+        </select>
+        <button
+          onClick={() => updateField('rules', rules.filter((_, i) => i !== index))}
+          className="text-red-600 hover:text-red-800 text-sm"
+        >
+          Remove
+        </button>
       </div>
 
-      {/* Hook Editor Modal */}
-      {selectedHook && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <div className="bg-white dark:bg-gray-900 rounded-lg shadow-xl max-w-4xl w-full max-h-[80vh] overflow-hidden">
-            <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-                Edit {AVAILABLE_HOOKS.find(h => h.key === selectedHook)?.label}
-              </h3>
-              <button
-                onClick={() => setSelectedHook(null)}
-                className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+      {/* Modifier */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {rule.hook === 'onAttackRoll' && (
+          <>
+            <div>
+              <label className={labelClassName}>To Hit</label>
+              <input
+                type="number"
+                value={rule.modifier.toHitBonus ?? ''}
+                onChange={(e) => updateRuleModifier(index, { toHitBonus: parseOptionalNumber(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>Roll</label>
+              <select
+                value={rule.modifier.advantageState || ''}
+                onChange={(e) => updateRuleModifier(index, { advantageState: e.target.value || undefined })}
+                className={inputClassName}
               >
-                ✕
-              </button>
+                <option value="">Normal</option>
+                <option value="advantage">Advantage</option>
+                <option value="disadvantage">Disadvantage</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClassName}>Crit Range</label>
+              <input
+                type="number"
+                min={2}
+                max={20}
+                value={rule.modifier.critRange ?? ''}
+                onChange={(e) => updateRuleModifier(index, { critRange: parseOptionalNumber(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>Bonus Die</label>
+              <input
+                type="text"
+                value={rule.modifier.bonusDice?.[0]?.dice || ''}
+                onChange={(e) => updateRuleModifier(index, {
+                  bonusDice: e.target.value ? [{ dice: e.target.value.trim(), type: 'bonus' }] : undefined
+                })}
+                className={inputClassName}
+                placeholder="1d4 or -1d4"
+              />
             </div>
-            
-            <div className="p-6">
-              <div className="mb-4">
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Hook Function (JavaScript)
-                </label>
-                <textarea
-                  ref={hookEditorRef}
-                  value={hookCode}
-                  onChange={(e) => setHookCode(e.target.value)}
-                  className="w-full h-64 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white font-mono text-sm"
-                  spellCheck={false}
+            <div>
+              <label className={labelClassName}>d20 Reroll</label>
+              <select
+                value={rule.modifier.reroll?.type || ''}
+                onChange={(e) => updateRuleModifier(index, {
+                  reroll: e.target.value === 'add-on-miss'
+                    ? { type: 'add-on-miss', dice: '1d8' }
+                    : e.target.value ? { type: e.target.value } : undefined
+                })}
+                className={inputClassName}
+              >
+                <option value="">None</option>
+                <option value="reroll-ones">Reroll natural 1s</option>
+                <option value="reroll-on-miss">Reroll a miss</option>
+                <option value="add-on-miss">Add a die after a miss</option>
+              </select>
+            </div>
+            {rule.modifier.reroll?.type === 'add-on-miss' && (
+              <div>
+                <label className={labelClassName}>Die After Miss</label>
+                <input
+                  type="text"
+                  value={rule.modifier.reroll.dice}
+                  onChange={(e) => updateRuleModifier(index, { reroll: { type: 'add-on-miss', dice: e.target.value.trim() } })}
+                  className={inputClassName}
+                  placeholder="1d8"
                 />
               </div>
-              
-              <div className="flex justify-end space-x-3">
-                <button
-                  onClick={() => setSelectedHook(null)}
-                  className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
-                >
-                  Cancel
-                </button>
-                <button
-                  onClick={saveHook}
-                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
-                >
-                  Save Hook
-                </button>
-              </div>
+            )}
+          </>
+        )}
+
+        {(rule.hook === 'onHit' || rule.hook === 'onCrit') && (
+          <>
+            <div>
+              <label className={labelClassName}>Extra Dice</label>
+              <input
+                type="text"
+                value={rule.modifier.dice || ''}
+                onChange={(e) => updateRuleModifier(index, { dice: e.target.value.trim() })}
+                className={inputClassName}
+                placeholder="1d6"
+              />
             </div>
-          </div>
+            <div>
+              <label className={labelClassName}>Damage Type</label>
+              <input
+                type="text"
+                value={rule.modifier.damageType || ''}
+                onChange={(e) => updateRuleModifier(index, { damageType: e.target.value.trim() })}
+                className={inputClassName}
+                placeholder="fire"
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>Flat Bonus</label>
+              <input
+                type="number"
+                value={rule.modifier.bonus ?? ''}
+                onChange={(e) => updateRuleModifier(index, { bonus: parseOptionalNumber(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>Reroll Weapon Dice On</label>
+              <input
+                type="text"
+                value={Array.isArray(rule.modifier.reroll?.condition) ? rule.modifier.reroll.condition.join(', ') : ''}
+                onChange={(e) => {
+                  const faces = e.target.value.split(',').map(face => parseInt(face, 10)).filter(face => !isNaN(face));
+                  updateRuleModifier(index, { reroll: faces.length ? { condition: faces } : undefined });
+                }}
+                className={inputClassName}
+                placeholder="1, 2"
+              />
+            </div>
+          </>
+        )}
+
+        {rule.hook === 'onSave' && (
+          <>
+            <div>
+              <label className={labelClassName}>Save DC</label>
+              <input
+                type="number"
+                value={rule.modifier.dcBonus ?? ''}
+                onChange={(e) => updateRuleModifier(index, { dcBonus: parseOptionalNumber(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>Target Rolls With</label>
+              <select
+                value={rule.modifier.advantageState || ''}
+                onChange={(e) => updateRuleModifier(index, { advantageState: e.target.value || undefined })}
+                className={inputClassName}
+              >
+                <option value="">Normal</option>
+                <option value="advantage">Advantage</option>
+                <option value="disadvantage">Disadvantage</option>
+              </select>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Conditions */}
+      <div className="space-y-3 pt-3 border-t border-gray-100 dark:border-gray-700">
+        <div className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Applies when</div>
+        <div>
+          <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">Weapon has any of</div>
+          <ToggleChips
+            options={WEAPON_PROPERTIES}
+            selected={rule.when?.weaponProperties || []}
+            onChange={(weaponProperties) => updateCondition(index, { weaponProperties })}
+          />
         </div>
-      )}
+        <div>
+          <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">Target is any of</div>
+          <ToggleChips
+            options={CREATURE_TYPES}
+            selected={rule.when?.targetTypes || []}
+            onChange={(targetTypes) => updateCondition(index, { targetTypes })}
+          />
+        </div>
+        <div>
+          <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">Target has any condition</div>
+          <ToggleChips
+            options={TARGET_CONDITIONS}
+            selected={rule.when?.targetConditions || []}
+            onChange={(targetConditions) => updateCondition(index, { targetConditions })}
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={Boolean(rule.when?.advantage)}
+              onChange={(e) => updateCondition(index, { advantage: e.target.checked })}
+            />
+            <span>With advantage</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={Boolean(rule.when?.firstAttackOnly)}
+              onChange={(e) => updateCondition(index, { firstAttackOnly: e.target.checked })}
+            />
+            <span>First attack only</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <span>From level</span>
+            <input
+              type="number"
+              min={1}
+              max={20}
+              value={rule.when?.minLevel ?? ''}
+              onChange={(e) => updateCondition(index, { minLevel: parseOptionalNumber(e.target.value) })}
+              className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+            />
+          </label>
+        </div>
+        <div>
+          <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">And the expression holds</div>
+          <ExpressionInput
+            value={rule.when?.expression || ''}
+            onChange={(expression) => updateCondition(index, { expression: expression.trim() ? expression : undefined })}
+            placeholder='e.g. target.type in ["undead", "fiend"]'
+          />
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderRulesTab = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Each rule adds a modifier at one stage of an attack or save, optionally only when its conditions hold.
+      </p>
+      <ExpressionFieldReference />
+      {rules.map(renderRule)}
+      <button
+        onClick={() => updateField('rules', [...rules, emptyRule('onHit')])}
+        className="px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700"
+      >
+        Add Rule
+      </button>
     </div>
   );
 
@@ -488,51 +632,30 @@ export const HomebrewEditor: React.FC<HomebrewEditorProps> = ({
         <p className="text-gray-700 dark:text-gray-300 mb-4">
           {formData.description || 'No description provided'}
         </p>
-        
-        <div className="grid grid-cols-2 gap-4 text-sm">
-          <div>
-            <span className="font-medium">Category:</span> {formData.category}
-          </div>
-          <div>
-            <span className="font-medium">Source:</span> {formData.source?.book}
-          </div>
-          {formData.class && (
-            <div>
-              <span className="font-medium">Class:</span> {formData.class}
-            </div>
-          )}
-          {formData.level !== undefined && (
-            <div>
-              <span className="font-medium">Level:</span> {formData.level}
-            </div>
-          )}
-        </div>
-        
-        {Object.keys(formData.hooks || {}).length > 0 && (
-          <div className="mt-4">
-            <span className="font-medium">Configured Hooks:</span>
-            <div className="flex flex-wrap gap-2 mt-2">
-              {Object.keys(formData.hooks || {}).map(hookKey => (
-                <span
-                  key={hookKey}
-                  className="px-2 py-1 bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 rounded-full text-xs"
-                >
-                  {AVAILABLE_HOOKS.find(h => h.key === hookKey)?.label || hookKey}
-                </span>
-              ))}
-            </div>
-          </div>
+        {appliesWhen && (
+          <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">
+            Applies when <code>{appliesWhen}</code>
+          </p>
+        )}
+
+        {rules.length > 0 ? (
+          <ul className="list-disc list-inside text-sm text-gray-700 dark:text-gray-300 space-y-1">
+            {rules.map((rule, index) => (
+              <li key={index}>{describeEffectRule(rule)}</li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No rules yet</p>
         )}
       </div>
-      
-      {/* Validation Results */}
-      {!validationResult.valid && (
+
+      {errors.length > 0 && (
         <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
           <h5 className="font-medium text-red-800 dark:text-red-400 mb-2">
             Validation Errors:
           </h5>
           <ul className="list-disc list-inside text-sm text-red-700 dark:text-red-300 space-y-1">
-            {validationResult.errors.map((error, index) => (
+            {errors.map((error, index) => (
               <li key={index}>{error}</li>
             ))}
           </ul>
@@ -560,13 +683,13 @@ export const HomebrewEditor: React.FC<HomebrewEditorProps> = ({
         {/* Tabs */}
         <div className="flex border-b border-gray-200 dark:border-gray-700">
           {[
-            { id: 'basic', label: 'Basic Info' },
-            { id: 'hooks', label: 'Hooks & Logic' },
-            { id: 'preview', label: 'Preview' }
+            { id: 'basic' as const, label: 'Basic Info' },
+            { id: 'rules' as const, label: `Rules (${rules.length})` },
+            { id: 'preview' as const, label: 'Preview' }
           ].map(tab => (
             <button
               key={tab.id}
-              onClick={() => setActiveTab(tab.id as any)}
+              onClick={() => setActiveTab(tab.id)}
               className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
                 activeTab === tab.id
                   ? 'border-blue-500 text-blue-600 dark:text-blue-400'
@@ -581,14 +704,14 @@ export const HomebrewEditor: React.FC<HomebrewEditorProps> = ({
         {/* Content */}
         <div className="p-6 overflow-y-auto max-h-[60vh]">
           {activeTab === 'basic' && renderBasicTab()}
-          {activeTab === 'hooks' && renderHooksTab()}
+          {activeTab === 'rules' && renderRulesTab()}
           {activeTab === 'preview' && renderPreviewTab()}
         </div>
 
         {/* Footer */}
         <div className="flex justify-between items-center p-6 border-t border-gray-200 dark:border-gray-700">
           <div className="text-xs text-gray-500 dark:text-gray-400">
-            Create custom effects with JavaScript hooks for complex behaviors
+            Homebrew effects are saved with your builds and applied by every simulator
           </div>
           <div className="space-x-3">
             <button
@@ -599,7 +722,7 @@ export const HomebrewEditor: React.FC<HomebrewEditorProps> = ({
             </button>
             <button
               onClick={handleSave}
-              disabled={!validationResult.valid}
+              disabled={errors.length > 0}
               className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Save Effect
@@ -609,4 +732,4 @@ export const HomebrewEditor: React.FC<HomebrewEditorProps> = ({
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,113 @@
+/**
+ * Active Effects Panel
+ * Buffs assumed active for the simulations, which effects stacking rules kept or suppressed,
+ * and what each bonus or penalty die and reroll does to the hit chance
+ */
+
+import React from 'react';
+import type { Effect } from '../../types/effects';
+import { findLibraryEffect, type EffectStack } from '../../engine/effectHooks';
+import type { SourceHitChange } from '../../engine/probability';
+
+// Library effects the simulations know how to apply as pre-combat buffs
+const BUFF_IDS = ['bless', 'bardic-inspiration', 'hex', 'hunters-mark', 'haste', 'magic-weapon'];
+
+interface ActiveEffectsPanelProps {
+  precast: string[];
+  onPrecastChange: (precast: string[]) => void;
+  builds: Array<{ name: string; color: string; stack: EffectStack; hitChanges: SourceHitChange[] }>;
+  targetAC: number;
+  className?: string;
+}
+
+const formatHitChange = (change: number): string => {
+  const points = change * 100;
+  return `${points >= 0 ? '+' : ''}${points.toFixed(1)}% hit`;
+};
+
+export const ActiveEffectsPanel: React.FC<ActiveEffectsPanelProps> = ({
+  precast,
+  onPrecastChange,
+  builds,
+  targetAC,
+  className = ''
+}) => {
+  const buffs = BUFF_IDS.map(findLibraryEffect).filter((effect): effect is Effect => Boolean(effect));
+
+  const togglePrecast = (name: string) => {
+    onPrecastChange(precast.includes(name) ? precast.filter(spell => spell !== name) : [...precast, name]);
+  };
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 ${className}`}>
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Active Effects</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Pre-combat buffs for the Monte Carlo, encounter and control simulations, in casting order. Dice and reroll badges show the exact hit chance change against AC {targetAC}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-3 mb-4">
+        {buffs.map(buff => (
+          <label key={buff.id} className="flex items-center space-x-2 text-sm text-gray-900 dark:text-white">
+            <input
+              type="checkbox"
+              checked={precast.includes(buff.name)}
+              onChange={() => togglePrecast(buff.name)}
+            />
+            <span>{buff.name}</span>
+            {buff.duration?.concentration && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">(C)</span>
+            )}
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {builds.map(({ name, color, stack, hitChanges }) => (
+          <div key={name} className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 space-y-2">
+            <div className="flex items-center space-x-2">
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: color }}></span>
+              <span className="font-medium text-gray-900 dark:text-white">{name}</span>
+            </div>
+
+            {stack.active.length === 0 ? (
+              <div className="text-sm text-gray-500 dark:text-gray-400">No library effects</div>
+            ) : (
+              <div className="flex flex-wrap gap-1">
+                {stack.active.map(effect => (
+                  <span key={effect.id} className="px-2 py-0.5 rounded bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300 text-xs">
+                    {effect.name}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {hitChanges.length > 0 && (
+              <div className="flex flex-wrap gap-1" title={`Exact change in the first attack's hit chance against AC ${targetAC}`}>
+                {hitChanges.map(({ source, dice, hitChange }) => (
+                  <span
+                    key={source}
+                    className={`px-2 py-0.5 rounded text-xs ${
+                      hitChange >= 0
+                        ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300'
+                        : 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+                    }`}
+                  >
+                    {stack.active.find(effect => effect.id === source)?.name || source}{dice.length > 0 ? ` (${dice.join(', ')})` : ''}: {formatHitChange(hitChange)}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {stack.suppressed.map(({ effect, reason }, index) => (
+              <div key={`${effect.id}-${index}`} className="text-xs text-amber-700 dark:text-amber-300">
+                <span className="line-through">{effect.name}</span> — {reason}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
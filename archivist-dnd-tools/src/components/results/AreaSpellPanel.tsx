@@ -0,0 +1,151 @@
+/**
+ * Area Spell Panel
+ * Expected area spell damage against an encounter, with a separate save for each creature
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { Build } from '../../types/build';
+import { getCharacterLevel } from '../../utils/buildConversion';
+import {
+  calculateAreaSpellDamage,
+  calculateSpellSaveDC
+} from '../../utils/spellCalculations';
+import { ENCOUNTER_PACKS } from '../../data/encounters/encounterPacks';
+import { SPELL_CATALOG } from '../../data/spellCatalog';
+
+interface AreaSpellPanelProps {
+  builds: Array<{ build: Build; name: string; color: string }>;
+  className?: string;
+}
+
+// Save-based damage spells that can catch more than one creature
+const AREA_SPELLS = Object.values(SPELL_CATALOG)
+  .filter(spell => spell.resolution === 'save' && spell.level > 0)
+  .filter(spell => {
+    const casting = spell.castings[spell.level];
+    return Boolean(casting?.damage) && (casting.targets || 1) > 1;
+  })
+  .sort((a, b) => a.level - b.level || a.name.localeCompare(b.name));
+
+export const AreaSpellPanel: React.FC<AreaSpellPanelProps> = ({
+  builds,
+  className = ''
+}) => {
+  const [spellId, setSpellId] = useState<string>('fireball');
+  const [slotLevel, setSlotLevel] = useState<number>(3);
+  const [packId, setPackId] = useState<string>('early-game-humanoids');
+  const [copies, setCopies] = useState<number>(1);
+
+  const spell = SPELL_CATALOG[spellId];
+  const pack = ENCOUNTER_PACKS[packId];
+
+  const analyses = useMemo(() => {
+    if (!spell || !pack) return [];
+    const targets = Array.from({ length: copies }, () => pack.enemies).flat();
+
+    return builds.map(({ build, name, color }) => {
+      const level = getCharacterLevel(build);
+      const result = calculateAreaSpellDamage(spell, level, slotLevel, targets, calculateSpellSaveDC(build, level));
+      return { name, color, result };
+    });
+  }, [builds, spell, slotLevel, pack, copies]);
+
+  const selectSpell = (id: string) => {
+    setSpellId(id);
+    setSlotLevel(SPELL_CATALOG[id]?.level || 1);
+  };
+
+  const formatPercent = (value: number): string => `${(value * 100).toFixed(0)}%`;
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Area Spell Damage
+        </h3>
+        <div className="flex items-center space-x-4">
+          <select
+            value={spellId}
+            onChange={(e) => selectSpell(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded text-sm bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          >
+            {AREA_SPELLS.map(areaSpell => (
+              <option key={areaSpell.id} value={areaSpell.id}>{areaSpell.name}</option>
+            ))}
+          </select>
+          <select
+            value={slotLevel}
+            onChange={(e) => setSlotLevel(parseInt(e.target.value))}
+            className="px-2 py-1 border border-gray-300 rounded text-sm bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          >
+            {Object.keys(spell?.castings || {}).map(level => (
+              <option key={level} value={level}>Level {level} slot</option>
+            ))}
+          </select>
+          <select
+            value={packId}
+            onChange={(e) => setPackId(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded text-sm bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          >
+            {Object.values(ENCOUNTER_PACKS).map(encounterPack => (
+              <option key={encounterPack.id} value={encounterPack.id}>{encounterPack.name}</option>
+            ))}
+          </select>
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-700 dark:text-gray-300">×</label>
+            <input
+              type="number"
+              min="1"
+              max="10"
+              value={copies}
+              onChange={(e) => setCopies(Math.max(1, Math.min(10, parseInt(e.target.value) || 1)))}
+              className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+          </div>
+        </div>
+      </div>
+
+      {analyses.length === 0 ? (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+          Select builds to see area spell damage
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {analyses.map(({ name, color, result }) => (
+            <div key={name} className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 space-y-3">
+              <div className="flex items-center space-x-2">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: color }}></span>
+                <span className="font-medium text-gray-900 dark:text-white">{name}</span>
+              </div>
+
+              <div>
+                <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                  {result.totalExpectedDamage.toFixed(1)}
+                </div>
+                <div className="text-sm text-gray-600 dark:text-gray-400">
+                  total expected damage (DC {result.spellSaveDC}, {result.baseDamage.toFixed(1)} base)
+                </div>
+              </div>
+
+              <div className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
+                {result.targets.map((target, index) => (
+                  <div key={`${target.name}-${index}`} className="flex justify-between">
+                    <span>
+                      {target.name} ({target.saveBonus >= 0 ? '+' : ''}{target.saveBonus})
+                      {target.hasEvasion && ' · Evasion'}
+                      {target.hasMagicResistance && ' · Magic Res.'}
+                      {target.damageMultiplier === 0 && ' · Immune'}
+                    </span>
+                    <span>
+                      {target.expectedDamage.toFixed(1)} ({formatPercent(target.saveChance)} save)
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -20,6 +20,7 @@ export interface DPRCalculationResult {
       oncePerTurn: number;
       spellDamage: number;
       otherSources: number;
+      limitedRerolls: string[];
     };
     conditions: {
       normal: number;
@@ -255,6 +256,11 @@ const DPROverview: React.FC<{ result: DPRCalculationResult; targetAC: number }>
             </div>
           )}
         </div>
+        {dpr.breakdown.limitedRerolls.length > 0 && (
+          <p className="mt-3 text-xs text-gray-500">
+            Not counted per round: {dpr.breakdown.limitedRerolls.join(', ')} (limited uses per rest; the Monte Carlo simulation spends them)
+          </p>
+        )}
       </div>
 
       {/* Power Attack Recommendation */}
@@ -0,0 +1,138 @@
+/**
+ * Damage Distribution Panel
+ * Shows exact round damage odds computed by discrete convolution
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { Build } from '../../types/build';
+import { DPRAnalysisEngine } from '../../utils/dprAnalysis';
+import { getProbabilityAtLeast, summarizeDistribution } from '../../engine/damage';
+
+interface DamageDistributionPanelProps {
+  builds: Array<{ build: Build; name: string; color: string }>;
+  targetAC: number;
+  className?: string;
+}
+
+export const DamageDistributionPanel: React.FC<DamageDistributionPanelProps> = ({
+  builds,
+  targetAC,
+  className = ''
+}) => {
+  const [threshold, setThreshold] = useState<number>(20);
+  const [advantageState, setAdvantageState] = useState<'normal' | 'advantage' | 'disadvantage'>('normal');
+
+  const distributions = useMemo(() => {
+    return builds.map(({ build, name, color }) => {
+      const distribution = DPRAnalysisEngine.calculateRoundDistribution(build, targetAC, advantageState);
+      return { name, color, distribution, summary: summarizeDistribution(distribution) };
+    });
+  }, [builds, targetAC, advantageState]);
+
+  const maxDamage = Math.max(1, ...distributions.map(d => d.summary.max));
+  const maxProbability = Math.max(0.01, ...distributions.flatMap(d => d.distribution));
+
+  const formatPercent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Round Damage Odds
+        </h3>
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-700 dark:text-gray-300">At least:</label>
+            <input
+              type="number"
+              min="1"
+              max="500"
+              value={threshold}
+              onChange={(e) => setThreshold(parseInt(e.target.value) || 1)}
+              className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+            <span className="text-sm text-gray-500 dark:text-gray-400">damage</span>
+          </div>
+          <select
+            value={advantageState}
+            onChange={(e) => setAdvantageState(e.target.value as 'normal' | 'advantage' | 'disadvantage')}
+            className="px-2 py-1 border border-gray-300 rounded text-sm bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          >
+            <option value="normal">Normal</option>
+            <option value="advantage">Advantage</option>
+            <option value="disadvantage">Disadvantage</option>
+          </select>
+        </div>
+      </div>
+
+      {distributions.length === 0 ? (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+          Select builds to see round damage odds
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {distributions.map(({ name, color, distribution, summary }) => (
+              <div key={name} className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+                <div className="flex items-center space-x-2 mb-2">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: color }}></span>
+                  <span className="font-medium text-gray-900 dark:text-white">{name}</span>
+                </div>
+                <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                  {formatPercent(getProbabilityAtLeast(distribution, threshold))}
+                </div>
+                <div className="text-sm text-gray-600 dark:text-gray-400">
+                  chance of {threshold}+ damage this round
+                </div>
+                <div className="mt-3 grid grid-cols-3 gap-2 text-xs text-gray-600 dark:text-gray-400">
+                  <div>
+                    <div className="font-semibold text-gray-900 dark:text-white">{summary.mean.toFixed(1)}</div>
+                    Mean
+                  </div>
+                  <div>
+                    <div className="font-semibold text-gray-900 dark:text-white">{summary.percentiles[50]}</div>
+                    Median
+                  </div>
+                  <div>
+                    <div className="font-semibold text-gray-900 dark:text-white">{summary.percentiles[90]}</div>
+                    90th %
+                  </div>
+                </div>
+                <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  Miss everything: {formatPercent(distribution[0] || 0)}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Probability mass by damage */}
+          <div className="space-y-3">
+            {distributions.map(({ name, color, distribution }) => (
+              <div key={name}>
+                <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">{name}</div>
+                <div className="flex items-end h-24 border-b border-gray-200 dark:border-gray-600">
+                  {Array.from({ length: maxDamage + 1 }, (_, damage) => (
+                    <div
+                      key={damage}
+                      className="flex-1"
+                      title={`${damage} damage: ${formatPercent(distribution[damage] || 0)}`}
+                      style={{
+                        height: `${((distribution[damage] || 0) / maxProbability) * 100}%`,
+                        backgroundColor: color,
+                        opacity: damage >= threshold ? 1 : 0.4
+                      }}
+                    ></div>
+                  ))}
+                </div>
+              </div>
+            ))}
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+              <span>0</span>
+              <span>{maxDamage} damage</span>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+/**
+ * Encounter Simulation Panel
+ * Monte Carlo results for builds fighting a whole encounter pack with target switching
+ */
+
+import React from 'react';
+import type { EncounterSimulationResults } from '../../engine/monteCarlo';
+import { ENCOUNTER_PACKS } from '../../data/encounters/encounterPacks';
+
+interface EncounterSimulationPanelProps {
+  packId: string;
+  onPackChange: (packId: string) => void;
+  onRun: () => void;
+  isRunning: boolean;
+  results: Array<{ name: string; color: string; results: EncounterSimulationResults }>;
+  className?: string;
+}
+
+export const EncounterSimulationPanel: React.FC<EncounterSimulationPanelProps> = ({
+  packId,
+  onPackChange,
+  onRun,
+  isRunning,
+  results,
+  className = ''
+}) => {
+  const pack = ENCOUNTER_PACKS[packId];
+  const formatPercent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Encounter Simulation
+          </h3>
+          {pack && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {pack.enemies.map(enemy => `${enemy.name} (${enemy.hitPoints} HP, AC ${enemy.armorClass})`).join(', ')}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center space-x-4">
+          <select
+            value={packId}
+            onChange={(e) => onPackChange(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded text-sm bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          >
+            {Object.values(ENCOUNTER_PACKS).map(encounterPack => (
+              <option key={encounterPack.id} value={encounterPack.id}>
+                {encounterPack.name} ({encounterPack.enemies.length} enemies)
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={onRun}
+            disabled={isRunning}
+            className="px-3 py-2 bg-orange-200 text-orange-700 rounded-md hover:bg-orange-300 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRunning ? 'Running...' : 'Run Encounter'}
+          </button>
+        </div>
+      </div>
+
+      {results.length === 0 ? (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+          Run the encounter to simulate each selected build against the whole pack
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {results.map(({ name, color, results: encounter }) => (
+            <div key={name} className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 space-y-3">
+              <div className="flex items-center space-x-2">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: color }}></span>
+                <span className="font-medium text-gray-900 dark:text-white">{name}</span>
+              </div>
+
+              <div className="grid grid-cols-3 gap-2 text-sm">
+                <div>
+                  <div className="text-xl font-bold text-gray-900 dark:text-white">
+                    {encounter.duration.clearRate > 0 ? encounter.duration.mean.toFixed(1) : `>${encounter.maxRounds}`}
+                  </div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400">Avg rounds</div>
+                </div>
+                <div>
+                  <div className="text-xl font-bold text-gray-900 dark:text-white">
+                    {encounter.overkill.mean.toFixed(1)}
+                  </div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400">
+                    Overkill ({formatPercent(encounter.overkill.rate)})
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xl font-bold text-gray-900 dark:text-white">
+                    {formatPercent(encounter.duration.clearRate)}
+                  </div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400">Cleared</div>
+                </div>
+              </div>
+
+              <div className="text-xs text-gray-600 dark:text-gray-400">
+                Survives {formatPercent(encounter.survival.probability)} · takes {encounter.survival.damageTaken.mean.toFixed(1)} damage
+                {encounter.concentration.spell &&
+                  ` · ${encounter.concentration.spell} up ${formatPercent(encounter.concentration.uptime)}, ${encounter.concentration.dprLost.toFixed(1)} DPR lost`}
+              </div>
+
+              {/* Enemies standing at the end of each round */}
+              <div className="space-y-1">
+                {encounter.enemiesStandingByRound.slice(0, 6).map((standing, index) => (
+                  <div key={index} className="flex items-center space-x-2 text-xs">
+                    <span className="w-16 text-gray-600 dark:text-gray-400">Round {index + 1}</span>
+                    <div className="flex-1 bg-gray-200 dark:bg-gray-600 rounded-full h-2">
+                      <div
+                        className="h-2 rounded-full"
+                        style={{
+                          width: `${encounter.enemies.length > 0 ? (standing / encounter.enemies.length) * 100 : 0}%`,
+                          backgroundColor: color
+                        }}
+                      ></div>
+                    </div>
+                    <span className="w-12 text-right text-gray-900 dark:text-white">{standing.toFixed(1)} up</span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
+                {encounter.enemies.map((enemy, index) => (
+                  <div key={`${enemy.name}-${index}`} className="flex justify-between">
+                    <span>{enemy.name}</span>
+                    <span>
+                      {enemy.killRate > 0
+                        ? `${formatPercent(enemy.killRate)} killed, ~round ${enemy.averageRoundOfDeath.toFixed(1)}`
+                        : 'survives'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {encounter.runs} runs · seed {encounter.seed}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
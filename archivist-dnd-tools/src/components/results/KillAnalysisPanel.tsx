@@ -0,0 +1,183 @@
+/**
+ * Kill Analysis Panel
+ * Rounds-to-kill odds against a single enemy or a whole encounter pack
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { Build } from '../../types/build';
+import { DPRAnalysisEngine } from '../../utils/dprAnalysis';
+import { analyzeEncounterKill } from '../../engine/killAnalysis';
+import { ENEMY_TEMPLATES, ENCOUNTER_PACKS } from '../../data/encounters/encounterPacks';
+
+interface KillAnalysisPanelProps {
+  builds: Array<{ build: Build; name: string; color: string }>;
+  targetAC: number;
+  className?: string;
+}
+
+const MAX_ROUNDS = 10;
+
+export const KillAnalysisPanel: React.FC<KillAnalysisPanelProps> = ({
+  builds,
+  targetAC,
+  className = ''
+}) => {
+  // 'custom', 'enemy:<id>' or 'pack:<id>'
+  const [targetSource, setTargetSource] = useState<string>('enemy:ogre');
+  const [customHP, setCustomHP] = useState<number>(60);
+
+  const enemies = useMemo(() => {
+    const [kind, id] = targetSource.split(':');
+    if (kind === 'enemy' && ENEMY_TEMPLATES[id]) {
+      const enemy = ENEMY_TEMPLATES[id];
+      return [{ name: enemy.name, hitPoints: enemy.hitPoints, armorClass: enemy.armorClass }];
+    }
+    if (kind === 'pack' && ENCOUNTER_PACKS[id]) {
+      return ENCOUNTER_PACKS[id].enemies.map(enemy => ({
+        name: enemy.name,
+        hitPoints: enemy.hitPoints,
+        armorClass: enemy.armorClass
+      }));
+    }
+    return [{ name: 'Custom Target', hitPoints: customHP, armorClass: targetAC }];
+  }, [targetSource, customHP, targetAC]);
+
+  const analyses = useMemo(() => {
+    return builds.map(({ build, name, color }) => {
+      const analysis = analyzeEncounterKill(
+        enemies.map(enemy => ({
+          name: enemy.name,
+          hitPoints: enemy.hitPoints,
+          profile: DPRAnalysisEngine.calculateRoundProfile(build, enemy.armorClass)
+        })),
+        MAX_ROUNDS
+      );
+      return { name, color, analysis };
+    });
+  }, [builds, enemies]);
+
+  const formatPercent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+  const isPack = enemies.length > 1;
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Rounds to Kill
+        </h3>
+        <div className="flex items-center space-x-4">
+          <select
+            value={targetSource}
+            onChange={(e) => setTargetSource(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded text-sm bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          >
+            <option value="custom">Custom target (AC {targetAC})</option>
+            <optgroup label="Enemies">
+              {Object.entries(ENEMY_TEMPLATES).map(([id, enemy]) => (
+                <option key={id} value={`enemy:${id}`}>
+                  {enemy.name} (AC {enemy.armorClass}, {enemy.hitPoints} HP)
+                </option>
+              ))}
+            </optgroup>
+            <optgroup label="Encounter Packs">
+              {Object.values(ENCOUNTER_PACKS).map(pack => (
+                <option key={pack.id} value={`pack:${pack.id}`}>
+                  {pack.name} ({pack.enemies.length} enemies)
+                </option>
+              ))}
+            </optgroup>
+          </select>
+          {targetSource === 'custom' && (
+            <div className="flex items-center space-x-2">
+              <label className="text-sm text-gray-700 dark:text-gray-300">HP:</label>
+              <input
+                type="number"
+                min="1"
+                max="1000"
+                value={customHP}
+                onChange={(e) => setCustomHP(parseInt(e.target.value) || 1)}
+                className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {analyses.length === 0 ? (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+          Select builds to see rounds-to-kill analysis
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {analyses.map(({ name, color, analysis }) => (
+            <div key={name} className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 space-y-3">
+              <div className="flex items-center space-x-2">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: color }}></span>
+                <span className="font-medium text-gray-900 dark:text-white">{name}</span>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <div>
+                  <div className="text-xl font-bold text-gray-900 dark:text-white">
+                    {analysis.clear.medianRounds ?? `>${MAX_ROUNDS}`}
+                  </div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400">
+                    Median rounds{isPack ? ' to clear' : ''}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xl font-bold text-gray-900 dark:text-white">
+                    {analysis.expectedOverkill.toFixed(1)}
+                  </div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400">
+                    Overkill wasted ({formatPercent(analysis.overkillRate)})
+                  </div>
+                </div>
+              </div>
+
+              {/* Cumulative kill chance by round */}
+              <div className="space-y-1">
+                {analysis.clear.byRound.slice(0, 5).map(({ round, cumulative }) => (
+                  <div key={round} className="flex items-center space-x-2 text-xs">
+                    <span className="w-16 text-gray-600 dark:text-gray-400">By round {round}</span>
+                    <div className="flex-1 bg-gray-200 dark:bg-gray-600 rounded-full h-2">
+                      <div
+                        className="h-2 rounded-full"
+                        style={{ width: `${cumulative * 100}%`, backgroundColor: color }}
+                      ></div>
+                    </div>
+                    <span className="w-12 text-right text-gray-900 dark:text-white">{formatPercent(cumulative)}</span>
+                  </div>
+                ))}
+              </div>
+
+              {isPack && (
+                <div className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
+                  {analysis.enemies.map(enemy => (
+                    <div key={enemy.name} className="flex justify-between">
+                      <span>{enemy.name}</span>
+                      <span>
+                        {enemy.survivalProbability < 1
+                          ? `dies ~round ${enemy.expectedRoundOfDeath.toFixed(1)}`
+                          : 'survives'}
+                      </span>
+                    </div>
+                  ))}
+                  <div className="pt-1">
+                    Enemies standing: {analysis.enemiesStandingByRound.slice(0, 5).map(n => n.toFixed(1)).join(' → ')}
+                  </div>
+                </div>
+              )}
+
+              {analysis.clear.unresolvedProbability > 0.001 && (
+                <div className="text-xs text-yellow-700 dark:text-yellow-400">
+                  {formatPercent(analysis.clear.unresolvedProbability)} chance the fight lasts beyond {MAX_ROUNDS} rounds
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
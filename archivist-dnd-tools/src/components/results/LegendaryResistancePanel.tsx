@@ -0,0 +1,105 @@
+/**
+ * Legendary Resistance Panel
+ * Control spells against a boss that resists the saves that matter, cast directly or after baiting
+ */
+
+import React from 'react';
+import type { LegendaryResistanceResults } from '../../engine/monteCarlo';
+
+export interface LegendaryResistanceComparison {
+  name: string;
+  color: string;
+  spells: string[]; // control spells the build knows
+  direct: LegendaryResistanceResults | null;
+  bait: LegendaryResistanceResults | null;
+}
+
+interface LegendaryResistancePanelProps {
+  legendaryResistances: number;
+  onRun: () => void;
+  isRunning: boolean;
+  results: LegendaryResistanceComparison[];
+  className?: string;
+}
+
+export const LegendaryResistancePanel: React.FC<LegendaryResistancePanelProps> = ({
+  legendaryResistances,
+  onRun,
+  isRunning,
+  results,
+  className = ''
+}) => {
+  const formatPercent = (value: number): string => `${(value * 100).toFixed(0)}%`;
+
+  const renderPolicy = (label: string, policy: LegendaryResistanceResults | null, isBetter: boolean) => {
+    if (!policy) return null;
+    return (
+      <div className={`p-3 rounded ${isBetter ? 'bg-green-50 dark:bg-green-900/20' : 'bg-white dark:bg-gray-800'}`}>
+        <div className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">{label}</div>
+        <div className="text-xl font-bold text-gray-900 dark:text-white">{policy.landedEffects.mean.toFixed(2)}</div>
+        <div className="text-xs text-gray-600 dark:text-gray-400">real control effects landed</div>
+        <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          {formatPercent(policy.landedEffects.atLeastOneRate)} land one
+          {policy.averageFirstLandedRound > 0 && `, ~round ${policy.averageFirstLandedRound.toFixed(1)}`}
+          {' · '}{formatPercent(policy.controlledRounds.share)} of rounds controlled
+        </div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          {policy.resistancesSpent.toFixed(1)} resistances burned · {policy.slotsSpent.toFixed(1)} slots
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Legendary Resistance
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {legendaryResistances > 0
+              ? `Boss with ${legendaryResistances} Legendary Resistances, spent only on effects that matter`
+              : 'Set Legendary Resistances in the target panel to model a boss'}
+          </p>
+        </div>
+        <button
+          onClick={onRun}
+          disabled={isRunning}
+          className="px-3 py-2 bg-purple-200 text-purple-700 rounded-md hover:bg-purple-300 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRunning ? 'Running...' : 'Run Control Simulation'}
+        </button>
+      </div>
+
+      {results.length === 0 ? (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+          Compare casting the best control spell directly against burning resistances with cheap spells first
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {results.map(({ name, color, spells, direct, bait }) => (
+            <div key={name} className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 space-y-3">
+              <div className="flex items-center space-x-2">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: color }}></span>
+                <span className="font-medium text-gray-900 dark:text-white">{name}</span>
+              </div>
+
+              {spells.length === 0 ? (
+                <div className="text-sm text-gray-500 dark:text-gray-400">No control spells known</div>
+              ) : (
+                <>
+                  <div className="text-xs text-gray-600 dark:text-gray-400">{spells.join(', ')}</div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {renderPolicy('Best spell first', direct, !!direct && !!bait && direct.landedEffects.mean > bait.landedEffects.mean)}
+                    {renderPolicy('Bait with cheap spells', bait, !!direct && !!bait && bait.landedEffects.mean > direct.landedEffects.mean)}
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
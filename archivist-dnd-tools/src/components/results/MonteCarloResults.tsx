@@ -58,6 +58,64 @@ export const MonteCarloResultsComponent: React.FC<MonteCarloResultsProps> = ({
         </div>
       </div>
 
+      {/* Survival Summary */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+        <h4 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+          Survival
+        </h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+          <div className="text-center p-2 bg-gray-50 dark:bg-gray-700 rounded">
+            <div className="font-semibold text-gray-900 dark:text-white">
+              {formatNumber(results.survival.probability * 100, 1)}%
+            </div>
+            <div className="text-gray-600 dark:text-gray-400">Still standing</div>
+          </div>
+          <div className="text-center p-2 bg-gray-50 dark:bg-gray-700 rounded">
+            <div className="font-semibold text-gray-900 dark:text-white">
+              {formatNumber(results.survival.damageTaken.mean, 1)}
+            </div>
+            <div className="text-gray-600 dark:text-gray-400">Damage taken</div>
+          </div>
+          <div className="text-center p-2 bg-gray-50 dark:bg-gray-700 rounded">
+            <div className="font-semibold text-gray-900 dark:text-white">
+              {formatNumber(results.concentration.checksPerRun, 1)}
+            </div>
+            <div className="text-gray-600 dark:text-gray-400">
+              Concentration checks ({formatNumber(results.concentration.failureRate * 100, 0)}% failed)
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Concentration Summary */}
+      {results.concentration.spell && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+          <h4 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+            Concentration: {results.concentration.spell}
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+            <div className="text-center p-2 bg-gray-50 dark:bg-gray-700 rounded">
+              <div className="font-semibold text-gray-900 dark:text-white">
+                {formatNumber(results.concentration.uptime * 100, 1)}%
+              </div>
+              <div className="text-gray-600 dark:text-gray-400">Uptime after casting</div>
+            </div>
+            <div className="text-center p-2 bg-gray-50 dark:bg-gray-700 rounded">
+              <div className="font-semibold text-gray-900 dark:text-white">
+                {formatNumber(results.concentration.failureRate * 100, 1)}%
+              </div>
+              <div className="text-gray-600 dark:text-gray-400">Saves failed</div>
+            </div>
+            <div className="text-center p-2 bg-gray-50 dark:bg-gray-700 rounded">
+              <div className="font-semibold text-gray-900 dark:text-white">
+                {formatNumber(results.concentration.dprLost)}
+              </div>
+              <div className="text-gray-600 dark:text-gray-400">DPR lost to broken concentration</div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Damage Distribution Summary */}
       <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
         <h4 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
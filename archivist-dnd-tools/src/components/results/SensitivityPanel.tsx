@@ -0,0 +1,145 @@
+/**
+ * Sensitivity Panel
+ * Ranks the DPR gained from changing one input at a time across an AC range
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { Build } from '../../types/build';
+import { DPRAnalysisEngine, type SensitivityResult } from '../../utils/dprAnalysis';
+
+interface SensitivityPanelProps {
+  builds: Array<{ build: Build; name: string; color: string }>;
+  acRange: { min: number; max: number };
+  className?: string;
+}
+
+const CATEGORY_LABELS: Record<SensitivityResult['category'], string> = {
+  ability: 'Ability',
+  attack: 'Accuracy',
+  damage: 'Damage',
+  item: 'Item',
+  feat: 'Feat',
+  buff: 'Buff'
+};
+
+const MAX_AC_COLUMNS = 6;
+
+export const SensitivityPanel: React.FC<SensitivityPanelProps> = ({
+  builds,
+  acRange,
+  className = ''
+}) => {
+  const [selectedIndex, setSelectedIndex] = useState<number>(0);
+  const selected = builds[Math.min(selectedIndex, builds.length - 1)];
+
+  const analysis = useMemo(() => {
+    return selected ? DPRAnalysisEngine.calculateSensitivity(selected.build, acRange) : null;
+  }, [selected, acRange]);
+
+  // A handful of evenly spaced ACs keeps the table readable over wide ranges
+  const columns = useMemo(() => {
+    const acs = analysis?.baseline.map(point => point.ac) || [];
+    if (acs.length <= MAX_AC_COLUMNS) return acs;
+    const step = (acs.length - 1) / (MAX_AC_COLUMNS - 1);
+    return Array.from({ length: MAX_AC_COLUMNS }, (_, index) => acs[Math.round(index * step)]);
+  }, [analysis]);
+
+  // Next level-up choice: the +2 ability increase against the best feat
+  const asi = analysis?.results.find(result => result.id === 'ability-2');
+  const bestFeat = analysis?.results.find(result => result.category === 'feat');
+
+  const formatChange = (value: number): string => `${value >= 0 ? '+' : ''}${value.toFixed(1)}`;
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          What Adds the Most DPR
+        </h3>
+        {builds.length > 1 && (
+          <select
+            value={Math.min(selectedIndex, builds.length - 1)}
+            onChange={(e) => setSelectedIndex(parseInt(e.target.value))}
+            className="px-2 py-1 border border-gray-300 rounded text-sm bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          >
+            {builds.map(({ name }, index) => (
+              <option key={name} value={index}>{name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {!analysis ? (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+          Select builds to see which upgrades add the most damage
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {asi && bestFeat && (
+            <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-md text-sm text-blue-900 dark:text-blue-200">
+              Next ASI: {bestFeat.averageChange > asi.averageChange ? bestFeat.label : asi.label} adds more on average
+              ({formatChange(Math.max(bestFeat.averageChange, asi.averageChange))} vs{' '}
+              {formatChange(Math.min(bestFeat.averageChange, asi.averageChange))} DPR over AC {acRange.min}–{acRange.max})
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Change</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Type</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Average</th>
+                  {columns.map(ac => (
+                    <th key={ac} className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">
+                      AC {ac}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                <tr className="text-sm text-gray-500 dark:text-gray-400">
+                  <td className="px-3 py-2">Current DPR</td>
+                  <td className="px-3 py-2"></td>
+                  <td className="px-3 py-2"></td>
+                  {columns.map(ac => (
+                    <td key={ac} className="px-3 py-2 text-right">
+                      {analysis.baseline.find(point => point.ac === ac)?.dpr.toFixed(1)}
+                    </td>
+                  ))}
+                </tr>
+                {analysis.results.map((result, rank) => (
+                  <tr key={result.id} className={rank === 0 ? 'bg-green-50 dark:bg-green-900/20' : ''}>
+                    <td className="px-3 py-2 text-sm font-medium text-gray-900 dark:text-white">{result.label}</td>
+                    <td className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">{CATEGORY_LABELS[result.category]}</td>
+                    <td className="px-3 py-2 text-sm text-right font-semibold text-gray-900 dark:text-white">
+                      {formatChange(result.averageChange)}
+                    </td>
+                    {columns.map(ac => {
+                      const change = result.dprByAC.find(point => point.ac === ac)?.change || 0;
+                      return (
+                        <td
+                          key={ac}
+                          className={`px-3 py-2 text-sm text-right ${
+                            change > 0.05 ? 'text-green-700 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'
+                          }`}
+                        >
+                          {formatChange(change)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Each row changes one thing and keeps the rest of the build as it is. Great Weapon Master and
+            Sharpshooter use the -5/+10 only at ACs where it adds damage; Bless and advantage apply to every attack.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
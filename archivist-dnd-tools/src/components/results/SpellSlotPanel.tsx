@@ -0,0 +1,94 @@
+/**
+ * Spell Slot Panel
+ * Expected spell damage at every slot level a build has, and the slot each spell is best cast with
+ */
+
+import React, { useMemo } from 'react';
+import type { Build } from '../../types/build';
+import { calculateBuildSpellDamage, getAvailableSlotLevels } from '../../utils/spellCalculations';
+
+interface SpellSlotPanelProps {
+  builds: Array<{ build: Build; name: string; color: string }>;
+  target: {
+    ac: number;
+    saves: Record<string, number>;
+  };
+  className?: string;
+}
+
+export const SpellSlotPanel: React.FC<SpellSlotPanelProps> = ({
+  builds,
+  target,
+  className = ''
+}) => {
+  const analyses = useMemo(() => {
+    return builds
+      .map(({ build, name, color }) => ({
+        name,
+        color,
+        slotLevels: getAvailableSlotLevels(build),
+        spells: calculateBuildSpellDamage(build, target)
+      }))
+      .filter(analysis => analysis.spells.length > 0);
+  }, [builds, target]);
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 ${className}`}>
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+        Spell Damage by Slot Level
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Expected damage against AC {target.ac}; the highlighted slot is the one each spell is cast with
+      </p>
+
+      {analyses.length === 0 ? (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+          Select builds with damage spells to compare slot levels
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {analyses.map(({ name, color, slotLevels, spells }) => (
+            <div key={name}>
+              <div className="flex items-center space-x-2 mb-2">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: color }}></span>
+                <span className="font-medium text-gray-900 dark:text-white">{name}</span>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 dark:text-gray-400">
+                      <th className="py-1 pr-4 font-medium">Spell</th>
+                      <th className="py-1 pr-4 font-medium">Cantrip</th>
+                      {slotLevels.map(level => (
+                        <th key={level} className="py-1 pr-4 font-medium">Level {level}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {spells.map(spell => (
+                      <tr key={spell.name} className="border-t border-gray-100 dark:border-gray-700">
+                        <td className="py-1 pr-4 text-gray-900 dark:text-white">{spell.name}</td>
+                        {[0, ...slotLevels].map(level => {
+                          const slot = spell.damageBySlot.find(entry => entry.slotLevel === level);
+                          const chosen = slot?.slotLevel === spell.slotLevel;
+                          return (
+                            <td
+                              key={level}
+                              className={`py-1 pr-4 ${chosen ? 'font-semibold text-blue-600 dark:text-blue-400' : 'text-gray-600 dark:text-gray-400'}`}
+                            >
+                              {slot ? slot.averageDamage.toFixed(1) : '—'}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -93,8 +93,235 @@ const rangerFeatures: ClassFeature[] = [
   { name: 'Foe Slayer', description: 'Add Wisdom modifier to one attack or damage roll per turn against favored enemies', level: 20, class: 'Ranger', category: 'core' }
 ];
 
+// Barbarian class progression
+const barbarianFeatures: ClassFeature[] = [
+  { name: 'Rage', description: 'Bonus action rage: +2 melee damage, resistance to physical damage (2/long rest)', level: 1, class: 'Barbarian', category: 'core' },
+  { name: 'Unarmored Defense', description: 'AC equals 10 + Dexterity + Constitution modifiers without armor', level: 1, class: 'Barbarian', category: 'core' },
+  { name: 'Reckless Attack', description: 'Advantage on Strength melee attacks; attacks against you have advantage', level: 2, class: 'Barbarian', category: 'core' },
+  { name: 'Danger Sense', description: 'Advantage on Dexterity saves against effects you can see', level: 2, class: 'Barbarian', category: 'core' },
+  { name: 'Primal Path', description: 'Choose your Barbarian subclass', level: 3, class: 'Barbarian', category: 'subclass' },
+  { name: 'Rage (3 uses)', description: 'Rage three times per long rest', level: 3, class: 'Barbarian', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 4, class: 'Barbarian', category: 'asi' },
+  { name: 'Extra Attack', description: 'Attack twice when you take the Attack action', level: 5, class: 'Barbarian', category: 'core' },
+  { name: 'Fast Movement', description: 'Speed increases by 10 feet without heavy armor', level: 5, class: 'Barbarian', category: 'core' },
+  { name: 'Primal Path Feature', description: 'Gain a subclass feature', level: 6, class: 'Barbarian', category: 'subclass' },
+  { name: 'Rage (4 uses)', description: 'Rage four times per long rest', level: 6, class: 'Barbarian', category: 'core' },
+  { name: 'Feral Instinct', description: 'Advantage on initiative and act while surprised if you rage', level: 7, class: 'Barbarian', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 8, class: 'Barbarian', category: 'asi' },
+  { name: 'Brutal Critical (1 die)', description: 'Roll one additional weapon damage die on a melee critical hit', level: 9, class: 'Barbarian', category: 'core' },
+  { name: 'Rage Damage (+3)', description: 'Rage damage bonus increases to +3', level: 9, class: 'Barbarian', category: 'core' },
+  { name: 'Primal Path Feature', description: 'Gain a subclass feature', level: 10, class: 'Barbarian', category: 'subclass' },
+  { name: 'Relentless Rage', description: 'Constitution save to drop to 1 hit point instead of 0 while raging', level: 11, class: 'Barbarian', category: 'core' },
+  { name: 'Rage (5 uses)', description: 'Rage five times per long rest', level: 12, class: 'Barbarian', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 12, class: 'Barbarian', category: 'asi' },
+  { name: 'Brutal Critical (2 dice)', description: 'Roll two additional weapon damage dice on a melee critical hit', level: 13, class: 'Barbarian', category: 'core' },
+  { name: 'Primal Path Feature', description: 'Gain a subclass feature', level: 14, class: 'Barbarian', category: 'subclass' },
+  { name: 'Persistent Rage', description: 'Rage only ends early if you fall unconscious or choose to end it', level: 15, class: 'Barbarian', category: 'core' },
+  { name: 'Rage Damage (+4)', description: 'Rage damage bonus increases to +4', level: 16, class: 'Barbarian', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 16, class: 'Barbarian', category: 'asi' },
+  { name: 'Brutal Critical (3 dice)', description: 'Roll three additional weapon damage dice on a melee critical hit', level: 17, class: 'Barbarian', category: 'core' },
+  { name: 'Rage (6 uses)', description: 'Rage six times per long rest', level: 17, class: 'Barbarian', category: 'core' },
+  { name: 'Indomitable Might', description: 'Use your Strength score if a Strength check total is lower', level: 18, class: 'Barbarian', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 19, class: 'Barbarian', category: 'asi' },
+  { name: 'Primal Champion', description: 'Strength and Constitution increase by 4, to a maximum of 24', level: 20, class: 'Barbarian', category: 'core' },
+  { name: 'Unlimited Rage', description: 'Rage without limit', level: 20, class: 'Barbarian', category: 'core' }
+];
+
+// Bard class progression
+const bardFeatures: ClassFeature[] = [
+  { name: 'Spellcasting', description: 'Learn and cast bard spells using Charisma', level: 1, class: 'Bard', category: 'spell' },
+  { name: 'Bardic Inspiration (d6)', description: 'Bonus action to give an ally a d6 to add to one roll', level: 1, class: 'Bard', category: 'core' },
+  { name: 'Jack of All Trades', description: 'Add half proficiency bonus to ability checks without proficiency', level: 2, class: 'Bard', category: 'core' },
+  { name: 'Song of Rest (d6)', description: 'Allies regain an extra 1d6 hit points on a short rest', level: 2, class: 'Bard', category: 'core' },
+  { name: 'Bard College', description: 'Choose your Bard subclass', level: 3, class: 'Bard', category: 'subclass' },
+  { name: 'Expertise', description: 'Double proficiency bonus for two chosen skills', level: 3, class: 'Bard', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 4, class: 'Bard', category: 'asi' },
+  { name: 'Bardic Inspiration (d8)', description: 'Bardic Inspiration die becomes a d8', level: 5, class: 'Bard', category: 'core' },
+  { name: 'Font of Inspiration', description: 'Regain Bardic Inspiration on a short or long rest', level: 5, class: 'Bard', category: 'core' },
+  { name: 'Countercharm', description: 'Allies within 30 feet have advantage on saves against fear and charm', level: 6, class: 'Bard', category: 'core' },
+  { name: 'Bard College Feature', description: 'Gain a subclass feature', level: 6, class: 'Bard', category: 'subclass' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 8, class: 'Bard', category: 'asi' },
+  { name: 'Song of Rest (d8)', description: 'Song of Rest die becomes a d8', level: 9, class: 'Bard', category: 'core' },
+  { name: 'Bardic Inspiration (d10)', description: 'Bardic Inspiration die becomes a d10', level: 10, class: 'Bard', category: 'core' },
+  { name: 'Expertise', description: 'Choose two more skills for Expertise', level: 10, class: 'Bard', category: 'core' },
+  { name: 'Magical Secrets', description: 'Learn two spells from any class', level: 10, class: 'Bard', category: 'spell' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 12, class: 'Bard', category: 'asi' },
+  { name: 'Song of Rest (d10)', description: 'Song of Rest die becomes a d10', level: 13, class: 'Bard', category: 'core' },
+  { name: 'Magical Secrets', description: 'Learn two more spells from any class', level: 14, class: 'Bard', category: 'spell' },
+  { name: 'Bard College Feature', description: 'Gain a subclass feature', level: 14, class: 'Bard', category: 'subclass' },
+  { name: 'Bardic Inspiration (d12)', description: 'Bardic Inspiration die becomes a d12', level: 15, class: 'Bard', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 16, class: 'Bard', category: 'asi' },
+  { name: 'Song of Rest (d12)', description: 'Song of Rest die becomes a d12', level: 17, class: 'Bard', category: 'core' },
+  { name: 'Magical Secrets', description: 'Learn two more spells from any class', level: 18, class: 'Bard', category: 'spell' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 19, class: 'Bard', category: 'asi' },
+  { name: 'Superior Inspiration', description: 'Regain one Bardic Inspiration use when you roll initiative with none left', level: 20, class: 'Bard', category: 'core' }
+];
+
+// Cleric class progression
+const clericFeatures: ClassFeature[] = [
+  { name: 'Spellcasting', description: 'Prepare and cast cleric spells using Wisdom', level: 1, class: 'Cleric', category: 'spell' },
+  { name: 'Divine Domain', description: 'Choose your Cleric subclass', level: 1, class: 'Cleric', category: 'subclass' },
+  { name: 'Channel Divinity (1/rest)', description: 'Turn Undead or a domain effect once per short rest', level: 2, class: 'Cleric', category: 'core' },
+  { name: 'Divine Domain Feature', description: 'Gain a subclass feature', level: 2, class: 'Cleric', category: 'subclass' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 4, class: 'Cleric', category: 'asi' },
+  { name: 'Destroy Undead (CR 1/2)', description: 'Turned undead of CR 1/2 or lower are destroyed', level: 5, class: 'Cleric', category: 'core' },
+  { name: 'Channel Divinity (2/rest)', description: 'Use Channel Divinity twice per short rest', level: 6, class: 'Cleric', category: 'core' },
+  { name: 'Divine Domain Feature', description: 'Gain a subclass feature', level: 6, class: 'Cleric', category: 'subclass' },
+  { name: 'Destroy Undead (CR 1)', description: 'Turned undead of CR 1 or lower are destroyed', level: 8, class: 'Cleric', category: 'core' },
+  { name: 'Divine Domain Feature', description: 'Gain a subclass feature', level: 8, class: 'Cleric', category: 'subclass' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 8, class: 'Cleric', category: 'asi' },
+  { name: 'Divine Intervention', description: 'Call on your deity to intervene', level: 10, class: 'Cleric', category: 'core' },
+  { name: 'Destroy Undead (CR 2)', description: 'Turned undead of CR 2 or lower are destroyed', level: 11, class: 'Cleric', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 12, class: 'Cleric', category: 'asi' },
+  { name: 'Destroy Undead (CR 3)', description: 'Turned undead of CR 3 or lower are destroyed', level: 14, class: 'Cleric', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 16, class: 'Cleric', category: 'asi' },
+  { name: 'Destroy Undead (CR 4)', description: 'Turned undead of CR 4 or lower are destroyed', level: 17, class: 'Cleric', category: 'core' },
+  { name: 'Divine Domain Feature', description: 'Gain a subclass feature', level: 17, class: 'Cleric', category: 'subclass' },
+  { name: 'Channel Divinity (3/rest)', description: 'Use Channel Divinity three times per short rest', level: 18, class: 'Cleric', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 19, class: 'Cleric', category: 'asi' },
+  { name: 'Divine Intervention Improvement', description: 'Divine Intervention succeeds automatically', level: 20, class: 'Cleric', category: 'core' }
+];
+
+// Druid class progression
+const druidFeatures: ClassFeature[] = [
+  { name: 'Druidic', description: 'Secret language of druids', level: 1, class: 'Druid', category: 'core' },
+  { name: 'Spellcasting', description: 'Prepare and cast druid spells using Wisdom', level: 1, class: 'Druid', category: 'spell' },
+  { name: 'Wild Shape', description: 'Transform into a beast twice per short rest', level: 2, class: 'Druid', category: 'core' },
+  { name: 'Druid Circle', description: 'Choose your Druid subclass', level: 2, class: 'Druid', category: 'subclass' },
+  { name: 'Wild Shape Improvement', description: 'Wild Shape into beasts of CR 1/2 that can swim', level: 4, class: 'Druid', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 4, class: 'Druid', category: 'asi' },
+  { name: 'Druid Circle Feature', description: 'Gain a subclass feature', level: 6, class: 'Druid', category: 'subclass' },
+  { name: 'Wild Shape Improvement', description: 'Wild Shape into beasts of CR 1 that can fly', level: 8, class: 'Druid', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 8, class: 'Druid', category: 'asi' },
+  { name: 'Druid Circle Feature', description: 'Gain a subclass feature', level: 10, class: 'Druid', category: 'subclass' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 12, class: 'Druid', category: 'asi' },
+  { name: 'Druid Circle Feature', description: 'Gain a subclass feature', level: 14, class: 'Druid', category: 'subclass' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 16, class: 'Druid', category: 'asi' },
+  { name: 'Timeless Body', description: 'Age one year for every ten that pass', level: 18, class: 'Druid', category: 'core' },
+  { name: 'Beast Spells', description: 'Cast spells while in Wild Shape', level: 18, class: 'Druid', category: 'spell' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 19, class: 'Druid', category: 'asi' },
+  { name: 'Archdruid', description: 'Use Wild Shape without limit', level: 20, class: 'Druid', category: 'core' }
+];
+
+// Monk class progression
+const monkFeatures: ClassFeature[] = [
+  { name: 'Unarmored Defense', description: 'AC equals 10 + Dexterity + Wisdom modifiers without armor or shield', level: 1, class: 'Monk', category: 'core' },
+  { name: 'Martial Arts (d4)', description: 'Dexterity for unarmed strikes and monk weapons, bonus action unarmed strike', level: 1, class: 'Monk', category: 'core' },
+  { name: 'Ki', description: 'Ki points fuel Flurry of Blows, Patient Defense and Step of the Wind', level: 2, class: 'Monk', category: 'core' },
+  { name: 'Unarmored Movement', description: 'Speed increases by 10 feet without armor or shield', level: 2, class: 'Monk', category: 'core' },
+  { name: 'Monastic Tradition', description: 'Choose your Monk subclass', level: 3, class: 'Monk', category: 'subclass' },
+  { name: 'Deflect Missiles', description: 'Reaction to reduce damage from ranged weapon attacks', level: 3, class: 'Monk', category: 'core' },
+  { name: 'Slow Fall', description: 'Reaction to reduce falling damage', level: 4, class: 'Monk', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 4, class: 'Monk', category: 'asi' },
+  { name: 'Extra Attack', description: 'Attack twice when you take the Attack action', level: 5, class: 'Monk', category: 'core' },
+  { name: 'Stunning Strike', description: 'Spend 1 ki on a hit to force a Constitution save or be stunned', level: 5, class: 'Monk', category: 'core' },
+  { name: 'Martial Arts (d6)', description: 'Martial Arts die becomes a d6', level: 5, class: 'Monk', category: 'core' },
+  { name: 'Ki-Empowered Strikes', description: 'Unarmed strikes count as magical', level: 6, class: 'Monk', category: 'core' },
+  { name: 'Monastic Tradition Feature', description: 'Gain a subclass feature', level: 6, class: 'Monk', category: 'subclass' },
+  { name: 'Evasion', description: 'Take no damage on a successful Dexterity save for half damage', level: 7, class: 'Monk', category: 'core' },
+  { name: 'Stillness of Mind', description: 'Action to end a charm or fear effect on yourself', level: 7, class: 'Monk', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 8, class: 'Monk', category: 'asi' },
+  { name: 'Unarmored Movement Improvement', description: 'Move along vertical surfaces and across liquids', level: 9, class: 'Monk', category: 'core' },
+  { name: 'Purity of Body', description: 'Immunity to disease and poison', level: 10, class: 'Monk', category: 'core' },
+  { name: 'Monastic Tradition Feature', description: 'Gain a subclass feature', level: 11, class: 'Monk', category: 'subclass' },
+  { name: 'Martial Arts (d8)', description: 'Martial Arts die becomes a d8', level: 11, class: 'Monk', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 12, class: 'Monk', category: 'asi' },
+  { name: 'Tongue of the Sun and Moon', description: 'Understand all spoken languages', level: 13, class: 'Monk', category: 'core' },
+  { name: 'Diamond Soul', description: 'Proficiency in all saving throws; spend 1 ki to reroll a failed save', level: 14, class: 'Monk', category: 'core' },
+  { name: 'Timeless Body', description: 'No frailty of old age and no need for food or water', level: 15, class: 'Monk', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 16, class: 'Monk', category: 'asi' },
+  { name: 'Monastic Tradition Feature', description: 'Gain a subclass feature', level: 17, class: 'Monk', category: 'subclass' },
+  { name: 'Martial Arts (d10)', description: 'Martial Arts die becomes a d10', level: 17, class: 'Monk', category: 'core' },
+  { name: 'Empty Body', description: 'Spend ki to become invisible or cast astral projection', level: 18, class: 'Monk', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 19, class: 'Monk', category: 'asi' },
+  { name: 'Perfect Self', description: 'Regain 4 ki points when you roll initiative with none left', level: 20, class: 'Monk', category: 'core' }
+];
+
+// Paladin class progression
+const paladinFeatures: ClassFeature[] = [
+  { name: 'Divine Sense', description: 'Detect celestials, fiends and undead nearby', level: 1, class: 'Paladin', category: 'core' },
+  { name: 'Lay on Hands', description: 'Pool of healing equal to 5 x Paladin level', level: 1, class: 'Paladin', category: 'core' },
+  { name: 'Fighting Style', description: 'Choose a fighting style', level: 2, class: 'Paladin', category: 'core' },
+  { name: 'Spellcasting', description: 'Prepare and cast paladin spells using Charisma', level: 2, class: 'Paladin', category: 'spell' },
+  { name: 'Divine Smite', description: 'Expend a spell slot on a melee hit for 2d8 radiant damage, +1d8 per slot level', level: 2, class: 'Paladin', category: 'core' },
+  { name: 'Divine Health', description: 'Immunity to disease', level: 3, class: 'Paladin', category: 'core' },
+  { name: 'Sacred Oath', description: 'Choose your Paladin subclass', level: 3, class: 'Paladin', category: 'subclass' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 4, class: 'Paladin', category: 'asi' },
+  { name: 'Extra Attack', description: 'Attack twice when you take the Attack action', level: 5, class: 'Paladin', category: 'core' },
+  { name: 'Aura of Protection', description: 'You and allies within 10 feet add your Charisma modifier to saves', level: 6, class: 'Paladin', category: 'core' },
+  { name: 'Sacred Oath Feature', description: 'Gain a subclass feature', level: 7, class: 'Paladin', category: 'subclass' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 8, class: 'Paladin', category: 'asi' },
+  { name: 'Aura of Courage', description: 'You and allies within 10 feet can\'t be frightened', level: 10, class: 'Paladin', category: 'core' },
+  { name: 'Improved Divine Smite', description: 'Melee weapon hits deal an extra 1d8 radiant damage', level: 11, class: 'Paladin', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 12, class: 'Paladin', category: 'asi' },
+  { name: 'Cleansing Touch', description: 'End one spell on yourself or a willing creature', level: 14, class: 'Paladin', category: 'core' },
+  { name: 'Sacred Oath Feature', description: 'Gain a subclass feature', level: 15, class: 'Paladin', category: 'subclass' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 16, class: 'Paladin', category: 'asi' },
+  { name: 'Aura Improvements', description: 'Aura range increases to 30 feet', level: 18, class: 'Paladin', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 19, class: 'Paladin', category: 'asi' },
+  { name: 'Sacred Oath Feature', description: 'Gain a subclass feature', level: 20, class: 'Paladin', category: 'subclass' }
+];
+
+// Sorcerer class progression
+const sorcererFeatures: ClassFeature[] = [
+  { name: 'Spellcasting', description: 'Learn and cast sorcerer spells using Charisma', level: 1, class: 'Sorcerer', category: 'spell' },
+  { name: 'Sorcerous Origin', description: 'Choose your Sorcerer subclass', level: 1, class: 'Sorcerer', category: 'subclass' },
+  { name: 'Font of Magic', description: 'Sorcery points convert to and from spell slots', level: 2, class: 'Sorcerer', category: 'core' },
+  { name: 'Metamagic', description: 'Choose two Metamagic options', level: 3, class: 'Sorcerer', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 4, class: 'Sorcerer', category: 'asi' },
+  { name: 'Sorcerous Origin Feature', description: 'Gain a subclass feature', level: 6, class: 'Sorcerer', category: 'subclass' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 8, class: 'Sorcerer', category: 'asi' },
+  { name: 'Metamagic', description: 'Choose another Metamagic option', level: 10, class: 'Sorcerer', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 12, class: 'Sorcerer', category: 'asi' },
+  { name: 'Sorcerous Origin Feature', description: 'Gain a subclass feature', level: 14, class: 'Sorcerer', category: 'subclass' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 16, class: 'Sorcerer', category: 'asi' },
+  { name: 'Metamagic', description: 'Choose another Metamagic option', level: 17, class: 'Sorcerer', category: 'core' },
+  { name: 'Sorcerous Origin Feature', description: 'Gain a subclass feature', level: 18, class: 'Sorcerer', category: 'subclass' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 19, class: 'Sorcerer', category: 'asi' },
+  { name: 'Sorcerous Restoration', description: 'Regain 4 sorcery points on a short rest', level: 20, class: 'Sorcerer', category: 'core' }
+];
+
+// Warlock class progression
+const warlockFeatures: ClassFeature[] = [
+  { name: 'Otherworldly Patron', description: 'Choose your Warlock subclass', level: 1, class: 'Warlock', category: 'subclass' },
+  { name: 'Pact Magic', description: 'Cast warlock spells with slots that return on a short rest', level: 1, class: 'Warlock', category: 'spell' },
+  { name: 'Eldritch Invocations', description: 'Choose two invocations', level: 2, class: 'Warlock', category: 'core' },
+  { name: 'Pact Boon', description: 'Choose Pact of the Chain, Blade or Tome', level: 3, class: 'Warlock', category: 'core' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 4, class: 'Warlock', category: 'asi' },
+  { name: 'Otherworldly Patron Feature', description: 'Gain a subclass feature', level: 6, class: 'Warlock', category: 'subclass' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 8, class: 'Warlock', category: 'asi' },
+  { name: 'Otherworldly Patron Feature', description: 'Gain a subclass feature', level: 10, class: 'Warlock', category: 'subclass' },
+  { name: 'Mystic Arcanum (6th level)', description: 'Cast one 6th-level spell once per long rest', level: 11, class: 'Warlock', category: 'spell' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 12, class: 'Warlock', category: 'asi' },
+  { name: 'Mystic Arcanum (7th level)', description: 'Cast one 7th-level spell once per long rest', level: 13, class: 'Warlock', category: 'spell' },
+  { name: 'Otherworldly Patron Feature', description: 'Gain a subclass feature', level: 14, class: 'Warlock', category: 'subclass' },
+  { name: 'Mystic Arcanum (8th level)', description: 'Cast one 8th-level spell once per long rest', level: 15, class: 'Warlock', category: 'spell' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 16, class: 'Warlock', category: 'asi' },
+  { name: 'Mystic Arcanum (9th level)', description: 'Cast one 9th-level spell once per long rest', level: 17, class: 'Warlock', category: 'spell' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 19, class: 'Warlock', category: 'asi' },
+  { name: 'Eldritch Master', description: 'Regain all Pact Magic slots once per long rest', level: 20, class: 'Warlock', category: 'core' }
+];
+
+// Wizard class progression
+const wizardFeatures: ClassFeature[] = [
+  { name: 'Spellcasting', description: 'Prepare and cast wizard spells from your spellbook using Intelligence', level: 1, class: 'Wizard', category: 'spell' },
+  { name: 'Arcane Recovery', description: 'Recover spell slots on a short rest once per day', level: 1, class: 'Wizard', category: 'core' },
+  { name: 'Arcane Tradition', description: 'Choose your Wizard subclass', level: 2, class: 'Wizard', category: 'subclass' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 4, class: 'Wizard', category: 'asi' },
+  { name: 'Arcane Tradition Feature', description: 'Gain a subclass feature', level: 6, class: 'Wizard', category: 'subclass' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 8, class: 'Wizard', category: 'asi' },
+  { name: 'Arcane Tradition Feature', description: 'Gain a subclass feature', level: 10, class: 'Wizard', category: 'subclass' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 12, class: 'Wizard', category: 'asi' },
+  { name: 'Arcane Tradition Feature', description: 'Gain a subclass feature', level: 14, class: 'Wizard', category: 'subclass' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 16, class: 'Wizard', category: 'asi' },
+  { name: 'Spell Mastery', description: 'Cast a chosen 1st- and 2nd-level spell at will', level: 18, class: 'Wizard', category: 'spell' },
+  { name: 'Ability Score Improvement', description: 'Increase ability scores or take a feat', level: 19, class: 'Wizard', category: 'asi' },
+  { name: 'Signature Spells', description: 'Two 3rd-level spells always prepared, each castable once per short rest', level: 20, class: 'Wizard', category: 'spell' }
+];
+
 // Spell slot progressions
-const rangerSpellSlots = [
+// Half casters (Paladin, Ranger): no slots at 1st level, up to 5th-level spells
+const halfCasterSpellSlots = [
   { level: 1, 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
   { level: 2, 1: 2, 2: 0, 3: 0, 4: 0, 5: 0 },
   { level: 3, 1: 3, 2: 0, 3: 0, 4: 0, 5: 0 },
@@ -117,6 +344,54 @@ const rangerSpellSlots = [
   { level: 20, 1: 4, 2: 3, 3: 3, 4: 3, 5: 2 }
 ];
 
+// Full casters (Bard, Cleric, Druid, Sorcerer, Wizard)
+const fullCasterSpellSlots = [
+  { level: 1, 1: 2, 2: 0, 3: 0, 4: 0, 5: 0, 6: 0, 7: 0, 8: 0, 9: 0 },
+  { level: 2, 1: 3, 2: 0, 3: 0, 4: 0, 5: 0, 6: 0, 7: 0, 8: 0, 9: 0 },
+  { level: 3, 1: 4, 2: 2, 3: 0, 4: 0, 5: 0, 6: 0, 7: 0, 8: 0, 9: 0 },
+  { level: 4, 1: 4, 2: 3, 3: 0, 4: 0, 5: 0, 6: 0, 7: 0, 8: 0, 9: 0 },
+  { level: 5, 1: 4, 2: 3, 3: 2, 4: 0, 5: 0, 6: 0, 7: 0, 8: 0, 9: 0 },
+  { level: 6, 1: 4, 2: 3, 3: 3, 4: 0, 5: 0, 6: 0, 7: 0, 8: 0, 9: 0 },
+  { level: 7, 1: 4, 2: 3, 3: 3, 4: 1, 5: 0, 6: 0, 7: 0, 8: 0, 9: 0 },
+  { level: 8, 1: 4, 2: 3, 3: 3, 4: 2, 5: 0, 6: 0, 7: 0, 8: 0, 9: 0 },
+  { level: 9, 1: 4, 2: 3, 3: 3, 4: 3, 5: 1, 6: 0, 7: 0, 8: 0, 9: 0 },
+  { level: 10, 1: 4, 2: 3, 3: 3, 4: 3, 5: 2, 6: 0, 7: 0, 8: 0, 9: 0 },
+  { level: 11, 1: 4, 2: 3, 3: 3, 4: 3, 5: 2, 6: 1, 7: 0, 8: 0, 9: 0 },
+  { level: 12, 1: 4, 2: 3, 3: 3, 4: 3, 5: 2, 6: 1, 7: 0, 8: 0, 9: 0 },
+  { level: 13, 1: 4, 2: 3, 3: 3, 4: 3, 5: 2, 6: 1, 7: 1, 8: 0, 9: 0 },
+  { level: 14, 1: 4, 2: 3, 3: 3, 4: 3, 5: 2, 6: 1, 7: 1, 8: 0, 9: 0 },
+  { level: 15, 1: 4, 2: 3, 3: 3, 4: 3, 5: 2, 6: 1, 7: 1, 8: 1, 9: 0 },
+  { level: 16, 1: 4, 2: 3, 3: 3, 4: 3, 5: 2, 6: 1, 7: 1, 8: 1, 9: 0 },
+  { level: 17, 1: 4, 2: 3, 3: 3, 4: 3, 5: 2, 6: 1, 7: 1, 8: 1, 9: 1 },
+  { level: 18, 1: 4, 2: 3, 3: 3, 4: 3, 5: 3, 6: 1, 7: 1, 8: 1, 9: 1 },
+  { level: 19, 1: 4, 2: 3, 3: 3, 4: 3, 5: 3, 6: 2, 7: 1, 8: 1, 9: 1 },
+  { level: 20, 1: 4, 2: 3, 3: 3, 4: 3, 5: 3, 6: 2, 7: 2, 8: 1, 9: 1 }
+];
+
+// Pact Magic: fewer slots, all at the same level, back on a short rest
+const warlockPactMagic = [
+  { level: 1, slots: 1, slotLevel: 1 },
+  { level: 2, slots: 2, slotLevel: 1 },
+  { level: 3, slots: 2, slotLevel: 2 },
+  { level: 4, slots: 2, slotLevel: 2 },
+  { level: 5, slots: 2, slotLevel: 3 },
+  { level: 6, slots: 2, slotLevel: 3 },
+  { level: 7, slots: 2, slotLevel: 4 },
+  { level: 8, slots: 2, slotLevel: 4 },
+  { level: 9, slots: 2, slotLevel: 5 },
+  { level: 10, slots: 2, slotLevel: 5 },
+  { level: 11, slots: 3, slotLevel: 5 },
+  { level: 12, slots: 3, slotLevel: 5 },
+  { level: 13, slots: 3, slotLevel: 5 },
+  { level: 14, slots: 3, slotLevel: 5 },
+  { level: 15, slots: 3, slotLevel: 5 },
+  { level: 16, slots: 3, slotLevel: 5 },
+  { level: 17, slots: 4, slotLevel: 5 },
+  { level: 18, slots: 4, slotLevel: 5 },
+  { level: 19, slots: 4, slotLevel: 5 },
+  { level: 20, slots: 4, slotLevel: 5 }
+];
+
 // Class progression data
 export const classProgressions: Record<string, ClassProgression> = {
   Fighter: {
@@ -164,12 +439,166 @@ export const classProgressions: Record<string, ClassProgression> = {
     weaponProficiencies: ['Simple weapons', 'Martial weapons'],
     armorProficiencies: ['Light armor', 'Medium armor', 'Shields'],
     features: rangerFeatures,
-    spellSlots: rangerSpellSlots,
+    spellSlots: halfCasterSpellSlots,
     attacksPerAction: [
       { level: 1, attacks: 1 },
       { level: 5, attacks: 2 }
     ],
     proficiencyBonus: standardProficiencyBonus
+  },
+
+  Barbarian: {
+    class: 'Barbarian',
+    hitDie: 12,
+    primaryAbility: ['Strength'],
+    savingThrowProficiencies: ['Strength', 'Constitution'],
+    skillChoices: 2,
+    availableSkills: ['Animal Handling', 'Athletics', 'Intimidation', 'Nature', 'Perception', 'Survival'],
+    weaponProficiencies: ['Simple weapons', 'Martial weapons'],
+    armorProficiencies: ['Light armor', 'Medium armor', 'Shields'],
+    features: barbarianFeatures,
+    attacksPerAction: [
+      { level: 1, attacks: 1 },
+      { level: 5, attacks: 2 }
+    ],
+    proficiencyBonus: standardProficiencyBonus
+  },
+
+  Bard: {
+    class: 'Bard',
+    hitDie: 8,
+    primaryAbility: ['Charisma'],
+    savingThrowProficiencies: ['Dexterity', 'Charisma'],
+    skillChoices: 3,
+    availableSkills: ['Acrobatics', 'Animal Handling', 'Arcana', 'Athletics', 'Deception', 'History', 'Insight', 'Intimidation', 'Investigation', 'Medicine', 'Nature', 'Perception', 'Performance', 'Persuasion', 'Religion', 'Sleight of Hand', 'Stealth', 'Survival'],
+    weaponProficiencies: ['Simple weapons', 'Hand crossbows', 'Longswords', 'Rapiers', 'Shortswords'],
+    armorProficiencies: ['Light armor'],
+    features: bardFeatures,
+    spellSlots: fullCasterSpellSlots,
+    attacksPerAction: [
+      { level: 1, attacks: 1 }
+    ],
+    proficiencyBonus: standardProficiencyBonus
+  },
+
+  Cleric: {
+    class: 'Cleric',
+    hitDie: 8,
+    primaryAbility: ['Wisdom'],
+    savingThrowProficiencies: ['Wisdom', 'Charisma'],
+    skillChoices: 2,
+    availableSkills: ['History', 'Insight', 'Medicine', 'Persuasion', 'Religion'],
+    weaponProficiencies: ['Simple weapons'],
+    armorProficiencies: ['Light armor', 'Medium armor', 'Shields'],
+    features: clericFeatures,
+    spellSlots: fullCasterSpellSlots,
+    attacksPerAction: [
+      { level: 1, attacks: 1 }
+    ],
+    proficiencyBonus: standardProficiencyBonus
+  },
+
+  Druid: {
+    class: 'Druid',
+    hitDie: 8,
+    primaryAbility: ['Wisdom'],
+    savingThrowProficiencies: ['Intelligence', 'Wisdom'],
+    skillChoices: 2,
+    availableSkills: ['Arcana', 'Animal Handling', 'Insight', 'Medicine', 'Nature', 'Perception', 'Religion', 'Survival'],
+    weaponProficiencies: ['Clubs', 'Daggers', 'Darts', 'Javelins', 'Maces', 'Quarterstaffs', 'Scimitars', 'Sickles', 'Slings', 'Spears'],
+    armorProficiencies: ['Light armor', 'Medium armor', 'Shields (nonmetal)'],
+    features: druidFeatures,
+    spellSlots: fullCasterSpellSlots,
+    attacksPerAction: [
+      { level: 1, attacks: 1 }
+    ],
+    proficiencyBonus: standardProficiencyBonus
+  },
+
+  Monk: {
+    class: 'Monk',
+    hitDie: 8,
+    primaryAbility: ['Dexterity', 'Wisdom'],
+    savingThrowProficiencies: ['Strength', 'Dexterity'],
+    skillChoices: 2,
+    availableSkills: ['Acrobatics', 'Athletics', 'History', 'Insight', 'Religion', 'Stealth'],
+    weaponProficiencies: ['Simple weapons', 'Shortswords'],
+    armorProficiencies: [],
+    features: monkFeatures,
+    attacksPerAction: [
+      { level: 1, attacks: 1 },
+      { level: 5, attacks: 2 }
+    ],
+    proficiencyBonus: standardProficiencyBonus
+  },
+
+  Paladin: {
+    class: 'Paladin',
+    hitDie: 10,
+    primaryAbility: ['Strength', 'Charisma'],
+    savingThrowProficiencies: ['Wisdom', 'Charisma'],
+    skillChoices: 2,
+    availableSkills: ['Athletics', 'Insight', 'Intimidation', 'Medicine', 'Persuasion', 'Religion'],
+    weaponProficiencies: ['Simple weapons', 'Martial weapons'],
+    armorProficiencies: ['All armor', 'Shields'],
+    features: paladinFeatures,
+    spellSlots: halfCasterSpellSlots,
+    attacksPerAction: [
+      { level: 1, attacks: 1 },
+      { level: 5, attacks: 2 }
+    ],
+    proficiencyBonus: standardProficiencyBonus
+  },
+
+  Sorcerer: {
+    class: 'Sorcerer',
+    hitDie: 6,
+    primaryAbility: ['Charisma'],
+    savingThrowProficiencies: ['Constitution', 'Charisma'],
+    skillChoices: 2,
+    availableSkills: ['Arcana', 'Deception', 'Insight', 'Intimidation', 'Persuasion', 'Religion'],
+    weaponProficiencies: ['Daggers', 'Darts', 'Slings', 'Quarterstaffs', 'Light crossbows'],
+    armorProficiencies: [],
+    features: sorcererFeatures,
+    spellSlots: fullCasterSpellSlots,
+    attacksPerAction: [
+      { level: 1, attacks: 1 }
+    ],
+    proficiencyBonus: standardProficiencyBonus
+  },
+
+  Warlock: {
+    class: 'Warlock',
+    hitDie: 8,
+    primaryAbility: ['Charisma'],
+    savingThrowProficiencies: ['Wisdom', 'Charisma'],
+    skillChoices: 2,
+    availableSkills: ['Arcana', 'Deception', 'History', 'Intimidation', 'Investigation', 'Nature', 'Religion'],
+    weaponProficiencies: ['Simple weapons'],
+    armorProficiencies: ['Light armor'],
+    features: warlockFeatures,
+    pactMagic: warlockPactMagic,
+    attacksPerAction: [
+      { level: 1, attacks: 1 }
+    ],
+    proficiencyBonus: standardProficiencyBonus
+  },
+
+  Wizard: {
+    class: 'Wizard',
+    hitDie: 6,
+    primaryAbility: ['Intelligence'],
+    savingThrowProficiencies: ['Intelligence', 'Wisdom'],
+    skillChoices: 2,
+    availableSkills: ['Arcana', 'History', 'Insight', 'Investigation', 'Medicine', 'Religion'],
+    weaponProficiencies: ['Daggers', 'Darts', 'Slings', 'Quarterstaffs', 'Light crossbows'],
+    armorProficiencies: [],
+    features: wizardFeatures,
+    spellSlots: fullCasterSpellSlots,
+    attacksPerAction: [
+      { level: 1, attacks: 1 }
+    ],
+    proficiencyBonus: standardProficiencyBonus
   }
 };
 
@@ -182,9 +611,15 @@ export const getProficiencyBonus = (level: number): number => {
   return 2;
 };
 
+// Helper function to look up a class by name in any case ("paladin", "Paladin")
+export const getClassProgression = (className: string): ClassProgression | undefined => {
+  return classProgressions[className] ||
+    Object.values(classProgressions).find(progression => progression.class.toLowerCase() === className.toLowerCase());
+};
+
 // Helper function to get attacks per action by level for a given class
 export const getAttacksPerAction = (className: string, level: number): number => {
-  const classData = classProgressions[className];
+  const classData = getClassProgression(className);
   if (!classData) return 1;
   
   let attacks = 1;
@@ -196,9 +631,17 @@ export const getAttacksPerAction = (className: string, level: number): number =>
   return attacks;
 };
 
-// Helper function to get spell slots by level for a spellcasting class
+// Helper function to get Pact Magic slots by level (Warlock)
+export const getPactMagic = (className: string, level: number): { slots: number; slotLevel: number } | null => {
+  const pactData = getClassProgression(className)?.pactMagic?.find(pact => pact.level === level);
+  return pactData ? { slots: pactData.slots, slotLevel: pactData.slotLevel } : null;
+};
+
+// Helper function to get spell slots by level for a spellcasting class; Pact Magic slots for a Warlock
 export const getSpellSlots = (className: string, level: number): Record<string, number> => {
-  const classData = classProgressions[className];
+  const classData = getClassProgression(className);
+  const pactMagic = getPactMagic(className, level);
+  if (pactMagic) return { [pactMagic.slotLevel.toString()]: pactMagic.slots };
   if (!classData || !classData.spellSlots) return {};
   
   const slotData = classData.spellSlots.find(slot => slot.level === level);
@@ -216,7 +659,7 @@ export const getSpellSlots = (className: string, level: number): Record<string,
 
 // Helper function to get class features gained at a specific level
 export const getFeaturesAtLevel = (className: string, level: number): ClassFeature[] => {
-  const classData = classProgressions[className];
+  const classData = getClassProgression(className);
   if (!classData) return [];
   
   return classData.features.filter(feature => feature.level === level);
@@ -224,7 +667,7 @@ export const getFeaturesAtLevel = (className: string, level: number): ClassFeatu
 
 // Helper function to get all features up to a given level
 export const getFeaturesUpToLevel = (className: string, level: number): ClassFeature[] => {
-  const classData = classProgressions[className];
+  const classData = getClassProgression(className);
   if (!classData) return [];
   
   return classData.features.filter(feature => feature.level <= level);
@@ -358,158 +358,6 @@ export const FEATS: Record<string, Effect> = {
   }
 };
 
-// Spells Database (Extended)
-export const COMPREHENSIVE_SPELLS: Record<string, Effect> = {
-  // Cantrips
-  'eldritch-blast': {
-    id: 'eldritch-blast',
-    name: 'Eldritch Blast',
-    description: 'A beam of crackling energy streaks toward a creature within range.',
-    source: { book: 'Player\'s Handbook', page: 237 },
-    category: 'spell',
-    level: 0,
-    school: 'evocation',
-    castingTime: 'action',
-    range: 120,
-    components: ['V', 'S'],
-    duration: 'instantaneous',
-    hooks: {
-      onCast: (context) => {
-        const level = context.characterLevel;
-        const beams = 1 + Math.floor((level - 1) / 6); // 1 at 1st, 2 at 5th, 3 at 11th, 4 at 17th
-        return {
-          attacks: beams,
-          damage: '1d10',
-          damageType: 'force',
-          attackType: 'spell'
-        };
-      }
-    }
-  },
-
-  // Concentration Spells
-  'hex': {
-    id: 'hex',
-    name: 'Hex',
-    description: 'You place a curse on a creature that you can see within range.',
-    source: { book: 'Player\'s Handbook', page: 251 },
-    category: 'spell',
-    level: 1,
-    school: 'enchantment',
-    concentration: true,
-    duration: { hours: 1 },
-    hooks: {
-      onHit: (context) => ({
-        bonusDamage: '1d6',
-        damageType: 'necrotic'
-      }),
-      onAbilityCheck: (context) => {
-        if (context.ability === context.hexedAbility) {
-          return { disadvantage: true };
-        }
-        return null;
-      }
-    }
-  },
-
-  'hunters-mark': {
-    id: 'hunters-mark',
-    name: "Hunter's Mark",
-    description: 'You choose a creature you can see within range and mystically mark it as your quarry.',
-    source: { book: 'Player\'s Handbook', page: 251 },
-    category: 'spell',
-    level: 1,
-    school: 'divination',
-    concentration: true,
-    duration: { hours: 1 },
-    hooks: {
-      onHit: (context) => ({
-        bonusDamage: '1d6',
-        damageType: 'force'
-      }),
-      onWisdomSurvival: (context) => {
-        if (context.isTracking) {
-          return { advantage: true };
-        }
-        return null;
-      }
-    }
-  },
-
-  'bless': {
-    id: 'bless',
-    name: 'Bless',
-    description: 'You bless up to three creatures of your choice within range.',
-    source: { book: 'Player\'s Handbook', page: 219 },
-    category: 'spell',
-    level: 1,
-    school: 'enchantment',
-    concentration: true,
-    duration: { minutes: 1 },
-    targets: 3,
-    hooks: {
-      onAttackRoll: () => ({ bonusDie: '1d4' }),
-      onSavingThrow: () => ({ bonusDie: '1d4' })
-    }
-  },
-
-  // Damage Spells
-  'fireball': {
-    id: 'fireball',
-    name: 'Fireball',
-    description: 'A bright flash of light streaks toward a location and explodes.',
-    source: { book: 'Player\'s Handbook', page: 241 },
-    category: 'spell',
-    level: 3,
-    school: 'evocation',
-    areaOfEffect: { type: 'sphere', radius: 20 },
-    hooks: {
-      onCast: (context) => {
-        const spellLevel = context.spellSlotLevel || 3;
-        const baseDice = 8;
-        const scalingDice = spellLevel - 3;
-        return {
-          damage: `${baseDice + scalingDice}d6`,
-          damageType: 'fire',
-          saveType: 'dexterity',
-          saveEffect: 'half'
-        };
-      }
-    }
-  },
-
-  'spiritual-weapon': {
-    id: 'spiritual-weapon',
-    name: 'Spiritual Weapon',
-    description: 'You create a floating, spectral weapon that attacks enemies.',
-    source: { book: 'Player\'s Handbook', page: 278 },
-    category: 'spell',
-    level: 2,
-    school: 'evocation',
-    concentration: false,
-    duration: { minutes: 1 },
-    hooks: {
-      onCast: (context) => ({
-        summon: 'spiritualWeapon',
-        bonusActionAttack: true
-      }),
-      onBonusAction: (context) => {
-        if (context.hasSpiritualWeapon) {
-          const spellLevel = context.spellSlotLevel || 2;
-          const damage = 1 + Math.floor((spellLevel - 2) / 2);
-          return {
-            attack: true,
-            damage: `1d8+${damage}`,
-            damageType: 'force',
-            attackType: 'spell'
-          };
-        }
-        return null;
-      }
-    }
-  }
-};
-
 // Conditions Database
 export const CONDITIONS: Record<string, Effect> = {
   'prone': {
@@ -597,12 +445,11 @@ export const MAGIC_ITEMS: Record<string, Effect> = {
   }
 };
 
-// Combine all effects into a single comprehensive database
+// Combine all effects into a single comprehensive database; spells live in data/spellCatalog
 export const COMPREHENSIVE_EFFECTS_DATABASE = {
   ...CLASS_FEATURES,
   ...FIGHTING_STYLES,
   ...FEATS,
-  ...COMPREHENSIVE_SPELLS,
   ...CONDITIONS,
   ...MAGIC_ITEMS
 };
@@ -147,10 +147,10 @@ export const feats: Record<string, Effect> = {
     source: { book: 'PHB', page: 167 },
     type: 'feat',
     hooks: {
-      onAttackRoll: () => {
-        // Can reroll dice (limited uses)
-        return {};
-      },
+      // A luck point is spent only after seeing a miss
+      onAttackRoll: () => ({
+        reroll: { type: 'reroll-on-miss' },
+      }),
     },
     modifiers: {},
     stacking: {
@@ -240,9 +240,7 @@ export const feats: Record<string, Effect> = {
     type: 'feat',
     prerequisites: ['Ability to cast at least one spell'],
     hooks: {},
-    modifiers: {
-      advantageOn: ['concentration'],
-    },
+    modifiers: {},
     stacking: {
       category: 'spellcasting',
     },
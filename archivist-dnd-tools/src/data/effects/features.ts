@@ -69,9 +69,7 @@ export const features: Record<string, Effect> = {
         return {};
       },
     },
-    modifiers: {
-      advantageOn: ['strength-saves'],
-    },
+    modifiers: {},
     stacking: {
       category: 'class-feature',
     },
@@ -310,6 +308,86 @@ export const features: Record<string, Effect> = {
     tags: ['fighter', 'battlemaster', 'maneuvers', 'short-rest'],
   },
 
+  'precision-attack': {
+    id: 'precision-attack',
+    name: 'Precision Attack',
+    description: 'When you make a weapon attack roll against a creature, you can expend one superiority die to add it to the roll. You can use this maneuver before or after making the attack roll, but before any effects of the attack are applied.',
+    source: { book: 'PHB', page: 74 },
+    type: 'feature',
+    level: 3,
+    hooks: {
+      // Spent only after a miss the die could still turn into a hit
+      onAttackRoll: (context) => {
+        if (!context.weapon) return {};
+        const fighterLevel = (context.build.levels || []).find(cl => cl.class.toLowerCase() === 'fighter')?.level || 0;
+        const die = fighterLevel >= 18 ? '1d12' : fighterLevel >= 10 ? '1d10' : '1d8';
+        return { reroll: { type: 'add-on-miss', dice: die } };
+      },
+    },
+    modifiers: {},
+    stacking: {
+      category: 'battlemaster',
+    },
+    usage: {
+      perShortRest: 4, // Superiority dice; varies by level
+    },
+    resourceCost: {
+      type: 'superiorityDie',
+      amount: 1,
+    },
+    tags: ['fighter', 'battlemaster', 'maneuvers', 'attack-bonus', 'reroll'],
+  },
+
+  'portent': {
+    id: 'portent',
+    name: 'Portent',
+    description: 'When you finish a long rest, roll two d20s and record the numbers rolled. You can replace any attack roll, saving throw, or ability check made by you or a creature that you can see with one of these foretelling rolls. You must choose to do so before the roll, and you can replace a roll in this way only once per turn.',
+    source: { book: 'PHB', page: 116 },
+    type: 'feature',
+    level: 2,
+    hooks: {
+      // Each foretelling die is used on the first attack it would hit with
+      onAttackRoll: () => ({
+        reroll: { type: 'replace' },
+      }),
+    },
+    modifiers: {},
+    stacking: {
+      category: 'divination',
+    },
+    usage: {
+      perTurn: 1,
+      perLongRest: 2, // Three from 14th level
+    },
+    tags: ['wizard', 'divination', 'reroll', 'long-rest'],
+  },
+
+  'bardic-inspiration': {
+    id: 'bardic-inspiration',
+    name: 'Bardic Inspiration',
+    description: 'A creature that has a Bardic Inspiration die can roll the die and add the number rolled to one ability check, attack roll, or saving throw it makes. The creature can wait until after it rolls the d20 before deciding to use the Bardic Inspiration die.',
+    source: { book: 'PHB', page: 53 },
+    type: 'buff',
+    level: 1,
+    hooks: {
+      // One die per inspiration, added to the turn's first attack; a d6 from a low-level bard
+      onAttackRoll: (context) => (context.attackNumber === 0 ? {
+        bonusDice: [{ dice: '1d6', type: 'bardic-inspiration' }],
+      } : {}),
+    },
+    modifiers: {},
+    stacking: {
+      category: 'bonus-dice',
+    },
+    duration: {
+      minutes: 10,
+    },
+    conditions: {
+      targetTypes: ['ally'],
+    },
+    tags: ['bard', 'support', 'attack-bonus', 'save-bonus'],
+  },
+
   'ki': {
     id: 'ki',
     name: 'Ki',
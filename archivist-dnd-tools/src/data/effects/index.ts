@@ -2,13 +2,21 @@ import type { EffectLibrary } from '../../types/effects';
 import { feats } from './feats';
 import { spells } from './spells';
 import { features } from './features';
+import { items } from './items';
+import { races } from './races';
+
+// Normalize "Great Weapon Master", "great weapon master" and "great-weapon-master" to the same id
+export const getEffectId = (name: string): string => {
+  return name.toLowerCase().replace(/'/g, '').trim().replace(/\s+/g, '-');
+};
 
 // Combine all effect libraries
 export const effectLibrary: EffectLibrary = {
   feats,
   features,
   spells,
-  items: {}, // TODO: Implement magic items
+  items,
+  races,
   conditions: {
     'prone': {
       id: 'prone',
@@ -17,10 +25,7 @@ export const effectLibrary: EffectLibrary = {
       source: { book: 'PHB', page: 292 },
       type: 'condition',
       hooks: {},
-      modifiers: {
-        disadvantageOn: ['attack-rolls'],
-        advantageOn: ['melee-attacks-against'], // Attacks against prone creatures
-      },
+      modifiers: {},
       stacking: { category: 'condition' },
       tags: ['condition', 'movement', 'advantage', 'disadvantage'],
     },
@@ -34,8 +39,6 @@ export const effectLibrary: EffectLibrary = {
       hooks: {},
       modifiers: {
         speed: 0,
-        disadvantageOn: ['attack-rolls', 'dexterity-saves'],
-        advantageOn: ['attacks-against'], // All attacks against restrained creatures
       },
       stacking: { category: 'condition' },
       tags: ['condition', 'movement', 'advantage', 'disadvantage'],
@@ -48,9 +51,7 @@ export const effectLibrary: EffectLibrary = {
       source: { book: 'PHB', page: 292 },
       type: 'condition',
       hooks: {},
-      modifiers: {
-        disadvantageOn: ['attack-rolls', 'ability-checks'],
-      },
+      modifiers: {},
       stacking: { category: 'condition' },
       tags: ['condition', 'disadvantage', 'poison'],
     },
@@ -62,9 +63,7 @@ export const effectLibrary: EffectLibrary = {
       source: { book: 'PHB', page: 290 },
       type: 'condition',
       hooks: {},
-      modifiers: {
-        disadvantageOn: ['attack-rolls', 'ability-checks'],
-      },
+      modifiers: {},
       stacking: { category: 'condition' },
       tags: ['condition', 'disadvantage', 'fear'],
     },
@@ -78,11 +77,12 @@ export const getEffect = (id: string): any => {
     effectLibrary.features[id] ||
     effectLibrary.spells[id] ||
     effectLibrary.items[id] ||
-    effectLibrary.conditions[id]
+    effectLibrary.conditions[id] ||
+    effectLibrary.races[id]
   );
 };
 
-export const getEffectsByType = (type: 'feat' | 'feature' | 'spell' | 'item' | 'condition') => {
+export const getEffectsByType = (type: 'feat' | 'feature' | 'spell' | 'item' | 'condition' | 'race') => {
   return effectLibrary[`${type}s` as keyof EffectLibrary];
 };
 
@@ -93,6 +93,7 @@ export const searchEffects = (query: string, tags?: string[]) => {
     ...Object.values(effectLibrary.spells),
     ...Object.values(effectLibrary.items),
     ...Object.values(effectLibrary.conditions),
+    ...Object.values(effectLibrary.races),
   ];
   
   return allEffects.filter(effect => {
@@ -114,6 +115,7 @@ export const getEffectsBySource = (book: string) => {
     ...Object.values(effectLibrary.spells),
     ...Object.values(effectLibrary.items),
     ...Object.values(effectLibrary.conditions),
+    ...Object.values(effectLibrary.races),
   ];
   
   return allEffects.filter(effect => effect.source.book === book);
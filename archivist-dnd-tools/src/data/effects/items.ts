@@ -0,0 +1,186 @@
+import type { Abilities } from '../../types/build';
+import type { Effect, HitContext, MagicItemDetails } from '../../types/effects';
+
+// Enhancement bonus for a +N weapon: to-hit and damage, replacing any smaller enhancement
+const weaponEnhancement = (bonus: number): Effect => ({
+  id: `weapon-plus-${bonus}`,
+  name: `Weapon +${bonus}`,
+  description: `You have a +${bonus} bonus to attack and damage rolls made with this magic weapon.`,
+  source: { book: 'DMG', page: 213 },
+  type: 'item',
+  hooks: {
+    onAttackRoll: () => ({
+      toHitBonus: bonus,
+    }),
+    onHit: () => ({
+      bonus,
+    }),
+  },
+  modifiers: {},
+  stacking: {
+    // Magic Weapon only works on a nonmagical weapon
+    replaces: ['magic-weapon', ...Array.from({ length: bonus - 1 }, (_, i) => `weapon-plus-${i + 1}`)],
+    category: 'weapon-enhancement',
+  },
+  tags: ['magic-item', 'weapon-enhancement', 'attack-bonus', 'damage-bonus'],
+});
+
+// Items that set an ability score, e.g. Gauntlets of Ogre Power or a Belt of Giant Strength
+const abilityScoreItem = (
+  id: string,
+  name: string,
+  ability: keyof Abilities,
+  score: number,
+  rarity: MagicItemDetails['rarity'],
+  page: number
+): Effect => ({
+  id,
+  name,
+  description: `Your ${ability.charAt(0).toUpperCase()}${ability.slice(1)} score is ${score} while you wear this item. It has no effect on you if your score is already ${score} or higher.`,
+  source: { book: 'DMG', page },
+  type: 'item',
+  magicItem: {
+    rarity,
+    requiresAttunement: true,
+  },
+  hooks: {},
+  modifiers: {
+    abilityScoreMinimums: { [ability]: score },
+  },
+  stacking: {
+    category: `${ability}-score`,
+  },
+  tags: ['magic-item', 'ability-score', ability],
+});
+
+// Ring of Protection and Cloak of Protection: +1 to AC and every saving throw
+const protectionItem = (id: string, name: string, page: number): Effect => ({
+  id,
+  name,
+  description: 'You gain a +1 bonus to AC and saving throws while you wear this item.',
+  source: { book: 'DMG', page },
+  type: 'item',
+  magicItem: {
+    rarity: id.startsWith('ring') ? 'rare' : 'uncommon',
+    requiresAttunement: true,
+  },
+  hooks: {},
+  modifiers: {
+    ac: 1,
+    savingThrows: { STR: 1, DEX: 1, CON: 1, INT: 1, WIS: 1, CHA: 1 },
+  },
+  stacking: {},
+  tags: ['magic-item', 'ac', 'saving-throws'],
+});
+
+// Weapon enchantments work on melee attacks with the main-hand weapon
+const isMeleeWeaponAttack = (context: HitContext): boolean => {
+  return Boolean(context.weapon) && context.build.equipment?.mainHand?.type === 'melee';
+};
+
+// Magic items that change combat math. The +N weapons come from the main-hand weapon's magic
+// bonus; the rest are worn or carried as accessories and count only while attuned when they need it
+export const items: Record<string, Effect> = {
+  'weapon-plus-1': weaponEnhancement(1),
+  'weapon-plus-2': weaponEnhancement(2),
+  'weapon-plus-3': weaponEnhancement(3),
+
+  'flame-tongue': {
+    id: 'flame-tongue',
+    name: 'Flame Tongue',
+    description: 'You can use a bonus action to speak this magic sword\'s command word, causing flames to erupt from the blade. While the sword is ablaze, it deals an extra 2d6 fire damage to any target it hits.',
+    source: { book: 'DMG', page: 170 },
+    type: 'item',
+    magicItem: {
+      rarity: 'rare',
+      requiresAttunement: true,
+      appliesTo: 'weapon',
+      // Lit before combat, so the simulators treat the blade as always ablaze
+      activation: { type: 'bonus', description: 'Speak the command word to ignite or extinguish the blade' },
+    },
+    hooks: {
+      onHit: (context) => (isMeleeWeaponAttack(context) ? { dice: '2d6', damageType: 'fire' } : {}),
+    },
+    modifiers: {},
+    stacking: {
+      mutuallyExclusive: ['frost-brand'],
+      category: 'weapon-enchantment',
+    },
+    tags: ['magic-item', 'weapon', 'fire', 'damage'],
+  },
+
+  'frost-brand': {
+    id: 'frost-brand',
+    name: 'Frost Brand',
+    description: 'When you hit with an attack using this magic sword, the target takes an extra 1d6 cold damage. While you hold the sword, you have resistance to fire damage.',
+    source: { book: 'DMG', page: 171 },
+    type: 'item',
+    magicItem: {
+      rarity: 'very rare',
+      requiresAttunement: true,
+      appliesTo: 'weapon',
+    },
+    hooks: {
+      onHit: (context) => (isMeleeWeaponAttack(context) ? { dice: '1d6', damageType: 'cold' } : {}),
+    },
+    modifiers: {
+      resistances: ['fire'],
+    },
+    stacking: {
+      mutuallyExclusive: ['flame-tongue'],
+      category: 'weapon-enchantment',
+    },
+    tags: ['magic-item', 'weapon', 'cold', 'damage', 'fire'],
+  },
+
+  'bracers-of-archery': {
+    id: 'bracers-of-archery',
+    name: 'Bracers of Archery',
+    description: 'While wearing these bracers, you have proficiency with the longbow and shortbow, and you gain a +2 bonus to damage rolls on ranged attacks made with such weapons.',
+    source: { book: 'DMG', page: 152 },
+    type: 'item',
+    magicItem: {
+      rarity: 'uncommon',
+      requiresAttunement: true,
+    },
+    hooks: {
+      onHit: (context) => (/longbow|shortbow/i.test(context.weapon || '') ? { bonus: 2 } : {}),
+    },
+    modifiers: {},
+    stacking: {},
+    tags: ['magic-item', 'ranged', 'damage-bonus'],
+  },
+
+  'cloak-of-protection': protectionItem('cloak-of-protection', 'Cloak of Protection', 159),
+  'ring-of-protection': protectionItem('ring-of-protection', 'Ring of Protection', 191),
+
+  'gauntlets-of-ogre-power': abilityScoreItem('gauntlets-of-ogre-power', 'Gauntlets of Ogre Power', 'strength', 19, 'uncommon', 171),
+  'belt-of-hill-giant-strength': abilityScoreItem('belt-of-hill-giant-strength', 'Belt of Hill Giant Strength', 'strength', 21, 'rare', 155),
+  'belt-of-frost-giant-strength': abilityScoreItem('belt-of-frost-giant-strength', 'Belt of Frost Giant Strength', 'strength', 23, 'very rare', 155),
+  'belt-of-fire-giant-strength': abilityScoreItem('belt-of-fire-giant-strength', 'Belt of Fire Giant Strength', 'strength', 25, 'very rare', 155),
+  'belt-of-cloud-giant-strength': abilityScoreItem('belt-of-cloud-giant-strength', 'Belt of Cloud Giant Strength', 'strength', 27, 'legendary', 155),
+  'belt-of-storm-giant-strength': abilityScoreItem('belt-of-storm-giant-strength', 'Belt of Storm Giant Strength', 'strength', 29, 'legendary', 155),
+  'amulet-of-health': abilityScoreItem('amulet-of-health', 'Amulet of Health', 'constitution', 19, 'rare', 150),
+  'headband-of-intellect': abilityScoreItem('headband-of-intellect', 'Headband of Intellect', 'intelligence', 19, 'uncommon', 173),
+
+  'wand-of-magic-missiles': {
+    id: 'wand-of-magic-missiles',
+    name: 'Wand of Magic Missiles',
+    description: 'This wand has 7 charges. While holding it, you can use an action to expend 1 or more of its charges to cast magic missile, at 1st level plus one level per extra charge. The wand regains 1d6 + 1 expended charges daily at dawn.',
+    source: { book: 'DMG', page: 211 },
+    type: 'item',
+    magicItem: {
+      rarity: 'uncommon',
+      requiresAttunement: false,
+      activation: { type: 'action', description: 'Cast magic missile, one spell level per charge', chargeCost: 1 },
+      rechargeDice: '1d6+1',
+    },
+    hooks: {},
+    modifiers: {},
+    stacking: {},
+    usage: {
+      charges: 7,
+    },
+    tags: ['magic-item', 'force', 'spell', 'charges'],
+  },
+};
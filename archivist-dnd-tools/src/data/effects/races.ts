@@ -0,0 +1,375 @@
+import type { Effect, EffectAction } from '../../types/effects';
+
+// Breath weapon damage by character level, the same for every draconic ancestry
+const BREATH_WEAPON_DAMAGE: EffectAction['damageByLevel'] = { 1: '2d6', 6: '3d6', 11: '4d6', 16: '5d6' };
+
+// A Dragonborn ancestry: breath weapon damage type, shape and save, and resistance to the same type
+const draconicAncestry = (
+  color: string,
+  damageType: string,
+  area: string,
+  save: EffectAction['save']
+): Effect => ({
+  id: `${color}-dragonborn`,
+  name: `${color.charAt(0).toUpperCase()}${color.slice(1)} Dragonborn`,
+  description: `Your ${color} dragon ancestry gives you a ${damageType} breath weapon (${area}, ${save} save) and resistance to ${damageType} damage.`,
+  source: { book: 'PHB', page: 34 },
+  type: 'race',
+  subraceOf: 'dragonborn',
+  hooks: {},
+  action: {
+    name: 'Breath Weapon',
+    damageByLevel: BREATH_WEAPON_DAMAGE,
+    damageType,
+    save,
+    saveDCAbility: 'constitution',
+    halfOnSave: true,
+    area
+  },
+  modifiers: {
+    resistances: [damageType],
+  },
+  stacking: {
+    category: 'race',
+  },
+  usage: {
+    perShortRest: 1,
+  },
+  conditions: {
+    combatPhase: 'action',
+  },
+  tags: ['race', 'dragonborn', damageType, 'action', 'short-rest'],
+});
+
+// Player's Handbook races and subraces. A subrace adds its traits to those of the race it names in subraceOf
+export const races: Record<string, Effect> = {
+  'dwarf': {
+    id: 'dwarf',
+    name: 'Dwarf',
+    description: 'Bold and hardy. Dwarves have advantage on saving throws against poison and resistance to poison damage, and heavy armor doesn\'t reduce their 25 ft. speed.',
+    source: { book: 'PHB', page: 18 },
+    type: 'race',
+    hooks: {},
+    modifiers: {
+      abilityScores: { constitution: 2 },
+      speed: -5,
+      resistances: ['poison'],
+    },
+    stacking: {
+      category: 'race',
+    },
+    tags: ['race', 'dwarf', 'poison', 'saving-throws'],
+  },
+
+  'hill-dwarf': {
+    id: 'hill-dwarf',
+    name: 'Hill Dwarf',
+    description: 'Dwarven Toughness: your hit point maximum increases by 1, and it increases by 1 every time you gain a level.',
+    source: { book: 'PHB', page: 20 },
+    type: 'race',
+    subraceOf: 'dwarf',
+    hooks: {},
+    modifiers: {
+      abilityScores: { wisdom: 1 },
+      hitPointsPerLevel: 1,
+    },
+    stacking: {
+      category: 'race',
+    },
+    tags: ['race', 'dwarf'],
+  },
+
+  'mountain-dwarf': {
+    id: 'mountain-dwarf',
+    name: 'Mountain Dwarf',
+    description: 'Dwarven Armor Training: you have proficiency with light and medium armor.',
+    source: { book: 'PHB', page: 20 },
+    type: 'race',
+    subraceOf: 'dwarf',
+    hooks: {},
+    modifiers: {
+      abilityScores: { strength: 2 },
+    },
+    stacking: {
+      category: 'race',
+    },
+    tags: ['race', 'dwarf', 'ac'],
+  },
+
+  'elf': {
+    id: 'elf',
+    name: 'Elf',
+    description: 'Graceful and perceptive. Fey Ancestry gives elves advantage on saving throws against being charmed, and magic can\'t put them to sleep.',
+    source: { book: 'PHB', page: 21 },
+    type: 'race',
+    hooks: {},
+    modifiers: {
+      abilityScores: { dexterity: 2 },
+    },
+    stacking: {
+      category: 'race',
+    },
+    tags: ['race', 'elf', 'saving-throws'],
+  },
+
+  'high-elf': {
+    id: 'high-elf',
+    name: 'High Elf',
+    description: 'You know one wizard cantrip of your choice and have proficiency with longswords, shortswords, shortbows and longbows.',
+    source: { book: 'PHB', page: 23 },
+    type: 'race',
+    subraceOf: 'elf',
+    hooks: {},
+    modifiers: {
+      abilityScores: { intelligence: 1 },
+    },
+    stacking: {
+      category: 'race',
+    },
+    tags: ['race', 'elf'],
+  },
+
+  'wood-elf': {
+    id: 'wood-elf',
+    name: 'Wood Elf',
+    description: 'Fleet of Foot raises your speed to 35 ft., and Mask of the Wild lets you hide when only lightly obscured by natural phenomena.',
+    source: { book: 'PHB', page: 24 },
+    type: 'race',
+    subraceOf: 'elf',
+    hooks: {},
+    modifiers: {
+      abilityScores: { wisdom: 1 },
+      speed: 5,
+    },
+    stacking: {
+      category: 'race',
+    },
+    tags: ['race', 'elf'],
+  },
+
+  'drow': {
+    id: 'drow',
+    name: 'Drow',
+    description: 'Superior darkvision and drow magic, but Sunlight Sensitivity gives you disadvantage on attack rolls while you or your target is in direct sunlight.',
+    source: { book: 'PHB', page: 24 },
+    type: 'race',
+    subraceOf: 'elf',
+    hooks: {},
+    modifiers: {
+      abilityScores: { charisma: 1 },
+    },
+    stacking: {
+      category: 'race',
+    },
+    tags: ['race', 'elf', 'disadvantage'],
+  },
+
+  'halfling': {
+    id: 'halfling',
+    name: 'Halfling',
+    description: 'Lucky: when you roll a 1 on the d20 for an attack roll, ability check, or saving throw, you can reroll the die and must use the new roll. Brave gives advantage on saving throws against being frightened.',
+    source: { book: 'PHB', page: 28 },
+    type: 'race',
+    hooks: {
+      onAttackRoll: () => ({
+        reroll: { type: 'reroll-ones' },
+      }),
+    },
+    modifiers: {
+      abilityScores: { dexterity: 2 },
+      speed: -5,
+    },
+    stacking: {
+      category: 'race',
+    },
+    tags: ['race', 'halfling', 'reroll', 'saving-throws'],
+  },
+
+  'lightfoot-halfling': {
+    id: 'lightfoot-halfling',
+    name: 'Lightfoot Halfling',
+    description: 'Naturally Stealthy: you can attempt to hide when obscured only by a creature at least one size larger than you.',
+    source: { book: 'PHB', page: 28 },
+    type: 'race',
+    subraceOf: 'halfling',
+    hooks: {},
+    modifiers: {
+      abilityScores: { charisma: 1 },
+    },
+    stacking: {
+      category: 'race',
+    },
+    tags: ['race', 'halfling'],
+  },
+
+  'stout-halfling': {
+    id: 'stout-halfling',
+    name: 'Stout Halfling',
+    description: 'Stout Resilience: you have advantage on saving throws against poison and resistance to poison damage.',
+    source: { book: 'PHB', page: 28 },
+    type: 'race',
+    subraceOf: 'halfling',
+    hooks: {},
+    modifiers: {
+      abilityScores: { constitution: 1 },
+      resistances: ['poison'],
+    },
+    stacking: {
+      category: 'race',
+    },
+    tags: ['race', 'halfling', 'poison'],
+  },
+
+  'human': {
+    id: 'human',
+    name: 'Human',
+    description: 'Your ability scores each increase by 1.',
+    source: { book: 'PHB', page: 29 },
+    type: 'race',
+    hooks: {},
+    modifiers: {
+      abilityScores: { strength: 1, dexterity: 1, constitution: 1, intelligence: 1, wisdom: 1, charisma: 1 },
+    },
+    stacking: {
+      category: 'race',
+    },
+    tags: ['race', 'human'],
+  },
+
+  'dragonborn': {
+    id: 'dragonborn',
+    name: 'Dragonborn',
+    description: 'Draconic Ancestry gives you a breath weapon and a damage resistance. Choose an ancestry to set the damage type; the breath weapon deals 2d6, rising to 5d6 at 16th level, once per short rest.',
+    source: { book: 'PHB', page: 32 },
+    type: 'race',
+    hooks: {},
+    modifiers: {
+      abilityScores: { strength: 2, charisma: 1 },
+    },
+    stacking: {
+      category: 'race',
+    },
+    tags: ['race', 'dragonborn'],
+  },
+
+  'black-dragonborn': draconicAncestry('black', 'acid', '5 by 30 ft. line', 'DEX'),
+  'blue-dragonborn': draconicAncestry('blue', 'lightning', '5 by 30 ft. line', 'DEX'),
+  'brass-dragonborn': draconicAncestry('brass', 'fire', '5 by 30 ft. line', 'DEX'),
+  'bronze-dragonborn': draconicAncestry('bronze', 'lightning', '5 by 30 ft. line', 'DEX'),
+  'copper-dragonborn': draconicAncestry('copper', 'acid', '5 by 30 ft. line', 'DEX'),
+  'gold-dragonborn': draconicAncestry('gold', 'fire', '15 ft. cone', 'DEX'),
+  'green-dragonborn': draconicAncestry('green', 'poison', '15 ft. cone', 'CON'),
+  'red-dragonborn': draconicAncestry('red', 'fire', '15 ft. cone', 'DEX'),
+  'silver-dragonborn': draconicAncestry('silver', 'cold', '15 ft. cone', 'CON'),
+  'white-dragonborn': draconicAncestry('white', 'cold', '15 ft. cone', 'CON'),
+
+  'gnome': {
+    id: 'gnome',
+    name: 'Gnome',
+    description: 'Gnome Cunning gives you advantage on Intelligence, Wisdom, and Charisma saving throws against magic.',
+    source: { book: 'PHB', page: 35 },
+    type: 'race',
+    hooks: {},
+    modifiers: {
+      abilityScores: { intelligence: 2 },
+      speed: -5,
+    },
+    stacking: {
+      category: 'race',
+    },
+    tags: ['race', 'gnome', 'saving-throws'],
+  },
+
+  'forest-gnome': {
+    id: 'forest-gnome',
+    name: 'Forest Gnome',
+    description: 'You know the minor illusion cantrip and can speak with small beasts.',
+    source: { book: 'PHB', page: 37 },
+    type: 'race',
+    subraceOf: 'gnome',
+    hooks: {},
+    modifiers: {
+      abilityScores: { dexterity: 1 },
+    },
+    stacking: {
+      category: 'race',
+    },
+    tags: ['race', 'gnome'],
+  },
+
+  'rock-gnome': {
+    id: 'rock-gnome',
+    name: 'Rock Gnome',
+    description: 'Artificer\'s Lore and Tinker: expertise on History checks about magic and technological items, and clockwork devices.',
+    source: { book: 'PHB', page: 37 },
+    type: 'race',
+    subraceOf: 'gnome',
+    hooks: {},
+    modifiers: {
+      abilityScores: { constitution: 1 },
+    },
+    stacking: {
+      category: 'race',
+    },
+    tags: ['race', 'gnome'],
+  },
+
+  'half-elf': {
+    id: 'half-elf',
+    name: 'Half-Elf',
+    description: 'Fey Ancestry gives advantage on saving throws against being charmed. Two other ability scores of your choice each increase by 1; add those on the ability score step.',
+    source: { book: 'PHB', page: 38 },
+    type: 'race',
+    hooks: {},
+    modifiers: {
+      abilityScores: { charisma: 2 },
+    },
+    stacking: {
+      category: 'race',
+    },
+    tags: ['race', 'elf', 'half-elf', 'saving-throws'],
+  },
+
+  'half-orc': {
+    id: 'half-orc',
+    name: 'Half-Orc',
+    description: 'Savage Attacks: when you score a critical hit with a melee weapon attack, you can roll one of the weapon\'s damage dice one additional time and add it to the extra damage. Relentless Endurance drops you to 1 hit point instead of 0 once per long rest.',
+    source: { book: 'PHB', page: 40 },
+    type: 'race',
+    hooks: {
+      onCrit: (context) => {
+        const weapon = context.build.equipment?.mainHand;
+        const die = weapon?.damage.match(/d(\d+)/)?.[1];
+        if (!context.weapon || !weapon || weapon.type === 'ranged' || !die) return {};
+        return {
+          dice: `1d${die}`,
+          damageType: weapon.damageType,
+        };
+      },
+    },
+    modifiers: {
+      abilityScores: { strength: 2, constitution: 1 },
+    },
+    stacking: {
+      category: 'race',
+    },
+    tags: ['race', 'half-orc', 'melee', 'damage'],
+  },
+
+  'tiefling': {
+    id: 'tiefling',
+    name: 'Tiefling',
+    description: 'Hellish Resistance gives you resistance to fire damage, and Infernal Legacy grants thaumaturgy, hellish rebuke and darkness.',
+    source: { book: 'PHB', page: 42 },
+    type: 'race',
+    hooks: {},
+    modifiers: {
+      abilityScores: { intelligence: 1, charisma: 2 },
+      resistances: ['fire'],
+    },
+    stacking: {
+      category: 'race',
+    },
+    tags: ['race', 'tiefling', 'fire'],
+  },
+};
@@ -70,6 +70,36 @@ export const spells: Record<string, Effect> = {
     tags: ['enchantment', 'concentration', 'debuff', 'attack-penalty', 'save-penalty'],
   },
 
+  'synaptic-static': {
+    id: 'synaptic-static',
+    name: 'Synaptic Static',
+    description: 'You choose a point within range and cause psychic energy to explode there. Each creature in a 20-foot-radius sphere centered on that point must make an Intelligence saving throw, taking 8d6 psychic damage on a failed save. After a failed save, a target has muddled thoughts for 1 minute. During that time, it rolls a d6 and subtracts the number rolled from all its attack rolls and ability checks, as well as its Constitution saving throws to maintain concentration.',
+    source: { book: 'XGE', page: 167 },
+    type: 'spell',
+    level: 5,
+    hooks: {
+      onAttackRoll: () => ({
+        bonusDice: [{ dice: '-1d6', type: 'synaptic-static' }],
+      }),
+    },
+    modifiers: {},
+    stacking: {
+      category: 'bonus-dice',
+    },
+    duration: {
+      minutes: 1,
+    },
+    resourceCost: {
+      type: 'spellSlot',
+      amount: 1,
+      level: 5,
+    },
+    conditions: {
+      targetTypes: ['enemy'],
+    },
+    tags: ['enchantment', 'debuff', 'attack-penalty', 'psychic', 'area'],
+  },
+
   'hex': {
     id: 'hex',
     name: 'Hex',
@@ -154,7 +184,6 @@ export const spells: Record<string, Effect> = {
     modifiers: {
       ac: 2,
       speed: 2, // Multiplier
-      advantageOn: ['dexterity-saves'],
     },
     stacking: {
       category: 'enhancement',
@@ -212,9 +241,7 @@ export const spells: Record<string, Effect> = {
     hooks: {
       // Advantage on attacks against affected creatures
     },
-    modifiers: {
-      disadvantageOn: ['stealth'], // Can't be invisible
-    },
+    modifiers: {},
     stacking: {
       category: 'debuff',
     },
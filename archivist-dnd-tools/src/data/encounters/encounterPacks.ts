@@ -36,6 +36,7 @@ export interface EnemyTemplate extends Target {
     description: string;
     attackBonus?: number;
     damage?: string;
+    damageType?: string; // e.g. 'slashing', checked against the build's resistances
     reach?: number;
     recharge?: string;
   }>;
@@ -80,13 +81,15 @@ export const ENEMY_TEMPLATES: Record<string, EnemyTemplate> = {
         description: 'Melee Weapon Attack: +4 to hit, reach 5 ft., one target.',
         attackBonus: 4,
         damage: '1d6+2',
+        damageType: 'slashing',
         reach: 5
       },
       {
         name: 'Shortbow',
         description: 'Ranged Weapon Attack: +4 to hit, range 80/320 ft., one target.',
         attackBonus: 4,
-        damage: '1d6+2'
+        damage: '1d6+2',
+        damageType: 'piercing'
       }
     ]
   },
@@ -121,13 +124,15 @@ export const ENEMY_TEMPLATES: Record<string, EnemyTemplate> = {
         description: 'Melee Weapon Attack: +5 to hit, reach 5 ft., one target.',
         attackBonus: 5,
         damage: '1d12+3',
+        damageType: 'slashing',
         reach: 5
       },
       {
         name: 'Javelin',
         description: 'Melee or Ranged Weapon Attack: +5 to hit, reach 5 ft. or range 30/120 ft., one target.',
         attackBonus: 5,
-        damage: '1d6+3'
+        damage: '1d6+3',
+        damageType: 'piercing'
       }
     ]
   },
@@ -163,13 +168,15 @@ export const ENEMY_TEMPLATES: Record<string, EnemyTemplate> = {
         description: 'Melee Weapon Attack: +6 to hit, reach 5 ft., one target.',
         attackBonus: 6,
         damage: '2d8+4',
+        damageType: 'bludgeoning',
         reach: 5
       },
       {
         name: 'Javelin',
         description: 'Melee or Ranged Weapon Attack: +6 to hit, reach 5 ft. or range 30/120 ft., one target.',
         attackBonus: 6,
-        damage: '2d6+4'
+        damage: '2d6+4',
+        damageType: 'piercing'
       }
     ]
   },
@@ -209,6 +216,7 @@ export const ENEMY_TEMPLATES: Record<string, EnemyTemplate> = {
         description: 'Melee Weapon Attack: +7 to hit, reach 5 ft., one creature.',
         attackBonus: 7,
         damage: '1d10+5',
+        damageType: 'piercing',
         reach: 5
       },
       {
@@ -216,6 +224,7 @@ export const ENEMY_TEMPLATES: Record<string, EnemyTemplate> = {
         description: 'Melee Weapon Attack: +7 to hit, reach 5 ft., one target.',
         attackBonus: 7,
         damage: '2d8+5',
+        damageType: 'slashing',
         reach: 5
       }
     ]
@@ -257,13 +266,15 @@ export const ENEMY_TEMPLATES: Record<string, EnemyTemplate> = {
         description: 'Melee Weapon Attack: +8 to hit, reach 10 ft., one target.',
         attackBonus: 8,
         damage: '3d8+5',
+        damageType: 'bludgeoning',
         reach: 10
       },
       {
         name: 'Rock',
         description: 'Ranged Weapon Attack: +8 to hit, range 60/240 ft., one target.',
         attackBonus: 8,
-        damage: '3d10+5'
+        damage: '3d10+5',
+        damageType: 'bludgeoning'
       }
     ]
   },
@@ -309,6 +320,7 @@ export const ENEMY_TEMPLATES: Record<string, EnemyTemplate> = {
         description: 'Melee Weapon Attack: +14 to hit, reach 10 ft., one target.',
         attackBonus: 14,
         damage: '2d10+8',
+        damageType: 'piercing',
         reach: 10
       },
       {
@@ -316,12 +328,14 @@ export const ENEMY_TEMPLATES: Record<string, EnemyTemplate> = {
         description: 'Melee Weapon Attack: +14 to hit, reach 5 ft., one target.',
         attackBonus: 14,
         damage: '2d6+8',
+        damageType: 'slashing',
         reach: 5
       },
       {
         name: 'Fire Breath',
         description: 'The dragon exhales fire in a 60-foot cone.',
         damage: '18d6',
+        damageType: 'fire',
         recharge: '5-6'
       }
     ],
@@ -0,0 +1,464 @@
+/**
+ * SRD Spell Catalogue
+ * Casting time, concentration, how each spell resolves and what it does at every slot level
+ */
+
+import type { Abilities } from '../types/build';
+import { getEffectId } from './effects';
+
+// What one casting does: damage is per attack roll or missile, and per target for area spells
+export interface SpellCasting {
+  damage?: string; // dice, e.g. "8d6"
+  attacks?: number; // attack rolls, rays or missiles, e.g. Scorching Ray's 3 rays
+  targets?: number; // creatures affected; area spells list a typical count
+  rider?: string; // what the spell does besides damage
+}
+
+export interface SpellDefinition {
+  id: string;
+  name: string;
+  level: number; // 0 for cantrips
+  school: string;
+  castingTime: 'action' | 'bonus' | 'reaction';
+  concentration: boolean;
+  resolution: 'attack' | 'save' | 'auto' | 'none'; // spell attack, saving throw, hits automatically, or no roll
+  save?: keyof Abilities;
+  saveForHalf?: boolean;
+  damageType?: string;
+  area?: string; // e.g. "20-ft. radius"
+  classes: string[]; // lowercase class names with the spell on their list
+  description: string;
+  source: { book: string; page: number };
+  // Leveled spells: slot level -> casting, for every slot the spell can be cast with.
+  // Cantrips: character level the tier starts at (1, 5, 11, 17) -> casting
+  castings: Record<number, SpellCasting>;
+}
+
+export const CANTRIP_TIERS = [1, 5, 11, 17];
+
+// Cantrip damage dice grow at character levels 5, 11 and 17; Eldritch Blast adds beams instead
+const cantrip = (damage: string, grows: 'dice' | 'attacks' = 'dice', extra: SpellCasting = {}): Record<number, SpellCasting> => {
+  const [, sides] = damage.split('d');
+  return Object.fromEntries(CANTRIP_TIERS.map((level, tier) => [
+    level,
+    grows === 'dice'
+      ? { ...extra, damage: `${tier + 1}d${sides}` }
+      : { ...extra, damage, attacks: tier + 1 }
+  ]));
+};
+
+// One casting per slot from the spell's level to 9th; upcast gets the number of levels above base
+const slots = (level: number, casting: (upcast: number) => SpellCasting): Record<number, SpellCasting> => {
+  return Object.fromEntries(Array.from({ length: 10 - level }, (_, upcast) => [level + upcast, casting(upcast)]));
+};
+
+export const SPELL_CATALOG: Record<string, SpellDefinition> = {
+  // Cantrips
+  'acid-splash': {
+    id: 'acid-splash', name: 'Acid Splash', level: 0, school: 'conjuration', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'dexterity', damageType: 'acid', classes: ['sorcerer', 'wizard'],
+    description: 'Hurl a bubble of acid at one creature, or two within 5 feet of each other.',
+    source: { book: 'PHB', page: 211 },
+    castings: cantrip('1d6', 'dice', { targets: 2 })
+  },
+  'chill-touch': {
+    id: 'chill-touch', name: 'Chill Touch', level: 0, school: 'necromancy', castingTime: 'action', concentration: false,
+    resolution: 'attack', damageType: 'necrotic', classes: ['sorcerer', 'warlock', 'wizard'],
+    description: 'A ghostly hand assails a creature, which can\'t regain hit points until your next turn.',
+    source: { book: 'PHB', page: 221 },
+    castings: cantrip('1d8', 'dice', { rider: 'no healing until your next turn' })
+  },
+  'eldritch-blast': {
+    id: 'eldritch-blast', name: 'Eldritch Blast', level: 0, school: 'evocation', castingTime: 'action', concentration: false,
+    resolution: 'attack', damageType: 'force', classes: ['warlock'],
+    description: 'A beam of crackling energy streaks toward a creature; more beams at higher levels.',
+    source: { book: 'PHB', page: 237 },
+    castings: cantrip('1d10', 'attacks')
+  },
+  'fire-bolt': {
+    id: 'fire-bolt', name: 'Fire Bolt', level: 0, school: 'evocation', castingTime: 'action', concentration: false,
+    resolution: 'attack', damageType: 'fire', classes: ['sorcerer', 'wizard'],
+    description: 'Hurl a mote of fire at a creature or object.',
+    source: { book: 'PHB', page: 242 },
+    castings: cantrip('1d10')
+  },
+  'guidance': {
+    id: 'guidance', name: 'Guidance', level: 0, school: 'divination', castingTime: 'action', concentration: true,
+    resolution: 'none', classes: ['cleric', 'druid'],
+    description: 'A willing creature adds 1d4 to one ability check.',
+    source: { book: 'PHB', page: 248 },
+    castings: { 1: { targets: 1, rider: '+1d4 to one ability check' } }
+  },
+  'poison-spray': {
+    id: 'poison-spray', name: 'Poison Spray', level: 0, school: 'conjuration', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'constitution', damageType: 'poison', classes: ['druid', 'sorcerer', 'warlock', 'wizard'],
+    description: 'Project a puff of noxious gas at a creature within 10 feet.',
+    source: { book: 'PHB', page: 266 },
+    castings: cantrip('1d12')
+  },
+  'produce-flame': {
+    id: 'produce-flame', name: 'Produce Flame', level: 0, school: 'conjuration', castingTime: 'action', concentration: false,
+    resolution: 'attack', damageType: 'fire', classes: ['druid'],
+    description: 'A flame in your hand sheds light and can be hurled at a creature.',
+    source: { book: 'PHB', page: 269 },
+    castings: cantrip('1d8')
+  },
+  'ray-of-frost': {
+    id: 'ray-of-frost', name: 'Ray of Frost', level: 0, school: 'evocation', castingTime: 'action', concentration: false,
+    resolution: 'attack', damageType: 'cold', classes: ['sorcerer', 'wizard'],
+    description: 'A frigid beam strikes a creature and reduces its speed by 10 feet.',
+    source: { book: 'PHB', page: 271 },
+    castings: cantrip('1d8', 'dice', { rider: '-10 ft. speed until your next turn' })
+  },
+  'sacred-flame': {
+    id: 'sacred-flame', name: 'Sacred Flame', level: 0, school: 'evocation', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'dexterity', damageType: 'radiant', classes: ['cleric'],
+    description: 'Flame-like radiance descends on a creature; cover gives no benefit to the save.',
+    source: { book: 'PHB', page: 272 },
+    castings: cantrip('1d8')
+  },
+  'shocking-grasp': {
+    id: 'shocking-grasp', name: 'Shocking Grasp', level: 0, school: 'evocation', castingTime: 'action', concentration: false,
+    resolution: 'attack', damageType: 'lightning', classes: ['sorcerer', 'wizard'],
+    description: 'Lightning springs from your hand; advantage against metal armor, and the target can\'t take reactions.',
+    source: { book: 'PHB', page: 275 },
+    castings: cantrip('1d8', 'dice', { rider: 'no reactions until its next turn' })
+  },
+  'vicious-mockery': {
+    id: 'vicious-mockery', name: 'Vicious Mockery', level: 0, school: 'enchantment', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'wisdom', damageType: 'psychic', classes: ['bard'],
+    description: 'A string of insults laced with enchantments; the target has disadvantage on its next attack.',
+    source: { book: 'PHB', page: 285 },
+    castings: cantrip('1d4', 'dice', { rider: 'disadvantage on its next attack roll' })
+  },
+
+  // 1st Level
+  'bane': {
+    id: 'bane', name: 'Bane', level: 1, school: 'enchantment', castingTime: 'action', concentration: true,
+    resolution: 'save', save: 'charisma', classes: ['bard', 'cleric'],
+    description: 'Up to three creatures subtract 1d4 from attack rolls and saving throws.',
+    source: { book: 'PHB', page: 216 },
+    castings: slots(1, upcast => ({ targets: 3 + upcast, rider: '-1d4 to attack rolls and saving throws' }))
+  },
+  'bless': {
+    id: 'bless', name: 'Bless', level: 1, school: 'enchantment', castingTime: 'action', concentration: true,
+    resolution: 'none', classes: ['cleric', 'paladin'],
+    description: 'Up to three creatures add 1d4 to attack rolls and saving throws.',
+    source: { book: 'PHB', page: 219 },
+    castings: slots(1, upcast => ({ targets: 3 + upcast, rider: '+1d4 to attack rolls and saving throws' }))
+  },
+  'burning-hands': {
+    id: 'burning-hands', name: 'Burning Hands', level: 1, school: 'evocation', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'dexterity', saveForHalf: true, damageType: 'fire', area: '15-ft. cone', classes: ['sorcerer', 'wizard'],
+    description: 'A thin sheet of flames shoots forth from your outstretched fingertips.',
+    source: { book: 'PHB', page: 220 },
+    castings: slots(1, upcast => ({ damage: `${3 + upcast}d6`, targets: 3 }))
+  },
+  'command': {
+    id: 'command', name: 'Command', level: 1, school: 'enchantment', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'wisdom', classes: ['cleric', 'paladin'],
+    description: 'Speak a one-word command that the creature follows on its next turn.',
+    source: { book: 'PHB', page: 223 },
+    castings: slots(1, upcast => ({ targets: 1 + upcast, rider: 'follows a one-word command on its next turn' }))
+  },
+  'faerie-fire': {
+    id: 'faerie-fire', name: 'Faerie Fire', level: 1, school: 'evocation', castingTime: 'action', concentration: true,
+    resolution: 'save', save: 'dexterity', area: '20-ft. cube', classes: ['bard', 'druid'],
+    description: 'Outlined creatures shed light, can\'t be invisible, and attacks against them have advantage.',
+    source: { book: 'PHB', page: 239 },
+    castings: slots(1, () => ({ targets: 3, rider: 'attacks against it have advantage' }))
+  },
+  'guiding-bolt': {
+    id: 'guiding-bolt', name: 'Guiding Bolt', level: 1, school: 'evocation', castingTime: 'action', concentration: false,
+    resolution: 'attack', damageType: 'radiant', classes: ['cleric'],
+    description: 'A flash of light streaks toward a creature; the next attack against it has advantage.',
+    source: { book: 'PHB', page: 248 },
+    castings: slots(1, upcast => ({ damage: `${4 + upcast}d6`, rider: 'next attack against it has advantage' }))
+  },
+  'hellish-rebuke': {
+    id: 'hellish-rebuke', name: 'Hellish Rebuke', level: 1, school: 'evocation', castingTime: 'reaction', concentration: false,
+    resolution: 'save', save: 'dexterity', saveForHalf: true, damageType: 'fire', classes: ['warlock'],
+    description: 'When a creature damages you, it is surrounded by hellish flames.',
+    source: { book: 'PHB', page: 250 },
+    castings: slots(1, upcast => ({ damage: `${2 + upcast}d10` }))
+  },
+  'hex': {
+    id: 'hex', name: 'Hex', level: 1, school: 'enchantment', castingTime: 'bonus', concentration: true,
+    resolution: 'none', damageType: 'necrotic', classes: ['warlock'],
+    description: 'Curse a creature: your hits deal an extra 1d6 necrotic and it has disadvantage on checks with one ability.',
+    source: { book: 'PHB', page: 251 },
+    castings: slots(1, upcast => ({
+      rider: `+1d6 necrotic on each of your hits for ${upcast >= 4 ? '24 hours' : upcast >= 2 ? '8 hours' : '1 hour'}`
+    }))
+  },
+  'hunters-mark': {
+    id: 'hunters-mark', name: "Hunter's Mark", level: 1, school: 'divination', castingTime: 'bonus', concentration: true,
+    resolution: 'none', classes: ['ranger'],
+    description: 'Mark a creature as your quarry: your weapon hits deal an extra 1d6.',
+    source: { book: 'PHB', page: 251 },
+    castings: slots(1, upcast => ({
+      rider: `+1d6 on each of your weapon hits for ${upcast >= 4 ? '24 hours' : upcast >= 2 ? '8 hours' : '1 hour'}`
+    }))
+  },
+  'inflict-wounds': {
+    id: 'inflict-wounds', name: 'Inflict Wounds', level: 1, school: 'necromancy', castingTime: 'action', concentration: false,
+    resolution: 'attack', damageType: 'necrotic', classes: ['cleric'],
+    description: 'Make a melee spell attack against a creature you can reach.',
+    source: { book: 'PHB', page: 253 },
+    castings: slots(1, upcast => ({ damage: `${3 + upcast}d10` }))
+  },
+  'magic-missile': {
+    id: 'magic-missile', name: 'Magic Missile', level: 1, school: 'evocation', castingTime: 'action', concentration: false,
+    resolution: 'auto', damageType: 'force', classes: ['sorcerer', 'wizard'],
+    description: 'Three glowing darts of magical force each hit a creature automatically.',
+    source: { book: 'PHB', page: 257 },
+    castings: slots(1, upcast => ({ damage: '1d4+1', attacks: 3 + upcast }))
+  },
+  'shield': {
+    id: 'shield', name: 'Shield', level: 1, school: 'abjuration', castingTime: 'reaction', concentration: false,
+    resolution: 'none', classes: ['sorcerer', 'wizard'],
+    description: 'An invisible barrier of force gives +5 AC until the start of your next turn.',
+    source: { book: 'PHB', page: 275 },
+    castings: slots(1, () => ({ rider: '+5 AC until the start of your next turn' }))
+  },
+  'tashas-hideous-laughter': {
+    id: 'tashas-hideous-laughter', name: "Tasha's Hideous Laughter", level: 1, school: 'enchantment', castingTime: 'action', concentration: true,
+    resolution: 'save', save: 'wisdom', classes: ['bard', 'wizard'],
+    description: 'A creature falls prone, incapacitated with laughter; it repeats the save each turn.',
+    source: { book: 'PHB', page: 280 },
+    castings: slots(1, () => ({ targets: 1, rider: 'prone and incapacitated' }))
+  },
+  'thunderwave': {
+    id: 'thunderwave', name: 'Thunderwave', level: 1, school: 'evocation', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'constitution', saveForHalf: true, damageType: 'thunder', area: '15-ft. cube', classes: ['bard', 'druid', 'sorcerer', 'wizard'],
+    description: 'A wave of thunderous force pushes creatures 10 feet away on a failed save.',
+    source: { book: 'PHB', page: 282 },
+    castings: slots(1, upcast => ({ damage: `${2 + upcast}d8`, targets: 2, rider: 'pushed 10 ft. on a failed save' }))
+  },
+
+  // 2nd Level
+  'hold-person': {
+    id: 'hold-person', name: 'Hold Person', level: 2, school: 'enchantment', castingTime: 'action', concentration: true,
+    resolution: 'save', save: 'wisdom', classes: ['bard', 'cleric', 'druid', 'sorcerer', 'warlock', 'wizard'],
+    description: 'A humanoid is paralyzed; it repeats the save at the end of each of its turns.',
+    source: { book: 'PHB', page: 251 },
+    castings: slots(2, upcast => ({ targets: 1 + upcast, rider: 'paralyzed' }))
+  },
+  'magic-weapon': {
+    id: 'magic-weapon', name: 'Magic Weapon', level: 2, school: 'transmutation', castingTime: 'bonus', concentration: true,
+    resolution: 'none', classes: ['paladin', 'wizard'],
+    description: 'A nonmagical weapon becomes a magic weapon with a bonus to attack and damage rolls.',
+    source: { book: 'PHB', page: 257 },
+    castings: slots(2, upcast => ({ rider: `+${upcast >= 4 ? 3 : upcast >= 2 ? 2 : 1} to attack and damage rolls` }))
+  },
+  'moonbeam': {
+    id: 'moonbeam', name: 'Moonbeam', level: 2, school: 'evocation', castingTime: 'action', concentration: true,
+    resolution: 'save', save: 'constitution', saveForHalf: true, damageType: 'radiant', area: '5-ft. radius cylinder', classes: ['druid'],
+    description: 'A silvery beam of pale light burns creatures that enter it or start their turn there.',
+    source: { book: 'PHB', page: 261 },
+    castings: slots(2, upcast => ({ damage: `${2 + upcast}d10` }))
+  },
+  'scorching-ray': {
+    id: 'scorching-ray', name: 'Scorching Ray', level: 2, school: 'evocation', castingTime: 'action', concentration: false,
+    resolution: 'attack', damageType: 'fire', classes: ['sorcerer', 'wizard'],
+    description: 'Three rays of fire, each with its own ranged spell attack.',
+    source: { book: 'PHB', page: 273 },
+    castings: slots(2, upcast => ({ damage: '2d6', attacks: 3 + upcast }))
+  },
+  'shatter': {
+    id: 'shatter', name: 'Shatter', level: 2, school: 'evocation', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'constitution', saveForHalf: true, damageType: 'thunder', area: '10-ft. radius', classes: ['bard', 'sorcerer', 'warlock', 'wizard'],
+    description: 'A sudden painfully loud ringing noise erupts from a point you choose.',
+    source: { book: 'PHB', page: 275 },
+    castings: slots(2, upcast => ({ damage: `${3 + upcast}d8`, targets: 3 }))
+  },
+  'spiritual-weapon': {
+    id: 'spiritual-weapon', name: 'Spiritual Weapon', level: 2, school: 'evocation', castingTime: 'bonus', concentration: false,
+    resolution: 'attack', damageType: 'force', classes: ['cleric'],
+    description: 'A floating spectral weapon attacks as a bonus action each turn for 1 minute.',
+    source: { book: 'PHB', page: 278 },
+    castings: slots(2, upcast => ({
+      damage: `${1 + Math.floor(upcast / 2)}d8`,
+      rider: 'plus your spellcasting modifier; attacks again as a bonus action each turn'
+    }))
+  },
+
+  // 3rd Level
+  'call-lightning': {
+    id: 'call-lightning', name: 'Call Lightning', level: 3, school: 'conjuration', castingTime: 'action', concentration: true,
+    resolution: 'save', save: 'dexterity', saveForHalf: true, damageType: 'lightning', area: '5-ft. radius', classes: ['druid'],
+    description: 'A storm cloud calls down a bolt of lightning now and as an action on later turns.',
+    source: { book: 'PHB', page: 220 },
+    castings: slots(3, upcast => ({ damage: `${3 + upcast}d10` }))
+  },
+  'fireball': {
+    id: 'fireball', name: 'Fireball', level: 3, school: 'evocation', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'dexterity', saveForHalf: true, damageType: 'fire', area: '20-ft. radius', classes: ['sorcerer', 'wizard'],
+    description: 'A bright streak blossoms into an explosion of flame.',
+    source: { book: 'PHB', page: 241 },
+    castings: slots(3, upcast => ({ damage: `${8 + upcast}d6`, targets: 4 }))
+  },
+  'haste': {
+    id: 'haste', name: 'Haste', level: 3, school: 'transmutation', castingTime: 'action', concentration: true,
+    resolution: 'none', classes: ['sorcerer', 'wizard'],
+    description: 'A willing creature gets +2 AC, double speed, advantage on Dexterity saves and an extra action.',
+    source: { book: 'PHB', page: 250 },
+    castings: slots(3, () => ({ targets: 1, rider: '+2 AC, double speed and an extra action; lethargic when it ends' }))
+  },
+  'hypnotic-pattern': {
+    id: 'hypnotic-pattern', name: 'Hypnotic Pattern', level: 3, school: 'illusion', castingTime: 'action', concentration: true,
+    resolution: 'save', save: 'wisdom', area: '30-ft. cube', classes: ['bard', 'sorcerer', 'warlock', 'wizard'],
+    description: 'A twisting pattern of colors leaves creatures charmed and incapacitated.',
+    source: { book: 'PHB', page: 252 },
+    castings: slots(3, () => ({ targets: 4, rider: 'charmed and incapacitated' }))
+  },
+  'lightning-bolt': {
+    id: 'lightning-bolt', name: 'Lightning Bolt', level: 3, school: 'evocation', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'dexterity', saveForHalf: true, damageType: 'lightning', area: '100-ft. line', classes: ['sorcerer', 'wizard'],
+    description: 'A stroke of lightning forms a line 100 feet long and 5 feet wide.',
+    source: { book: 'PHB', page: 255 },
+    castings: slots(3, upcast => ({ damage: `${8 + upcast}d6`, targets: 3 }))
+  },
+  'slow': {
+    id: 'slow', name: 'Slow', level: 3, school: 'transmutation', castingTime: 'action', concentration: true,
+    resolution: 'save', save: 'wisdom', area: '40-ft. cube', classes: ['sorcerer', 'wizard'],
+    description: 'Up to six creatures have their speed halved, -2 AC and Dexterity saves, and fewer actions.',
+    source: { book: 'PHB', page: 277 },
+    castings: slots(3, () => ({ targets: 6, rider: 'half speed, -2 AC and one action or bonus action' }))
+  },
+  'spirit-guardians': {
+    id: 'spirit-guardians', name: 'Spirit Guardians', level: 3, school: 'conjuration', castingTime: 'action', concentration: true,
+    resolution: 'save', save: 'wisdom', saveForHalf: true, damageType: 'radiant', area: '15-ft. radius', classes: ['cleric'],
+    description: 'Spirits flit around you, slowing enemies and damaging them on their turns.',
+    source: { book: 'PHB', page: 278 },
+    castings: slots(3, upcast => ({ damage: `${3 + upcast}d8`, targets: 2, rider: 'half speed in the area' }))
+  },
+  'vampiric-touch': {
+    id: 'vampiric-touch', name: 'Vampiric Touch', level: 3, school: 'necromancy', castingTime: 'action', concentration: true,
+    resolution: 'attack', damageType: 'necrotic', classes: ['warlock', 'wizard'],
+    description: 'Your touch siphons life force; you regain half the damage dealt and can attack again each turn.',
+    source: { book: 'PHB', page: 285 },
+    castings: slots(3, upcast => ({ damage: `${3 + upcast}d6`, rider: 'you regain half the damage as hit points' }))
+  },
+
+  // 4th Level
+  'banishment': {
+    id: 'banishment', name: 'Banishment', level: 4, school: 'abjuration', castingTime: 'action', concentration: true,
+    resolution: 'save', save: 'charisma', classes: ['cleric', 'paladin', 'sorcerer', 'warlock', 'wizard'],
+    description: 'A creature is sent to a harmless demiplane, or home if it is native to another plane.',
+    source: { book: 'PHB', page: 217 },
+    castings: slots(4, upcast => ({ targets: 1 + upcast, rider: 'banished' }))
+  },
+  'blight': {
+    id: 'blight', name: 'Blight', level: 4, school: 'necromancy', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'constitution', saveForHalf: true, damageType: 'necrotic', classes: ['druid', 'sorcerer', 'warlock', 'wizard'],
+    description: 'Necromantic energy drains moisture and vitality from a creature.',
+    source: { book: 'PHB', page: 219 },
+    castings: slots(4, upcast => ({ damage: `${8 + upcast}d8` }))
+  },
+  'polymorph': {
+    id: 'polymorph', name: 'Polymorph', level: 4, school: 'transmutation', castingTime: 'action', concentration: true,
+    resolution: 'save', save: 'wisdom', classes: ['bard', 'druid', 'sorcerer', 'wizard'],
+    description: 'A creature is transformed into a beast of your choice.',
+    source: { book: 'PHB', page: 266 },
+    castings: slots(4, () => ({ targets: 1, rider: 'transformed into a beast' }))
+  },
+
+  // 5th Level
+  'cone-of-cold': {
+    id: 'cone-of-cold', name: 'Cone of Cold', level: 5, school: 'evocation', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'constitution', saveForHalf: true, damageType: 'cold', area: '60-ft. cone', classes: ['sorcerer', 'wizard'],
+    description: 'A blast of cold air erupts from your hands.',
+    source: { book: 'PHB', page: 224 },
+    castings: slots(5, upcast => ({ damage: `${8 + upcast}d8`, targets: 4 }))
+  },
+  'hold-monster': {
+    id: 'hold-monster', name: 'Hold Monster', level: 5, school: 'enchantment', castingTime: 'action', concentration: true,
+    resolution: 'save', save: 'wisdom', classes: ['bard', 'sorcerer', 'warlock', 'wizard'],
+    description: 'A creature is paralyzed; it repeats the save at the end of each of its turns.',
+    source: { book: 'PHB', page: 251 },
+    castings: slots(5, upcast => ({ targets: 1 + upcast, rider: 'paralyzed' }))
+  },
+
+  // 6th Level
+  'chain-lightning': {
+    id: 'chain-lightning', name: 'Chain Lightning', level: 6, school: 'evocation', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'dexterity', saveForHalf: true, damageType: 'lightning', classes: ['sorcerer', 'wizard'],
+    description: 'A bolt of lightning arcs to a target and then leaps to three more.',
+    source: { book: 'PHB', page: 221 },
+    castings: slots(6, upcast => ({ damage: '10d8', targets: 4 + upcast }))
+  },
+  'circle-of-death': {
+    id: 'circle-of-death', name: 'Circle of Death', level: 6, school: 'necromancy', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'constitution', saveForHalf: true, damageType: 'necrotic', area: '60-ft. radius', classes: ['sorcerer', 'warlock', 'wizard'],
+    description: 'A sphere of negative energy ripples out from a point you choose.',
+    source: { book: 'PHB', page: 221 },
+    castings: slots(6, upcast => ({ damage: `${8 + 2 * upcast}d6`, targets: 4 }))
+  },
+  'disintegrate': {
+    id: 'disintegrate', name: 'Disintegrate', level: 6, school: 'transmutation', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'dexterity', damageType: 'force', classes: ['sorcerer', 'wizard'],
+    description: 'A thin green ray; a creature reduced to 0 hit points is disintegrated.',
+    source: { book: 'PHB', page: 233 },
+    castings: slots(6, upcast => ({ damage: `${10 + 3 * upcast}d6+40` }))
+  },
+
+  // 7th Level
+  'finger-of-death': {
+    id: 'finger-of-death', name: 'Finger of Death', level: 7, school: 'necromancy', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'constitution', saveForHalf: true, damageType: 'necrotic', classes: ['sorcerer', 'warlock', 'wizard'],
+    description: 'Negative energy courses through a creature; a humanoid it kills rises as a zombie.',
+    source: { book: 'PHB', page: 241 },
+    castings: slots(7, () => ({ damage: '7d8+30' }))
+  },
+  'fire-storm': {
+    id: 'fire-storm', name: 'Fire Storm', level: 7, school: 'evocation', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'dexterity', saveForHalf: true, damageType: 'fire', area: 'ten 10-ft. cubes', classes: ['cleric', 'druid', 'sorcerer'],
+    description: 'A storm made up of sheets of roaring flame appears where you choose.',
+    source: { book: 'PHB', page: 242 },
+    castings: slots(7, () => ({ damage: '7d10', targets: 4 }))
+  },
+
+  // 8th Level
+  'sunburst': {
+    id: 'sunburst', name: 'Sunburst', level: 8, school: 'evocation', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'constitution', saveForHalf: true, damageType: 'radiant', area: '60-ft. radius', classes: ['druid', 'sorcerer', 'wizard'],
+    description: 'Brilliant sunlight flashes in a 60-foot radius and blinds those who fail.',
+    source: { book: 'PHB', page: 279 },
+    castings: slots(8, () => ({ damage: '12d6', targets: 4, rider: 'blinded on a failed save' }))
+  },
+
+  'dominate-monster': {
+    id: 'dominate-monster', name: 'Dominate Monster', level: 8, school: 'enchantment', castingTime: 'action', concentration: true,
+    resolution: 'save', save: 'wisdom', classes: ['bard', 'sorcerer', 'warlock', 'wizard'],
+    description: 'A creature is charmed and follows your telepathic commands; it repeats the save when it takes damage.',
+    source: { book: 'PHB', page: 235 },
+    castings: slots(8, upcast => ({ targets: 1, rider: `charmed and under your control for ${upcast > 0 ? '8 hours' : '1 hour'}` }))
+  },
+
+  // 9th Level
+  'meteor-swarm': {
+    id: 'meteor-swarm', name: 'Meteor Swarm', level: 9, school: 'evocation', castingTime: 'action', concentration: false,
+    resolution: 'save', save: 'dexterity', saveForHalf: true, damageType: 'fire', area: 'four 40-ft. radius spheres', classes: ['sorcerer', 'wizard'],
+    description: 'Blazing orbs of fire plummet to the ground at four points, dealing fire and bludgeoning damage.',
+    source: { book: 'PHB', page: 259 },
+    castings: { 9: { damage: '40d6', targets: 4, rider: 'half of it bludgeoning' } }
+  },
+  'power-word-kill': {
+    id: 'power-word-kill', name: 'Power Word Kill', level: 9, school: 'enchantment', castingTime: 'action', concentration: false,
+    resolution: 'none', classes: ['bard', 'sorcerer', 'warlock', 'wizard'],
+    description: 'A word of power kills a creature with 100 hit points or fewer outright.',
+    source: { book: 'PHB', page: 266 },
+    castings: { 9: { targets: 1, rider: 'dies if it has 100 hit points or fewer' } }
+  }
+};
+
+// "Hunter's Mark", "hunters mark" and "hunters-mark" all find the same spell
+export const getSpell = (name: string): SpellDefinition | undefined => {
+  return SPELL_CATALOG[getEffectId(name)];
+};
+
+export const getSpellsForClass = (className: string): SpellDefinition[] => {
+  const key = className.toLowerCase();
+  return Object.values(SPELL_CATALOG).filter(spell => spell.classes.includes(key));
+};
@@ -0,0 +1,249 @@
+/**
+ * Ability score ledger: where every point of a build's scores comes from, level by level.
+ * Base scores from the generation method, racial bonuses (fixed, or moved Tasha-style), Ability
+ * Score Improvements and half-feats, each capped at 20, then magic items on top
+ */
+
+import type { Abilities, Build } from '../types/build';
+import { CLASS_FEATURES_DATABASE } from '../data/classFeatures';
+import { effectLibrary } from '../data/effects';
+import { applyItemAbilityScores } from './items';
+import { SeededRandom } from './random';
+import { getRacialAbilityBonuses } from './races';
+
+export type AbilityScoreSheet = Pick<
+  Build,
+  'abilities' | 'baseAbilities' | 'race' | 'racialAbilityBonuses' | 'levels' | 'featureSelections' | 'equipment'
+>;
+
+export interface AbilityLedgerEntry {
+  level: number; // character level the change applies from
+  source: 'base' | 'race' | 'asi' | 'feat';
+  label: string;
+  feat?: string; // feat id, for feats taken instead of an ASI
+  changes: Partial<Abilities>; // the scores themselves for the base entry
+  lost: Partial<Abilities>; // points past the cap of 20
+  scores: Abilities; // running scores after this entry
+}
+
+export const ABILITY_KEYS: Array<keyof Abilities> = ['strength', 'dexterity', 'constitution', 'intelligence', 'wisdom', 'charisma'];
+
+// Racial bonuses, ASIs and feats can't raise a score above 20; only magic items can
+export const MAX_ABILITY_SCORE = 20;
+
+// Abilities each half-feat can raise by 1; feats with one option raise it without a choice
+const HALF_FEAT_ABILITIES: Record<string, Array<keyof Abilities>> = {
+  'athlete': ['strength', 'dexterity'],
+  'durable': ['constitution'],
+  'elven-accuracy': ['dexterity', 'intelligence', 'wisdom', 'charisma'],
+  'fey-touched': ['intelligence', 'wisdom', 'charisma'],
+  'heavy-armor-master': ['strength'],
+  'inspiring-leader': ['charisma'],
+  'keen-mind': ['intelligence'],
+  'moderately-armored': ['strength', 'dexterity'],
+  'observant': ['intelligence', 'wisdom'],
+  'piercer': ['strength', 'dexterity'],
+  'resilient': ABILITY_KEYS,
+  'shadow-touched': ['intelligence', 'wisdom', 'charisma'],
+  'skill-expert': ABILITY_KEYS,
+  'slasher': ['strength', 'dexterity'],
+  'telekinetic': ['intelligence', 'wisdom', 'charisma'],
+  'telepathic': ['intelligence', 'wisdom', 'charisma'],
+  'weapon-master': ['strength', 'dexterity']
+};
+
+type Improvement = { type?: string; asi?: Record<string, number>; customData?: Record<string, number>; feat?: string; featAbility?: string };
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+const getFeatName = (featId: string): string => {
+  return effectLibrary.feats[featId]?.name || featId.split('-').map(capitalize).join(' ');
+};
+
+const getTotalLevel = (build: Pick<Build, 'levels'>): number => {
+  return Math.max(1, (build.levels || []).reduce((sum, classLevel) => sum + classLevel.level, 0));
+};
+
+// Six scores rolled as 4d6 dropping the lowest die, highest first
+export const rollAbilityScores = (rng: SeededRandom = new SeededRandom()): number[] => {
+  return Array.from({ length: 6 }, () => {
+    const dice = Array.from({ length: 4 }, () => rng.rollDie(6)).sort((a, b) => b - a);
+    return dice[0] + dice[1] + dice[2];
+  }).sort((a, b) => b - a);
+};
+
+export const getHalfFeatAbilities = (featId: string): Array<keyof Abilities> => {
+  return HALF_FEAT_ABILITIES[featId] || [];
+};
+
+/**
+ * Racial bonuses a build gets: the ones it moved to other abilities with Tasha's custom origin
+ * rules when it has them, otherwise its race's own
+ */
+export const getBuildRacialBonuses = (build: Pick<Build, 'race' | 'racialAbilityBonuses'>): Partial<Abilities> => {
+  return build.racialAbilityBonuses || getRacialAbilityBonuses(build.race);
+};
+
+// A race's bonus amounts largest first, e.g. [2, 1] for a Hill Dwarf; custom origins move these
+export const getRacialBonusAmounts = (race?: string): number[] => {
+  return Object.values(getRacialAbilityBonuses(race))
+    .filter((bonus): bonus is number => Boolean(bonus))
+    .sort((a, b) => b - a);
+};
+
+// Character level a multiclass build reaches a class level at, with class levels spread evenly over its levels
+const getCharacterLevelFor = (build: Pick<Build, 'levels'>, className: string, classLevel: number): number | undefined => {
+  const taken = (build.levels || []).find(level => level.class.toLowerCase() === className);
+  if (!taken || classLevel > taken.level) return undefined;
+  return Math.ceil(classLevel * getTotalLevel(build) / taken.level);
+};
+
+// Score changes chosen for an ASI feature: two points spread over abilities, or a feat with its ability
+const getImprovementChanges = (improvement: Improvement): Pick<AbilityLedgerEntry, 'source' | 'label' | 'feat' | 'changes'> | undefined => {
+  if (improvement.type === 'feat') {
+    if (!improvement.feat) return undefined;
+    const options = getHalfFeatAbilities(improvement.feat);
+    const ability = options.length === 1
+      ? options[0]
+      : options.find(option => option === improvement.featAbility);
+    return {
+      source: 'feat',
+      label: getFeatName(improvement.feat),
+      feat: improvement.feat,
+      changes: ability ? { [ability]: 1 } : {}
+    };
+  }
+
+  const changes = Object.fromEntries(
+    Object.entries(improvement.asi || improvement.customData || {})
+      .filter(([ability, points]) => ABILITY_KEYS.includes(ability as keyof Abilities) && points > 0)
+  ) as Partial<Abilities>;
+  return Object.keys(changes).length > 0
+    ? { source: 'asi', label: 'Ability Score Improvement', changes }
+    : undefined;
+};
+
+const applyChanges = (scores: Abilities, changes: Partial<Abilities>): { scores: Abilities; lost: Partial<Abilities> } => {
+  const updated = { ...scores };
+  const lost: Partial<Abilities> = {};
+  Object.entries(changes).forEach(([ability, change]) => {
+    const key = ability as keyof Abilities;
+    const raised = Math.max(updated[key], Math.min(MAX_ABILITY_SCORE, updated[key] + (change || 0)));
+    if (updated[key] + (change || 0) > raised) lost[key] = updated[key] + (change || 0) - raised;
+    updated[key] = raised;
+  });
+  return { scores: updated, lost };
+};
+
+/**
+ * Every change to a build's ability scores in the order it gains them. Builds saved before the
+ * Build Lab recorded base scores have a single entry with their scores as entered
+ */
+export const getAbilityScoreLedger = (build: AbilityScoreSheet): AbilityLedgerEntry[] => {
+  if (!build.baseAbilities) {
+    return [{ level: 1, source: 'base', label: 'Entered scores', changes: { ...build.abilities }, lost: {}, scores: { ...build.abilities } }];
+  }
+
+  const steps: Array<Omit<AbilityLedgerEntry, 'lost' | 'scores'>> = [];
+  const racialBonuses = getBuildRacialBonuses(build);
+  if (Object.values(racialBonuses).some(Boolean)) {
+    steps.push({
+      level: 1,
+      source: 'race',
+      label: build.racialAbilityBonuses ? `${build.race || 'Race'} (custom origin)` : build.race || 'Race',
+      changes: racialBonuses
+    });
+  }
+
+  Object.entries(build.featureSelections || {}).forEach(([featureId, selection]) => {
+    const feature = CLASS_FEATURES_DATABASE.find(candidate => candidate.id === featureId);
+    if (!feature || feature.type !== 'improvement') return;
+    const level = getCharacterLevelFor(build, feature.class, feature.level);
+    if (level === undefined) return;
+
+    // improvements is saved as a single object by the class feature form
+    ([] as Improvement[]).concat(selection.improvements || []).forEach(improvement => {
+      const step = improvement && getImprovementChanges(improvement);
+      if (step) steps.push({ level, ...step });
+    });
+  });
+
+  const base: AbilityLedgerEntry = {
+    level: 1,
+    source: 'base',
+    label: 'Base scores',
+    changes: { ...build.baseAbilities },
+    lost: {},
+    scores: { ...build.baseAbilities }
+  };
+
+  return steps
+    .sort((a, b) => a.level - b.level)
+    .reduce<AbilityLedgerEntry[]>((ledger, step) => {
+      const { scores, lost } = applyChanges(ledger[ledger.length - 1].scores, step.changes);
+      return [...ledger, { ...step, lost, scores }];
+    }, [base]);
+};
+
+/**
+ * Base scores for a build saved before the Build Lab recorded them: its entered scores less the
+ * racial bonuses, ASIs and feats the ledger adds, so the ledger gives back the scores as entered.
+ * Magic items stay out of the base, so unequipping one takes its score away again
+ */
+export const inferBaseAbilities = (build: AbilityScoreSheet): Abilities => {
+  if (build.baseAbilities) return { ...build.baseAbilities };
+
+  const characterLevel = getTotalLevel(build);
+  const steps = getAbilityScoreLedger({ ...build, baseAbilities: build.abilities }).slice(1);
+  return steps
+    .filter(step => step.level <= characterLevel)
+    .reduce<Abilities>((base, step) => {
+      const updated = { ...base };
+      Object.entries(step.changes).forEach(([ability, change]) => {
+        const key = ability as keyof Abilities;
+        updated[key] = Math.max(1, updated[key] - (change || 0));
+      });
+      return updated;
+    }, { ...build.abilities });
+};
+
+/**
+ * Scores at a character level from the ledger, before magic items
+ */
+export const getAbilityScoresAtLevel = (build: AbilityScoreSheet, characterLevel: number, ledger = getAbilityScoreLedger(build)): Abilities => {
+  const reached = ledger.filter(entry => entry.level <= characterLevel);
+  return { ...(reached[reached.length - 1] || ledger[0]).scores };
+};
+
+/**
+ * Scores every calculation uses: the ledger at the build's level, with magic items applied
+ */
+export const getFinalAbilityScores = (build: AbilityScoreSheet): Abilities => {
+  return applyItemAbilityScores(getAbilityScoresAtLevel(build, getTotalLevel(build)), build.equipment);
+};
+
+/**
+ * Problems with where a build's points come from: custom origin bonuses that don't match the
+ * race's, half-feats without a chosen ability, and points lost to the cap of 20
+ */
+export const validateAbilityScores = (build: AbilityScoreSheet): string[] => {
+  const issues: string[] = [];
+
+  if (build.racialAbilityBonuses) {
+    const moved = Object.values(build.racialAbilityBonuses).filter((bonus): bonus is number => Boolean(bonus)).sort((a, b) => b - a);
+    if (moved.join() !== getRacialBonusAmounts(build.race).join()) {
+      issues.push(`Custom origin bonuses must use the ${build.race || 'race'}'s bonuses (${getRacialBonusAmounts(build.race).map(bonus => `+${bonus}`).join(', ') || 'none'}), each on a different ability`);
+    }
+  }
+
+  getAbilityScoreLedger(build).forEach(entry => {
+    if (entry.feat && getHalfFeatAbilities(entry.feat).length > 1 && Object.keys(entry.changes).length === 0) {
+      issues.push(`${entry.label} at level ${entry.level}: choose the ability it increases`);
+    }
+    Object.entries(entry.lost).forEach(([ability, points]) => {
+      issues.push(`${entry.label} at level ${entry.level}: ${points} ${capitalize(ability)} point${points === 1 ? '' : 's'} lost above ${MAX_ABILITY_SCORE}`);
+    });
+  });
+
+  return issues;
+};
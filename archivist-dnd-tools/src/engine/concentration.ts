@@ -0,0 +1,95 @@
+/**
+ * Concentration rules: one concentration effect at a time and
+ * Constitution saves to keep it when taking damage
+ */
+
+import type { Build } from '../types/build';
+import type { Effect } from '../types/effects';
+import { effectLibrary, getEffectId } from '../data/effects';
+import { getSavingThrowBonus, hasSaveProficiency } from './savingThrows';
+
+// Combat concentration spells the simulator knows how to run; damage riders come from their library hooks
+export interface ConcentrationSpell {
+  id: string;
+  name: string;
+  level: number;
+  castingTime: 'action' | 'bonusAction';
+  extraAttacks?: number; // Haste's extra attack action
+  armorClassBonus?: number;
+}
+
+export const CONCENTRATION_SPELLS: Record<string, ConcentrationSpell> = {
+  'hex': {
+    id: 'hex',
+    name: 'Hex',
+    level: 1,
+    castingTime: 'bonusAction',
+  },
+  'hunters-mark': {
+    id: 'hunters-mark',
+    name: "Hunter's Mark",
+    level: 1,
+    castingTime: 'bonusAction',
+  },
+  'haste': {
+    id: 'haste',
+    name: 'Haste',
+    level: 3,
+    castingTime: 'action',
+    extraAttacks: 1,
+    armorClassBonus: 2,
+  },
+};
+
+// Look up a concentration spell by any spelling of its name
+export const getConcentrationSpell = (spell: string): ConcentrationSpell | undefined => {
+  return CONCENTRATION_SPELLS[getEffectId(spell)];
+};
+
+// Any concentration spell, including library buffs the simulator doesn't cast itself (Bless)
+export const isConcentrationSpell = (spell: string): boolean => {
+  return Boolean(getConcentrationSpell(spell) || effectLibrary.spells[getEffectId(spell)]?.duration?.concentration);
+};
+
+// Best concentration spell a build can open combat with. The last precast concentration spell is
+// the one being held, and when it's a buff like Bless nothing else gets cast over it
+export const selectConcentrationSpell = (build: Build): ConcentrationSpell | undefined => {
+  const precast = (build.policies?.precast || []).filter(isConcentrationSpell);
+  if (precast.length > 0) return getConcentrationSpell(precast[precast.length - 1]);
+  return (build.spells || []).map(getConcentrationSpell).find(Boolean);
+};
+
+// Proficiency in CON saves from class (first class only) or Resilient (Constitution)
+export const hasConstitutionSaveProficiency = (build: Build): boolean => {
+  return hasSaveProficiency(build, 'constitution');
+};
+
+// War Caster grants advantage on concentration saves
+export const hasConcentrationAdvantage = (build: Build): boolean => {
+  return build.features.some(feature => feature.toLowerCase() === 'war-caster');
+};
+
+// Constitution modifier, proficiency when the build has it, and item bonuses like a Cloak of Protection's
+export const getConcentrationSaveBonus = (build: Build): number => {
+  return getSavingThrowBonus(build, 'constitution');
+};
+
+export const getConcentrationSaveDC = (damage: number): number => {
+  return Math.max(10, Math.floor(damage / 2));
+};
+
+// Chance to keep concentration after taking a hit (a natural 1 on a save is not an automatic failure)
+export const calculateConcentrationSaveChance = (build: Build, damage: number): number => {
+  const dc = getConcentrationSaveDC(damage);
+  const singleRoll = Math.max(0, Math.min(1, (21 + getConcentrationSaveBonus(build) - dc) / 20));
+  return hasConcentrationAdvantage(build) ? 1 - Math.pow(1 - singleRoll, 2) : singleRoll;
+};
+
+// Keep only the most recently applied concentration effect; later effects replace earlier ones
+export const enforceSingleConcentration = (effects: Effect[]): Effect[] => {
+  const lastConcentration = effects.reduce(
+    (last, effect, index) => (effect.duration?.concentration ? index : last),
+    -1
+  );
+  return effects.filter((effect, index) => !effect.duration?.concentration || index === lastConcentration);
+};
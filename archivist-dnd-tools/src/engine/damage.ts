@@ -4,6 +4,8 @@
  */
 
 import type { Target, DamageBreakdown } from '../types/simulation';
+import type { DamageReroll } from '../types/effects';
+import type { Build } from '../types/build';
 
 // Dice parsing and calculation
 export interface ParsedDice {
@@ -14,21 +16,22 @@ export interface ParsedDice {
 }
 
 export const parseDiceExpression = (expression: string, damageType: string = 'untyped'): ParsedDice => {
-  // Handle expressions like "1d8+3", "2d6", "1d4+1", "4"
-  const match = expression.trim().match(/^(\d+)?(?:d(\d+))?(?:\+(\d+))?$/);
+  // Handle expressions like "1d8+3", "2d6", "1d4+1", "2d6-1", "4"
+  const match = expression.trim().match(/^(\d+)?(?:d(\d+))?(?:([+-])(\d+))?$/);
   
   if (!match) {
     throw new Error(`Invalid dice expression: ${expression}`);
   }
 
-  const [, count, sides, bonus] = match;
+  const [, count, sides, sign, bonus] = match;
+  const modifier = (sign === '-' ? -1 : 1) * parseInt(bonus || '0', 10);
   
   // Handle flat numbers like "4"
   if (!sides) {
     return {
       count: 0,
       sides: 0,
-      bonus: parseInt(count || '0', 10),
+      bonus: parseInt(count || '0', 10) + modifier,
       damageType,
     };
   }
@@ -36,7 +39,7 @@ export const parseDiceExpression = (expression: string, damageType: string = 'un
   return {
     count: parseInt(count || '1', 10),
     sides: parseInt(sides, 10),
-    bonus: parseInt(bonus || '0', 10),
+    bonus: modifier,
     damageType,
   };
 };
@@ -58,42 +61,32 @@ export const getMaximumDamage = (dice: ParsedDice): number => {
   return dice.count * dice.sides + dice.bonus;
 };
 
+// Reroll rules behind the named reroll mechanics
+const REROLL_MECHANIC_RULES: Record<string, DamageReroll> = {
+  gwf: { condition: [1, 2] }, // Reroll 1s and 2s once and keep the new roll
+  'elemental-adept': { condition: [], minimum: 2 }, // 1s are treated as 2s
+};
+
+// The reroll a damage source follows: its own rule, or the one behind its named mechanic
+export const getSourceReroll = (source: Pick<DamageSource, 'reroll' | 'rerollMechanic'>): DamageReroll | undefined => {
+  return source.reroll || (source.rerollMechanic ? REROLL_MECHANIC_RULES[source.rerollMechanic] : undefined);
+};
+
+// Expected total of parsed dice under a reroll rule
+export const getRerolledDiceExpectation = (dice: ParsedDice, reroll?: DamageReroll): number => {
+  if (dice.count === 0) return dice.bonus;
+  const dieExpectation = getRerolledDieDistribution(dice.sides, reroll).reduce((sum, p, face) => sum + p * face, 0);
+  return dice.count * dieExpectation + dice.bonus;
+};
+
 // Apply Great Weapon Fighting rerolls
 export const applyGWFReroll = (dice: ParsedDice): number => {
-  if (dice.count === 0) return dice.bonus;
-  
-  let expectedDamage = dice.bonus;
-  
-  for (let i = 0; i < dice.count; i++) {
-    if (dice.sides <= 2) {
-      // For d2 or smaller, GWF has no effect
-      expectedDamage += (dice.sides + 1) / 2;
-    } else {
-      // Reroll 1s and 2s once
-      const normalAverage = (dice.sides + 1) / 2;
-      const rerollProb = 2 / dice.sides;
-      const keepProb = 1 - rerollProb;
-      
-      // E[damage] = P(keep) * E[original] + P(reroll) * E[reroll result]
-      // Where E[reroll result] includes the possibility of getting another 1 or 2
-      const rerollAverage = (dice.sides + 1) / 2; // Same expected value on reroll
-      expectedDamage += keepProb * normalAverage + rerollProb * rerollAverage;
-    }
-  }
-  
-  return expectedDamage;
+  return getRerolledDiceExpectation(dice, REROLL_MECHANIC_RULES.gwf);
 };
 
 // Apply Elemental Adept (1s become 2s)
 export const applyElementalAdept = (dice: ParsedDice): number => {
-  if (dice.count === 0) return dice.bonus;
-  
-  // For each die, instead of 1,2,3,...,n outcomes, we have 2,2,3,...,n
-  const originalSum = dice.sides * (dice.sides + 1) / 2; // Sum of 1+2+...+n
-  const modifiedSum = originalSum - 1 + 2; // Replace 1 with 2
-  const modifiedAverage = modifiedSum / dice.sides;
-  
-  return dice.count * modifiedAverage + dice.bonus;
+  return getRerolledDiceExpectation(dice, REROLL_MECHANIC_RULES['elemental-adept']);
 };
 
 // Apply damage resistances, immunities, and vulnerabilities
@@ -122,6 +115,7 @@ export interface DamageSource {
   source: string; // 'weapon', 'spell', 'feat', 'feature', etc.
   onCritDouble?: boolean; // Whether this damage is doubled on crit
   rerollMechanic?: 'gwf' | 'elemental-adept' | 'brutal-critical' | 'none';
+  reroll?: DamageReroll; // An effect's own reroll rule, used instead of rerollMechanic
 }
 
 // Calculate damage from multiple sources
@@ -159,16 +153,7 @@ export const calculateTotalDamage = (
     }
     
     // Apply reroll mechanics
-    switch (source.rerollMechanic) {
-      case 'gwf':
-        damage = applyGWFReroll(dice);
-        break;
-      case 'elemental-adept':
-        damage = applyElementalAdept(dice);
-        break;
-      default:
-        damage = getExpectedDamage(dice);
-    }
+    damage = getRerolledDiceExpectation(dice, getSourceReroll(source));
     
     // Track base damage
     breakdown.base.push({
@@ -247,6 +232,29 @@ export const getWeaponDamage = (
   };
 };
 
+// Attack line of a build migrated from a SimpleBuild without class levels, which has no sheet to derive
+// attacks from: its saved to-hit, the dice and flat bonus its damage starts with ("2d6+4 + GWF+1.3")
+// and the "(×2 attacks)" count when the line has one
+export interface SavedAttackLine {
+  attackBonus: number;
+  damageDice: string;
+  damageBonus: number;
+  attackCount: number;
+}
+
+export const getSavedAttackLine = (build: Pick<Build, 'levels' | 'attackBonus' | 'damage'>): SavedAttackLine | undefined => {
+  if ((build.levels || []).length > 0 || build.attackBonus === undefined || !build.damage) return undefined;
+
+  const [, dice, bonus] = build.damage.match(/^\s*(\d+d\d+)?\s*([+-]\s*\d+)?/) || [];
+  const attacks = build.damage.match(/×\s*(\d+)\s*attacks?/);
+  return {
+    attackBonus: build.attackBonus,
+    damageDice: dice || '0',
+    damageBonus: bonus ? parseInt(bonus.replace(/\s+/g, ''), 10) : 0,
+    attackCount: attacks ? parseInt(attacks[1], 10) : 1,
+  };
+};
+
 // Spell damage calculation helpers
 export const getSpellDamage = (
   spellDice: string,
@@ -360,7 +368,229 @@ export const applyBrutalCritical = (
     source: 'feature',
     onCritDouble: false, // Brutal critical dice are not doubled again
     rerollMechanic: weaponDamage.rerollMechanic,
+    reroll: weaponDamage.reroll,
   };
   
   return [brutaCritDamage];
-};
\ No newline at end of file
+};
+// Discrete damage distributions
+// A distribution is a probability mass function indexed by damage: dist[n] = P(damage === n)
+export type DamageDistribution = number[];
+
+// Distribution that always produces the same damage
+export const getFixedDistribution = (damage: number): DamageDistribution => {
+  const value = Math.max(0, Math.floor(damage));
+  const dist: DamageDistribution = new Array(value + 1).fill(0);
+  dist[value] = 1;
+  return dist;
+};
+
+// Single die outcome distribution under a reroll rule: listed faces are rerolled once, or until
+// another face comes up, then faces below the rule's minimum count as the minimum
+export const getRerolledDieDistribution = (sides: number, reroll?: DamageReroll): DamageDistribution => {
+  if (sides <= 0) return getFixedDistribution(0);
+
+  const faceProb = 1 / sides;
+  const condition = reroll?.condition || [];
+  const rerolled = (condition === 'min' ? [1] : condition === 'max' ? [sides] : condition)
+    .filter(face => face >= 1 && face <= sides);
+  const untilKept = reroll?.once === false && rerolled.length < sides;
+
+  const rolled: DamageDistribution = new Array(sides + 1).fill(0);
+  for (let face = 1; face <= sides; face++) {
+    if (!rerolled.includes(face)) {
+      rolled[face] += untilKept ? 1 / (sides - rerolled.length) : faceProb;
+    } else if (!untilKept) {
+      for (let next = 1; next <= sides; next++) {
+        rolled[next] += faceProb * faceProb;
+      }
+    }
+  }
+
+  const minimum = Math.min(sides, reroll?.minimum || 1);
+  const dist: DamageDistribution = new Array(sides + 1).fill(0);
+  rolled.forEach((p, face) => {
+    if (face > 0) dist[Math.max(minimum, face)] += p;
+  });
+  return dist;
+};
+
+// Single die outcome distribution including reroll mechanics
+export const getDieDistribution = (
+  sides: number,
+  rerollMechanic: DamageSource['rerollMechanic'] = 'none',
+  reroll?: DamageReroll
+): DamageDistribution => {
+  return getRerolledDieDistribution(sides, getSourceReroll({ reroll, rerollMechanic }));
+};
+
+// Distribution of the sum of two independent damage rolls
+export const convolveDistributions = (a: DamageDistribution, b: DamageDistribution): DamageDistribution => {
+  if (a.length === 0) return [...b];
+  if (b.length === 0) return [...a];
+
+  const result: DamageDistribution = new Array(a.length + b.length - 1).fill(0);
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === 0) continue;
+    for (let j = 0; j < b.length; j++) {
+      result[i + j] += a[i] * b[j];
+    }
+  }
+  return result;
+};
+
+// Distribution of n independent copies of the same roll
+export const repeatDistribution = (dist: DamageDistribution, times: number): DamageDistribution => {
+  let result = getFixedDistribution(0);
+  for (let i = 0; i < times; i++) {
+    result = convolveDistributions(result, dist);
+  }
+  return result;
+};
+
+// Weighted mixture of distributions (e.g. miss / hit / crit branches)
+export const mixDistributions = (
+  branches: Array<{ probability: number; distribution: DamageDistribution }>
+): DamageDistribution => {
+  const length = Math.max(1, ...branches.map(b => b.distribution.length));
+  const result: DamageDistribution = new Array(length).fill(0);
+  for (const { probability, distribution } of branches) {
+    distribution.forEach((p, damage) => {
+      result[damage] += probability * p;
+    });
+  }
+  return result;
+};
+
+// Apply a per-outcome transformation such as halving or doubling damage
+export const mapDistribution = (
+  dist: DamageDistribution,
+  transform: (damage: number) => number
+): DamageDistribution => {
+  const result: DamageDistribution = [0];
+  dist.forEach((p, damage) => {
+    if (p === 0) return;
+    const mapped = Math.max(0, Math.floor(transform(damage)));
+    while (result.length <= mapped) result.push(0);
+    result[mapped] += p;
+  });
+  return result;
+};
+
+// Full distribution for parsed dice, with flat bonus applied and floored at 0
+export const getDiceDistribution = (
+  dice: ParsedDice,
+  rerollMechanic: DamageSource['rerollMechanic'] = 'none',
+  reroll?: DamageReroll
+): DamageDistribution => {
+  const diceDist = repeatDistribution(getDieDistribution(dice.sides, rerollMechanic, reroll), dice.count);
+  return mapDistribution(diceDist, damage => damage + dice.bonus);
+};
+
+// Distribution of one damage application from several sources.
+// Sources are grouped by damage type so resistances round the same way as at the table.
+export const getDamageSourcesDistribution = (
+  sources: DamageSource[],
+  isCrit: boolean = false,
+  target?: Target
+): DamageDistribution => {
+  const byType: Record<string, DamageDistribution> = {};
+
+  for (const source of sources) {
+    const dice = isCrit && source.onCritDouble
+      ? { ...source.dice, count: source.dice.count * 2 }
+      : source.dice;
+    const type = dice.damageType;
+    byType[type] = convolveDistributions(byType[type] || [], getDiceDistribution(dice, source.rerollMechanic, source.reroll));
+  }
+
+  return Object.entries(byType).reduce<DamageDistribution>((total, [type, dist]) => {
+    const resisted = target
+      ? mapDistribution(dist, damage => applyDamageResistances(damage, type, target))
+      : dist;
+    return convolveDistributions(total, resisted);
+  }, getFixedDistribution(0));
+};
+
+// Distribution of a single attack: miss, normal hit or critical hit
+export const getAttackDamageDistribution = (sequence: AttackSequence, target?: Target): DamageDistribution => {
+  const { hitProbability, critProbability, normalDamage, critDamage = [] } = sequence;
+
+  return mixDistributions([
+    { probability: 1 - hitProbability, distribution: getFixedDistribution(0) },
+    { probability: hitProbability - critProbability, distribution: getDamageSourcesDistribution(normalDamage, false, target) },
+    { probability: critProbability, distribution: getDamageSourcesDistribution([...normalDamage, ...critDamage], true, target) },
+  ]);
+};
+
+// Distribution of all attacks in a sequence (one turn)
+export const getTurnDamageDistribution = (sequence: AttackSequence, target?: Target): DamageDistribution => {
+  return repeatDistribution(getAttackDamageDistribution(sequence, target), sequence.numAttacks);
+};
+
+// Distribution of a full round made of several independent attack sequences (action, bonus action, etc.)
+export const getRoundDamageDistribution = (sequences: AttackSequence[], target?: Target): DamageDistribution => {
+  return sequences.reduce<DamageDistribution>(
+    (total, sequence) => convolveDistributions(total, getTurnDamageDistribution(sequence, target)),
+    getFixedDistribution(0)
+  );
+};
+
+// Distribution of total damage dealt over several identical rounds
+export const getMultiRoundDamageDistribution = (roundDist: DamageDistribution, rounds: number): DamageDistribution => {
+  return repeatDistribution(roundDist, rounds);
+};
+
+// Expected value of a distribution
+export const getDistributionMean = (dist: DamageDistribution): number => {
+  return dist.reduce((sum, p, damage) => sum + p * damage, 0);
+};
+
+// Probability of dealing at least the given amount of damage
+export const getProbabilityAtLeast = (dist: DamageDistribution, damage: number): number => {
+  const threshold = Math.max(0, Math.ceil(damage));
+  let probability = 0;
+  for (let i = threshold; i < dist.length; i++) {
+    probability += dist[i];
+  }
+  return Math.min(1, probability);
+};
+
+// Smallest damage value d such that P(damage <= d) >= percentile / 100
+export const getDistributionPercentile = (dist: DamageDistribution, percentile: number): number => {
+  const target = percentile / 100;
+  let cumulative = 0;
+  for (let damage = 0; damage < dist.length; damage++) {
+    cumulative += dist[damage];
+    if (cumulative >= target - 1e-12) return damage;
+  }
+  return dist.length - 1;
+};
+
+export interface DamageDistributionSummary {
+  mean: number;
+  standardDeviation: number;
+  min: number;
+  max: number;
+  percentiles: Record<number, number>;
+}
+
+// Summary statistics for display
+export const summarizeDistribution = (
+  dist: DamageDistribution,
+  percentiles: number[] = [10, 25, 50, 75, 90]
+): DamageDistributionSummary => {
+  const mean = getDistributionMean(dist);
+  const variance = dist.reduce((sum, p, damage) => sum + p * Math.pow(damage - mean, 2), 0);
+  const min = dist.findIndex(p => p > 0);
+  let max = dist.length - 1;
+  while (max > 0 && dist[max] === 0) max--;
+
+  return {
+    mean,
+    standardDeviation: Math.sqrt(variance),
+    min: Math.max(0, min),
+    max,
+    percentiles: Object.fromEntries(percentiles.map(p => [p, getDistributionPercentile(dist, p)])),
+  };
+};
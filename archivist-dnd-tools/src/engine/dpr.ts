@@ -5,10 +5,11 @@
 import type { Build, Target, CombatContext } from '../types';
 import { analyzeAdvantageState, type AdvantageContext } from './advantageStates';
 import { analyzePowerAttack, type PowerAttackOptions } from './powerAttack';
-import { analyzeOncePerTurnEffects } from './oncePerTurn';
+import { analyzeOncePerTurnEffects, getOncePerTurnEffects } from './oncePerTurn';
 import { createPolicyEngine } from './policyEngine';
 import { calculateAttackProbabilities } from './probability';
-import { calculateDPR as calculateAttackDPR, getWeaponDamage, type AttackSequence } from './damage';
+import { calculateDPR as calculateAttackDPR, getWeaponDamage, getFeatureDamage, getSavedAttackLine, type AttackSequence } from './damage';
+import { collectActiveEffects, isPowerAttackEffect, resolveAttackRoll, resolveHitDamage } from './effectHooks';
 
 export interface DPRCalculationOptions {
   build: Build;
@@ -26,6 +27,7 @@ export interface DPRResult {
       oncePerTurn: number;
       spellDamage: number;
       otherSources: number;
+      limitedRerolls: string[]; // Rerolls with uses per rest (Lucky, Portent), left out of the per-round DPR
     };
     conditions: {
       normal: number;
@@ -84,50 +86,115 @@ export const calculateDPR = async (options: DPRCalculationOptions): Promise<DPRR
   };
   
   const advantageAnalysis = analyzeAdvantageState(advantageContext);
+
+  // Library effects run through the hook pipeline, except once-per-turn damage and the power attack the analysis below prices
+  const oncePerTurnIds = getOncePerTurnEffects(build).map(effect => effect.id);
+  const collectedEffects = collectActiveEffects(build);
+  const activeEffects = collectedEffects.filter(effect => !oncePerTurnIds.includes(effect.id) && !isPowerAttackEffect(effect));
+  const powerAttackEffects = collectedEffects.filter(isPowerAttackEffect);
+  const attackContext = {
+    build,
+    target,
+    combat: { ...combat, advantage: advantageAnalysis.finalState === 'elven-accuracy' ? 'advantage' : advantageAnalysis.finalState },
+    weapon: build.equipment.mainHand?.name || 'Unarmed Strike',
+    attackNumber: 0,
+    isMainAction: true,
+  };
+  const attackModifier = resolveAttackRoll(activeEffects, attackContext);
+  const hitModifier = resolveHitDamage(activeEffects, { ...attackContext, attackRoll: 0, isCrit: false });
+  const critModifier = resolveHitDamage(activeEffects, { ...attackContext, attackRoll: 20, isCrit: true });
+  const effectAttackBonus = attackBonus + attackModifier.toHitBonus;
+  const finalState = advantageAnalysis.finalState === 'elven-accuracy' || attackModifier.advantageState === 'elven-accuracy'
+    ? 'elven-accuracy'
+    : attackModifier.advantageState;
   
+  const bonusDice = attackModifier.bonusDice.map(bonus => bonus.dice);
+  // Rerolls limited per short or long rest can't be spent on every attack, so only the Monte Carlo
+  // simulation, which counts their uses, prices them
+  const isLimitedReroll = (source: string): boolean => {
+    const usage = activeEffects.find(effect => effect.id === source)?.usage;
+    return usage?.perShortRest !== undefined || usage?.perLongRest !== undefined;
+  };
+  const rerolls = attackModifier.rerolls.filter(({ source }) => !isLimitedReroll(source)).map(({ reroll }) => reroll);
+  const limitedRerolls = attackModifier.rerolls
+    .filter(({ source }) => isLimitedReroll(source))
+    .map(({ source }) => activeEffects.find(effect => effect.id === source)?.name || source);
+
   // Calculate base probabilities for different advantage states
-  const probabilityCalculations = {
-    normal: calculateAttackProbabilities({
-      attackBonus,
-      targetAC: target.armorClass,
-      advantageState: 'normal',
-    }),
-    advantage: calculateAttackProbabilities({
-      attackBonus,
-      targetAC: target.armorClass,
-      advantageState: 'advantage',
-    }),
-    disadvantage: calculateAttackProbabilities({
-      attackBonus,
-      targetAC: target.armorClass,
-      advantageState: 'disadvantage',
-    }),
+  const getProbabilities = (bonus: number) => {
+    const probabilities = {
+      normal: calculateAttackProbabilities({
+        attackBonus: bonus,
+        targetAC: target.armorClass,
+        advantageState: 'normal',
+        critRange: attackModifier.critRange,
+        bonusDice,
+        rerolls,
+      }),
+      advantage: calculateAttackProbabilities({
+        attackBonus: bonus,
+        targetAC: target.armorClass,
+        advantageState: 'advantage',
+        critRange: attackModifier.critRange,
+        bonusDice,
+        rerolls,
+      }),
+      disadvantage: calculateAttackProbabilities({
+        attackBonus: bonus,
+        targetAC: target.armorClass,
+        advantageState: 'disadvantage',
+        critRange: attackModifier.critRange,
+        bonusDice,
+        rerolls,
+      }),
+    };
+
+    // Add Elven Accuracy if applicable
+    if (build.features.includes('Elven Accuracy') || finalState === 'elven-accuracy') {
+      probabilities.elvenAccuracy = calculateAttackProbabilities({
+        attackBonus: bonus,
+        targetAC: target.armorClass,
+        advantageState: 'elven-accuracy',
+        critRange: attackModifier.critRange,
+        bonusDice,
+        rerolls,
+      });
+    }
+
+    return probabilities;
   };
+  let probabilityCalculations = getProbabilities(effectAttackBonus);
 
-  // Add Elven Accuracy if applicable
-  if (build.features.includes('Elven Accuracy')) {
-    probabilityCalculations.elvenAccuracy = calculateAttackProbabilities({
-      attackBonus,
-      targetAC: target.armorClass,
-      advantageState: 'elven-accuracy',
-    });
-  }
+  // Create weapon damage sources; builds migrated without class levels use the attack line they were saved with
+  const savedLine = getSavedAttackLine(build);
+  const weaponDamage = savedLine
+    ? getWeaponDamage(savedLine.damageDice, savedLine.damageBonus, build.equipment.mainHand?.damageType)
+    : build.equipment.mainHand 
+      ? getWeaponDamage(
+          build.equipment.mainHand.damage,
+          getAttackAbilityMod(build),
+          build.equipment.mainHand.damageType
+        )
+      : getWeaponDamage('1d4', getAttackAbilityMod(build), 'bludgeoning'); // Unarmed
 
-  // Create weapon damage sources
-  const weaponDamage = build.equipment.mainHand 
-    ? getWeaponDamage(
-        build.equipment.mainHand.damage,
-        getAttackAbilityMod(build),
-        build.equipment.mainHand.damageType
-      )
-    : getWeaponDamage('1d4', getAttackAbilityMod(build), 'bludgeoning'); // Unarmed
+  // Hook damage: flat bonuses and rerolls on the weapon, extra dice as their own sources
+  weaponDamage.dice.bonus += hitModifier.bonus;
+  if (hitModifier.reroll) weaponDamage.reroll = hitModifier.reroll;
+  const effectDamage = hitModifier.dice.map(({ dice, damageType, source }) =>
+    getFeatureDamage(dice, damageType || weaponDamage.dice.damageType, source, true)
+  );
 
   // Create attack sequence
-  const currentProbabilities = probabilityCalculations[advantageAnalysis.finalState] || probabilityCalculations.normal;
+  const stateKey = finalState === 'elven-accuracy' ? 'elvenAccuracy' : finalState;
+  const currentProbabilities = probabilityCalculations[stateKey] || probabilityCalculations.normal;
   const attackSequence: AttackSequence = {
     hitProbability: currentProbabilities.hitProbability,
     critProbability: currentProbabilities.critProbability,
-    normalDamage: [weaponDamage],
+    normalDamage: [weaponDamage, ...effectDamage],
+    // onCrit dice such as Savage Attacks are the crit's extra damage and aren't doubled
+    critDamage: critModifier.dice
+      .filter(({ critOnly }) => critOnly)
+      .map(({ dice, damageType, source }) => getFeatureDamage(dice, damageType || weaponDamage.dice.damageType, source, false)),
     numAttacks,
   };
 
@@ -145,21 +212,27 @@ export const calculateDPR = async (options: DPRCalculationOptions): Promise<DPRR
     attackSequence.normalDamage.push(offHandDamage);
   }
 
-  // Analyze power attacks if applicable
+  // Great Weapon Master and Sharpshooter: their hooks say whether this weapon qualifies, and the
+  // -5/+10 is only taken when its DPR gain at this AC meets the policy threshold
   let powerAttackAnalysis;
-  const hasSharpshooter = build.features.includes('Sharpshooter');
-  const hasGWM = build.features.includes('Great Weapon Master');
+  const powerAttackModifier = resolveAttackRoll(powerAttackEffects, attackContext);
+  const powerHitModifier = resolveHitDamage(powerAttackEffects, { ...attackContext, attackRoll: 0, isCrit: false });
   
-  if (hasSharpshooter || hasGWM) {
+  if (powerAttackModifier.toHitBonus < 0) {
     const powerAttackOptions: PowerAttackOptions = {
-      attackBonus,
+      attackBonus: effectAttackBonus,
       targetAC: target.armorClass,
       attackSequence,
-      advantageState: advantageAnalysis.finalState,
+      advantageState: finalState,
+      threshold: build.policies.powerAttackThresholdEV,
       target,
     };
     
     powerAttackAnalysis = analyzePowerAttack(powerAttackOptions);
+    if (powerAttackAnalysis.shouldUsePowerAttack) {
+      probabilityCalculations = getProbabilities(effectAttackBonus + powerAttackModifier.toHitBonus);
+      weaponDamage.dice.bonus += powerHitModifier.bonus;
+    }
   }
 
   // Analyze once-per-turn effects
@@ -193,7 +266,7 @@ export const calculateDPR = async (options: DPRCalculationOptions): Promise<DPRR
   }
 
   // Use current advantage state for main calculation
-  const baseDPR = dprByAdvantageState[advantageAnalysis.finalState] || dprByAdvantageState.normal;
+  const baseDPR = (dprByAdvantageState[stateKey] || dprByAdvantageState.normal) * hitModifier.multiplier;
   
   // Add once-per-turn damage
   const oncePerTurnDPR = oncePerTurnAnalysis.totalExpectedDamage;
@@ -225,6 +298,7 @@ export const calculateDPR = async (options: DPRCalculationOptions): Promise<DPRR
     oncePerTurn: oncePerTurnDPR,
     spellDamage: calculateSpellDPR(build, target, combat), // Additional spell damage
     otherSources: 0, // Temporary/conditional bonuses
+    limitedRerolls,
   };
 
   return {
@@ -278,6 +352,9 @@ export const calculateDPR = async (options: DPRCalculationOptions): Promise<DPRR
 
 // Helper functions
 const getAttackBonus = (build: Build): number => {
+  const savedLine = getSavedAttackLine(build);
+  if (savedLine) return savedLine.attackBonus;
+
   const proficiencyBonus = build.proficiencyBonus;
   const abilityMod = getAttackAbilityMod(build);
   
@@ -303,6 +380,9 @@ const getAttackAbilityMod = (build: Build): number => {
 };
 
 const getNumAttacks = (build: Build): number => {
+  const savedLine = getSavedAttackLine(build);
+  if (savedLine) return savedLine.attackCount;
+
   let attacks = 1;
   
   // Fighter Extra Attack
@@ -372,12 +452,7 @@ const calculateResourceUsage = (
 const calculateSpellDPR = (build: Build, target: Target, combat: CombatContext): number => {
   let spellDPR = 0;
   
-  // Add damage from precast spells
-  if (build.policies.precast.includes('Hunter\'s Mark') || build.policies.precast.includes('Hex')) {
-    spellDPR += 3.5; // 1d6 average damage per hit
-  }
-  
-  // Add other spell effects
+  // Per-hit riders like Hex and Hunter's Mark are priced by the effect hooks with the weapon damage
   build.policies.precast.forEach(spell => {
     if (spell.includes('Spiritual Weapon')) {
       spellDPR += 5.5; // ~1d8+mod bonus action attack
@@ -0,0 +1,354 @@
+/**
+ * Effect hook pipeline: collects a build's active library effects and runs their
+ * hooks at each stage of an attack or save, merging what they return
+ */
+
+import type { Build, CombatContext } from '../types/build';
+import type {
+  Effect,
+  D20Reroll,
+  AttackContext,
+  HitContext,
+  DamageContext,
+  SaveContext,
+  AttackModifier,
+  DamageModifier,
+  SaveModifier
+} from '../types/effects';
+import type { AdvantageState } from './advantageStates';
+import { enforceSingleConcentration } from './concentration';
+import { effectLibrary, getEffectId } from '../data/effects';
+import { findHomebrewEffect } from './effectRules';
+import { getRaceEffects, meetsRacePrerequisites } from './races';
+import { getEquippedItemEffects } from './items';
+import { createRuleScope, evaluateRuleExpression } from './ruleExpressions';
+
+// Every hook stage merged across all active effects
+export interface ResolvedBonusDie {
+  dice: string; // "1d4", "-1d4"
+  source: string; // effect id
+}
+
+export interface ResolvedD20Reroll {
+  reroll: D20Reroll;
+  source: string; // effect id
+}
+
+export interface ResolvedAttackModifier {
+  toHitBonus: number;
+  advantageState: AdvantageState;
+  critRange: number;
+  bonusDice: ResolvedBonusDie[];
+  rerolls: ResolvedD20Reroll[];
+  applied: string[]; // effect ids that contributed
+}
+
+export interface ResolvedDamageDice {
+  dice: string;
+  damageType?: string;
+  source: string; // effect id
+  critOnly?: boolean; // From an onCrit hook: already the crit's extra damage, so not doubled again
+}
+
+export interface ResolvedDamageModifier {
+  bonus: number;
+  dice: ResolvedDamageDice[];
+  multiplier: number;
+  reroll?: DamageModifier['reroll'];
+  applied: string[];
+}
+
+export interface ResolvedSaveModifier {
+  dcBonus: number;
+  advantageState: 'normal' | 'advantage' | 'disadvantage';
+  rerollFailed: boolean;
+  applied: string[];
+}
+
+// An effect dropped from the active set and the effect that pushed it out
+export interface SuppressedEffect {
+  effect: Effect;
+  suppressedBy: Effect;
+  reason: string;
+}
+
+export interface EffectStack {
+  active: Effect[];
+  suppressed: SuppressedEffect[];
+}
+
+// Uses of each effect this turn, for usage.perTurn limits like Sneak Attack
+export type EffectUsage = Record<string, number>;
+
+export interface HookOptions {
+  usage?: EffectUsage;
+  canUse?: (effect: Effect) => boolean; // Resource check, e.g. a slot left for Divine Smite
+}
+
+// Hooks run conditions first, then racial traits, class features, feats, items and finally spells
+const EFFECT_TYPE_ORDER: Effect['type'][] = ['condition', 'race', 'feature', 'feat', 'item', 'spell', 'buff', 'debuff'];
+
+// Great Weapon Master and Sharpshooter's -5/+10, which callers only take against targets where it pays
+export const isPowerAttackEffect = (effect: Effect): boolean => {
+  return effect.stacking.category === 'power-attack';
+};
+
+export const findLibraryEffect = (name: string): Effect | undefined => {
+  const id = getEffectId(name);
+  return (
+    effectLibrary.conditions[id] ||
+    effectLibrary.features[id] ||
+    effectLibrary.feats[id] ||
+    effectLibrary.items[id] ||
+    effectLibrary.spells[id] ||
+    effectLibrary.races[id] ||
+    findHomebrewEffect(id)
+  );
+};
+
+// Sort effects into the order their hooks run in
+export const sortEffects = (effects: Effect[]): Effect[] => {
+  return [...effects].sort((a, b) =>
+    EFFECT_TYPE_ORDER.indexOf(a.type) - EFFECT_TYPE_ORDER.indexOf(b.type) || a.id.localeCompare(b.id)
+  );
+};
+
+// Library effects for a build's race, features, fighting styles, magic weapon, equipped magic items,
+// homebrew effects, precast spells and conditions, in source order with duplicates kept so stacking can report them.
+// Feats whose race prerequisite the build doesn't meet, like Elven Accuracy on a human, are left out
+export const collectEffectSources = (build: Build, extraSources: string[] = []): Effect[] => {
+  const weaponBonus = build.equipment?.mainHand?.magic;
+  const sources = [
+    ...getRaceEffects(build.race).map(effect => effect.id),
+    ...(build.features || []),
+    ...(build.fightingStyles || []),
+    ...(weaponBonus ? [`weapon-plus-${weaponBonus}`] : []),
+    ...getEquippedItemEffects(build.equipment).map(effect => effect.id),
+    ...(build.homebrewEffects || []),
+    ...(build.policies?.precast || []),
+    ...(build.conditions || []),
+    ...extraSources
+  ];
+
+  return sources
+    .map(findLibraryEffect)
+    .filter((effect): effect is Effect => effect !== undefined && meetsRacePrerequisites(effect, build.race));
+};
+
+const conflicts = (a: Effect, b: Effect): boolean => {
+  return Boolean(a.stacking.mutuallyExclusive?.includes(b.id) || b.stacking.mutuallyExclusive?.includes(a.id));
+};
+
+/**
+ * Apply stacking rules in order: an effect doesn't stack with itself, `replaces` drops the
+ * replaced effect, the first of two mutually exclusive effects wins, and only the last
+ * concentration spell cast is held
+ */
+export const resolveEffectStack = (effects: Effect[]): EffectStack => {
+  const suppressed: SuppressedEffect[] = [];
+  let active: Effect[] = [];
+
+  for (const effect of effects) {
+    const duplicate = active.find(other => other.id === effect.id);
+    if (duplicate) {
+      suppressed.push({ effect, suppressedBy: duplicate, reason: `${effect.name} doesn't stack with itself` });
+      continue;
+    }
+    active.push(effect);
+  }
+
+  active = active.filter(effect => {
+    const replacer = active.find(other => other.stacking.replaces?.includes(effect.id));
+    if (replacer) suppressed.push({ effect, suppressedBy: replacer, reason: `Replaced by ${replacer.name}` });
+    return !replacer;
+  });
+
+  active = active.reduce<Effect[]>((kept, effect) => {
+    const conflict = kept.find(other => conflicts(effect, other));
+    if (conflict) {
+      suppressed.push({ effect, suppressedBy: conflict, reason: `Can't be combined with ${conflict.name}` });
+      return kept;
+    }
+    return [...kept, effect];
+  }, []);
+
+  const held = enforceSingleConcentration(active);
+  const concentration = held.find(effect => effect.duration?.concentration);
+  active.filter(effect => !held.includes(effect)).forEach(effect => {
+    suppressed.push({
+      effect,
+      suppressedBy: concentration as Effect,
+      reason: `Concentrating on ${concentration?.name}; only one concentration spell at a time`
+    });
+  });
+
+  return { active: sortEffects(held), suppressed };
+};
+
+// Active effects for a build after stacking rules, in hook order
+export const collectActiveEffects = (build: Build, extraSources: string[] = []): Effect[] => {
+  return resolveEffectStack(collectEffectSources(build, extraSources)).active;
+};
+
+export const createCombatContext = (overrides: Partial<CombatContext> = {}): CombatContext => ({
+  advantage: 'normal',
+  cover: 'none',
+  range: 'normal',
+  lighting: 'bright',
+  flanking: false,
+  hidden: false,
+  recklessAttack: false,
+  allyWithin5ft: false,
+  targetActions: [],
+  targetConditions: [],
+  ...overrides
+});
+
+const isEmptyModifier = (modifier: object | undefined): boolean => {
+  return !modifier || Object.keys(modifier).length === 0;
+};
+
+// Skip effects out of uses this turn or whose resources can't be paid
+const isAvailable = (effect: Effect, options: HookOptions): boolean => {
+  const perTurn = effect.usage?.perTurn;
+  if (perTurn !== undefined && options.usage && (options.usage[effect.id] || 0) >= perTurn) return false;
+  return options.canUse ? options.canUse(effect) : true;
+};
+
+// Effects whose requirements expressions don't all hold for this attack or save sit it out
+const meetsRequirements = (effect: Effect, context: AttackContext | SaveContext): boolean => {
+  const requirements = effect.conditions?.requirements || [];
+  if (requirements.length === 0) return true;
+  const scope = createRuleScope(context);
+  return requirements.every(requirement => evaluateRuleExpression(requirement, scope));
+};
+
+const recordUse = (effect: Effect, options: HookOptions): void => {
+  if (options.usage) options.usage[effect.id] = (options.usage[effect.id] || 0) + 1;
+};
+
+// Advantage and disadvantage cancel; Elven Accuracy only upgrades advantage
+const combineAdvantage = (states: AdvantageState[]): AdvantageState => {
+  const hasAdvantage = states.includes('advantage') || states.includes('elven-accuracy');
+  const hasDisadvantage = states.includes('disadvantage');
+  if (hasAdvantage && hasDisadvantage) return 'normal';
+  if (hasDisadvantage) return 'disadvantage';
+  if (!hasAdvantage) return 'normal';
+  return states.includes('elven-accuracy') ? 'elven-accuracy' : 'advantage';
+};
+
+/**
+ * onAttackRoll: static to-hit and crit range modifiers plus every hook's AttackModifier
+ */
+export const resolveAttackRoll = (
+  effects: Effect[],
+  context: AttackContext,
+  options: HookOptions = {}
+): ResolvedAttackModifier => {
+  const states: AdvantageState[] = [context.combat.advantage];
+  const result: ResolvedAttackModifier = {
+    toHitBonus: 0,
+    advantageState: 'normal',
+    critRange: 20,
+    bonusDice: [],
+    rerolls: [],
+    applied: []
+  };
+
+  for (const effect of effects) {
+    if (!isAvailable(effect, options) || !meetsRequirements(effect, context)) continue;
+
+    const modifier: AttackModifier = effect.hooks.onAttackRoll?.(context) || {};
+    const toHit = (effect.modifiers.toHit || 0) + (modifier.toHitBonus || 0);
+    const critRange = modifier.critRange || effect.modifiers.critRange;
+
+    result.toHitBonus += toHit;
+    if (critRange) result.critRange = Math.min(result.critRange, critRange);
+    if (modifier.advantageState) states.push(modifier.advantageState);
+    modifier.bonusDice?.forEach(bonus => result.bonusDice.push({ dice: bonus.dice, source: effect.id }));
+    if (modifier.reroll) result.rerolls.push({ reroll: modifier.reroll, source: effect.id });
+
+    if (toHit !== 0 || critRange || !isEmptyModifier(modifier)) result.applied.push(effect.id);
+  }
+
+  result.advantageState = combineAdvantage(states);
+  return result;
+};
+
+/**
+ * onHit, then onCrit on a critical, then onDamageRoll: extra dice and flat bonuses for one hit
+ */
+export const resolveHitDamage = (
+  effects: Effect[],
+  context: HitContext,
+  options: HookOptions = {}
+): ResolvedDamageModifier => {
+  const result: ResolvedDamageModifier = { bonus: 0, dice: [], multiplier: 1, applied: [] };
+  const damageContext: DamageContext = { ...context, baseDamage: [] };
+
+  for (const effect of effects) {
+    if (!isAvailable(effect, options) || !meetsRequirements(effect, context)) continue;
+
+    const critModifier = context.isCrit ? effect.hooks.onCrit?.(context) : undefined;
+    const modifiers: DamageModifier[] = [
+      effect.modifiers.damage,
+      effect.hooks.onHit?.(context),
+      critModifier,
+      effect.hooks.onDamageRoll?.(damageContext)
+    ].filter((modifier): modifier is DamageModifier => !isEmptyModifier(modifier));
+
+    if (modifiers.length === 0) continue;
+
+    modifiers.forEach(modifier => {
+      result.bonus += modifier.bonus || 0;
+      result.multiplier *= modifier.multiplier || 1;
+      if (modifier.dice) {
+        result.dice.push({
+          dice: modifier.dice,
+          damageType: modifier.damageType,
+          source: effect.id,
+          ...(modifier === critModifier ? { critOnly: true } : {})
+        });
+      }
+      if (modifier.reroll) result.reroll = modifier.reroll;
+    });
+
+    result.applied.push(effect.id);
+    recordUse(effect, options);
+  }
+
+  return result;
+};
+
+/**
+ * onSave: spell DC bonuses and the target's advantage state for one saving throw
+ */
+export const resolveSave = (effects: Effect[], context: SaveContext): ResolvedSaveModifier => {
+  const states: AdvantageState[] = [];
+  const result: ResolvedSaveModifier = { dcBonus: 0, advantageState: 'normal', rerollFailed: false, applied: [] };
+
+  for (const effect of effects) {
+    if (!meetsRequirements(effect, context)) continue;
+
+    const modifier: SaveModifier = effect.hooks.onSave?.(context) || {};
+    if (isEmptyModifier(modifier)) continue;
+
+    result.dcBonus += modifier.dcBonus || 0;
+    if (modifier.advantageState) states.push(modifier.advantageState);
+    if (modifier.rerollFailed) result.rerollFailed = true;
+    result.applied.push(effect.id);
+  }
+
+  const advantageState = combineAdvantage(states);
+  result.advantageState = advantageState === 'elven-accuracy' ? 'advantage' : advantageState;
+  return result;
+};
+
+// Turn and round hooks don't return modifiers; effects use them to update their own state
+export const runCombatHooks = (
+  effects: Effect[],
+  hook: 'onTurnStart' | 'onTurnEnd' | 'onRoundStart' | 'onRoundEnd',
+  context: CombatContext
+): void => {
+  effects.forEach(effect => effect.hooks[hook]?.(context));
+};
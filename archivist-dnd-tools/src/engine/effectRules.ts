@@ -0,0 +1,137 @@
+/**
+ * Declarative effect rules: homebrew effects are saved as conditions plus modifiers and
+ * compiled here into the hook functions the effect pipeline runs
+ */
+
+import type {
+  Effect,
+  EffectRule,
+  EffectRuleCondition,
+  AttackContext,
+  HitContext,
+  SaveContext,
+  AttackModifier,
+  DamageModifier,
+  SaveModifier
+} from '../types/effects';
+import { createRuleScope, evaluateRuleExpression } from './ruleExpressions';
+
+type RuleContext = AttackContext | SaveContext;
+type AttackRule = Extract<EffectRule, { hook: 'onAttackRoll' }>;
+type DamageRule = Extract<EffectRule, { hook: 'onHit' | 'onCrit' }>;
+type SaveRule = Extract<EffectRule, { hook: 'onSave' }>;
+
+const matchesAny = (values: string[] | undefined, candidates: string[]): boolean => {
+  if (!values || values.length === 0) return true;
+  const lowered = candidates.map(candidate => candidate.toLowerCase());
+  return values.some(value => lowered.includes(value.toLowerCase()));
+};
+
+// Every condition set on a rule must hold; attack-only conditions never hold for saves
+const ruleApplies = (when: EffectRuleCondition | undefined, context: RuleContext): boolean => {
+  if (!when) return true;
+  const isAttack = 'attackNumber' in context;
+
+  if (when.weaponProperties?.length) {
+    const weapon = isAttack && context.weapon ? context.build.equipment?.mainHand : null;
+    if (!weapon || !matchesAny(when.weaponProperties, [...weapon.properties, weapon.type])) return false;
+  }
+  if (when.advantage && context.combat.advantage !== 'advantage') return false;
+  if (when.firstAttackOnly && (!isAttack || context.attackNumber !== 0)) return false;
+  if (when.minLevel) {
+    const characterLevel = (context.build.levels || []).reduce((sum, classLevel) => sum + classLevel.level, 0);
+    if (characterLevel < when.minLevel) return false;
+  }
+  if (!matchesAny(when.targetTypes, context.target.type ? [context.target.type] : [])) return false;
+  if (!matchesAny(when.targetConditions, [...(context.target.conditions || []), ...context.combat.targetConditions])) {
+    return false;
+  }
+  if (when.expression && !evaluateRuleExpression(when.expression, createRuleScope(context))) return false;
+  return true;
+};
+
+// Only keys a rule actually sets are merged, so an effect whose rules don't apply returns {}
+const mergeAttackModifiers = (modifiers: AttackModifier[]): AttackModifier => {
+  const merged: AttackModifier = {};
+  modifiers.forEach(modifier => {
+    if (modifier.toHitBonus) merged.toHitBonus = (merged.toHitBonus || 0) + modifier.toHitBonus;
+    if (modifier.advantageState) merged.advantageState = modifier.advantageState;
+    if (modifier.critRange) merged.critRange = Math.min(merged.critRange || 20, modifier.critRange);
+    if (modifier.bonusDice?.length) merged.bonusDice = [...(merged.bonusDice || []), ...modifier.bonusDice];
+    if (modifier.reroll) merged.reroll = modifier.reroll;
+  });
+  return merged;
+};
+
+// Damage hooks return one dice expression, so the first rule with dice wins; validation allows one per hook
+const mergeDamageModifiers = (modifiers: DamageModifier[]): DamageModifier => {
+  const merged: DamageModifier = {};
+  modifiers.forEach(modifier => {
+    if (modifier.bonus) merged.bonus = (merged.bonus || 0) + modifier.bonus;
+    if (modifier.multiplier && modifier.multiplier !== 1) merged.multiplier = (merged.multiplier || 1) * modifier.multiplier;
+    if (modifier.reroll) merged.reroll = modifier.reroll;
+    if (modifier.dice && !merged.dice) {
+      merged.dice = modifier.dice;
+      if (modifier.damageType) merged.damageType = modifier.damageType;
+    }
+  });
+  return merged;
+};
+
+const mergeSaveModifiers = (modifiers: SaveModifier[]): SaveModifier => {
+  const merged: SaveModifier = {};
+  modifiers.forEach(modifier => {
+    if (modifier.dcBonus) merged.dcBonus = (merged.dcBonus || 0) + modifier.dcBonus;
+    if (modifier.advantageState) merged.advantageState = modifier.advantageState;
+    if (modifier.rerollFailed) merged.rerollFailed = true;
+  });
+  return merged;
+};
+
+const rulesFor = <T extends EffectRule>(rules: EffectRule[], hook: EffectRule['hook']): T[] => {
+  return rules.filter(rule => rule.hook === hook) as T[];
+};
+
+/**
+ * Effect with hooks built from its rules. Effects without rules are returned unchanged
+ */
+export const compileEffectRules = (effect: Effect): Effect => {
+  const rules = effect.rules || [];
+  if (rules.length === 0) return effect;
+
+  const hooks: Effect['hooks'] = {};
+  const attackRules = rulesFor<AttackRule>(rules, 'onAttackRoll');
+  const hitRules = rulesFor<DamageRule>(rules, 'onHit');
+  const critRules = rulesFor<DamageRule>(rules, 'onCrit');
+  const saveRules = rulesFor<SaveRule>(rules, 'onSave');
+
+  if (attackRules.length) {
+    hooks.onAttackRoll = (context: AttackContext) =>
+      mergeAttackModifiers(attackRules.filter(rule => ruleApplies(rule.when, context)).map(rule => rule.modifier));
+  }
+  if (hitRules.length) {
+    hooks.onHit = (context: HitContext) =>
+      mergeDamageModifiers(hitRules.filter(rule => ruleApplies(rule.when, context)).map(rule => rule.modifier));
+  }
+  if (critRules.length) {
+    hooks.onCrit = (context: HitContext) =>
+      mergeDamageModifiers(critRules.filter(rule => ruleApplies(rule.when, context)).map(rule => rule.modifier));
+  }
+  if (saveRules.length) {
+    hooks.onSave = (context: SaveContext) =>
+      mergeSaveModifiers(saveRules.filter(rule => ruleApplies(rule.when, context)).map(rule => rule.modifier));
+  }
+
+  return { ...effect, hooks: { ...effect.hooks, ...hooks } };
+};
+
+// Homebrew effects saved with the builds, compiled once and looked up by id after the built-in library
+let homebrewEffects: Record<string, Effect> = {};
+
+export const setHomebrewEffects = (effects: Effect[]): void => {
+  homebrewEffects = Object.fromEntries(effects.map(effect => [effect.id, compileEffectRules(effect)]));
+};
+
+export const findHomebrewEffect = (id: string): Effect | undefined => {
+  return homebrewEffects[id];
+};
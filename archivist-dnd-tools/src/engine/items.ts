@@ -0,0 +1,72 @@
+/**
+ * Magic items: accessories linked to library item effects, the three-item attunement limit,
+ * and the ability scores, AC and saving throw bonuses items grant
+ */
+
+import type { Abilities, Accessory, Equipment } from '../types/build';
+import type { Effect } from '../types/effects';
+import { effectLibrary, getEffectId } from '../data/effects';
+
+export const ATTUNEMENT_LIMIT = 3;
+
+export type SavingThrow = 'STR' | 'DEX' | 'CON' | 'INT' | 'WIS' | 'CHA';
+
+// Items a build can equip as accessories, for item pickers
+export const getMagicItems = (): Effect[] => {
+  return Object.values(effectLibrary.items).filter(item => item.magicItem);
+};
+
+// The library item an accessory is; accessories saved before items were linked match by name
+export const getAccessoryItem = (accessory: Accessory): Effect | undefined => {
+  const item = effectLibrary.items[accessory.itemId || getEffectId(accessory.name)];
+  return item?.magicItem ? item : undefined;
+};
+
+// Accessories saved before attunement was tracked count as attuned
+export const isAttuned = (accessory: Accessory): boolean => {
+  return Boolean(getAccessoryItem(accessory)?.magicItem?.requiresAttunement) && accessory.attuned !== false;
+};
+
+export const getAttunedCount = (equipment?: Equipment | null): number => {
+  return (equipment?.accessories || []).filter(isAttuned).length;
+};
+
+/**
+ * Items whose benefits apply: those that need no attunement, plus the first three attuned
+ * items; anything attuned past the limit is ignored
+ */
+export const getEquippedItemEffects = (equipment?: Equipment | null): Effect[] => {
+  let attuned = 0;
+  return (equipment?.accessories || []).flatMap(accessory => {
+    const item = getAccessoryItem(accessory);
+    if (!item) return [];
+    if (!item.magicItem?.requiresAttunement) return [item];
+    if (accessory.attuned === false || attuned >= ATTUNEMENT_LIMIT) return [];
+    attuned++;
+    return [item];
+  });
+};
+
+// Scores items set, e.g. Gauntlets of Ogre Power's Strength 19; a higher score is kept
+export const applyItemAbilityScores = (abilities: Abilities, equipment?: Equipment | null): Abilities => {
+  return getEquippedItemEffects(equipment).reduce<Abilities>((scores, item) => {
+    const updated = { ...scores };
+    Object.entries(item.modifiers.abilityScoreMinimums || {}).forEach(([ability, score]) => {
+      const key = ability as keyof Abilities;
+      updated[key] = Math.max(updated[key], score || 0);
+    });
+    return updated;
+  }, { ...abilities });
+};
+
+export const getItemACBonus = (equipment?: Equipment | null): number => {
+  return getEquippedItemEffects(equipment).reduce((total, item) => total + (item.modifiers.ac || 0), 0);
+};
+
+export const getItemSaveBonus = (equipment: Equipment | null | undefined, save: SavingThrow): number => {
+  return getEquippedItemEffects(equipment).reduce((total, item) => total + (item.modifiers.savingThrows?.[save] || 0), 0);
+};
+
+export const getItemResistances = (equipment?: Equipment | null): string[] => {
+  return [...new Set(getEquippedItemEffects(equipment).flatMap(item => item.modifiers.resistances || []))];
+};
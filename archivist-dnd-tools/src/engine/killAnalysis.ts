@@ -0,0 +1,326 @@
+/**
+ * Kill probability and rounds-to-kill analysis
+ * Tracks the exact distribution of damage dealt to each enemy attack by attack,
+ * so damage spilling past an enemy's hit points is counted as overkill waste
+ */
+
+import type { Target } from '../types';
+import {
+  getDamageSourcesDistribution,
+  convolveDistributions,
+  getFixedDistribution,
+  getDistributionMean,
+  mixDistributions,
+  type AttackSequence,
+  type DamageDistribution,
+  type DamageSource,
+} from './damage';
+
+// One attack roll within a round
+export interface AttackProfile {
+  hitProbability: number;
+  critProbability: number;
+  hitDistribution: DamageDistribution; // damage on a non-crit hit
+  critDistribution: DamageDistribution; // damage on a crit
+}
+
+// Everything a build does to a single target in one round
+export interface RoundProfile {
+  attacks: AttackProfile[];
+  oncePerTurn?: {
+    hitDistribution: DamageDistribution;
+    critDistribution: DamageDistribution;
+  };
+}
+
+export interface KillTarget {
+  name: string;
+  hitPoints: number;
+  profile: RoundProfile;
+}
+
+export interface RoundKillProbability {
+  round: number;
+  probability: number; // resolved in exactly this round
+  cumulative: number; // resolved by the end of this round
+}
+
+export interface KillAnalysis {
+  targetName: string;
+  hitPoints: number;
+  byRound: RoundKillProbability[];
+  expectedRounds: number; // conditional on a kill within the analysed horizon
+  medianRounds: number | null;
+  unresolvedProbability: number; // target still standing after maxRounds
+  expectedOverkill: number;
+}
+
+export interface EncounterKillAnalysis {
+  enemies: Array<{
+    name: string;
+    hitPoints: number;
+    byRound: RoundKillProbability[];
+    expectedRoundOfDeath: number;
+    survivalProbability: number;
+  }>;
+  clear: {
+    byRound: RoundKillProbability[];
+    expectedRounds: number;
+    medianRounds: number | null;
+    unresolvedProbability: number;
+  };
+  enemiesStandingByRound: number[]; // expected number of living enemies at the end of each round
+  expectedOverkill: number;
+  expectedDamageDealt: number;
+  overkillRate: number; // share of damage dealt that was wasted
+}
+
+// Build an attack profile from a damage sequence
+export const createAttackProfile = (sequence: AttackSequence, target?: Target): AttackProfile => {
+  const { hitProbability, critProbability, normalDamage, critDamage = [] } = sequence;
+
+  return {
+    hitProbability,
+    critProbability,
+    hitDistribution: getDamageSourcesDistribution(normalDamage, false, target),
+    critDistribution: getDamageSourcesDistribution([...normalDamage, ...critDamage], true, target),
+  };
+};
+
+// Build a round profile from attack sequences and optional once-per-turn damage (Sneak Attack, etc.)
+export const createRoundProfile = (
+  sequences: AttackSequence[],
+  oncePerTurn: DamageSource[] = [],
+  target?: Target
+): RoundProfile => {
+  const attacks = sequences.flatMap(sequence => {
+    const profile = createAttackProfile(sequence, target);
+    return Array.from({ length: sequence.numAttacks }, () => profile);
+  });
+
+  return {
+    attacks,
+    ...(oncePerTurn.length > 0 && {
+      oncePerTurn: {
+        hitDistribution: getDamageSourcesDistribution(oncePerTurn, false, target),
+        critDistribution: getDamageSourcesDistribution(oncePerTurn, true, target),
+      },
+    }),
+  };
+};
+
+// Full round distribution of a profile, ignoring hit points
+export const getRoundProfileDistribution = (profile: RoundProfile): DamageDistribution => {
+  // Split the mass by whether the once-per-turn rider has been spent
+  let unused = getFixedDistribution(0);
+  let used: DamageDistribution = [0];
+  const rider = profile.oncePerTurn;
+
+  for (const attack of profile.attacks) {
+    const normalHit = attack.hitProbability - attack.critProbability;
+    const miss = 1 - attack.hitProbability;
+    const withRiderHit = rider ? convolveDistributions(attack.hitDistribution, rider.hitDistribution) : attack.hitDistribution;
+    const withRiderCrit = rider ? convolveDistributions(attack.critDistribution, rider.critDistribution) : attack.critDistribution;
+
+    const nextUsed = mixDistributions([
+      { probability: miss, distribution: used },
+      { probability: normalHit, distribution: convolveDistributions(used, attack.hitDistribution) },
+      { probability: attack.critProbability, distribution: convolveDistributions(used, attack.critDistribution) },
+      { probability: normalHit, distribution: convolveDistributions(unused, withRiderHit) },
+      { probability: attack.critProbability, distribution: convolveDistributions(unused, withRiderCrit) },
+    ]);
+
+    unused = unused.map(p => p * miss);
+    used = nextUsed;
+  }
+
+  return mixDistributions([
+    { probability: 1, distribution: unused },
+    { probability: 1, distribution: used },
+  ]);
+};
+
+// Convert per-round resolution probabilities into summary statistics
+const summarizeResolution = (
+  perRound: number[]
+): { byRound: RoundKillProbability[]; expectedRounds: number; medianRounds: number | null; unresolvedProbability: number } => {
+  let cumulative = 0;
+  let medianRounds: number | null = null;
+  let weightedRounds = 0;
+
+  const byRound = perRound.map((probability, index) => {
+    cumulative += probability;
+    weightedRounds += probability * (index + 1);
+    if (medianRounds === null && cumulative >= 0.5) medianRounds = index + 1;
+    return { round: index + 1, probability, cumulative: Math.min(1, cumulative) };
+  });
+
+  return {
+    byRound,
+    expectedRounds: cumulative > 0 ? weightedRounds / cumulative : 0,
+    medianRounds,
+    unresolvedProbability: Math.max(0, 1 - cumulative),
+  };
+};
+
+/**
+ * Focus-fire a list of enemies in order, one attack at a time.
+ * State is (current enemy, damage already on it, once-per-turn rider spent).
+ * When an attack drops an enemy the excess is wasted and the next attack moves to the next enemy.
+ */
+export const analyzeEncounterKill = (enemies: KillTarget[], maxRounds: number = 20): EncounterKillAnalysis => {
+  const livingEnemies = enemies
+    .filter(enemy => enemy.hitPoints > 0)
+    .map(enemy => ({ ...enemy, hitPoints: Math.ceil(enemy.hitPoints) }));
+  const enemyCount = livingEnemies.length;
+
+  // state[enemy][riderUsed][damage]
+  const createState = () => livingEnemies.map(enemy => [
+    new Array(enemy.hitPoints).fill(0),
+    new Array(enemy.hitPoints).fill(0),
+  ]);
+
+  let state = createState();
+  if (enemyCount > 0) state[0][0][0] = 1;
+
+  const deathsByRound: number[][] = livingEnemies.map(() => []);
+  const clearByRound: number[] = [];
+  const standingByRound: number[] = [];
+  let expectedOverkill = 0;
+  let expectedDamageDealt = 0;
+
+  for (let round = 1; round <= maxRounds && enemyCount > 0; round++) {
+    const roundDeaths = new Array(enemyCount).fill(0);
+    let roundClear = 0;
+    const attackCount = Math.max(...livingEnemies.map(enemy => enemy.profile.attacks.length));
+
+    for (let attackIndex = 0; attackIndex < attackCount; attackIndex++) {
+      const next = createState();
+
+      for (let e = 0; e < enemyCount; e++) {
+        const { hitPoints, profile } = livingEnemies[e];
+        const attack = profile.attacks[attackIndex];
+
+        for (let riderUsed = 0; riderUsed < 2; riderUsed++) {
+          const current = state[e][riderUsed];
+          const rider = attack && riderUsed === 0 ? profile.oncePerTurn : undefined;
+          const branches: Array<[number, DamageDistribution]> = attack ? [
+            [attack.hitProbability - attack.critProbability, rider ? convolveDistributions(attack.hitDistribution, rider.hitDistribution) : attack.hitDistribution],
+            [attack.critProbability, rider ? convolveDistributions(attack.critDistribution, rider.critDistribution) : attack.critDistribution],
+          ] : [];
+          // A zero-damage hit still spends the rider, which is close enough at the table
+          const nextRider = rider ? 1 : riderUsed;
+
+          for (let damage = 0; damage < hitPoints; damage++) {
+            const p = current[damage];
+            if (p === 0) continue;
+
+            if (!attack) {
+              next[e][riderUsed][damage] += p;
+              continue;
+            }
+
+            next[e][riderUsed][damage] += p * (1 - attack.hitProbability);
+
+            for (const [branchProbability, dist] of branches) {
+              if (branchProbability <= 0) continue;
+              dist.forEach((q, dealt) => {
+                if (q === 0) return;
+                const mass = p * branchProbability * q;
+                const total = damage + dealt;
+                if (total >= hitPoints) {
+                  const overkill = total - hitPoints;
+                  expectedOverkill += mass * overkill;
+                  expectedDamageDealt += mass * dealt;
+                  roundDeaths[e] += mass;
+                  if (e + 1 < enemyCount) {
+                    next[e + 1][nextRider][0] += mass;
+                  } else {
+                    roundClear += mass;
+                  }
+                } else {
+                  expectedDamageDealt += mass * dealt;
+                  next[e][nextRider][total] += mass;
+                }
+              });
+            }
+          }
+        }
+      }
+
+      state = next;
+    }
+
+    // New turn: once-per-turn riders come back
+    for (let e = 0; e < enemyCount; e++) {
+      state[e][1].forEach((p, damage) => { state[e][0][damage] += p; });
+      state[e][1].fill(0);
+    }
+
+    roundDeaths.forEach((p, e) => deathsByRound[e].push(p));
+    clearByRound.push(roundClear);
+
+    // Expected living enemies: enemies at or beyond the current one are still up
+    let standing = 0;
+    for (let e = 0; e < enemyCount; e++) {
+      const mass = state[e][0].reduce((sum, p) => sum + p, 0);
+      standing += mass * (enemyCount - e);
+    }
+    standingByRound.push(standing);
+  }
+
+  const clear = summarizeResolution(clearByRound);
+
+  return {
+    enemies: livingEnemies.map((enemy, e) => {
+      const summary = summarizeResolution(deathsByRound[e]);
+      return {
+        name: enemy.name,
+        hitPoints: enemy.hitPoints,
+        byRound: summary.byRound,
+        expectedRoundOfDeath: summary.expectedRounds,
+        survivalProbability: summary.unresolvedProbability,
+      };
+    }),
+    clear,
+    enemiesStandingByRound: standingByRound,
+    expectedOverkill,
+    expectedDamageDealt,
+    overkillRate: expectedDamageDealt > 0 ? expectedOverkill / expectedDamageDealt : 0,
+  };
+};
+
+// Rounds-to-kill distribution against a single target
+export const analyzeRoundsToKill = (
+  profile: RoundProfile,
+  target: Pick<Target, 'name' | 'hitPoints' | 'currentHP'>,
+  maxRounds: number = 20
+): KillAnalysis => {
+  const hitPoints = Math.max(1, Math.ceil(target.currentHP ?? target.hitPoints));
+  const encounter = analyzeEncounterKill([{ name: target.name, hitPoints, profile }], maxRounds);
+
+  return {
+    targetName: target.name,
+    hitPoints,
+    byRound: encounter.clear.byRound,
+    expectedRounds: encounter.clear.expectedRounds,
+    medianRounds: encounter.clear.medianRounds,
+    unresolvedProbability: encounter.clear.unresolvedProbability,
+    expectedOverkill: encounter.expectedOverkill,
+  };
+};
+
+// Probability of dropping a target within a single round
+export const getSingleRoundKillProbability = (profile: RoundProfile, hitPoints: number): number => {
+  const dist = getRoundProfileDistribution(profile);
+  let probability = 0;
+  for (let damage = Math.max(0, Math.ceil(hitPoints)); damage < dist.length; damage++) {
+    probability += dist[damage];
+  }
+  return Math.min(1, probability);
+};
+
+// Average damage a profile deals per round, ignoring hit points
+export const getRoundProfileMean = (profile: RoundProfile): number => {
+  return getDistributionMean(getRoundProfileDistribution(profile));
+};
@@ -0,0 +1,95 @@
+/**
+ * Legendary Resistance decisions: which failed saves a boss turns into successes,
+ * and which control spells are worth landing through them
+ */
+
+import type { Build, Target } from '../types/build';
+import { getSaveFailureProbability } from './probability';
+import { getEffectId } from '../data/effects';
+
+export type SaveAbility = 'strength' | 'dexterity' | 'constitution' | 'intelligence' | 'wisdom' | 'charisma';
+
+// Save-or-suck spells the simulator knows how to run
+export interface ControlSpell {
+  id: string;
+  name: string;
+  level: number;
+  save: SaveAbility;
+  severity: number; // 1-10: how much landing it swings the fight
+  repeatSave: boolean; // Save again at the end of each of the target's turns
+  maxRounds?: number; // Ends on its own (Command lasts one turn)
+}
+
+// Boss with Legendary Resistance and the save bonuses control spells roll against
+export interface ControlTarget extends Target {
+  legendaryResistances: number;
+  saves: Record<SaveAbility, number>;
+  magicResistance?: boolean;
+}
+
+export type LegendaryResistancePolicy = 'direct' | 'bait';
+
+export const CONTROL_SPELLS: Record<string, ControlSpell> = {
+  'sacred-flame': { id: 'sacred-flame', name: 'Sacred Flame', level: 0, save: 'dexterity', severity: 1, repeatSave: false, maxRounds: 0 },
+  'toll-the-dead': { id: 'toll-the-dead', name: 'Toll the Dead', level: 0, save: 'wisdom', severity: 1, repeatSave: false, maxRounds: 0 },
+  'command': { id: 'command', name: 'Command', level: 1, save: 'wisdom', severity: 5, repeatSave: false, maxRounds: 1 },
+  'tashas-hideous-laughter': { id: 'tashas-hideous-laughter', name: "Tasha's Hideous Laughter", level: 1, save: 'wisdom', severity: 7, repeatSave: true },
+  'hypnotic-pattern': { id: 'hypnotic-pattern', name: 'Hypnotic Pattern', level: 3, save: 'wisdom', severity: 8, repeatSave: false },
+  'slow': { id: 'slow', name: 'Slow', level: 3, save: 'wisdom', severity: 6, repeatSave: true },
+  'banishment': { id: 'banishment', name: 'Banishment', level: 4, save: 'charisma', severity: 9, repeatSave: false },
+  'polymorph': { id: 'polymorph', name: 'Polymorph', level: 4, save: 'wisdom', severity: 9, repeatSave: false },
+  'hold-monster': { id: 'hold-monster', name: 'Hold Monster', level: 5, save: 'wisdom', severity: 10, repeatSave: true },
+};
+
+// Effects at or above this severity take a boss out of the fight and are worth a Legendary Resistance
+export const MEANINGFUL_SEVERITY = 5;
+
+// With its last resistance a boss only saves itself from the worst effects
+const LAST_RESISTANCE_SEVERITY = 7;
+
+// Look up a control spell by any spelling of its name, e.g. "Tasha's Hideous Laughter"
+export const getControlSpell = (spell: string): ControlSpell | undefined => {
+  return CONTROL_SPELLS[getEffectId(spell)];
+};
+
+// Control spells a build knows, cheapest first
+export const getBuildControlSpells = (build: Build): ControlSpell[] => {
+  return (build.spells || [])
+    .map(getControlSpell)
+    .filter((spell): spell is ControlSpell => Boolean(spell))
+    .sort((a, b) => a.level - b.level || a.severity - b.severity);
+};
+
+// "Legendary Resistance (3/Day)" -> 3
+export const getLegendaryResistanceCount = (traits: string[] = []): number => {
+  const trait = traits.find(t => /legendary resistance/i.test(t));
+  const match = trait?.match(/\((\d+)\s*\/\s*day\)/i);
+  return match ? parseInt(match[1]) : trait ? 3 : 0;
+};
+
+export const isRealControlEffect = (spell: ControlSpell): boolean => spell.severity >= MEANINGFUL_SEVERITY;
+
+// Boss policy: spend a resistance on a failed save only when the effect matters
+export const shouldSpendLegendaryResistance = (spell: ControlSpell, remainingResistances: number): boolean => {
+  if (remainingResistances <= 0) return false;
+  const threshold = remainingResistances === 1 ? LAST_RESISTANCE_SEVERITY : MEANINGFUL_SEVERITY;
+  return spell.severity >= threshold;
+};
+
+// Chance the target fails one save against a spell, with Magic Resistance as advantage
+export const getControlSaveFailChance = (spell: ControlSpell, target: ControlTarget, spellSaveDC: number): number => {
+  return getSaveFailureProbability(spellSaveDC, target.saves[spell.save] || 0, {
+    advantageState: target.magicResistance ? 'advantage' : 'normal'
+  });
+};
+
+// Lowest slot level with a slot left in the given range, as a spellSlots key
+export const getLowestAvailableSlot = (
+  spellSlots: Record<string, number>,
+  minLevel: number,
+  maxLevel: number = 9
+): string | undefined => {
+  return Object.keys(spellSlots)
+    .filter(level => Number(level) >= minLevel && Number(level) <= maxLevel && spellSlots[level] > 0)
+    .sort((a, b) => Number(a) - Number(b))[0];
+};
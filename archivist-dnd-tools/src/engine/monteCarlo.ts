@@ -5,6 +5,43 @@
 
 import { SeededRandom, DiceRoller, Statistics } from './random';
 import type { Build, Target } from '../types/build';
+import type { EnemyTemplate } from '../data/encounters/encounterPacks';
+import { getAttacksPerAction as getClassAttacksPerAction } from '../data/classProgression';
+import { createPolicyEngine, type CombatPolicyContext, type PolicyEngine } from './policyEngine';
+import type { AttackContext, D20Reroll, Effect } from '../types/effects';
+import {
+  collectActiveEffects,
+  createCombatContext,
+  findLibraryEffect,
+  isPowerAttackEffect,
+  resolveAttackRoll,
+  resolveHitDamage,
+  resolveSave,
+  runCombatHooks,
+  type EffectUsage,
+  type ResolvedAttackModifier
+} from './effectHooks';
+import {
+  CONCENTRATION_SPELLS,
+  selectConcentrationSpell,
+  getConcentrationSaveDC,
+  hasConcentrationAdvantage,
+  type ConcentrationSpell
+} from './concentration';
+import { getItemACBonus, getItemResistances } from './items';
+import { getSavingThrowBonus } from './savingThrows';
+import { getRacialResistances } from './races';
+import { comparePowerAttack } from './powerAttack';
+import { getSavedAttackLine, getWeaponDamage } from './damage';
+import {
+  CONTROL_SPELLS,
+  getLowestAvailableSlot,
+  isRealControlEffect,
+  shouldSpendLegendaryResistance,
+  type ControlSpell,
+  type ControlTarget,
+  type LegendaryResistancePolicy
+} from './legendaryResistance';
 
 // Combat state tracking
 export interface CombatState {
@@ -12,8 +49,10 @@ export interface CombatState {
   turn: number;
   resources: {
     hitPoints: number;
+    maxHitPoints: number;
     spellSlots: Record<string, number>;
     classResources: Record<string, number>; // Ki, Rage, Superiority Die, etc.
+    portentDice?: number[]; // Foretelling rolls not yet used this combat
     concentration: string | null;
     conditions: string[];
   };
@@ -28,6 +67,48 @@ export interface CombatState {
     duration: number;
     effects: any;
   }>;
+  defense: {
+    armorClass: number;
+    damageTaken: number;
+    saveBonus: number; // allies' buffs to saving throws, from the party context
+  };
+  concentrationTracking: ConcentrationTracking;
+  spentRecharges: string[]; // enemy recharge abilities waiting to come back, keyed "<enemy index>:<action>"
+}
+
+// Concentration spell bookkeeping for one run
+export interface ConcentrationTracking {
+  spell: ConcentrationSpell | null; // spell the build opens with and recasts after a drop
+  firstCastRound: number | null;
+  roundsActive: number; // rounds ended while concentrating
+  roundsAfterCast: number; // rounds ended since the first cast
+  checks: number;
+  failures: number;
+  damage: number; // damage added by the concentration spell
+}
+
+// Enemy that may carry stat block actions to use against the build
+export type ActingEnemy = Target & Partial<Pick<EnemyTemplate, 'actions' | 'challenge' | 'abilityScores'>>;
+
+// Enemy action from a stat block
+type EnemyAction = EnemyTemplate['actions'][number];
+
+// Defensive outcome shared by single-target and encounter results
+export interface SurvivalStatistics {
+  probability: number; // share of runs the build stayed above 0 HP
+  damageTaken: {
+    mean: number;
+    percentiles: Record<number, number>;
+  };
+}
+
+// Concentration outcome shared by single-target and encounter results
+export interface ConcentrationStatistics {
+  spell: string | null;
+  uptime: number; // share of rounds after the first cast spent concentrating
+  checksPerRun: number;
+  failureRate: number;
+  dprLost: number; // damage per round lost to dropped concentration
 }
 
 // Combat scenario definition
@@ -57,6 +138,9 @@ export interface SimulationRun {
   resourcesUsed: Record<string, number>;
   conditions: string[];
   finalState: CombatState;
+  damageTaken: number;
+  survived: boolean;
+  concentration: ConcentrationTracking;
 }
 
 // Aggregated results from multiple runs
@@ -91,6 +175,10 @@ export interface MonteCarloResults {
     efficiency: Record<string, number>; // Damage per resource
   };
   
+  // Enemy turns against the build
+  survival: SurvivalStatistics;
+  concentration: ConcentrationStatistics;
+  
   // Tactical insights
   insights: {
     optimalRounds: number[];
@@ -100,6 +188,89 @@ export interface MonteCarloResults {
   };
 }
 
+// Single run of a multi-target encounter
+export interface EncounterSimulationRun {
+  rounds: number; // round the last enemy fell, or the round cap
+  cleared: boolean;
+  damageDealt: number; // damage that actually came off enemy hit points
+  overkillDamage: number; // damage past an enemy's remaining hit points
+  damageByRound: number[];
+  enemiesStandingByRound: number[];
+  killRounds: Array<number | null>; // per enemy, null if it survived
+  damageTaken: number;
+  survived: boolean;
+  concentration: ConcentrationTracking;
+}
+
+// Aggregated results from multiple encounter runs
+export interface EncounterSimulationResults {
+  runs: number;
+  seed: number;
+  scenario: CombatScenario;
+  maxRounds: number;
+
+  // Encounter duration
+  duration: {
+    mean: number; // over cleared runs
+    median: number;
+    percentiles: Record<number, number>;
+    clearRate: number;
+    clearedByRound: number[]; // cumulative share of runs cleared by each round
+  };
+
+  // Damage lost to overkill when an enemy drops
+  overkill: {
+    mean: number;
+    rate: number; // share of total rolled damage that was wasted
+  };
+
+  damage: {
+    mean: number;
+    byRound: number[];
+  };
+
+  enemiesStandingByRound: number[]; // mean living enemies at the end of each round
+
+  survival: SurvivalStatistics;
+  concentration: ConcentrationStatistics;
+
+  enemies: Array<{
+    name: string;
+    hitPoints: number;
+    killRate: number;
+    averageRoundOfDeath: number; // over runs where it died
+  }>;
+}
+
+// Single boss fight against the build's control spells
+export interface LegendaryResistanceRun {
+  landedEffects: number; // control effects that took hold past Legendary Resistance
+  firstLandedRound: number | null;
+  controlledRounds: number;
+  resistancesSpent: number;
+  slotsSpent: number;
+}
+
+// Aggregated results for control spells against Legendary Resistance
+export interface LegendaryResistanceResults {
+  runs: number;
+  seed: number;
+  rounds: number;
+  policy: LegendaryResistancePolicy;
+  legendaryResistances: number;
+  landedEffects: {
+    mean: number;
+    atLeastOneRate: number;
+  };
+  averageFirstLandedRound: number; // over runs where something landed
+  controlledRounds: {
+    mean: number;
+    share: number; // of all rounds fought
+  };
+  resistancesSpent: number;
+  slotsSpent: number;
+}
+
 /**
  * Monte Carlo Simulation Engine
  */
@@ -143,6 +314,320 @@ export class MonteCarloEngine {
     return this.analyzeResults(scenario);
   }
 
+  /**
+   * Run Monte Carlo simulation for a build against a group of enemies.
+   * Each attack picks a target through the policy engine, so wounded enemies
+   * draw focus fire and damage past a kill is recorded as overkill.
+   */
+  async simulateEncounter(
+    build: Build,
+    enemies: Target[],
+    scenario: CombatScenario,
+    iterations: number = 1000,
+    maxRounds: number = 20,
+    partyContext?: CombatPolicyContext['partyContext']
+  ): Promise<EncounterSimulationResults> {
+    const policy = createPolicyEngine(build);
+    const runs: EncounterSimulationRun[] = [];
+
+    for (let i = 0; i < iterations; i++) {
+      runs.push(this.simulateEncounterRun(build, enemies, scenario, policy, maxRounds, partyContext));
+
+      if (i % 100 === 0) {
+        // Allow event loop to continue for UI responsiveness
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+
+    return this.analyzeEncounterResults(runs, enemies, scenario, maxRounds);
+  }
+
+  /**
+   * Simulate one fight against every enemy until they are all down or the round cap is hit
+   */
+  private simulateEncounterRun(
+    build: Build,
+    enemies: Target[],
+    scenario: CombatScenario,
+    policy: PolicyEngine,
+    maxRounds: number,
+    partyContext?: CombatPolicyContext['partyContext']
+  ): EncounterSimulationRun {
+    const state: CombatState = this.initializeCombatState(build, partyContext);
+    const foes: Target[] = enemies.map(enemy => {
+      const maxHP = enemy.maxHP ?? enemy.hitPoints;
+      return { ...enemy, maxHP, currentHP: enemy.currentHP ?? maxHP };
+    });
+    const killRounds: Array<number | null> = foes.map(() => null);
+    const damageByRound: number[] = [];
+    const enemiesStandingByRound: number[] = [];
+    let damageDealt = 0;
+    let overkillDamage = 0;
+    let rounds = maxRounds;
+    let cleared = false;
+    let survived = true;
+
+    const getLivingIndices = () => foes
+      .map((foe, index) => (foe.currentHP > 0 ? index : -1))
+      .filter(index => index >= 0);
+
+    for (let round = 1; round <= maxRounds; round++) {
+      state.round = round;
+      state.actionEconomy = {
+        action: true,
+        bonusAction: true,
+        reaction: true,
+        movement: 30 // Default movement
+      };
+      this.maintainConcentration(state);
+
+      const attacksPerAction = this.getAttacksPerAction(build);
+      const totalAttacks = state.actionEconomy.action ? attacksPerAction + this.getConcentrationExtraAttacks(state) : 0;
+      const attackBonus = this.calculateAttackBonus(build, state);
+      const damageRoll = this.getDamageRoll(build);
+      const effects = this.getActiveEffects(build, state);
+      const usage: EffectUsage = {};
+      let roundDamage = 0;
+
+      for (let attack = 0; attack < totalAttacks; attack++) {
+        const living = getLivingIndices();
+        if (living.length === 0) break;
+
+        // Re-pick the target every attack so the swing after a kill moves on
+        const livingFoes = living.map(index => foes[index]);
+        const decision = policy.decideTargeting(this.createPolicyContext(build, livingFoes[0], state, partyContext), livingFoes);
+        const targetIndex = living[decision.targetIndex ?? 0] ?? living[0];
+        const foe = foes[targetIndex];
+
+        const attackResult = this.resolveAttack(build, foe, state, attack, attackBonus, damageRoll, effects, usage);
+        if (!attackResult.isHit) continue;
+
+        const dealt = Math.min(attackResult.damage, foe.currentHP);
+        if (attack >= attacksPerAction) state.concentrationTracking.damage += dealt;
+        overkillDamage += attackResult.damage - dealt;
+        damageDealt += dealt;
+        roundDamage += dealt;
+        foe.currentHP -= dealt;
+
+        if (foe.currentHP <= 0) {
+          killRounds[targetIndex] = round;
+        }
+      }
+      state.actionEconomy.action = false;
+
+      const living = getLivingIndices();
+      if (living.length > 0) {
+        // Surviving enemies act against the build
+        this.simulateEnemyPhase(build, living.map(index => foes[index]), state, scenario, living);
+      }
+
+      damageByRound.push(roundDamage);
+      enemiesStandingByRound.push(living.length);
+      this.applyEndOfRoundEffects(state);
+
+      if (living.length === 0) {
+        rounds = round;
+        cleared = true;
+        break;
+      }
+
+      // A downed build ends the fight on the enemies' terms
+      if (this.isDowned(state)) {
+        survived = false;
+        break;
+      }
+    }
+
+    return {
+      rounds,
+      cleared,
+      damageDealt,
+      overkillDamage,
+      damageByRound,
+      enemiesStandingByRound,
+      killRounds,
+      damageTaken: state.defense.damageTaken,
+      survived,
+      concentration: state.concentrationTracking
+    };
+  }
+
+  /**
+   * Simulate a caster working control spells through a boss's Legendary Resistances
+   */
+  async simulateLegendaryResistance(
+    build: Build,
+    boss: ControlTarget,
+    spellSaveDC: number,
+    iterations: number = 1000,
+    rounds: number = 10
+  ): Promise<LegendaryResistanceResults> {
+    const policy = createPolicyEngine(build);
+    const runs: LegendaryResistanceRun[] = [];
+
+    for (let i = 0; i < iterations; i++) {
+      runs.push(this.simulateLegendaryResistanceRun(build, boss, spellSaveDC, policy, rounds));
+
+      if (i % 100 === 0) {
+        // Allow event loop to continue for UI responsiveness
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+
+    const landed = runs.map(run => run.landedEffects);
+    const firstLanded = runs
+      .map(run => run.firstLandedRound)
+      .filter((round): round is number => round !== null);
+    const controlledRounds = runs.map(run => run.controlledRounds);
+
+    return {
+      runs: runs.length,
+      seed: this.rng.getSeed(),
+      rounds,
+      policy: build.policies.legendaryResistancePolicy || 'direct',
+      legendaryResistances: boss.legendaryResistances,
+      landedEffects: {
+        mean: Statistics.mean(landed),
+        atLeastOneRate: runs.length > 0 ? firstLanded.length / runs.length : 0
+      },
+      averageFirstLandedRound: firstLanded.length > 0 ? Statistics.mean(firstLanded) : 0,
+      controlledRounds: {
+        mean: Statistics.mean(controlledRounds),
+        share: rounds > 0 ? Statistics.mean(controlledRounds) / rounds : 0
+      },
+      resistancesSpent: Statistics.mean(runs.map(run => run.resistancesSpent)),
+      slotsSpent: Statistics.mean(runs.map(run => run.slotsSpent))
+    };
+  }
+
+  /**
+   * One boss fight: cast the policy's control spell while nothing holds the boss,
+   * and let the boss resist the failed saves that matter
+   */
+  private simulateLegendaryResistanceRun(
+    build: Build,
+    boss: ControlTarget,
+    spellSaveDC: number,
+    policy: PolicyEngine,
+    rounds: number
+  ): LegendaryResistanceRun {
+    const state = this.initializeCombatState(build);
+    const foe: ControlTarget = { ...boss };
+    const run: LegendaryResistanceRun = {
+      landedEffects: 0,
+      firstLandedRound: null,
+      controlledRounds: 0,
+      resistancesSpent: 0,
+      slotsSpent: 0
+    };
+    let active: { spell: ControlSpell; roundsLeft: number | null } | null = null;
+
+    for (let round = 1; round <= rounds; round++) {
+      state.round = round;
+
+      if (!active) {
+        const decision = policy.decideControlSpell(this.createPolicyContext(build, foe, state), foe, spellSaveDC);
+        const spell = decision.action.startsWith('cast-') ? CONTROL_SPELLS[decision.action.slice('cast-'.length)] : undefined;
+
+        if (spell) {
+          const slot = spell.level > 0 ? getLowestAvailableSlot(state.resources.spellSlots, spell.level) : undefined;
+          if (slot) {
+            state.resources.spellSlots[slot]--;
+            run.slotsSpent++;
+          }
+
+          if (!this.rollControlSave(build, state, spell, foe, spellSaveDC)) {
+            if (shouldSpendLegendaryResistance(spell, foe.legendaryResistances)) {
+              foe.legendaryResistances--;
+              run.resistancesSpent++;
+            } else if (isRealControlEffect(spell)) {
+              run.landedEffects++;
+              run.firstLandedRound = run.firstLandedRound ?? round;
+              active = { spell, roundsLeft: spell.maxRounds ?? null };
+            }
+          }
+        }
+      }
+
+      if (!active) continue;
+      run.controlledRounds++;
+
+      // End of the boss's turn: timed effects run out, others get a repeat save
+      if (active.roundsLeft !== null && --active.roundsLeft <= 0) {
+        active = null;
+      } else if (active.spell.repeatSave && !this.rollControlSave(build, state, active.spell, foe, spellSaveDC)) {
+        if (shouldSpendLegendaryResistance(active.spell, foe.legendaryResistances)) {
+          foe.legendaryResistances--;
+          run.resistancesSpent++;
+          active = null;
+        }
+      } else if (active.spell.repeatSave) {
+        active = null;
+      }
+    }
+
+    return run;
+  }
+
+  // True when the boss saves; Magic Resistance rolls with advantage, and onSave hooks can shift the DC or the roll
+  private rollControlSave(
+    build: Build,
+    state: CombatState,
+    spell: ControlSpell,
+    target: ControlTarget,
+    spellSaveDC: number
+  ): boolean {
+    const saveModifier = resolveSave(this.getActiveEffects(build, state), {
+      build,
+      target,
+      combat: createCombatContext(),
+      spell: spell.name,
+      savingThrow: spell.save.slice(0, 3).toUpperCase() as 'STR' | 'DEX' | 'CON' | 'INT' | 'WIS' | 'CHA',
+      dc: spellSaveDC
+    });
+    const advantage = target.magicResistance
+      ? (saveModifier.advantageState === 'disadvantage' ? 'normal' : 'advantage')
+      : saveModifier.advantageState;
+    const roll = advantage === 'advantage'
+      ? this.rng.rollAdvantage()
+      : advantage === 'disadvantage' ? this.rng.rollDisadvantage() : this.rng.rollDie(20);
+    return roll + (target.saves[spell.save] || 0) >= spellSaveDC + saveModifier.dcBonus;
+  }
+
+  /**
+   * Policy context for an attack against the given target
+   */
+  private createPolicyContext(
+    build: Build,
+    target: Target,
+    state: CombatState,
+    partyContext?: CombatPolicyContext['partyContext']
+  ): CombatPolicyContext {
+    return {
+      build,
+      target,
+      combat: {
+        advantage: this.getAdvantageState(build, target, state),
+        cover: 'none',
+        range: 'normal',
+        lighting: 'bright',
+        flanking: false,
+        hidden: false,
+        recklessAttack: false,
+        allyWithin5ft: false,
+        targetActions: [],
+        targetConditions: target.conditions || []
+      },
+      round: state.round,
+      remainingResources: {
+        spellSlots: state.resources.spellSlots,
+        hitDice: 0,
+        features: state.resources.classResources
+      },
+      ...(partyContext && { partyContext })
+    };
+  }
+
   /**
    * Simulate a single combat encounter
    */
@@ -188,7 +673,10 @@ export class MonteCarloEngine {
       critCount,
       resourcesUsed,
       conditions: state.resources.conditions,
-      finalState: state
+      finalState: state,
+      damageTaken: state.defense.damageTaken,
+      survived: !this.isDowned(state),
+      concentration: state.concentrationTracking
     };
   }
 
@@ -215,6 +703,19 @@ export class MonteCarloEngine {
       movement: 30 // Default movement
     };
 
+    // A downed build can't act, but the enemy turn still happens
+    if (this.isDowned(state)) {
+      state.actionEconomy.action = false;
+      state.actionEconomy.bonusAction = false;
+    }
+
+    this.maintainConcentration(state);
+
+    const combatContext = createCombatContext();
+    const effects = this.getActiveEffects(build, state);
+    runCombatHooks(effects, 'onRoundStart', combatContext);
+    runCombatHooks(effects, 'onTurnStart', combatContext);
+
     let roundDamage = 0;
     let hits = 0;
     let misses = 0;
@@ -245,8 +746,12 @@ export class MonteCarloEngine {
       }
     }
 
+    runCombatHooks(effects, 'onTurnEnd', combatContext);
+
     // Simulate enemy actions and potential reactions
-    this.simulateEnemyPhase(build, target, state, scenario);
+    this.simulateEnemyPhase(build, [target], state, scenario);
+
+    runCombatHooks(effects, 'onRoundEnd', combatContext);
 
     return { damage: roundDamage, hits, misses, crits, resourcesUsed };
   }
@@ -337,52 +842,239 @@ export class MonteCarloEngine {
 
     // Calculate number of attacks based on level and features
     const attacksPerAction = this.getAttacksPerAction(build);
+    const extraAttacks = this.getConcentrationExtraAttacks(state);
     const attackBonus = this.calculateAttackBonus(build, state);
     const damageRoll = this.getDamageRoll(build);
+    const effects = this.getActiveEffects(build, state);
+    const usage: EffectUsage = {};
 
-    for (let attack = 0; attack < attacksPerAction; attack++) {
-      // Roll attack
-      const attackRoll = this.roller.rollWithAdvantage('1d20', this.getAdvantageState(build, target, state));
-      const totalAttackRoll = attackRoll + attackBonus;
-      
-      // Check for hit/crit
-      const isCrit = attackRoll >= this.getCritRange(build);
-      const isHit = isCrit || totalAttackRoll >= target.armorClass;
+    for (let attack = 0; attack < attacksPerAction + extraAttacks; attack++) {
+      const attackResult = this.resolveAttack(build, target, state, attack, attackBonus, damageRoll, effects, usage);
 
-      if (isHit) {
+      if (attackResult.isHit) {
         hits++;
-        if (isCrit) crits++;
+        if (attackResult.isCrit) crits++;
+        totalDamage += attackResult.damage;
+        // Attacks granted by the concentration spell (Haste) count toward what a drop costs
+        if (attack >= attacksPerAction) state.concentrationTracking.damage += attackResult.damage;
+        Object.assign(resourcesUsed, attackResult.resourcesUsed);
+      } else {
+        misses++;
+      }
+    }
 
-        // Roll damage
-        let damageAmount = this.roller.roll(damageRoll);
-        
-        // Apply crit damage
-        if (isCrit) {
-          damageAmount += this.roller.roll(damageRoll); // Double damage dice
-          damageAmount += this.getCritBonusDamage(build); // Brutal Critical, etc.
-        }
+    return { damage: totalDamage, hits, misses, crits, resourcesUsed };
+  }
 
-        // Apply once-per-turn effects (Sneak Attack, Divine Strike, etc.)
-        if (attack === 0 || this.allowsMultipleOncePerTurn(build)) {
-          const oncePerTurnDamage = this.getOncePerTurnDamage(build, state, isCrit);
-          damageAmount += oncePerTurnDamage.damage;
-          Object.assign(resourcesUsed, oncePerTurnDamage.resourcesUsed);
-        }
+  /**
+   * Roll a single weapon attack against a target
+   */
+  private resolveAttack(
+    build: Build,
+    target: Target,
+    state: CombatState,
+    attackIndex: number,
+    attackBonus: number,
+    damageRoll: string,
+    effects: Effect[],
+    usage: EffectUsage
+  ): {
+    isHit: boolean;
+    isCrit: boolean;
+    damage: number;
+    resourcesUsed: Record<string, number>;
+  } {
+    const resourcesUsed: Record<string, number> = {};
+    const attackContext = {
+      build,
+      target,
+      combat: createCombatContext({ advantage: this.getAdvantageState(build, target, state) }),
+      weapon: build.equipment.mainHand?.name || 'Unarmed Strike',
+      attackNumber: attackIndex,
+      isMainAction: true
+    };
+    const attackModifier = resolveAttackRoll(effects, attackContext, { usage });
+    const powerAttack = this.getPowerAttack(build, attackContext, attackBonus + attackModifier.toHitBonus, damageRoll);
+
+    // Roll attack
+    const critRange = Math.min(this.getCritRange(build), attackModifier.critRange);
+    const { natural: attackRoll, total: totalAttackRoll } = this.rollAttack(
+      attackModifier,
+      attackBonus + attackModifier.toHitBonus + powerAttack.toHitBonus,
+      target.armorClass,
+      critRange,
+      effects,
+      state,
+      usage,
+      resourcesUsed
+    );
+    
+    // Check for hit/crit; a natural 1 always misses
+    const isCrit = attackRoll >= critRange;
+    const isHit = isCrit || (attackRoll > 1 && totalAttackRoll >= target.armorClass);
 
-        // Apply smite or similar resource-based damage
-        const smiteDamage = this.applySmiteLogic(build, state, isCrit);
-        if (smiteDamage.damage > 0) {
-          damageAmount += smiteDamage.damage;
-          Object.assign(resourcesUsed, smiteDamage.resourcesUsed);
-        }
+    if (!isHit) {
+      return { isHit, isCrit, damage: 0, resourcesUsed };
+    }
 
-        totalDamage += damageAmount;
-      } else {
-        misses++;
+    // Weapon dice are rolled once the damage hooks have said how to reroll them
+    let damageAmount = 0;
+    
+    // Apply crit damage
+    if (isCrit) {
+      damageAmount += this.getCritBonusDamage(build); // Brutal Critical, etc.
+    }
+
+    // Apply once-per-turn effects (Sneak Attack, Divine Strike, etc.)
+    if (attackIndex === 0 || this.allowsMultipleOncePerTurn(build)) {
+      const oncePerTurnDamage = this.getOncePerTurnDamage(build, state, isCrit);
+      damageAmount += oncePerTurnDamage.damage;
+      Object.assign(resourcesUsed, oncePerTurnDamage.resourcesUsed);
+    }
+
+    // Apply smite or similar resource-based damage
+    const smiteDamage = this.applySmiteLogic(build, state, isCrit);
+    if (smiteDamage.damage > 0) {
+      damageAmount += smiteDamage.damage;
+      Object.assign(resourcesUsed, smiteDamage.resourcesUsed);
+    }
+
+    // Effect hooks: feats, features and the held concentration spell (Hex, Hunter's Mark)
+    const hitModifier = resolveHitDamage(effects, { ...attackContext, attackRoll, isCrit }, {
+      usage,
+      canUse: effect => this.canPayEffect(effect, state)
+    });
+    const concentrationId = this.getActiveConcentrationSpell(state)?.id;
+    damageAmount += this.roller.rollDamageWithRerolls(damageRoll, hitModifier.reroll);
+    if (isCrit) damageAmount += this.roller.rollDamageWithRerolls(damageRoll, hitModifier.reroll); // Double damage dice
+    damageAmount += hitModifier.bonus + powerAttack.damageBonus;
+    hitModifier.dice.forEach(({ dice, source, critOnly }) => {
+      const effectDamage = this.roller.roll(dice) + (isCrit && !critOnly ? this.roller.roll(dice) : 0);
+      damageAmount += effectDamage;
+      if (source === concentrationId) state.concentrationTracking.damage += effectDamage;
+    });
+    damageAmount = Math.floor(damageAmount * hitModifier.multiplier);
+    hitModifier.applied.forEach(id => {
+      const slotLevel = this.payEffect(effects.find(effect => effect.id === id), state);
+      if (slotLevel) resourcesUsed[`spellSlot${slotLevel}`] = (resourcesUsed[`spellSlot${slotLevel}`] || 0) + 1;
+    });
+
+    return { isHit, isCrit, damage: damageAmount, resourcesUsed };
+  }
+
+  /**
+   * Great Weapon Master or Sharpshooter's -5/+10 for one attack: nothing unless the feat's hooks
+   * accept the weapon and the expected gain against this target meets the power attack threshold
+   */
+  private getPowerAttack(
+    build: Build,
+    attackContext: AttackContext,
+    attackBonus: number,
+    damageRoll: string
+  ): { toHitBonus: number; damageBonus: number } {
+    const effects = collectActiveEffects(build).filter(isPowerAttackEffect);
+    const attackModifier = resolveAttackRoll(effects, attackContext);
+    if (attackModifier.toHitBonus >= 0) return { toHitBonus: 0, damageBonus: 0 };
+
+    const analysis = comparePowerAttack({
+      attackBonus,
+      targetAC: attackContext.target.armorClass,
+      attackSequence: {
+        hitProbability: 0,
+        critProbability: 0,
+        normalDamage: [getWeaponDamage(damageRoll, 0, build.equipment.mainHand?.damageType)],
+        numAttacks: this.getAttacksPerAction(build)
+      },
+      advantageState: attackContext.combat.advantage,
+      threshold: build.policies.powerAttackThresholdEV,
+      target: attackContext.target
+    });
+    if (!analysis.shouldUsePowerAttack) return { toHitBonus: 0, damageBonus: 0 };
+
+    const hitModifier = resolveHitDamage(effects, { ...attackContext, attackRoll: 0, isCrit: false });
+    return { toHitBonus: attackModifier.toHitBonus, damageBonus: hitModifier.bonus };
+  }
+
+  /**
+   * Roll the d20 and bonus dice for one attack, using rerolls and substitutions the way the exact
+   * math assumes: each d20 rerolls natural 1s (Halfling Luck), a Portent die replaces the roll only
+   * when it hits, Lucky rolls another d20 after a miss and keeps the best die, and Precision Attack
+   * adds its die only to a miss it can still turn into a hit
+   */
+  private rollAttack(
+    attackModifier: ResolvedAttackModifier,
+    modifier: number,
+    targetAC: number,
+    critRange: number,
+    effects: Effect[],
+    state: CombatState,
+    usage: EffectUsage,
+    resourcesUsed: Record<string, number>
+  ): { natural: number; total: number } {
+    const rerollOnes = attackModifier.rerolls.some(({ reroll }) => reroll.type === 'reroll-ones');
+    const { advantageState } = attackModifier;
+    const diceRolled = advantageState === 'elven-accuracy' ? 3 : advantageState === 'normal' ? 1 : 2;
+    let rolls = Array.from({ length: diceRolled }, () => this.roller.rollD20(rerollOnes));
+    let natural = advantageState === 'disadvantage' ? Math.min(...rolls) : Math.max(...rolls);
+    let total = attackModifier.bonusDice.reduce((sum, bonus) => sum + this.rollSigned(bonus.dice), modifier);
+    const hits = (roll: number): boolean => roll >= critRange || (roll > 1 && roll + total >= targetAC);
+
+    // Portent is chosen before the roll, Lucky after a miss, and Precision Attack last
+    const order: D20Reroll['type'][] = ['replace', 'reroll-ones', 'reroll-on-miss', 'add-on-miss'];
+    const rerolls = [...attackModifier.rerolls].sort((a, b) => order.indexOf(a.reroll.type) - order.indexOf(b.reroll.type));
+
+    for (const { reroll, source } of rerolls) {
+      const effect = effects.find(candidate => candidate.id === source);
+      if (!effect || this.getRerollUses(effect, state) <= 0) continue;
+
+      if (reroll.type === 'replace') {
+        let value = reroll.value;
+        if (value === undefined) {
+          // Foretelling dice are rolled once per combat, one per use left, and spent on a die that hits
+          const portentDice = state.resources.portentDice ??= Array.from(
+            { length: Math.min(this.getRerollUses(effect, state), 3) },
+            () => this.roller.rollD20()
+          );
+          const index = portentDice.findIndex(die => die >= critRange || (die > 1 && die + modifier >= targetAC));
+          if (index < 0) continue;
+          value = portentDice.splice(index, 1)[0];
+        }
+        rolls = [value];
+        natural = value;
+        this.spendReroll(effect, state, usage, resourcesUsed);
+      } else if (reroll.type === 'reroll-on-miss' && !hits(natural)) {
+        rolls = [...rolls, this.roller.rollD20(rerollOnes)];
+        natural = Math.max(...rolls);
+        this.spendReroll(effect, state, usage, resourcesUsed);
+      } else if (reroll.type === 'add-on-miss' && !hits(natural) && natural > 1) {
+        const [, count, sides] = reroll.dice.match(/(\d+)d(\d+)/) || [];
+        if (natural + total + Number(count) * Number(sides) < targetAC) continue;
+        total += this.roller.roll(reroll.dice);
+        this.spendReroll(effect, state, usage, resourcesUsed);
       }
     }
 
-    return { damage: totalDamage, hits, misses, crits, resourcesUsed };
+    return { natural, total: natural + total };
+  }
+
+  // Uses of a limited reroll left this combat, from its short or long rest uses; unlimited without either
+  private getRerollUses(effect: Effect, state: CombatState): number {
+    const uses = effect.usage?.perShortRest ?? effect.usage?.perLongRest;
+    if (uses === undefined) return Infinity;
+    return state.resources.classResources[this.getRerollResource(effect)] ?? uses;
+  }
+
+  private spendReroll(effect: Effect, state: CombatState, usage: EffectUsage, resourcesUsed: Record<string, number>): void {
+    const resource = this.getRerollResource(effect);
+    const uses = this.getRerollUses(effect, state);
+    if (uses !== Infinity) state.resources.classResources[resource] = uses - 1;
+    usage[effect.id] = (usage[effect.id] || 0) + 1; // Counts against perTurn limits like Portent's
+    resourcesUsed[resource] = (resourcesUsed[resource] || 0) + 1;
+  }
+
+  // Battle Master maneuvers share one pool of superiority dice
+  private getRerollResource(effect: Effect): string {
+    return effect.resourceCost?.type === 'superiorityDie' ? 'superiorityDice' : effect.id;
   }
 
   /**
@@ -433,33 +1125,213 @@ export class MonteCarloEngine {
   }
 
   /**
-   * Simulate enemy actions that might trigger reactions
+   * Simulate enemy turns: stat block attacks against the build, then scenario events
    */
   private simulateEnemyPhase(
     build: Build,
-    target: Target,
+    enemies: ActingEnemy[],
     state: CombatState,
-    scenario: CombatScenario
+    scenario: CombatScenario,
+    enemyIds: number[] = enemies.map((_, index) => index)
   ): void {
+    enemies.forEach((enemy, index) => {
+      if (!this.isDowned(state)) {
+        this.simulateEnemyTurn(build, enemy, enemyIds[index], state);
+      }
+    });
+
     // Randomly select enemy actions based on scenario probabilities
+    const target = enemies[0];
     for (const enemyAction of scenario.enemyActions) {
       if (this.rng.chance(enemyAction.probability)) {
         enemyAction.effect(state);
         
         // Check for reaction triggers
-        this.checkReactionTriggers(build, target, state, enemyAction.name);
+        if (target) this.checkReactionTriggers(build, target, state, enemyAction.name);
       }
     }
   }
 
+  /**
+   * One enemy's turn: roll recharges, pick the best available action and resolve it against the build
+   */
+  private simulateEnemyTurn(build: Build, enemy: ActingEnemy, enemyId: number, state: CombatState): void {
+    const actions = enemy.actions || [];
+    if (actions.length === 0) return;
+
+    // Recharge rolls happen at the start of the enemy's turn
+    state.spentRecharges = state.spentRecharges.filter(key => {
+      const [id, name] = key.split(':');
+      if (Number(id) !== enemyId) return true;
+      const action = actions.find(a => a.name === name);
+      return !(action?.recharge && this.rollRecharge(action.recharge));
+    });
+
+    // A ready recharge ability is always worth using
+    const recharge = actions.find(action =>
+      action.recharge && action.damage && !state.spentRecharges.includes(`${enemyId}:${action.name}`)
+    );
+    if (recharge) {
+      state.spentRecharges.push(`${enemyId}:${recharge.name}`);
+      this.resolveEnemyAction(build, enemy, recharge, state);
+      return;
+    }
+
+    for (const action of this.getEnemyAttackRoutine(actions)) {
+      if (this.isDowned(state)) break;
+      this.resolveEnemyAction(build, enemy, action, state);
+    }
+  }
+
+  /**
+   * Attacks an enemy makes with its action, following Multiattack when it has one
+   */
+  private getEnemyAttackRoutine(actions: EnemyAction[]): EnemyAction[] {
+    const attacks = actions
+      .filter(action => action.attackBonus !== undefined && action.damage && !action.recharge)
+      .sort((a, b) => this.averageRoll(b.damage!) - this.averageRoll(a.damage!));
+    if (attacks.length === 0) return [];
+
+    const multiattack = actions.find(action => action.name.toLowerCase() === 'multiattack');
+    if (!multiattack) return [attacks[0]];
+
+    const description = multiattack.description.toLowerCase();
+    const countWords: Record<string, number> = { two: 2, three: 3, four: 4, five: 5 };
+    const namedAttacks = attacks.filter(attack => description.includes(attack.name.toLowerCase()));
+    const routine = namedAttacks.length > 0 ? namedAttacks : [attacks[0]];
+    const count = Math.max(
+      routine.length,
+      ...Object.entries(countWords).filter(([word]) => description.includes(`${word} `)).map(([, n]) => n)
+    );
+
+    return Array.from({ length: count }, (_, index) => routine[index % routine.length]);
+  }
+
+  /**
+   * Resolve an enemy attack roll or saving throw effect against the build
+   */
+  private resolveEnemyAction(build: Build, enemy: ActingEnemy, action: EnemyAction, state: CombatState): void {
+    if (!action.damage) return;
+
+    let damage = 0;
+
+    if (action.attackBonus !== undefined) {
+      const attackRoll = this.rng.rollDie(20);
+      const total = attackRoll + action.attackBonus;
+      const isCrit = attackRoll === 20;
+      const armorClass = state.defense.armorClass + this.getTemporaryACBonus(state);
+
+      if (attackRoll === 1) return;
+      if (!isCrit && total >= armorClass) {
+        // A reaction such as Shield can still turn the hit into a miss
+        const reactionAC = this.checkReactionTriggers(build, enemy, state, action.name, total);
+        if (total < armorClass + reactionAC) return;
+      } else if (!isCrit) {
+        return;
+      }
+
+      damage = this.roller.roll(action.damage);
+      if (isCrit) damage += this.roller.roll(action.damage.split(/[+-]/)[0]); // Double damage dice
+    } else {
+      // Saving throw effect, half damage on a success
+      const { dc, ability } = this.getEnemySaveDC(enemy, action);
+      const saved = this.rollBuildSave(build, state, ability) >= dc;
+      damage = this.roller.roll(action.damage);
+      if (saved) damage = Math.floor(damage / 2);
+    }
+
+    this.applyDamageToBuild(build, state, damage, action.damageType);
+  }
+
+  /**
+   * Save DC and ability for an enemy effect, read from the description or estimated from the stat block
+   */
+  private getEnemySaveDC(enemy: ActingEnemy, action: EnemyAction): { dc: number; ability: keyof Build['abilities'] } {
+    const description = action.description.toLowerCase();
+    const abilities: Array<keyof Build['abilities']> = ['strength', 'dexterity', 'constitution', 'intelligence', 'wisdom', 'charisma'];
+    const ability = abilities.find(name => description.includes(`${name} saving throw`)) || 'dexterity';
+
+    const dcMatch = description.match(/dc (\d+)/);
+    if (dcMatch) return { dc: parseInt(dcMatch[1]), ability };
+
+    // 8 + proficiency by challenge rating + Constitution, which is what breath weapons use
+    const proficiency = Math.max(2, Math.ceil((enemy.challenge ?? 1) / 4) + 1);
+    const conMod = Math.floor(((enemy.abilityScores?.constitution ?? 10) - 10) / 2);
+    return { dc: 8 + proficiency + conMod, ability };
+  }
+
+  /**
+   * Subtract damage from the build, halved when it resists the damage type, making a concentration
+   * check if it is concentrating
+   */
+  private applyDamageToBuild(build: Build, state: CombatState, rolledDamage: number, damageType?: string): void {
+    const damage = damageType && this.getBuildResistances(build).includes(damageType)
+      ? Math.floor(rolledDamage / 2)
+      : rolledDamage;
+    if (damage <= 0) return;
+
+    state.resources.hitPoints -= damage;
+    state.defense.damageTaken += damage;
+
+    if (state.resources.hitPoints <= 0) {
+      state.resources.hitPoints = 0;
+      state.resources.concentration = null;
+      if (!state.resources.conditions.includes('unconscious')) {
+        state.resources.conditions.push('unconscious');
+      }
+      return;
+    }
+
+    if (state.resources.concentration) {
+      const dc = getConcentrationSaveDC(damage);
+      state.concentrationTracking.checks++;
+      if (this.rollBuildSave(build, state, 'constitution', hasConcentrationAdvantage(build)) < dc) {
+        state.concentrationTracking.failures++;
+        state.resources.concentration = null;
+      }
+    }
+  }
+
+  // The build's saving throw total: its save bonus and its party's buffs, plus a d4 while it holds Bless on itself
+  private rollBuildSave(build: Build, state: CombatState, ability: keyof Build['abilities'], advantage = false): number {
+    const roll = advantage ? this.rng.rollAdvantage() : this.rng.rollDie(20);
+    const blessed = this.getActiveEffects(build, state).some(effect => effect.id === 'bless');
+    return roll + getSavingThrowBonus(build, ability) + state.defense.saveBonus + (blessed ? this.roller.roll('1d4') : 0);
+  }
+
+    // Damage types the build resists, from its race (a Dwarf's poison) or its items (a Frost Brand's fire)
+  private getBuildResistances(build: Build): string[] {
+    return [...getRacialResistances(build.race), ...getItemResistances(build.equipment)];
+  }
+
+  private rollRecharge(recharge: string): boolean {
+    // "5-6" recharges on a 5 or 6, "6" only on a 6
+    const minimum = parseInt(recharge.split('-')[0]);
+    return isNaN(minimum) || this.rng.rollDie(6) >= minimum;
+  }
+
+  private averageRoll(notation: string): number {
+    const match = notation.match(/(\d+)d(\d+)(?:\+(\d+))?(?:-(\d+))?/);
+    if (!match) return parseFloat(notation) || 0;
+    const [, numDice, dieSize, bonus, penalty] = match;
+    return parseInt(numDice) * (parseInt(dieSize) + 1) / 2 + (parseInt(bonus) || 0) - (parseInt(penalty) || 0);
+  }
+
+  private isDowned(state: CombatState): boolean {
+    return state.resources.conditions.includes('unconscious');
+  }
+
   // Utility methods for combat simulation
 
-  private initializeCombatState(build: Build): CombatState {
+  private initializeCombatState(build: Build, partyContext?: CombatPolicyContext['partyContext']): CombatState {
+    const maxHitPoints = this.calculateMaxHP(build);
+
     return {
       round: 0,
       turn: 0,
       resources: {
-        hitPoints: this.calculateMaxHP(build),
+        hitPoints: maxHitPoints,
+        maxHitPoints,
         spellSlots: { ...build.spellSlots },
         classResources: this.initializeClassResources(build),
         concentration: null,
@@ -471,20 +1343,56 @@ export class MonteCarloEngine {
         reaction: true,
         movement: 30
       },
-      temporaryEffects: []
+      temporaryEffects: [],
+      defense: {
+        armorClass: this.calculateArmorClass(build),
+        damageTaken: 0,
+        saveBonus: partyContext?.saveBonus ?? 0
+      },
+      concentrationTracking: {
+        spell: selectConcentrationSpell(build) || null,
+        firstCastRound: null,
+        roundsActive: 0,
+        roundsAfterCast: 0,
+        checks: 0,
+        failures: 0,
+        damage: 0
+      },
+      spentRecharges: []
     };
   }
 
   private calculateMaxHP(build: Build): number {
-    // Calculate HP based on class levels and CON modifier
+    // Calculate HP based on class levels and CON modifier: max die at 1st level, average after
     let totalHP = 0;
     const conMod = Math.floor((build.abilities.constitution - 10) / 2);
     
-    for (const level of build.levels) {
-      totalHP += level.hitDie + conMod;
-    }
+    build.levels.forEach((classLevel, index) => {
+      for (let level = 0; level < classLevel.level; level++) {
+        const isFirstLevel = index === 0 && level === 0;
+        totalHP += (isFirstLevel ? classLevel.hitDie : classLevel.hitDie / 2 + 1) + conMod;
+      }
+    });
     
-    return totalHP;
+    return Math.max(1, totalHP);
+  }
+
+  private calculateArmorClass(build: Build): number {
+    const armor = build.equipment?.armor;
+    const dexMod = Math.floor((build.abilities.dexterity - 10) / 2);
+    
+    const itemBonus = getItemACBonus(build.equipment);
+    
+    if (!armor) return 10 + dexMod + itemBonus;
+    
+    const dexBonus = armor.type === 'light' ? dexMod : armor.type === 'medium' ? Math.min(2, dexMod) : 0;
+    const defenseStyle = build.fightingStyles?.includes('defense') ? 1 : 0;
+    return armor.ac + dexBonus + (armor.magic || 0) + defenseStyle + itemBonus;
+  }
+
+  private getTemporaryACBonus(state: CombatState): number {
+    const concentrationAC = this.getActiveConcentrationSpell(state)?.armorClassBonus || 0;
+    return concentrationAC + state.temporaryEffects.reduce((sum, effect) => sum + (effect.effects?.armorClass || 0), 0);
   }
 
   private initializeClassResources(build: Build): Record<string, number> {
@@ -497,17 +1405,21 @@ export class MonteCarloEngine {
   }
 
   private getAttacksPerAction(build: Build): number {
-    // Calculate attacks per action based on level and class features
-    const totalLevel = build.levels.reduce((sum, level) => sum + level.level, 0);
-    
-    // Basic Extra Attack progression (Fighter gets more)
-    if (totalLevel >= 20) return 4; // Fighter 20
-    if (totalLevel >= 11) return 3; // Fighter 11
-    if (totalLevel >= 5) return 2;  // Most martial classes
-    return 1;
+    // Builds migrated without class levels attack the way their saved attack line says
+    const savedLine = getSavedAttackLine(build);
+    if (savedLine) return savedLine.attackCount;
+
+    // Extra Attack from more than one class doesn't stack, so the best single class counts
+    return build.levels.reduce(
+      (attacks, classLevel) => Math.max(attacks, getClassAttacksPerAction(classLevel.class, classLevel.level)),
+      1
+    );
   }
 
   private calculateAttackBonus(build: Build, state: CombatState): number {
+    const savedLine = getSavedAttackLine(build);
+    if (savedLine) return savedLine.attackBonus;
+
     // Calculate total attack bonus
     const profBonus = build.proficiencyBonus;
     const abilityMod = this.getPrimaryAttackAbilityMod(build);
@@ -534,6 +1446,12 @@ export class MonteCarloEngine {
   }
 
   private getDamageRoll(build: Build): string {
+    const savedLine = getSavedAttackLine(build);
+    if (savedLine) {
+      const { damageDice, damageBonus } = savedLine;
+      return damageBonus !== 0 ? `${damageDice}${damageBonus >= 0 ? '+' : ''}${damageBonus}` : damageDice;
+    }
+
     const weapon = build.equipment.mainHand;
     if (!weapon) return '1d4'; // Unarmed strike
     
@@ -629,8 +1547,34 @@ export class MonteCarloEngine {
     return { damage: 0, hits: 0, misses: 0, crits: 0, resourcesUsed: {} };
   }
 
-  private checkReactionTriggers(build: Build, target: Target, state: CombatState, enemyAction: string): void {
-    // Check for Opportunity Attack, Riposte, etc.
+  /**
+   * Check for reactions to an enemy action. For an attack that would hit,
+   * returns the AC a defensive reaction adds to the triggering attack.
+   */
+  private checkReactionTriggers(
+    build: Build,
+    target: Target,
+    state: CombatState,
+    enemyAction: string,
+    attackTotal?: number
+  ): number {
+    if (!state.actionEconomy.reaction || attackTotal === undefined) return 0;
+
+    // Shield: +5 AC until the start of our next turn, only worth a slot if it turns this hit into a miss
+    const armorClass = state.defense.armorClass + this.getTemporaryACBonus(state);
+    const hasShield = build.spells.some(spell => spell.toLowerCase() === 'shield');
+    const slotLevel = Object.keys(state.resources.spellSlots)
+      .filter(level => state.resources.spellSlots[level] > 0)
+      .sort((a, b) => Number(a) - Number(b))[0];
+
+    if (hasShield && slotLevel && attackTotal < armorClass + 5) {
+      state.resources.spellSlots[slotLevel]--;
+      state.actionEconomy.reaction = false;
+      state.temporaryEffects.push({ name: 'Shield', duration: 1, effects: { armorClass: 5 } });
+      return 5;
+    }
+
+    return 0;
   }
 
   private applyEndOfRoundEffects(state: CombatState): void {
@@ -639,6 +1583,78 @@ export class MonteCarloEngine {
       effect.duration--;
       return effect.duration > 0;
     });
+
+    // Concentration uptime counts from the first cast
+    const tracking = state.concentrationTracking;
+    if (tracking.firstCastRound !== null) {
+      tracking.roundsAfterCast++;
+      if (state.resources.concentration) tracking.roundsActive++;
+    }
+  }
+
+  /**
+   * Cast the build's concentration spell, or recast it after a drop, if a slot and the right action are free
+   */
+  private maintainConcentration(state: CombatState): void {
+    const tracking = state.concentrationTracking;
+    const spell = tracking.spell;
+    if (!spell || state.resources.concentration || this.isDowned(state)) return;
+
+    const actionType = spell.castingTime === 'bonusAction' ? 'bonusAction' : 'action';
+    if (!state.actionEconomy[actionType]) return;
+
+    const slotLevel = Object.keys(state.resources.spellSlots)
+      .filter(level => Number(level) >= spell.level && state.resources.spellSlots[level] > 0)
+      .sort((a, b) => Number(a) - Number(b))[0];
+    if (!slotLevel) return;
+
+    state.resources.spellSlots[slotLevel]--;
+    state.actionEconomy[actionType] = false;
+    // Only one concentration effect at a time: casting replaces whatever was held
+    state.resources.concentration = spell.name;
+    if (tracking.firstCastRound === null) tracking.firstCastRound = state.round;
+  }
+
+  private getActiveConcentrationSpell(state: CombatState): ConcentrationSpell | null {
+    const spell = state.concentrationTracking.spell;
+    return spell && state.resources.concentration === spell.name ? spell : null;
+  }
+
+  private getConcentrationExtraAttacks(state: CombatState): number {
+    return this.getActiveConcentrationSpell(state)?.extraAttacks || 0;
+  }
+
+  /**
+   * Library effects whose hooks run on this build's attacks. Spells the concentration tracking
+   * casts only count while held, and holding one ends any precast concentration buff. The power
+   * attack is left to getPowerAttack, which decides it per target
+   */
+  private getActiveEffects(build: Build, state: CombatState): Effect[] {
+    const concentration = this.getActiveConcentrationSpell(state);
+    const effects = collectActiveEffects(build).filter(effect =>
+      !CONCENTRATION_SPELLS[effect.id] && !(concentration && effect.duration?.concentration) && !isPowerAttackEffect(effect)
+    );
+    const concentrationEffect = concentration ? findLibraryEffect(concentration.id) : undefined;
+    return concentrationEffect ? [...effects, concentrationEffect] : effects;
+  }
+
+  // Effects that cost a spell slot (Divine Smite) need one at or above their level
+  private canPayEffect(effect: Effect, state: CombatState): boolean {
+    if (effect.resourceCost?.type !== 'spellSlot') return true;
+    return Boolean(getLowestAvailableSlot(state.resources.spellSlots, effect.resourceCost.level || 1));
+  }
+
+  private payEffect(effect: Effect | undefined, state: CombatState): string | undefined {
+    // Concentration spells paid their slot when cast
+    if (!effect || effect.resourceCost?.type !== 'spellSlot' || CONCENTRATION_SPELLS[effect.id]) return undefined;
+    const slotLevel = getLowestAvailableSlot(state.resources.spellSlots, effect.resourceCost.level || 1);
+    if (slotLevel) state.resources.spellSlots[slotLevel]--;
+    return slotLevel;
+  }
+
+  // "-1d4" subtracts the roll (Bane)
+  private rollSigned(dice: string): number {
+    return dice.startsWith('-') ? -this.roller.roll(dice.slice(1)) : this.roller.roll(dice);
   }
 
   /**
@@ -689,10 +1705,118 @@ export class MonteCarloEngine {
         utilization: {},
         efficiency: {}
       },
+      survival: this.summarizeSurvival(this.runs),
+      concentration: this.summarizeConcentration(this.runs),
       insights
     };
   }
 
+  /**
+   * Aggregate encounter runs into duration, overkill and attrition statistics
+   */
+  private analyzeEncounterResults(
+    runs: EncounterSimulationRun[],
+    enemies: Target[],
+    scenario: CombatScenario,
+    maxRounds: number
+  ): EncounterSimulationResults {
+    const clearedRuns = runs.filter(run => run.cleared);
+    const durations = clearedRuns.map(run => run.rounds);
+    const totalDealt = runs.reduce((sum, run) => sum + run.damageDealt, 0);
+    const totalOverkill = runs.reduce((sum, run) => sum + run.overkillDamage, 0);
+
+    const clearedByRound: number[] = [];
+    const damageByRound: number[] = [];
+    const enemiesStandingByRound: number[] = [];
+
+    for (let round = 1; round <= maxRounds; round++) {
+      clearedByRound.push(runs.length > 0 ? clearedRuns.filter(run => run.rounds <= round).length / runs.length : 0);
+      damageByRound.push(Statistics.mean(runs.map(run => run.damageByRound[round - 1] || 0)));
+      // Runs stop early once a side is down, so carry the last count forward
+      enemiesStandingByRound.push(Statistics.mean(runs.map(run =>
+        run.enemiesStandingByRound[round - 1] ?? run.enemiesStandingByRound[run.enemiesStandingByRound.length - 1] ?? 0
+      )));
+    }
+
+    return {
+      runs: runs.length,
+      seed: this.rng.getSeed(),
+      scenario,
+      maxRounds,
+      duration: {
+        mean: durations.length > 0 ? Statistics.mean(durations) : 0,
+        median: durations.length > 0 ? Statistics.percentiles(durations, [50])[50] : 0,
+        percentiles: durations.length > 0 ? Statistics.percentiles(durations) : {},
+        clearRate: runs.length > 0 ? clearedRuns.length / runs.length : 0,
+        clearedByRound
+      },
+      overkill: {
+        mean: runs.length > 0 ? totalOverkill / runs.length : 0,
+        rate: totalDealt + totalOverkill > 0 ? totalOverkill / (totalDealt + totalOverkill) : 0
+      },
+      damage: {
+        mean: runs.length > 0 ? totalDealt / runs.length : 0,
+        byRound: damageByRound
+      },
+      enemiesStandingByRound,
+      survival: this.summarizeSurvival(runs),
+      concentration: this.summarizeConcentration(runs),
+      enemies: enemies.map((enemy, index) => {
+        const deathRounds = runs
+          .map(run => run.killRounds[index])
+          .filter((round): round is number => round !== null);
+        return {
+          name: enemy.name,
+          hitPoints: enemy.maxHP ?? enemy.hitPoints,
+          killRate: runs.length > 0 ? deathRounds.length / runs.length : 0,
+          averageRoundOfDeath: deathRounds.length > 0 ? Statistics.mean(deathRounds) : 0
+        };
+      })
+    };
+  }
+
+  /**
+   * Survival and damage taken statistics across runs
+   */
+  private summarizeSurvival(runs: Array<Pick<SimulationRun, 'damageTaken' | 'survived'>>): SurvivalStatistics {
+    const damageTaken = runs.map(run => run.damageTaken);
+
+    return {
+      probability: runs.length > 0 ? runs.filter(run => run.survived).length / runs.length : 1,
+      damageTaken: {
+        mean: Statistics.mean(damageTaken),
+        percentiles: Statistics.percentiles(damageTaken)
+      }
+    };
+  }
+
+  /**
+   * Concentration uptime and the damage lost while it was down
+   */
+  private summarizeConcentration(
+    runs: Array<{ concentration: ConcentrationTracking; damageByRound: number[] }>
+  ): ConcentrationStatistics {
+    const total = (pick: (tracking: ConcentrationTracking) => number) =>
+      runs.reduce((sum, run) => sum + pick(run.concentration), 0);
+
+    const roundsActive = total(tracking => tracking.roundsActive);
+    const roundsAfterCast = total(tracking => tracking.roundsAfterCast);
+    const checks = total(tracking => tracking.checks);
+    const roundsSimulated = runs.reduce((sum, run) => sum + run.damageByRound.length, 0);
+
+    // Each round without concentration after the first cast loses an average concentrated round's worth
+    const damagePerActiveRound = roundsActive > 0 ? total(tracking => tracking.damage) / roundsActive : 0;
+    const lostRounds = roundsAfterCast - roundsActive;
+
+    return {
+      spell: runs.find(run => run.concentration.spell)?.concentration.spell?.name ?? null,
+      uptime: roundsAfterCast > 0 ? roundsActive / roundsAfterCast : 0,
+      checksPerRun: runs.length > 0 ? checks / runs.length : 0,
+      failureRate: checks > 0 ? total(tracking => tracking.failures) / checks : 0,
+      dprLost: roundsSimulated > 0 ? (damagePerActiveRound * lostRounds) / roundsSimulated : 0
+    };
+  }
+
   private generateInsights(): {
     optimalRounds: number[];
     weakestRounds: number[];
@@ -148,29 +148,6 @@ export const getOncePerTurnEffects = (build: Build): OncePerTurnEffect[] => {
     });
   }
 
-  // Hunter's Mark (if precast)
-  if (build.policies.precast.includes('Hunter\'s Mark') || build.policies.precast.includes('Hex')) {
-    effects.push({
-      id: 'hunters-mark',
-      name: 'Hunter\'s Mark',
-      priority: 30,
-      condition: () => true,
-      damage: {
-        name: 'Hunter\'s Mark',
-        dice: {
-          count: 1,
-          sides: 6,
-          bonus: 0,
-          damageType: 'force',
-        },
-        source: 'spell',
-        onCritDouble: false,
-        rerollMechanic: 'none',
-      },
-      description: '1d6 damage per weapon attack (concentration spell)',
-    });
-  }
-
   return effects.sort((a, b) => b.priority - a.priority);
 };
 
@@ -11,9 +11,17 @@ import { analyzePowerAttack } from './powerAttack';
 import { analyzeOncePerTurnEffects } from './oncePerTurn';
 import { analyzeAdvantageState } from './advantageStates';
 import { calculateAttackProbabilities } from './probability';
+import {
+  getBuildControlSpells,
+  getControlSaveFailChance,
+  getLowestAvailableSlot,
+  shouldSpendLegendaryResistance,
+  type ControlTarget
+} from './legendaryResistance';
 
 export interface PolicyDecision {
   action: string;
+  targetIndex?: number; // index into availableTargets for targeting decisions
   reasoning: string;
   expectedValue: number;
   confidence: number; // 0-1 scale
@@ -39,6 +47,7 @@ export interface CombatPolicyContext {
     averageLevel: number;
     hasHealer: boolean;
     hasSupport: boolean;
+    saveBonus?: number; // average bonus allies' Bless and auras add to this member's saving throws
   };
 }
 
@@ -48,6 +57,7 @@ export interface PolicyEngine {
   decideTargeting: (context: CombatPolicyContext, availableTargets: Target[]) => PolicyDecision;
   decidePositioning: (context: CombatPolicyContext) => PolicyDecision;
   decideOncePerTurn: (context: CombatPolicyContext) => PolicyDecision;
+  decideControlSpell: (context: CombatPolicyContext, boss: ControlTarget, spellSaveDC: number) => PolicyDecision;
 }
 
 // Create policy engine based on build configuration
@@ -60,6 +70,7 @@ export const createPolicyEngine = (build: Build): PolicyEngine => {
     decideTargeting: (context, targets) => decideTargeting(context, targets, policies),
     decidePositioning: (context) => decidePositioning(context, policies),
     decideOncePerTurn: (context) => decideOncePerTurnUsage(context, policies),
+    decideControlSpell: (context, boss, spellSaveDC) => decideControlSpell(context, boss, spellSaveDC, policies),
   };
 };
 
@@ -211,6 +222,7 @@ const decideTargeting = (
   if (availableTargets.length <= 1) {
     return {
       action: 'attack-primary-target',
+      targetIndex: 0,
       reasoning: 'Only one target available',
       expectedValue: calculateNormalAttackExpectedValue(context),
       confidence: 1.0,
@@ -219,19 +231,20 @@ const decideTargeting = (
   }
   
   // Calculate expected damage against each target
-  const targetAnalyses = availableTargets.map(target => {
+  const targetAnalyses = availableTargets.map((target, index) => {
     const targetContext = { ...context, target };
     const expectedDamage = calculateNormalAttackExpectedValue(targetContext);
     
     return {
       target,
+      index,
       expectedDamage,
       hitProbability: calculateHitProbability(context.build, target),
-      tacticalValue: calculateTacticalValue(target, context),
+      tacticalValue: calculateTacticalValue(target, context) + calculateFocusFireValue(target, expectedDamage),
     };
   });
   
-  // Sort by combined tactical and damage value
+  // Pick the best combined tactical and damage value; ties keep the earlier target so focus stays put
   const bestTarget = targetAnalyses.reduce((best, current) => {
     const bestScore = best.expectedDamage + best.tacticalValue;
     const currentScore = current.expectedDamage + current.tacticalValue;
@@ -248,6 +261,7 @@ const decideTargeting = (
   
   return {
     action: `attack-${bestTarget.target.name || 'best-target'}`,
+    targetIndex: bestTarget.index,
     reasoning: `Highest combined value: ${bestTarget.expectedDamage.toFixed(1)} damage + ${bestTarget.tacticalValue.toFixed(1)} tactical`,
     expectedValue: bestTarget.expectedDamage,
     confidence: 0.8,
@@ -348,6 +362,85 @@ const decideOncePerTurnUsage = (
   };
 };
 
+// Control spell choice against a boss with Legendary Resistance
+const decideControlSpell = (
+  context: CombatPolicyContext,
+  boss: ControlTarget,
+  spellSaveDC: number,
+  policies: Build['policies']
+): PolicyDecision => {
+  const spellSlots = context.remainingResources.spellSlots;
+  const remaining = boss.legendaryResistances;
+  
+  const options = getBuildControlSpells(context.build)
+    .filter(spell => spell.level === 0 || getLowestAvailableSlot(spellSlots, spell.level) !== undefined)
+    .map(spell => {
+      const failChance = getControlSaveFailChance(spell, boss, spellSaveDC);
+      // A failed save the boss will resist lands nothing
+      const landValue = shouldSpendLegendaryResistance(spell, remaining) ? 0 : spell.severity * failChance;
+      return { spell, failChance, landValue };
+    });
+  
+  if (options.length === 0) {
+    return {
+      action: 'no-control-spell',
+      reasoning: 'No control spells or slots left',
+      expectedValue: 0,
+      confidence: 1.0,
+      alternatives: [],
+    };
+  }
+  
+  // The spell that matters most once resistances are gone
+  const best = options.reduce((top, option) =>
+    option.spell.severity * option.failChance > top.spell.severity * top.failChance ? option : top
+  );
+  
+  if (policies.legendaryResistancePolicy === 'bait' && shouldSpendLegendaryResistance(best.spell, remaining)) {
+    // Cheapest spell the boss still has to resist, cast from a slot below the one saved for the real spell
+    const bait = options
+      .filter(option =>
+        option.spell.level < best.spell.level &&
+        shouldSpendLegendaryResistance(option.spell, remaining) &&
+        (option.spell.level === 0 || getLowestAvailableSlot(spellSlots, option.spell.level, best.spell.level - 1) !== undefined)
+      )
+      .sort((a, b) => a.spell.level - b.spell.level || b.failChance - a.failChance)[0];
+    
+    if (bait) {
+      return {
+        action: `cast-${bait.spell.id}`,
+        reasoning: `Bait a Legendary Resistance (${remaining} left) with ${bait.spell.name} before ${best.spell.name}`,
+        expectedValue: bait.landValue,
+        confidence: 0.8,
+        alternatives: [
+          {
+            action: `cast-${best.spell.id}`,
+            expectedValue: best.landValue,
+            reasoning: `${(best.failChance * 100).toFixed(0)}% to fail, but the boss would resist it`,
+          },
+        ],
+      };
+    }
+  }
+  
+  return {
+    action: `cast-${best.spell.id}`,
+    reasoning: remaining > 0
+      ? `${best.spell.name} forces a Legendary Resistance (${remaining} left) or lands`
+      : `${best.spell.name}: ${(best.failChance * 100).toFixed(0)}% to fail the save`,
+    expectedValue: best.landValue,
+    confidence: 0.8,
+    alternatives: options
+      .filter(option => option !== best)
+      .slice(0, 2)
+      .map(option => ({
+        action: `cast-${option.spell.id}`,
+        expectedValue: option.landValue,
+        reasoning: `${(option.failChance * 100).toFixed(0)}% to fail, severity ${option.spell.severity}`,
+      })),
+  };
+};
+
 // Helper functions
 const getNumAttacks = (build: Build): number => {
   // This would be more complex in reality, accounting for class features, feats, etc.
@@ -399,6 +492,23 @@ const calculateTacticalValue = (target: Target, context: CombatPolicyContext): n
   return value;
 };
 
+// Focus fire: finish wounded enemies and prefer kills that land this turn
+const calculateFocusFireValue = (target: Target, expectedDamage: number): number => {
+  const maxHP = target.maxHP ?? target.hitPoints;
+  const currentHP = target.currentHP ?? maxHP;
+  if (currentHP <= 0 || maxHP <= 0) return 0;
+  
+  let value = 0;
+  
+  // Damage already dealt is wasted unless this target goes down
+  if (currentHP < maxHP) value += 2;
+  
+  // Likely kill this turn removes an enemy action
+  if (expectedDamage >= currentHP) value += 4;
+  
+  return value;
+};
+
 const calculateAdvantageValue = (context: CombatPolicyContext, advantageState: AdvantageState): number => {
   const attackBonus = context.build.proficiencyBonus + 5;
   const probabilities = calculateAttackProbabilities({
@@ -60,8 +60,8 @@ const getCritProbabilityForState = (
   }
 };
 
-// Calculate expected damage with and without power attack
-export const analyzePowerAttack = (options: PowerAttackOptions): PowerAttackAnalysis => {
+// Calculate expected damage with and without power attack, without searching for the break-even AC
+export const comparePowerAttack = (options: PowerAttackOptions): Omit<PowerAttackAnalysis, 'breakEvenAC'> => {
   const {
     attackBonus,
     targetAC,
@@ -115,24 +115,30 @@ export const analyzePowerAttack = (options: PowerAttackOptions): PowerAttackAnal
   const expectedValueDelta = powerAttackDPR - normalDPR;
   const shouldUsePowerAttack = expectedValueDelta >= threshold;
 
-  // Calculate break-even AC
-  const breakEvenAC = calculateBreakEvenAC({
-    attackBonus,
-    attackSequence,
-    advantageState,
-    target,
-  });
-
   return {
     normalDPR,
     powerAttackDPR,
     expectedValueDelta,
     shouldUsePowerAttack,
-    breakEvenAC,
     threshold,
   };
 };
 
+// Compare both options at the target's AC and find the break-even AC
+export const analyzePowerAttack = (options: PowerAttackOptions): PowerAttackAnalysis => {
+  const { attackBonus, attackSequence, advantageState = 'normal', target } = options;
+
+  return {
+    ...comparePowerAttack(options),
+    breakEvenAC: calculateBreakEvenAC({
+      attackBonus,
+      attackSequence,
+      advantageState,
+      target,
+    }),
+  };
+};
+
 // Calculate the AC where power attack and normal attack have equal expected value
 export const calculateBreakEvenAC = (options: {
   attackBonus: number;
@@ -151,7 +157,7 @@ export const calculateBreakEvenAC = (options: {
   for (let iterations = 0; iterations < 50; iterations++) {
     const testAC = Math.floor((lowAC + highAC) / 2);
     
-    const analysis = analyzePowerAttack({
+    const analysis = comparePowerAttack({
       attackBonus,
       targetAC: testAC,
       attackSequence,
@@ -3,6 +3,8 @@
  * All functions return deterministic mathematical results, not random outcomes
  */
 
+import type { D20Reroll } from '../types/effects';
+
 // Basic probability functions
 export const clamp = (value: number, min: number, max: number): number => {
   return Math.max(min, Math.min(max, value));
@@ -66,36 +68,37 @@ export const getElvenAccuracyCritProbability = (critRange: number = 20): number
 
 // Halfling Luck (reroll 1s on d20)
 export const getHalflingLuckHitProbability = (attackBonus: number, targetAC: number): number => {
-  const requiredRoll = clamp(targetAC - attackBonus, 1, 20);
-  
-  if (requiredRoll <= 1) return 0.95; // Auto-hit except on rerolled 1
-  if (requiredRoll >= 20) return 0.05; // Auto-miss except on nat 20
-  
-  // If we need to roll >= 2, then rolling a 1 gets rerolled
-  if (requiredRoll >= 2) {
-    const baseSuccessChance = (21 - requiredRoll) / 20;
-    const rerollSuccessChance = (21 - requiredRoll) / 20; // Same chance on reroll
-    // P(success) = P(success on first) + P(roll 1) * P(success on reroll)
-    return baseSuccessChance + (1/20) * rerollSuccessChance;
-  }
-  
-  return (21 - requiredRoll) / 20;
+  return getAttackRollOutcome({ attackBonus, targetAC, rerolls: [{ type: 'reroll-ones' }] }).hitProbability;
 };
 
 // Bonus dice (Bless, Bardic Inspiration, etc.)
-export const getBonusDiceExpectation = (diceExpression: string): number => {
-  // Parse dice expressions like "1d4", "2d6", etc.
+interface ParsedBonusDice {
+  sign: 1 | -1;
+  count: number;
+  sides: number;
+  bonus: number;
+}
+
+const parseBonusDice = (diceExpression: string): ParsedBonusDice | null => {
+  // Parse dice expressions like "1d4", "-1d4", "2d6+1"
   const match = diceExpression.match(/^([+-]?)(\d+)d(\d+)(?:\+(\d+))?$/);
-  if (!match) return 0;
-  
+  if (!match) return null;
+
   const [, sign, count, sides, bonus] = match;
-  const multiplier = sign === '-' ? -1 : 1;
-  const diceCount = parseInt(count, 10);
-  const diceSides = parseInt(sides, 10);
-  const fixedBonus = parseInt(bonus || '0', 10);
-  
-  const diceExpectation = diceCount * (diceSides + 1) / 2;
-  return multiplier * (diceExpectation + fixedBonus);
+  return {
+    sign: sign === '-' ? -1 : 1,
+    count: parseInt(count, 10),
+    sides: parseInt(sides, 10),
+    bonus: parseInt(bonus || '0', 10),
+  };
+};
+
+export const getBonusDiceExpectation = (diceExpression: string): number => {
+  const parsed = parseBonusDice(diceExpression);
+  if (!parsed) return 0;
+
+  const diceExpectation = parsed.count * (parsed.sides + 1) / 2;
+  return parsed.sign * (diceExpectation + parsed.bonus);
 };
 
 // Combine multiple bonus dice
@@ -103,11 +106,225 @@ export const getCombinedBonusExpectation = (bonusDice: string[]): number => {
   return bonusDice.reduce((sum, dice) => sum + getBonusDiceExpectation(dice), 0);
 };
 
-// Modified attack bonus with bonus dice
+// Attack bonus with bonus dice at their average, for display; hit chances use getAttackRollOutcome
 export const getEffectiveAttackBonus = (baseAttackBonus: number, bonusDice: string[]): number => {
   return baseAttackBonus + getCombinedBonusExpectation(bonusDice);
 };
 
+// Exact d20 outcomes: the kept natural roll, any rerolls or substitutions, and every bonus or penalty die
+export type D20RollState = 'normal' | 'advantage' | 'disadvantage' | 'elven-accuracy';
+
+export interface SaveRollOptions {
+  advantageState?: 'normal' | 'advantage' | 'disadvantage';
+  bonusDice?: string[]; // Bless "1d4", Bane "-1d4", Mind Sliver "-1d4"
+  rerolls?: D20Reroll[]; // The saving creature's, e.g. Lucky on a failed save
+}
+
+// One d20, with Halfling Luck rerolling a natural 1 once, so a 1 only stays on two 1s in a row
+const getSingleD20 = (rerollOnes: boolean): number[] => {
+  return [0, ...Array.from({ length: 20 }, (_, i) => (rerollOnes ? (i === 0 ? 1 / 400 : 1 / 20 + 1 / 400) : 1 / 20))];
+};
+
+// Probability of each natural roll on the kept d20, indexed 1-20
+export const getD20Distribution = (advantageState: D20RollState = 'normal', halflingLuck: boolean = false): number[] => {
+  const single = getSingleD20(halflingLuck);
+  if (advantageState === 'normal') return single;
+  const diceRolled = advantageState === 'elven-accuracy' ? 3 : 2;
+
+  const distribution = [0];
+  let below = 0;
+  for (let roll = 1; roll <= 20; roll++) {
+    const atMost = below + single[roll];
+    distribution.push(advantageState === 'disadvantage'
+      ? Math.pow(1 - below, diceRolled) - Math.pow(1 - atMost, diceRolled) // Lowest die is this roll
+      : Math.pow(atMost, diceRolled) - Math.pow(below, diceRolled)); // Highest die is this roll
+    below = atMost;
+  }
+  return distribution;
+};
+
+// Joint distribution of the kept die and the best die rolled; they differ only under disadvantage,
+// where Lucky can still pick the higher die
+const getD20RollPairs = (
+  advantageState: D20RollState,
+  single: number[]
+): Array<{ kept: number; best: number; probability: number }> => {
+  const diceRolled = advantageState === 'elven-accuracy' ? 3 : advantageState === 'normal' ? 1 : 2;
+  const pairs = new Map<number, number>();
+
+  const roll = (dice: number, lowest: number, highest: number, probability: number): void => {
+    if (dice === 0) {
+      const kept = advantageState === 'disadvantage' ? lowest : highest;
+      pairs.set(kept * 21 + highest, (pairs.get(kept * 21 + highest) || 0) + probability);
+      return;
+    }
+    for (let face = 1; face <= 20; face++) {
+      roll(dice - 1, Math.min(lowest, face), Math.max(highest, face), probability * single[face]);
+    }
+  };
+  roll(diceRolled, 20, 1, 1);
+
+  return [...pairs.entries()].map(([key, probability]) => ({ kept: Math.floor(key / 21), best: key % 21, probability }));
+};
+
+const convolve = (a: Map<number, number>, b: Map<number, number>): Map<number, number> => {
+  const result = new Map<number, number>();
+  a.forEach((pA, valueA) => {
+    b.forEach((pB, valueB) => {
+      result.set(valueA + valueB, (result.get(valueA + valueB) || 0) + pA * pB);
+    });
+  });
+  return result;
+};
+
+// Distribution of the signed total of every bonus and penalty die, e.g. ["1d4", "-1d6"]
+export const getBonusDiceDistribution = (bonusDice: string[]): Map<number, number> => {
+  return bonusDice.reduce((distribution, expression) => {
+    const parsed = parseBonusDice(expression);
+    if (!parsed) return distribution;
+
+    const die = new Map<number, number>();
+    for (let face = 1; face <= parsed.sides; face++) die.set(parsed.sign * face, 1 / parsed.sides);
+
+    let result = distribution;
+    for (let i = 0; i < parsed.count; i++) result = convolve(result, die);
+    return parsed.bonus ? convolve(result, new Map([[parsed.sign * parsed.bonus, 1]])) : result;
+  }, new Map([[0, 1]]));
+};
+
+// P(dice total >= needed) for a bonus dice distribution
+const getAtLeastProbabilities = (distribution: Map<number, number>): ((needed: number) => number) => {
+  const entries = [...distribution.entries()];
+  return (needed: number) => entries.reduce((sum, [value, probability]) => (value >= needed ? sum + probability : sum), 0);
+};
+
+interface D20Test {
+  modifier: number; // Attack or save bonus
+  target: number; // AC or DC
+  autoSuccess: number; // Natural roll that always succeeds: the crit range for attacks, 20 for saves
+  advantageState: D20RollState;
+  bonusDice: string[];
+  rerolls: D20Reroll[];
+}
+
+/**
+ * Chance a d20 test succeeds, and that the final natural roll reaches autoSuccess. A natural 1
+ * always fails. Rerolls follow the table rules around advantage:
+ * - reroll-ones (Halfling Luck) applies to each d20 rolled, before the higher or lower is kept
+ * - replace (Portent) swaps in a die rolled earlier, so advantage no longer matters; a die
+ *   without a value is a fresh d20, used only when it would succeed on its own
+ * - reroll-on-miss (Lucky) rolls one more d20 after a failure and uses any of the dice,
+ *   so with disadvantage it can pick the higher of the first two
+ * - add-on-miss (Precision Attack) adds its die after everything else still fails
+ */
+const getD20TestOutcome = (test: D20Test): { success: number; critical: number } => {
+  const { modifier, target, autoSuccess, advantageState, bonusDice, rerolls } = test;
+  const single = getSingleD20(rerolls.some(reroll => reroll.type === 'reroll-ones'));
+  const lucky = rerolls.some(reroll => reroll.type === 'reroll-on-miss');
+  const replace = rerolls.find((reroll): reroll is Extract<D20Reroll, { type: 'replace' }> => reroll.type === 'replace');
+  const addedDice = rerolls.flatMap(reroll => (reroll.type === 'add-on-miss' ? [reroll.dice] : []));
+
+  const sums = [...getBonusDiceDistribution(bonusDice).entries()];
+  const added = getAtLeastProbabilities(getBonusDiceDistribution(addedDice));
+  const succeeds = (natural: number, sum: number): boolean =>
+    natural >= autoSuccess || (natural > 1 && natural + modifier + sum >= target);
+  const rescued = (natural: number, sum: number): number =>
+    natural > 1 && addedDice.length > 0 ? added(target - modifier - natural - sum) : 0;
+
+  let starts = getD20RollPairs(advantageState, single);
+  if (replace?.value) {
+    starts = [{ kept: replace.value, best: replace.value, probability: 1 }];
+  } else if (replace) {
+    // The replacement die is kept when it succeeds without bonus dice; otherwise roll as usual
+    const usedFaces = Array.from({ length: 20 }, (_, i) => i + 1).filter(face => succeeds(face, 0));
+    const used = usedFaces.length / 20;
+    starts = [
+      ...usedFaces.map(face => ({ kept: face, best: face, probability: 1 / 20 })),
+      ...starts.map(start => ({ ...start, probability: start.probability * (1 - used) }))
+    ];
+  }
+
+  let success = 0;
+  let critical = 0;
+  for (const { kept, best, probability } of starts) {
+    for (const [sum, pSum] of sums) {
+      const weight = probability * pSum;
+      if (succeeds(kept, sum)) {
+        success += weight;
+        if (kept >= autoSuccess) critical += weight;
+      } else if (lucky) {
+        for (let face = 1; face <= 20; face++) {
+          const natural = Math.max(best, face);
+          if (succeeds(natural, sum)) {
+            success += weight * single[face];
+            if (natural >= autoSuccess) critical += weight * single[face];
+          } else {
+            success += weight * single[face] * rescued(natural, sum);
+          }
+        }
+      } else {
+        success += weight * rescued(kept, sum);
+      }
+    }
+  }
+  return { success, critical };
+};
+
+export interface AttackRollParams {
+  attackBonus: number;
+  targetAC: number;
+  critRange?: number;
+  advantageState?: D20RollState;
+  bonusDice?: string[];
+  rerolls?: D20Reroll[];
+}
+
+// Exact hit and crit chances: a natural 1 misses, a natural roll in the crit range hits and crits
+export const getAttackRollOutcome = (params: AttackRollParams): { hitProbability: number; critProbability: number } => {
+  const { attackBonus, targetAC, critRange = 20, advantageState = 'normal', bonusDice = [], rerolls = [] } = params;
+  const { success, critical } = getD20TestOutcome({
+    modifier: attackBonus,
+    target: targetAC,
+    autoSuccess: critRange,
+    advantageState,
+    bonusDice,
+    rerolls,
+  });
+  return { hitProbability: success, critProbability: critical };
+};
+
+export interface SourceHitChange {
+  source: string;
+  dice: string[];
+  hitChange: number; // Hit chance gained (or lost, for penalty dice) over the roll without this source
+}
+
+// What each source's dice and rerolls add to the hit chance with every other source still applied
+export const getHitChangesBySource = (
+  params: Omit<AttackRollParams, 'bonusDice' | 'rerolls'> & {
+    bonusDice: Array<{ dice: string; source: string }>;
+    rerolls?: Array<{ reroll: D20Reroll; source: string }>;
+  }
+): SourceHitChange[] => {
+  const { bonusDice, rerolls = [], ...roll } = params;
+  const outcome = (except?: string) => getAttackRollOutcome({
+    ...roll,
+    bonusDice: bonusDice.filter(bonus => bonus.source !== except).map(bonus => bonus.dice),
+    rerolls: rerolls.filter(reroll => reroll.source !== except).map(reroll => reroll.reroll),
+  }).hitProbability;
+
+  const hitProbability = outcome();
+  const sources = [...new Set([...bonusDice.map(bonus => bonus.source), ...rerolls.map(reroll => reroll.source)])];
+  return sources.map(source => ({
+    source,
+    dice: [
+      ...bonusDice.filter(bonus => bonus.source === source).map(bonus => bonus.dice),
+      ...rerolls.flatMap(({ reroll, source: from }) => (from === source && reroll.type === 'add-on-miss' ? [reroll.dice] : [])),
+    ],
+    hitChange: hitProbability - outcome(source),
+  }));
+};
+
 // Probability of hitting at least once in multiple attacks
 export const getMultiAttackHitProbability = (
   singleAttackHitProb: number, 
@@ -142,19 +359,26 @@ export const getExpectedCrits = (singleAttackCritProb: number, numAttacks: numbe
   return singleAttackCritProb * numAttacks;
 };
 
-// Save-based spell probabilities
-export const getSaveFailureProbability = (spellDC: number, saveBonus: number): number => {
-  // Need to roll spellDC - saveBonus or higher on d20
-  const requiredRoll = clamp(spellDC - saveBonus, 1, 20);
-  
-  if (requiredRoll <= 1) return 0.05; // Only fail on nat 1
-  if (requiredRoll >= 20) return 0.95; // Only succeed on nat 20
-  
-  return (21 - requiredRoll) / 20;
+// Save-based spell probabilities: a natural 1 always fails and a natural 20 always succeeds
+export const getSaveFailureProbability = (
+  spellDC: number,
+  saveBonus: number,
+  options: SaveRollOptions = {}
+): number => {
+  const { advantageState = 'normal', bonusDice = [], rerolls = [] } = options;
+  const { success } = getD20TestOutcome({
+    modifier: saveBonus,
+    target: spellDC,
+    autoSuccess: 20,
+    advantageState,
+    bonusDice,
+    rerolls,
+  });
+  return 1 - success;
 };
 
-export const getSaveSuccessProbability = (spellDC: number, saveBonus: number): number => {
-  return 1 - getSaveFailureProbability(spellDC, saveBonus);
+export const getSaveSuccessProbability = (spellDC: number, saveBonus: number, options: SaveRollOptions = {}): number => {
+  return 1 - getSaveFailureProbability(spellDC, saveBonus, options);
 };
 
 // Legendary Resistance calculations
@@ -175,10 +399,7 @@ export const getLegendaryResistanceAdjustedSaveProb = (
 
 // Magic Resistance (advantage on saves against spells)
 export const getMagicResistanceSaveProb = (spellDC: number, saveBonus: number): number => {
-  const baseFailProb = getSaveFailureProbability(spellDC, saveBonus);
-  // With advantage, P(fail) = P(fail)²
-  const magicResistanceFailProb = Math.pow(baseFailProb, 2);
-  return 1 - magicResistanceFailProb;
+  return getSaveSuccessProbability(spellDC, saveBonus, { advantageState: 'advantage' });
 };
 
 // Great Weapon Fighting reroll calculation
@@ -186,16 +407,13 @@ export const getGWFRerollExpectation = (diceSides: number): number => {
   if (diceSides < 2) return 0;
   
   // On a d6: normally 3.5 average
-  // With GWF: reroll 1s and 2s once
-  // P(1 or 2) = 2/diceSides
-  // Expected value when rerolling = average of all outcomes = (diceSides + 1) / 2
-  
+  // With GWF: reroll 1s and 2s once and keep the new roll
+  // Faces 3+ are kept as rolled; a 1 or 2 becomes a fresh roll worth the normal average
   const normalExpectation = (diceSides + 1) / 2;
-  const rerollProb = 2 / diceSides;
-  const rerollExpectation = normalExpectation; // Same average on reroll
+  const keptSum = (diceSides * (diceSides + 1)) / 2 - 3; // 3+4+5+6 = 18 for d6
   
   // E[damage] = E[keep original] + E[reroll and keep]
-  return (1 - rerollProb) * normalExpectation + rerollProb * rerollExpectation;
+  return keptSum / diceSides + (2 / diceSides) * normalExpectation;
 };
 
 // Elemental Adept reroll calculation (treat 1s as 2s)
@@ -222,13 +440,7 @@ export interface ProbabilityCalculation {
 }
 
 // Master function to calculate all probabilities for an attack sequence
-export const calculateAttackProbabilities = (params: {
-  attackBonus: number;
-  targetAC: number;
-  critRange?: number;
-  advantageState?: 'normal' | 'advantage' | 'disadvantage' | 'elven-accuracy';
-  bonusDice?: string[];
-  halflingLuck?: boolean;
+export const calculateAttackProbabilities = (params: AttackRollParams & {
   numAttacks?: number;
 }): ProbabilityCalculation => {
   const {
@@ -237,38 +449,23 @@ export const calculateAttackProbabilities = (params: {
     critRange = 20,
     advantageState = 'normal',
     bonusDice = [],
-    halflingLuck = false,
+    rerolls = [],
     numAttacks = 1,
   } = params;
 
+  // Expected dice total, for display; the probabilities below use the exact distribution
   const bonusDiceExpectation = getCombinedBonusExpectation(bonusDice);
   const effectiveAttackBonus = attackBonus + bonusDiceExpectation;
 
-  let hitProbability: number;
-  let critProbability: number;
-
-  if (halflingLuck) {
-    hitProbability = getHalflingLuckHitProbability(effectiveAttackBonus, targetAC);
-    critProbability = getCritProbability(critRange); // Halfling luck doesn't affect crits much
-  } else {
-    switch (advantageState) {
-      case 'advantage':
-        hitProbability = getAdvantageHitProbability(effectiveAttackBonus, targetAC);
-        critProbability = getAdvantageCritProbability(critRange);
-        break;
-      case 'disadvantage':
-        hitProbability = getDisadvantageHitProbability(effectiveAttackBonus, targetAC);
-        critProbability = getDisadvantageCritProbability(critRange);
-        break;
-      case 'elven-accuracy':
-        hitProbability = getElvenAccuracyHitProbability(effectiveAttackBonus, targetAC);
-        critProbability = getElvenAccuracyCritProbability(critRange);
-        break;
-      default:
-        hitProbability = getHitProbability(effectiveAttackBonus, targetAC);
-        critProbability = getCritProbability(critRange);
-    }
-  }
+  const { hitProbability, critProbability } = getAttackRollOutcome({
+    attackBonus,
+    targetAC,
+    critRange,
+    advantageState,
+    bonusDice,
+    rerolls,
+  });
+
 
   const result: ProbabilityCalculation = {
     hitProbability,
@@ -0,0 +1,94 @@
+/**
+ * Racial traits: a build's race and subrace as library effects, the ability bonuses,
+ * resistances and actions they grant, and race prerequisites on feats
+ */
+
+import type { Abilities, Build } from '../types/build';
+import type { Effect, EffectAction } from '../types/effects';
+import { effectLibrary, getEffectId } from '../data/effects';
+import { ABILITY_KEYS, MAX_ABILITY_SCORE } from './abilityScores';
+
+const BASE_SPEED = 30;
+
+// The race effect for a name, and the race it belongs to when it's a subrace, parent first
+export const getRaceEffects = (race?: string): Effect[] => {
+  const effect = race ? effectLibrary.races[getEffectId(race)] : undefined;
+  if (!effect) return [];
+  const parent = effect.subraceOf ? effectLibrary.races[effect.subraceOf] : undefined;
+  return parent ? [parent, effect] : [effect];
+};
+
+// Races and the subraces of each, for race pickers
+export const getRaceOptions = (): Array<{ race: Effect; subraces: Effect[] }> => {
+  const all = Object.values(effectLibrary.races);
+  return all
+    .filter(effect => !effect.subraceOf)
+    .map(race => ({ race, subraces: all.filter(effect => effect.subraceOf === race.id) }));
+};
+
+export const getRacialAbilityBonuses = (race?: string): Partial<Abilities> => {
+  const bonuses: Partial<Abilities> = {};
+  getRaceEffects(race).forEach(effect => {
+    Object.entries(effect.modifiers.abilityScores || {}).forEach(([ability, bonus]) => {
+      const key = ability as keyof Abilities;
+      bonuses[key] = (bonuses[key] || 0) + (bonus || 0);
+    });
+  });
+  return bonuses;
+};
+
+export const applyRacialAbilityBonuses = (abilities: Abilities, race?: string): Abilities => {
+  const bonuses = getRacialAbilityBonuses(race);
+  return ABILITY_KEYS.reduce<Abilities>((scores, key) => ({
+    ...scores,
+    [key]: bonuses[key] ? Math.min(MAX_ABILITY_SCORE, abilities[key] + bonuses[key]) : abilities[key]
+  }), { ...abilities });
+};
+
+export const getRacialResistances = (race?: string): string[] => {
+  return [...new Set(getRaceEffects(race).flatMap(effect => effect.modifiers.resistances || []))];
+};
+
+// Walking speed; race speed modifiers are changes from the usual 30 ft.
+export const getRacialSpeed = (race?: string): number => {
+  return getRaceEffects(race).reduce((speed, effect) => speed + (effect.modifiers.speed || 0), BASE_SPEED);
+};
+
+export const getRacialHitPoints = (race: string | undefined, characterLevel: number): number => {
+  return getRaceEffects(race).reduce((total, effect) => total + (effect.modifiers.hitPointsPerLevel || 0) * characterLevel, 0);
+};
+
+// A race's action with its resource limit, e.g. a breath weapon once per short rest
+export const getRacialAction = (race?: string): { effect: Effect; action: EffectAction } | undefined => {
+  const effect = getRaceEffects(race).find(candidate => candidate.action);
+  return effect?.action ? { effect, action: effect.action } : undefined;
+};
+
+// Damage dice for an action at a character level, e.g. a breath weapon's 3d6 at 6th level
+export const getActionDamage = (action: EffectAction, characterLevel: number): string => {
+  const level = Object.keys(action.damageByLevel)
+    .map(Number)
+    .filter(threshold => threshold <= characterLevel)
+    .reduce((best, threshold) => Math.max(best, threshold), 1);
+  return action.damageByLevel[level] || Object.values(action.damageByLevel)[0];
+};
+
+export const getActionSaveDC = (action: EffectAction, build: Pick<Build, 'abilities' | 'proficiencyBonus'>): number => {
+  return 8 + build.proficiencyBonus + Math.floor((build.abilities[action.saveDCAbility] - 10) / 2);
+};
+
+// Race ids named in an effect's prerequisites, e.g. "Elf or half-elf" -> ['elf', 'half-elf']
+export const getRacePrerequisites = (effect: Effect): string[] => {
+  return (effect.prerequisites || [])
+    .flatMap(prerequisite => prerequisite.split(/,|\bor\b/i))
+    .map(getEffectId)
+    .filter(id => effectLibrary.races[id]);
+};
+
+// Builds without a race the library knows aren't held to race prerequisites; a subrace meets its parent race's
+export const meetsRacePrerequisites = (effect: Effect, race?: string): boolean => {
+  const required = getRacePrerequisites(effect);
+  const raceEffects = getRaceEffects(race);
+  if (required.length === 0 || raceEffects.length === 0) return true;
+  return raceEffects.some(raceEffect => required.includes(raceEffect.id));
+};
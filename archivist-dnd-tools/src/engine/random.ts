@@ -3,6 +3,8 @@
  * Uses a Linear Congruential Generator (LCG) for deterministic randomness
  */
 
+import type { DamageReroll } from '../types/effects';
+
 export class SeededRandom {
   private seed: number;
   private current: number;
@@ -168,24 +170,37 @@ export class DiceRoller {
   }
 
   /**
-   * Roll damage with reroll mechanics (Great Weapon Fighting, etc.)
+   * Roll one d20, rerolling a natural 1 once when asked (Halfling Luck)
+   */
+  rollD20(rerollOnes: boolean = false): number {
+    const roll = this.rng.rollDie(20);
+    return rerollOnes && roll === 1 ? this.rng.rollDie(20) : roll;
+  }
+
+  /**
+   * Roll damage with reroll mechanics (Great Weapon Fighting, Elemental Adept, etc.)
    */
-  rollDamageWithRerolls(notation: string, rerollOnes: boolean = false, rerollTwos: boolean = false): number {
+  rollDamageWithRerolls(notation: string, reroll?: DamageReroll): number {
     try {
       const match = notation.match(/(\d+)d(\d+)(?:\+(\d+))?(?:\-(\d+))?/);
       if (match) {
         const [, numDice, dieSize, bonus, penalty] = match;
+        const sides = parseInt(dieSize);
+        const condition = reroll?.condition || [];
+        const rerolled = (condition === 'min' ? [1] : condition === 'max' ? [sides] : condition);
+        const untilKept = reroll?.once === false && rerolled.filter(face => face >= 1 && face <= sides).length < sides;
         let total = 0;
         
         for (let i = 0; i < parseInt(numDice); i++) {
-          let roll = this.rng.rollDie(parseInt(dieSize));
+          let roll = this.rng.rollDie(sides);
           
           // Apply reroll mechanics
-          if ((rerollOnes && roll === 1) || (rerollTwos && roll <= 2)) {
-            roll = this.rng.rollDie(parseInt(dieSize));
+          if (rerolled.includes(roll)) {
+            roll = this.rng.rollDie(sides);
+            while (untilKept && rerolled.includes(roll)) roll = this.rng.rollDie(sides);
           }
           
-          total += roll;
+          total += Math.max(Math.min(sides, reroll?.minimum || 1), roll);
         }
 
         const totalBonus = (parseInt(bonus) || 0) - (parseInt(penalty) || 0);
@@ -0,0 +1,397 @@
+/**
+ * Rule expressions: a small condition language over the attack, save and combat context,
+ * e.g. `weapon.properties has "heavy" and combat.advantage == "advantage"`.
+ * Expressions are parsed once, type-checked against the known fields and evaluated per attack
+ */
+
+import type { AttackContext, HitContext, SaveContext } from '../types/effects';
+
+export type RuleValueType = 'string' | 'number' | 'boolean' | 'list';
+type RuleValue = string | number | boolean | string[];
+
+export interface RuleExpressionError {
+  message: string;
+  position: number; // 0-based offset into the source
+}
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'has' | 'in';
+
+export type RuleExpressionNode =
+  | { kind: 'literal'; value: RuleValue; position: number }
+  | { kind: 'field'; path: string; position: number }
+  | { kind: 'not'; operand: RuleExpressionNode; position: number }
+  | { kind: 'logical'; operator: 'and' | 'or'; left: RuleExpressionNode; right: RuleExpressionNode; position: number }
+  | { kind: 'compare'; operator: ComparisonOperator; left: RuleExpressionNode; right: RuleExpressionNode; position: number };
+
+export interface CompiledRuleExpression {
+  source: string;
+  ast?: RuleExpressionNode;
+  errors: RuleExpressionError[];
+}
+
+// Fields an expression can read, with their types; values missing from a context read as '', 0, false or []
+export const RULE_EXPRESSION_FIELDS: Record<string, { type: RuleValueType; description: string }> = {
+  'weapon.name': { type: 'string', description: 'Main-hand weapon name' },
+  'weapon.type': { type: 'string', description: '"melee" or "ranged"' },
+  'weapon.properties': { type: 'list', description: 'e.g. "heavy", "finesse"' },
+  'weapon.damageType': { type: 'string', description: 'e.g. "slashing"' },
+  'weapon.magic': { type: 'number', description: 'Magic weapon bonus' },
+  'attack.number': { type: 'number', description: '0 for the first attack of the turn' },
+  'attack.isMainAction': { type: 'boolean', description: 'Part of the Attack action' },
+  'attack.roll': { type: 'number', description: 'd20 result, on hit' },
+  'attack.isCrit': { type: 'boolean', description: 'Critical hit, on hit' },
+  'combat.advantage': { type: 'string', description: '"normal", "advantage" or "disadvantage"' },
+  'combat.cover': { type: 'string', description: '"none", "half", "three-quarters" or "full"' },
+  'combat.range': { type: 'string', description: '"normal", "long" or "point-blank"' },
+  'combat.lighting': { type: 'string', description: '"bright", "dim" or "darkness"' },
+  'combat.flanking': { type: 'boolean', description: 'Target is flanked' },
+  'combat.hidden': { type: 'boolean', description: 'Attacker is hidden' },
+  'combat.recklessAttack': { type: 'boolean', description: 'Reckless Attack is in use' },
+  'combat.allyWithin5ft': { type: 'boolean', description: 'An ally is next to the target' },
+  'target.type': { type: 'string', description: 'Creature type, e.g. "undead"' },
+  'target.size': { type: 'string', description: 'e.g. "large"' },
+  'target.armorClass': { type: 'number', description: 'Target AC' },
+  'target.hitPoints': { type: 'number', description: 'Target hit points' },
+  'target.conditions': { type: 'list', description: 'e.g. "prone", "frightened"' },
+  'target.resistances': { type: 'list', description: 'Damage types the target resists' },
+  'character.level': { type: 'number', description: 'Total character level' },
+  'character.classes': { type: 'list', description: 'Lowercase class names' },
+  'character.features': { type: 'list', description: 'Feat and feature ids' },
+  'character.proficiencyBonus': { type: 'number', description: 'Proficiency bonus' },
+  'save.ability': { type: 'string', description: '"STR" to "CHA", on saves' },
+  'save.dc': { type: 'number', description: 'Save DC, on saves' },
+  'spell.name': { type: 'string', description: 'Spell being cast, if any' }
+};
+
+export type RuleScope = Record<string, RuleValue>;
+
+// Tokenizer
+
+type Token =
+  | { type: 'string'; value: string; position: number }
+  | { type: 'number'; value: number; position: number }
+  | { type: 'word'; value: string; position: number }
+  | { type: 'symbol'; value: string; position: number }
+  | { type: 'end'; position: number };
+
+class RuleSyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.position = position;
+  }
+}
+
+const SYMBOLS = ['==', '!=', '<=', '>=', '<', '>', '(', ')', '[', ']', ',', '.'];
+const KEYWORDS = ['and', 'or', 'not', 'has', 'in', 'true', 'false'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '"' || char === "'") {
+      const end = source.indexOf(char, index + 1);
+      if (end === -1) throw new RuleSyntaxError('Unterminated string', index);
+      tokens.push({ type: 'string', value: source.slice(index + 1, end), position: index });
+      index = end + 1;
+    } else if (/[0-9]/.test(char) || (char === '-' && /[0-9]/.test(source[index + 1] || ''))) {
+      const match = source.slice(index).match(/^-?\d+(\.\d+)?/);
+      tokens.push({ type: 'number', value: parseFloat(match[0]), position: index });
+      index += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = source.slice(index).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+      tokens.push({ type: 'word', value: match[0], position: index });
+      index += match[0].length;
+    } else {
+      const symbol = SYMBOLS.find(candidate => source.startsWith(candidate, index));
+      if (!symbol) throw new RuleSyntaxError(`Unexpected character '${char}'`, index);
+      tokens.push({ type: 'symbol', value: symbol, position: index });
+      index += symbol.length;
+    }
+  }
+
+  tokens.push({ type: 'end', position: source.length });
+  return tokens;
+};
+
+// Parser: or > and > not > comparison > value
+
+const parse = (source: string): RuleExpressionNode => {
+  const tokens = tokenize(source);
+  let current = 0;
+
+  const peek = (): Token => tokens[current];
+  const isWord = (word: string) => peek().type === 'word' && (peek() as { value: string }).value === word;
+  const isSymbol = (symbol: string) => peek().type === 'symbol' && (peek() as { value: string }).value === symbol;
+  const describe = (token: Token) => (token.type === 'end' ? 'end of expression' : `'${token.value}'`);
+
+  const expectSymbol = (symbol: string) => {
+    if (!isSymbol(symbol)) throw new RuleSyntaxError(`Expected '${symbol}' but found ${describe(peek())}`, peek().position);
+    current++;
+  };
+
+  const parseValue = (): RuleExpressionNode => {
+    const token = peek();
+
+    if (token.type === 'string' || token.type === 'number') {
+      current++;
+      return { kind: 'literal', value: token.value, position: token.position };
+    }
+    if (isSymbol('(')) {
+      current++;
+      const inner = parseOr();
+      expectSymbol(')');
+      return inner;
+    }
+    if (isSymbol('[')) {
+      current++;
+      const items: string[] = [];
+      while (!isSymbol(']')) {
+        const item = peek();
+        if (item.type !== 'string') throw new RuleSyntaxError('Lists can only hold quoted strings', item.position);
+        items.push(item.value);
+        current++;
+        if (!isSymbol(']')) expectSymbol(',');
+      }
+      current++;
+      return { kind: 'literal', value: items, position: token.position };
+    }
+    if (token.type === 'word' && (token.value === 'true' || token.value === 'false')) {
+      current++;
+      return { kind: 'literal', value: token.value === 'true', position: token.position };
+    }
+    if (token.type === 'word' && !KEYWORDS.includes(token.value)) {
+      current++;
+      const parts = [token.value];
+      while (isSymbol('.')) {
+        current++;
+        const part = peek();
+        if (part.type !== 'word') throw new RuleSyntaxError(`Expected a field name after '.'`, part.position);
+        parts.push(part.value);
+        current++;
+      }
+      return { kind: 'field', path: parts.join('.'), position: token.position };
+    }
+    throw new RuleSyntaxError(`Expected a value but found ${describe(token)}`, token.position);
+  };
+
+  const parseComparison = (): RuleExpressionNode => {
+    const left = parseValue();
+    const token = peek();
+    const operator = token.type === 'symbol' && ['==', '!=', '<', '<=', '>', '>='].includes(token.value)
+      ? token.value
+      : token.type === 'word' && (token.value === 'has' || token.value === 'in') ? token.value : null;
+    if (!operator) return left;
+
+    current++;
+    const right = parseValue();
+    return { kind: 'compare', operator: operator as ComparisonOperator, left, right, position: token.position };
+  };
+
+  const parseNot = (): RuleExpressionNode => {
+    if (isWord('not')) {
+      const position = peek().position;
+      current++;
+      return { kind: 'not', operand: parseNot(), position };
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): RuleExpressionNode => {
+    let left = parseNot();
+    while (isWord('and')) {
+      const position = peek().position;
+      current++;
+      left = { kind: 'logical', operator: 'and', left, right: parseNot(), position };
+    }
+    return left;
+  };
+
+  const parseOr = (): RuleExpressionNode => {
+    let left = parseAnd();
+    while (isWord('or')) {
+      const position = peek().position;
+      current++;
+      left = { kind: 'logical', operator: 'or', left, right: parseAnd(), position };
+    }
+    return left;
+  };
+
+  if (peek().type === 'end') throw new RuleSyntaxError('Expression is empty', 0);
+  const ast = parseOr();
+  if (peek().type !== 'end') throw new RuleSyntaxError(`Unexpected ${describe(peek())}`, peek().position);
+  return ast;
+};
+
+// Type-checker: every field must be known and every operator applied to the types it accepts
+
+const typeOf = (node: RuleExpressionNode, errors: RuleExpressionError[]): RuleValueType | null => {
+  switch (node.kind) {
+    case 'literal':
+      return Array.isArray(node.value) ? 'list' : (typeof node.value as RuleValueType);
+    case 'field': {
+      const field = RULE_EXPRESSION_FIELDS[node.path];
+      if (!field) errors.push({ message: `Unknown field '${node.path}'`, position: node.position });
+      return field ? field.type : null;
+    }
+    case 'not': {
+      const operand = typeOf(node.operand, errors);
+      if (operand && operand !== 'boolean') {
+        errors.push({ message: `'not' needs a true/false value, not a ${operand}`, position: node.position });
+      }
+      return 'boolean';
+    }
+    case 'logical': {
+      [node.left, node.right].forEach(side => {
+        const type = typeOf(side, errors);
+        if (type && type !== 'boolean') {
+          errors.push({ message: `'${node.operator}' needs true/false values, not a ${type}`, position: side.position });
+        }
+      });
+      return 'boolean';
+    }
+    case 'compare': {
+      const left = typeOf(node.left, errors);
+      const right = typeOf(node.right, errors);
+      if (!left || !right) return 'boolean';
+
+      const mismatch = (expected: string) => errors.push({
+        message: `'${node.operator}' expects ${expected}, got ${left} and ${right}`,
+        position: node.position
+      });
+      if (node.operator === 'has' && (left !== 'list' || right !== 'string')) mismatch('a list and a string');
+      else if (node.operator === 'in' && (left !== 'string' || right !== 'list')) mismatch('a string and a list');
+      else if (['<', '<=', '>', '>='].includes(node.operator) && (left !== 'number' || right !== 'number')) mismatch('two numbers');
+      else if ((node.operator === '==' || node.operator === '!=') && (left !== right || left === 'list')) {
+        mismatch('two values of the same type');
+      }
+      return 'boolean';
+    }
+  }
+};
+
+// Parsed expressions by source, so the simulators parse each one once rather than per attack
+const compiledCache = new Map<string, CompiledRuleExpression>();
+
+/**
+ * Parse and type-check an expression. Errors carry the offset of the offending token
+ */
+export const compileRuleExpression = (source: string): CompiledRuleExpression => {
+  const cached = compiledCache.get(source);
+  if (cached) return cached;
+
+  let compiled: CompiledRuleExpression;
+  try {
+    const ast = parse(source);
+    const errors: RuleExpressionError[] = [];
+    const type = typeOf(ast, errors);
+    if (type && type !== 'boolean') {
+      errors.push({ message: `Expression must be true or false, not a ${type}`, position: 0 });
+    }
+    compiled = { source, ast, errors };
+  } catch (error) {
+    if (!(error instanceof RuleSyntaxError)) throw error;
+    compiled = { source, errors: [{ message: error.message, position: error.position }] };
+  }
+
+  compiledCache.set(source, compiled);
+  return compiled;
+};
+
+// Error messages with their position, for forms and import validation
+export const checkRuleExpression = (source: string): string[] => {
+  return compileRuleExpression(source).errors.map(error => `${error.message} (at ${error.position + 1})`);
+};
+
+// Evaluator
+
+const evaluateNode = (node: RuleExpressionNode, scope: RuleScope): RuleValue => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field':
+      return scope[node.path];
+    case 'not':
+      return !evaluateNode(node.operand, scope);
+    case 'logical':
+      return node.operator === 'and'
+        ? Boolean(evaluateNode(node.left, scope)) && Boolean(evaluateNode(node.right, scope))
+        : Boolean(evaluateNode(node.left, scope)) || Boolean(evaluateNode(node.right, scope));
+    case 'compare': {
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+      const lower = (value: RuleValue) => (typeof value === 'string' ? value.toLowerCase() : value);
+
+      switch (node.operator) {
+        case '==': return lower(left) === lower(right);
+        case '!=': return lower(left) !== lower(right);
+        case '<': return (left as number) < (right as number);
+        case '<=': return (left as number) <= (right as number);
+        case '>': return (left as number) > (right as number);
+        case '>=': return (left as number) >= (right as number);
+        case 'has': return (left as string[]).some(item => item.toLowerCase() === String(right).toLowerCase());
+        case 'in': return (right as string[]).some(item => item.toLowerCase() === String(left).toLowerCase());
+      }
+    }
+  }
+};
+
+/**
+ * Field values for one attack or save. Attack-only fields are empty for saves and vice versa
+ */
+export const createRuleScope = (context: AttackContext | HitContext | SaveContext): RuleScope => {
+  const { build, target, combat } = context;
+  const attack = 'attackNumber' in context ? context : null;
+  const hit = attack && 'isCrit' in attack ? (attack as HitContext) : null;
+  const save = 'savingThrow' in context ? context : null;
+  const weapon = attack?.weapon ? build.equipment?.mainHand : null;
+
+  return {
+    'weapon.name': weapon?.name || '',
+    'weapon.type': weapon?.type || '',
+    'weapon.properties': weapon?.properties || [],
+    'weapon.damageType': weapon?.damageType || '',
+    'weapon.magic': weapon?.magic || 0,
+    'attack.number': attack?.attackNumber ?? 0,
+    'attack.isMainAction': Boolean(attack?.isMainAction),
+    'attack.roll': hit?.attackRoll ?? 0,
+    'attack.isCrit': Boolean(hit?.isCrit),
+    'combat.advantage': combat.advantage,
+    'combat.cover': combat.cover,
+    'combat.range': combat.range,
+    'combat.lighting': combat.lighting,
+    'combat.flanking': Boolean(combat.flanking),
+    'combat.hidden': Boolean(combat.hidden),
+    'combat.recklessAttack': Boolean(combat.recklessAttack),
+    'combat.allyWithin5ft': Boolean(combat.allyWithin5ft),
+    'target.type': target.type || '',
+    'target.size': target.size || '',
+    'target.armorClass': target.armorClass,
+    'target.hitPoints': target.currentHP ?? target.hitPoints,
+    'target.conditions': [...(target.conditions || []), ...(combat.targetConditions || [])],
+    'target.resistances': target.resistances || [],
+    'character.level': (build.levels || []).reduce((sum, classLevel) => sum + classLevel.level, 0),
+    'character.classes': (build.levels || []).map(classLevel => classLevel.class.toLowerCase()),
+    'character.features': [...(build.features || []), ...(build.fightingStyles || [])],
+    'character.proficiencyBonus': build.proficiencyBonus || 0,
+    'save.ability': save?.savingThrow || '',
+    'save.dc': save?.dc ?? 0,
+    'spell.name': save?.spell || (attack as AttackContext | null)?.spell || ''
+  };
+};
+
+/**
+ * True when the expression holds for the scope. Expressions with errors never hold, so a
+ * broken condition switches its effect off rather than applying it everywhere
+ */
+export const evaluateRuleExpression = (source: string, scope: RuleScope): boolean => {
+  const compiled = compileRuleExpression(source);
+  if (!compiled.ast || compiled.errors.length > 0) return false;
+  return Boolean(evaluateNode(compiled.ast, scope));
+};
@@ -0,0 +1,22 @@
+/**
+ * Saving throw bonuses: ability modifier, proficiency from the first class or Resilient,
+ * and magic item bonuses like a Cloak of Protection's
+ */
+
+import type { Abilities, Build } from '../types/build';
+import { getClassProgression } from '../data/classProgression';
+import { getItemSaveBonus, type SavingThrow } from './items';
+
+// Save proficiencies come from the first class only; multiclassing doesn't add any
+export const hasSaveProficiency = (build: Build, ability: keyof Abilities): boolean => {
+  const firstClass = build.levels[0] ? getClassProgression(build.levels[0].class) : undefined;
+  const classSaves = (firstClass?.savingThrowProficiencies || []).map(save => save.toLowerCase());
+  const features = build.features.map(feature => feature.toLowerCase());
+  return classSaves.includes(ability) || features.includes(`resilient-${ability}`);
+};
+
+export const getSavingThrowBonus = (build: Build, ability: keyof Abilities): number => {
+  const abilityMod = Math.floor((build.abilities[ability] - 10) / 2);
+  const proficiency = hasSaveProficiency(build, ability) ? build.proficiencyBonus : 0;
+  return abilityMod + proficiency + getItemSaveBonus(build.equipment, ability.slice(0, 3).toUpperCase() as SavingThrow);
+};
@@ -0,0 +1,412 @@
+/**
+ * Spells known and prepared: how many cantrips and spells each class picks, the domain and
+ * oath spells that are always prepared, the Wizard's spellbook, Warlock invocations and Mystic
+ * Arcanum, and the spells a build can actually cast
+ */
+
+import type { Abilities, Build, ClassLevel, ClassSpellSelection } from '../types/build';
+import { SPELL_CATALOG, type SpellDefinition } from '../data/spellCatalog';
+import { getEffectId } from '../data/effects';
+
+// What the rules need from a build; the Build Lab passes its sheet before saving
+export type SpellcasterSheet = Pick<Build, 'levels' | 'abilities' | 'featureSelections' | 'spellSelections'>;
+
+export interface SpellcastingRules {
+  ability: keyof Abilities;
+  preparation: 'known' | 'prepared';
+  progression: 'full' | 'half' | 'third' | 'pact';
+  spellList: string; // class whose spell list it uses; Eldritch Knights learn wizard spells
+  cantripsKnown: number[]; // by class level, index 0 is 1st level
+  spellsKnown?: number[]; // casters that learn a fixed number of spells
+  halfLevelPrepared?: boolean; // Paladins prepare their modifier plus half their level
+  spellbook?: boolean; // Wizards prepare from the spells copied into their spellbook
+}
+
+// A class the build has levels in that casts spells, with what it can pick at its level
+export interface ClassSpellLimits {
+  className: string; // lowercase
+  classLevel: number;
+  rules: SpellcastingRules;
+  cantrips: number;
+  spells: number; // spells known, or spells prepared each day
+  maxSpellLevel: number;
+  spellbookMinimum?: number; // spells a Wizard has copied for free by this level
+  mysticArcanumLevels: number[]; // spell levels a Warlock has an arcanum for
+  magicalSecrets: number; // spells a Bard may learn from any class list
+}
+
+// Per class level 1-20 from the levels a value changes at, e.g. { 1: 3, 4: 4, 10: 5 }
+const byLevel = (changes: Record<number, number>): number[] => {
+  return Array.from({ length: 20 }, (_, index) => {
+    const reached = Object.keys(changes).map(Number).filter(level => level <= index + 1);
+    return reached.length > 0 ? changes[Math.max(...reached)] : 0;
+  });
+};
+
+const CLASS_SPELLCASTING: Record<string, SpellcastingRules> = {
+  bard: {
+    ability: 'charisma', preparation: 'known', progression: 'full', spellList: 'bard',
+    cantripsKnown: byLevel({ 1: 2, 4: 3, 10: 4 }),
+    spellsKnown: [4, 5, 6, 7, 8, 9, 10, 11, 12, 14, 15, 15, 16, 18, 19, 19, 20, 22, 22, 22]
+  },
+  cleric: {
+    ability: 'wisdom', preparation: 'prepared', progression: 'full', spellList: 'cleric',
+    cantripsKnown: byLevel({ 1: 3, 4: 4, 10: 5 })
+  },
+  druid: {
+    ability: 'wisdom', preparation: 'prepared', progression: 'full', spellList: 'druid',
+    cantripsKnown: byLevel({ 1: 2, 4: 3, 10: 4 })
+  },
+  paladin: {
+    ability: 'charisma', preparation: 'prepared', progression: 'half', spellList: 'paladin',
+    cantripsKnown: byLevel({}), halfLevelPrepared: true
+  },
+  ranger: {
+    ability: 'wisdom', preparation: 'known', progression: 'half', spellList: 'ranger',
+    cantripsKnown: byLevel({}),
+    spellsKnown: [0, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11]
+  },
+  sorcerer: {
+    ability: 'charisma', preparation: 'known', progression: 'full', spellList: 'sorcerer',
+    cantripsKnown: byLevel({ 1: 4, 4: 5, 10: 6 }),
+    spellsKnown: [2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 12, 13, 13, 14, 14, 15, 15, 15, 15]
+  },
+  warlock: {
+    ability: 'charisma', preparation: 'known', progression: 'pact', spellList: 'warlock',
+    cantripsKnown: byLevel({ 1: 2, 4: 3, 10: 4 }),
+    spellsKnown: [2, 3, 4, 5, 6, 7, 8, 9, 10, 10, 11, 11, 12, 12, 13, 13, 14, 14, 15, 15]
+  },
+  wizard: {
+    ability: 'intelligence', preparation: 'prepared', progression: 'full', spellList: 'wizard',
+    cantripsKnown: byLevel({ 1: 3, 4: 4, 10: 5 }), spellbook: true
+  }
+};
+
+// Fighter and Rogue subclasses that learn wizard spells
+const THIRD_CASTER_SPELLS_KNOWN = [0, 0, 3, 4, 4, 4, 5, 6, 6, 7, 8, 8, 9, 10, 10, 11, 11, 11, 12, 13];
+
+const SUBCLASS_SPELLCASTING: Record<string, SpellcastingRules> = {
+  'eldritch-knight': {
+    ability: 'intelligence', preparation: 'known', progression: 'third', spellList: 'wizard',
+    cantripsKnown: byLevel({ 3: 2, 10: 3 }), spellsKnown: THIRD_CASTER_SPELLS_KNOWN
+  },
+  'arcane-trickster': {
+    ability: 'intelligence', preparation: 'known', progression: 'third', spellList: 'wizard',
+    cantripsKnown: byLevel({ 3: 3, 10: 4 }), spellsKnown: THIRD_CASTER_SPELLS_KNOWN
+  }
+};
+
+// Feature whose choice is the subclass granting always-prepared spells
+const SUBCLASS_FEATURES: Record<string, string> = {
+  cleric: 'cleric-divine-domain',
+  paladin: 'paladin-sacred-oath'
+};
+
+// Domain spells by the cleric level they're gained at; always prepared and not counted
+const DOMAIN_SPELLS: Record<string, Record<number, string[]>> = {
+  knowledge: { 1: ['command', 'identify'], 3: ['augury', 'suggestion'], 5: ['nondetection', 'speak-with-dead'], 7: ['arcane-eye', 'confusion'], 9: ['legend-lore', 'scrying'] },
+  life: { 1: ['bless', 'cure-wounds'], 3: ['lesser-restoration', 'spiritual-weapon'], 5: ['beacon-of-hope', 'revivify'], 7: ['death-ward', 'guardian-of-faith'], 9: ['mass-cure-wounds', 'raise-dead'] },
+  light: { 1: ['burning-hands', 'faerie-fire'], 3: ['flaming-sphere', 'scorching-ray'], 5: ['daylight', 'fireball'], 7: ['guardian-of-faith', 'wall-of-fire'], 9: ['flame-strike', 'scrying'] },
+  nature: { 1: ['animal-friendship', 'speak-with-animals'], 3: ['barkskin', 'spike-growth'], 5: ['plant-growth', 'wind-wall'], 7: ['dominate-beast', 'grasping-vine'], 9: ['insect-plague', 'tree-stride'] },
+  tempest: { 1: ['fog-cloud', 'thunderwave'], 3: ['gust-of-wind', 'shatter'], 5: ['call-lightning', 'sleet-storm'], 7: ['control-water', 'ice-storm'], 9: ['destructive-wave', 'insect-plague'] },
+  trickery: { 1: ['charm-person', 'disguise-self'], 3: ['mirror-image', 'pass-without-trace'], 5: ['blink', 'dispel-magic'], 7: ['dimension-door', 'polymorph'], 9: ['dominate-person', 'modify-memory'] },
+  war: { 1: ['divine-favor', 'shield-of-faith'], 3: ['magic-weapon', 'spiritual-weapon'], 5: ['crusaders-mantle', 'spirit-guardians'], 7: ['freedom-of-movement', 'stoneskin'], 9: ['flame-strike', 'hold-monster'] }
+};
+
+// Oath spells by the paladin level they're gained at
+const OATH_SPELLS: Record<string, Record<number, string[]>> = {
+  ancients: { 3: ['ensnaring-strike', 'speak-with-animals'], 5: ['moonbeam', 'misty-step'], 9: ['plant-growth', 'protection-from-energy'], 13: ['ice-storm', 'stoneskin'], 17: ['commune-with-nature', 'tree-stride'] },
+  devotion: { 3: ['protection-from-evil-and-good', 'sanctuary'], 5: ['lesser-restoration', 'zone-of-truth'], 9: ['beacon-of-hope', 'dispel-magic'], 13: ['freedom-of-movement', 'guardian-of-faith'], 17: ['commune', 'flame-strike'] },
+  vengeance: { 3: ['bane', 'hunters-mark'], 5: ['hold-person', 'misty-step'], 9: ['haste', 'protection-from-energy'], 13: ['banishment', 'dimension-door'], 17: ['hold-monster', 'scrying'] }
+};
+
+const ALWAYS_PREPARED: Record<string, Record<string, Record<number, string[]>>> = {
+  cleric: DOMAIN_SPELLS,
+  paladin: OATH_SPELLS
+};
+
+// Invocations that let a Warlock cast a spell without learning it
+const INVOCATION_SPELLS: Record<string, string> = {
+  'armor-of-shadows': 'mage-armor',
+  'eldritch-sight': 'detect-magic',
+  'fiendish-vigor': 'false-life',
+  'mask-of-many-faces': 'disguise-self',
+  'thief-of-five-fates': 'bane'
+};
+
+// Invocations that only work with a cantrip the Warlock knows
+const INVOCATION_CANTRIPS: Record<string, string> = {
+  'agonizing-blast': 'eldritch-blast',
+  'repelling-blast': 'eldritch-blast'
+};
+
+const INVOCATIONS_KNOWN = byLevel({ 2: 2, 5: 3, 7: 4, 9: 5, 12: 6, 15: 7, 18: 8 });
+
+// Warlock level each Mystic Arcanum spell level is gained at
+const MYSTIC_ARCANUM: Record<number, number> = { 6: 11, 7: 13, 8: 15, 9: 17 };
+
+const MAGICAL_SECRETS = byLevel({ 10: 2, 14: 4, 18: 6 });
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Words left lowercase inside spell names, "Protection from Evil and Good"
+const MINOR_WORDS = ['of', 'and', 'from', 'with', 'the', 'to'];
+
+const getModifier = (score: number): number => Math.floor((score - 10) / 2);
+
+// Highest spell level the class's own levels let it learn or prepare
+const getMaxSpellLevel = (progression: SpellcastingRules['progression'], level: number): number => {
+  switch (progression) {
+    case 'full':
+    case 'pact':
+      return Math.min(progression === 'pact' ? 5 : 9, Math.ceil(level / 2));
+    case 'half':
+      return level < 2 ? 0 : Math.min(5, Math.ceil(level / 4));
+    case 'third':
+      return level < 3 ? 0 : level >= 19 ? 4 : level >= 13 ? 3 : level >= 7 ? 2 : 1;
+  }
+};
+
+const getSubclass = (build: SpellcasterSheet, classLevel: ClassLevel): string => {
+  const className = classLevel.class.toLowerCase();
+  const feature = SUBCLASS_FEATURES[className];
+  return (feature && build.featureSelections?.[feature]?.selections[0]) || (classLevel.subclass || '').toLowerCase();
+};
+
+const getRules = (build: SpellcasterSheet, classLevel: ClassLevel): SpellcastingRules | undefined => {
+  return CLASS_SPELLCASTING[classLevel.class.toLowerCase()] || SUBCLASS_SPELLCASTING[getSubclass(build, classLevel)];
+};
+
+/**
+ * Every spellcasting class a build has levels in, with the cantrips and spells it picks at its
+ * level. Prepared casters prepare their ability modifier plus their class level (half for
+ * Paladins), at least one
+ */
+export const getClassSpellLimits = (build: SpellcasterSheet): ClassSpellLimits[] => {
+  return (build.levels || []).flatMap(classLevel => {
+    const rules = getRules(build, classLevel);
+    if (!rules) return [];
+
+    const level = Math.min(20, Math.max(1, classLevel.level));
+    const maxSpellLevel = getMaxSpellLevel(rules.progression, level);
+    const prepared = getModifier(build.abilities[rules.ability]) + (rules.halfLevelPrepared ? Math.floor(level / 2) : level);
+    const spells = rules.preparation === 'known'
+      ? rules.spellsKnown?.[level - 1] || 0
+      : maxSpellLevel > 0 ? Math.max(1, prepared) : 0;
+
+    return [{
+      className: classLevel.class.toLowerCase(),
+      classLevel: level,
+      rules,
+      cantrips: rules.cantripsKnown[level - 1],
+      spells,
+      maxSpellLevel,
+      spellbookMinimum: rules.spellbook ? 6 + 2 * (level - 1) : undefined,
+      mysticArcanumLevels: rules.progression === 'pact'
+        ? Object.entries(MYSTIC_ARCANUM).filter(([, gained]) => level >= gained).map(([spellLevel]) => Number(spellLevel))
+        : [],
+      magicalSecrets: classLevel.class.toLowerCase() === 'bard' ? MAGICAL_SECRETS[level - 1] : 0
+    }];
+  });
+};
+
+/**
+ * Catalogue spells a class can pick at its level: cantrips and spells up to its highest spell
+ * level from its own list, and from every list once a Bard has Magical Secrets
+ */
+export const getSpellOptions = (limits: ClassSpellLimits): SpellDefinition[] => {
+  return Object.values(SPELL_CATALOG)
+    .filter(spell => (spell.level === 0 ? limits.cantrips > 0 : spell.level <= limits.maxSpellLevel))
+    .filter(spell => limits.magicalSecrets > 0 || spell.classes.includes(limits.rules.spellList))
+    .sort((a, b) => a.level - b.level || a.name.localeCompare(b.name));
+};
+
+/**
+ * Mystic Arcanum choices for each spell level a Warlock has one for
+ */
+export const getMysticArcanumOptions = (limits: ClassSpellLimits): Record<number, SpellDefinition[]> => {
+  return Object.fromEntries(limits.mysticArcanumLevels.map(spellLevel => [
+    spellLevel,
+    Object.values(SPELL_CATALOG).filter(spell => spell.level === spellLevel && spell.classes.includes('warlock'))
+  ]));
+};
+
+/**
+ * Domain or oath spells a class has at its level; they're always prepared and don't count
+ * against the number of spells prepared
+ */
+export const getAlwaysPreparedSpells = (build: SpellcasterSheet, className: string): string[] => {
+  const classLevel = (build.levels || []).find(level => level.class.toLowerCase() === className);
+  const lists = ALWAYS_PREPARED[className];
+  if (!classLevel || !lists) return [];
+
+  const spells = lists[getSubclass(build, classLevel)] || {};
+  return Object.entries(spells)
+    .filter(([gained]) => classLevel.level >= Number(gained))
+    .flatMap(([, ids]) => ids);
+};
+
+const getInvocations = (build: SpellcasterSheet): string[] => {
+  return Object.entries(build.featureSelections || {})
+    .filter(([featureId]) => featureId.startsWith('warlock-') && featureId.includes('invocations'))
+    .flatMap(([, selection]) => selection.selections);
+};
+
+// Spells a Warlock casts through invocations rather than knowing them
+export const getInvocationSpells = (build: SpellcasterSheet): string[] => {
+  return getInvocations(build).map(invocation => INVOCATION_SPELLS[invocation]).filter(Boolean);
+};
+
+// Spell name for a catalogue id; ids the catalogue doesn't cover are spelled out, "cure-wounds" -> "Cure Wounds"
+export const getSpellName = (id: string): string => {
+  return SPELL_CATALOG[id]?.name || id
+    .split('-')
+    .map((word, index) => (index > 0 && MINOR_WORDS.includes(word) ? word : capitalize(word)))
+    .join(' ');
+};
+
+/**
+ * Spells picked for a class that hasn't chosen any in the Build Lab: cantrips and the
+ * highest-level spells on its list, damage spells first
+ */
+export const suggestSpellSelection = (build: SpellcasterSheet, limits: ClassSpellLimits): ClassSpellSelection => {
+  const alwaysPrepared = getAlwaysPreparedSpells(build, limits.className);
+  const rank = (spells: SpellDefinition[]) => [...spells].sort((a, b) => {
+    const damage = (spell: SpellDefinition) => (Object.values(spell.castings).some(casting => casting.damage) ? 1 : 0);
+    return damage(b) - damage(a) || b.level - a.level || a.name.localeCompare(b.name);
+  });
+  const options = getSpellOptions({ ...limits, magicalSecrets: 0 });
+  const cantrips = rank(options.filter(spell => spell.level === 0)).slice(0, limits.cantrips).map(spell => spell.id);
+  const leveled = rank(options.filter(spell => spell.level > 0 && !alwaysPrepared.includes(spell.id))).map(spell => spell.id);
+  const arcana = getMysticArcanumOptions(limits);
+
+  return {
+    cantrips,
+    spells: leveled.slice(0, limits.spells),
+    ...(limits.spellbookMinimum !== undefined ? { spellbook: leveled.slice(0, limits.spellbookMinimum) } : {}),
+    ...(limits.mysticArcanumLevels.length > 0
+      ? { mysticArcanum: limits.mysticArcanumLevels.map(level => rank(arcana[level])[0]?.id).filter(Boolean) }
+      : {})
+  };
+};
+
+// The class's saved choices, or suggested ones when it has none
+export const getClassSpellSelection = (build: SpellcasterSheet, limits: ClassSpellLimits): ClassSpellSelection => {
+  return build.spellSelections?.[limits.className] || suggestSpellSelection(build, limits);
+};
+
+// Whether a class can pick this spell at its level; spells outside the catalogue can't be checked and pass
+const canPick = (limits: ClassSpellLimits, id: string, offList: { count: number }): boolean => {
+  const spell = SPELL_CATALOG[id];
+  if (!spell) return true;
+  if (spell.level > limits.maxSpellLevel) return false;
+  if (spell.classes.includes(limits.rules.spellList)) return true;
+  // Magical Secrets: a few spells from any list
+  if (offList.count < limits.magicalSecrets) {
+    offList.count++;
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Problems with a build's spell choices: too many cantrips or spells, spells from another class
+ * list or above the level the class can cast, Wizard spells prepared without being in the
+ * spellbook, Mystic Arcanum picks and invocations that need a cantrip
+ */
+export const validateSpellSelections = (build: SpellcasterSheet): string[] => {
+  const issues: string[] = [];
+
+  getClassSpellLimits(build).forEach(limits => {
+    const selection = build.spellSelections?.[limits.className];
+    if (!selection) return;
+
+    const label = capitalize(limits.className);
+    const alwaysPrepared = getAlwaysPreparedSpells(build, limits.className);
+    const counted = selection.spells.filter(id => !alwaysPrepared.includes(id));
+    const verb = limits.rules.preparation === 'known' ? 'known' : 'prepared';
+
+    if (selection.cantrips.length > limits.cantrips) {
+      issues.push(`${label}: ${selection.cantrips.length} cantrips known, at most ${limits.cantrips}`);
+    }
+    if (counted.length > limits.spells) {
+      const rule = limits.rules.preparation === 'known'
+        ? `at level ${limits.classLevel}`
+        : `(${capitalize(limits.rules.ability)} modifier + ${limits.rules.halfLevelPrepared ? 'half ' : ''}${limits.className} level)`;
+      issues.push(`${label}: ${counted.length} spells ${verb}, at most ${limits.spells} ${rule}`);
+    }
+
+    const offList = { count: 0 };
+    [...new Set([...selection.cantrips, ...(selection.spellbook || []), ...selection.spells])].forEach(id => {
+      const spell = SPELL_CATALOG[id];
+      if (!spell || alwaysPrepared.includes(id)) return;
+      if (spell.level > limits.maxSpellLevel) {
+        issues.push(`${label}: ${spell.name} is level ${spell.level}, above the level ${limits.maxSpellLevel} spells a level ${limits.classLevel} ${limits.className} can cast`);
+      } else if (!canPick(limits, id, offList)) {
+        issues.push(`${label}: ${spell.name} isn't on the ${limits.rules.spellList} spell list`);
+      }
+    });
+
+    if (limits.rules.spellbook) {
+      const spellbook = selection.spellbook || [];
+      selection.spells
+        .filter(id => !spellbook.includes(id))
+        .forEach(id => issues.push(`${label}: ${getSpellName(id)} is prepared but not in the spellbook`));
+    }
+
+    const arcana = (selection.mysticArcanum || []).map(id => SPELL_CATALOG[id]).filter((spell): spell is SpellDefinition => Boolean(spell));
+    arcana.forEach(spell => {
+      if (!limits.mysticArcanumLevels.includes(spell.level)) {
+        issues.push(`${label}: no level ${spell.level} Mystic Arcanum at warlock level ${limits.classLevel}`);
+      } else if (arcana.filter(other => other.level === spell.level).length > 1) {
+        issues.push(`${label}: more than one level ${spell.level} Mystic Arcanum`);
+      }
+    });
+  });
+
+  const warlock = getClassSpellLimits(build).find(limits => limits.className === 'warlock');
+  if (warlock) {
+    const invocations = getInvocations(build);
+    const allowed = INVOCATIONS_KNOWN[warlock.classLevel - 1];
+    if (invocations.length > allowed) {
+      issues.push(`Warlock: ${invocations.length} eldritch invocations, at most ${allowed}`);
+    }
+    const cantrips = getClassSpellSelection(build, warlock).cantrips;
+    invocations
+      .filter(invocation => INVOCATION_CANTRIPS[invocation] && !cantrips.includes(INVOCATION_CANTRIPS[invocation]))
+      .forEach(invocation => issues.push(`Warlock: ${getSpellName(invocation)} needs the ${getSpellName(INVOCATION_CANTRIPS[invocation])} cantrip`));
+  }
+
+  return [...new Set(issues)];
+};
+
+/**
+ * Names of the spells a build can cast: each class's cantrips and spells known or prepared that
+ * its level allows, up to its limits, plus always-prepared, Mystic Arcanum and invocation spells.
+ * Classes with no choices saved use suggested ones
+ */
+export const getCastableSpells = (build: SpellcasterSheet): string[] => {
+  const ids = getClassSpellLimits(build).flatMap(limits => {
+    const selection = getClassSpellSelection(build, limits);
+    const alwaysPrepared = getAlwaysPreparedSpells(build, limits.className);
+    const offList = { count: 0 };
+    const spellbook = limits.rules.spellbook ? selection.spellbook || [] : null;
+
+    const cantrips = selection.cantrips
+      .filter(id => canPick(limits, id, offList))
+      .slice(0, limits.cantrips);
+    const spells = selection.spells
+      .filter(id => !alwaysPrepared.includes(id))
+      .filter(id => !spellbook || spellbook.includes(id))
+      .filter(id => canPick(limits, id, offList))
+      .slice(0, limits.spells);
+    const arcana = (selection.mysticArcanum || []).filter(id => {
+      const spell = SPELL_CATALOG[id];
+      return spell && limits.mysticArcanumLevels.includes(spell.level);
+    });
+
+    return [...cantrips, ...alwaysPrepared, ...spells, ...arcana];
+  });
+
+  return [...new Set([...ids, ...getInvocationSpells(build)].map(getEffectId))].map(getSpellName);
+};
@@ -3,19 +3,28 @@
  * Matches product spec requirements for comprehensive DPR analysis
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useSimpleStore } from '../store/simpleStore';
-import { 
-  SPELL_DATABASE, 
-  calculateSpellDamage, 
-  calculateSpellSaveDC, 
-  calculateSpellAttackBonus,
-  getAvailableSpells 
-} from '../utils/spellCalculations';
-import { MonteCarloEngine, type CombatScenario, type MonteCarloResults } from '../engine/monteCarlo';
+import type { Build } from '../types/build';
+import type { Effect } from '../types/effects';
+import { getCharacterLevel } from '../utils/buildConversion';
+import { calculateBuildSpellDamage, calculateSpellSaveDC, type BuildSpellDamage } from '../utils/spellCalculations';
+import { MonteCarloEngine, type CombatScenario, type MonteCarloResults, type EncounterSimulationResults } from '../engine/monteCarlo';
 import { MonteCarloResultsComponent } from '../components/results/MonteCarloResults';
 import { ResourceManager } from '../utils/resourceManagement';
 import { DPRByACChart, LevelProgressionChart } from '../components/charts/DPRChart';
+import { DamageDistributionPanel } from '../components/results/DamageDistributionPanel';
+import { SensitivityPanel } from '../components/results/SensitivityPanel';
+import { KillAnalysisPanel } from '../components/results/KillAnalysisPanel';
+import { EncounterSimulationPanel } from '../components/results/EncounterSimulationPanel';
+import { AreaSpellPanel } from '../components/results/AreaSpellPanel';
+import { SpellSlotPanel } from '../components/results/SpellSlotPanel';
+import { LegendaryResistancePanel, type LegendaryResistanceComparison } from '../components/results/LegendaryResistancePanel';
+import { ActiveEffectsPanel } from '../components/results/ActiveEffectsPanel';
+import { getBuildControlSpells, type ControlTarget } from '../engine/legendaryResistance';
+import { collectEffectSources, createCombatContext, resolveAttackRoll, resolveEffectStack } from '../engine/effectHooks';
+import { getHitChangesBySource, type SourceHitChange } from '../engine/probability';
+import { ENCOUNTER_PACKS } from '../data/encounters/encounterPacks';
 
 // Combat target interface
 interface Target {
@@ -62,14 +71,36 @@ interface BuildResult {
     weaponDPR: number;
     spellDPR: number;
     combinedDPR: number;
-    bestSpells: Array<{
-      name: string;
-      damage: number;
-      type: 'attack' | 'save';
-    }>;
+    bestSpells: BuildSpellDamage[]; // each at the slot level it's best cast with
   };
 }
 
+// Builds carry their own policies; the simulations only swap in the buffs cast before combat
+const toSimulationBuild = (build: Build, precast: string[] = []): Build => ({
+  ...build,
+  policies: { ...build.policies, precast }
+});
+
+// What each bonus or penalty die and reroll adds to the first attack's hit chance against the target AC
+const getBuildHitChanges = (build: Build, active: Effect[], targetAC: number): SourceHitChange[] => {
+  const attack = resolveAttackRoll(active, {
+    build,
+    target: { name: 'Target', armorClass: targetAC, hitPoints: 100, resistances: [], immunities: [], vulnerabilities: [] },
+    combat: createCombatContext(),
+    weapon: build.equipment?.mainHand?.name || 'Unarmed Strike',
+    attackNumber: 0,
+    isMainAction: true
+  });
+  return getHitChangesBySource({
+    attackBonus: (build.attackBonus || 5) + attack.toHitBonus,
+    targetAC,
+    critRange: attack.critRange,
+    advantageState: attack.advantageState,
+    bonusDice: attack.bonusDice,
+    rerolls: attack.rerolls
+  });
+};
+
 export const EnhancedDPRSimulator: React.FC = () => {
   // Store hooks
   const builds = useSimpleStore((state) => state.builds);
@@ -110,6 +141,18 @@ export const EnhancedDPRSimulator: React.FC = () => {
   const [isRunningMonteCarlo, setIsRunningMonteCarlo] = useState<boolean>(false);
   const [monteCarloProgress, setMonteCarloProgress] = useState<number>(0);
 
+  // Encounter simulation state
+  const [encounterPackId, setEncounterPackId] = useState<string>('early-game-humanoids');
+  const [encounterResults, setEncounterResults] = useState<Array<{ name: string; color: string; results: EncounterSimulationResults }>>([]);
+  const [isRunningEncounter, setIsRunningEncounter] = useState<boolean>(false);
+
+  // Legendary Resistance simulation state
+  const [controlResults, setControlResults] = useState<LegendaryResistanceComparison[]>([]);
+  const [isRunningControl, setIsRunningControl] = useState<boolean>(false);
+
+  // Pre-combat buffs the simulations assume, in casting order
+  const [precastEffects, setPrecastEffects] = useState<string[]>([]);
+
   // Resource management state
   const [showResourceManager, setShowResourceManager] = useState<boolean>(false);
   const [resourceManagers, setResourceManagers] = useState<Record<string, ResourceManager>>({});
@@ -132,8 +175,8 @@ export const EnhancedDPRSimulator: React.FC = () => {
     let critRange = 1;
     
     // Check for Champion Fighter expanded crit range
-    if (build.classLevels) {
-      const fighterLevel = build.classLevels.find((cl: any) => cl.class.toLowerCase() === 'fighter')?.level || 0;
+    if (build.levels) {
+      const fighterLevel = build.levels.find((cl: any) => cl.class.toLowerCase() === 'fighter')?.level || 0;
       if (build.featureSelections) {
         const hasChampion = Object.values(build.featureSelections).some((selection: any) => 
           selection.selections && selection.selections.includes('champion')
@@ -202,46 +245,12 @@ export const EnhancedDPRSimulator: React.FC = () => {
       let combinedAdvantageDPR = weaponAdvantageDPR;
       let combinedDisadvantageDPR = weaponDisadvantageDPR;
       
-      if (build && build.classLevels) {
-        const characterLevel = build.level || 1;
-        const availableSpells = getAvailableSpells(build, characterLevel);
+      if (build && build.levels) {
+        // Each spell is upcast with whichever of the build's slots deals the most damage
+        const bestSpells = calculateBuildSpellDamage(build, target).slice(0, 3);
         
-        if (availableSpells.length > 0) {
-          const spellSaveDC = calculateSpellSaveDC(build, characterLevel);
-          const spellAttackBonus = calculateSpellAttackBonus(build, characterLevel);
-          
-          let bestSpellDPR = 0;
-          const bestSpells: Array<{name: string; damage: number; type: 'attack' | 'save'}> = [];
-          
-          // Calculate damage for available spells
-          availableSpells.forEach(spellName => {
-            const spell = SPELL_DATABASE[spellName.toLowerCase()];
-            if (spell) {
-              const spellSlotLevel = Math.max(spell.level, 1);
-              const spellResult = calculateSpellDamage(
-                spell, 
-                characterLevel, 
-                spellSlotLevel, 
-                target, 
-                spellAttackBonus, 
-                spellSaveDC
-              );
-              
-              if (spellResult.averageDamage > bestSpellDPR) {
-                bestSpellDPR = spellResult.averageDamage;
-              }
-              
-              bestSpells.push({
-                name: spell.name,
-                damage: spellResult.averageDamage,
-                type: spell.damageType || 'attack'
-              });
-            }
-          });
-          
-          // Sort spells by damage
-          bestSpells.sort((a, b) => b.damage - a.damage);
-          bestSpells.splice(3); // Keep only top 3
+        if (bestSpells.length > 0) {
+          const bestSpellDPR = bestSpells[0].averageDamage;
           
           spellDamageData = {
             weaponDPR: weaponNormalDPR,
@@ -452,35 +461,7 @@ export const EnhancedDPRSimulator: React.FC = () => {
 
     try {
       // Convert simple build to full Build interface for Monte Carlo
-      const fullBuild: any = {
-        id: build.id,
-        name: build.name,
-        levels: build.classLevels || [{ class: 'Fighter', subclass: '', level: build.level || 1, hitDie: 10 }],
-        abilities: build.abilityScores || {
-          strength: 15,
-          dexterity: 14,
-          constitution: 13,
-          intelligence: 12,
-          wisdom: 10,
-          charisma: 8
-        },
-        proficiencyBonus: Math.ceil((build.level || 1) / 4) + 1,
-        equipment: build.equipment || { mainHand: null, offHand: null, armor: null },
-        features: [],
-        spells: [],
-        conditions: [],
-        policies: {
-          smitePolicy: 'optimal' as const,
-          oncePerTurnPriority: 'optimal' as const,
-          precast: [],
-          buffAssumptions: 'moderate' as const,
-          powerAttackThresholdEV: 0.5
-        },
-        spellSlots: {},
-        version: '1.0.0',
-        createdAt: new Date().toISOString(),
-        lastModified: new Date().toISOString()
-      };
+      const fullBuild = toSimulationBuild(build, precastEffects);
 
       // Convert target interface
       const combatTarget: any = {
@@ -559,6 +540,123 @@ export const EnhancedDPRSimulator: React.FC = () => {
     }
   }, [selectedBuilds, target, builds]);
 
+  // Selected builds with chart colors for the distribution and kill panels
+  const comparisonBuilds = useMemo(() => selectedBuilds
+    .map((buildId, index) => {
+      const build = buildId ? builds.find(b => b.id === buildId) : undefined;
+      if (!build) return null;
+      
+      const colors = ['#3b82f6', '#10b981', '#f59e0b']; // blue, green, amber
+      return { build, name: build.name, color: colors[index % colors.length] };
+    })
+    .filter(Boolean) as Array<{ build: Build; name: string; color: string }>, [selectedBuilds, builds]);
+
+  // Each build's effect stack with the precast buffs, for the effects panel
+  const effectStacks = useMemo(() => comparisonBuilds.map(({ build, name, color }) => {
+    const simulationBuild = toSimulationBuild(build, precastEffects);
+    const stack = resolveEffectStack(collectEffectSources(simulationBuild));
+    return { name, color, stack, hitChanges: getBuildHitChanges(simulationBuild, stack.active, target.ac) };
+  }), [comparisonBuilds, precastEffects, target.ac]);
+
+  // Run a multi-target encounter simulation for every selected build
+  const runEncounterSimulation = async () => {
+    const pack = ENCOUNTER_PACKS[encounterPackId];
+    
+    if (!pack || comparisonBuilds.length === 0) {
+      addNotification({
+        type: 'error',
+        message: 'Please select a build and an encounter pack to run the encounter simulation',
+      });
+      return;
+    }
+
+    setIsRunningEncounter(true);
+
+    try {
+      const results = [];
+      for (const { build, name, color } of comparisonBuilds) {
+        const engine = new MonteCarloEngine(12345); // Fixed seed for consistency
+        const encounter = await engine.simulateEncounter(toSimulationBuild(build, precastEffects), pack.enemies, pack.scenarios[0], 1000);
+        results.push({ name, color, results: encounter });
+      }
+
+      setEncounterResults(results);
+      
+      addNotification({
+        type: 'success',
+        message: `Encounter simulation completed against ${pack.name}`,
+      });
+
+    } catch (error) {
+      console.error('Encounter simulation error:', error);
+      addNotification({
+        type: 'error',
+        message: 'Encounter simulation failed. Please try again.',
+      });
+    } finally {
+      setIsRunningEncounter(false);
+    }
+  };
+
+  // Run control spells against the target as a boss, casting directly and baiting resistances first
+  const runControlSimulation = async () => {
+    if (comparisonBuilds.length === 0) {
+      addNotification({
+        type: 'error',
+        message: 'Please select a build to run the control simulation',
+      });
+      return;
+    }
+
+    setIsRunningControl(true);
+
+    try {
+      const boss: ControlTarget = {
+        name: 'Boss',
+        armorClass: target.ac,
+        hitPoints: 200,
+        resistances: target.resistances,
+        immunities: target.immunities,
+        vulnerabilities: target.vulnerabilities,
+        legendaryResistances: target.legendaryResistances,
+        saves: target.saves,
+        magicResistance: target.magicResistance
+      };
+
+      const results: LegendaryResistanceComparison[] = [];
+      for (const { build, name, color } of comparisonBuilds) {
+        const simulationBuild = toSimulationBuild(build, precastEffects);
+        const spells = getBuildControlSpells(simulationBuild).map(spell => spell.name);
+        const spellSaveDC = calculateSpellSaveDC(build, getCharacterLevel(build));
+
+        const runPolicy = (policy: 'direct' | 'bait') => new MonteCarloEngine(12345).simulateLegendaryResistance(
+          { ...simulationBuild, policies: { ...simulationBuild.policies, legendaryResistancePolicy: policy } },
+          boss,
+          spellSaveDC,
+          1000
+        );
+
+        results.push({
+          name,
+          color,
+          spells,
+          direct: spells.length > 0 ? await runPolicy('direct') : null,
+          bait: spells.length > 0 ? await runPolicy('bait') : null
+        });
+      }
+
+      setControlResults(results);
+    } catch (error) {
+      console.error('Control simulation error:', error);
+      addNotification({
+        type: 'error',
+        message: 'Control simulation failed. Please try again.',
+      });
+    } finally {
+      setIsRunningControl(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       {/* Header */}
@@ -770,7 +868,7 @@ export const EnhancedDPRSimulator: React.FC = () => {
                   <option value="">No build selected</option>
                   {builds.map((build) => (
                     <option key={build.id} value={build.id}>
-                      {build.name} (Lv.{build.level})
+                      {build.name} (Lv.{getCharacterLevel(build)})
                     </option>
                   ))}
                 </select>
@@ -911,7 +1009,7 @@ export const EnhancedDPRSimulator: React.FC = () => {
                   <option value="">No build selected</option>
                   {builds.map((build) => (
                     <option key={build.id} value={build.id}>
-                      {build.name} (Lv.{build.level})
+                      {build.name} (Lv.{getCharacterLevel(build)})
                     </option>
                   ))}
                 </select>
@@ -1035,7 +1133,7 @@ export const EnhancedDPRSimulator: React.FC = () => {
                   <option value="">No build selected</option>
                   {builds.map((build) => (
                     <option key={build.id} value={build.id}>
-                      {build.name} (Lv.{build.level})
+                      {build.name} (Lv.{getCharacterLevel(build)})
                     </option>
                   ))}
                 </select>
@@ -1219,6 +1317,58 @@ export const EnhancedDPRSimulator: React.FC = () => {
           </div>
         )}
 
+        {/* Rounds-to-Kill Analysis */}
+        {comparisonBuilds.length > 0 && (
+          <KillAnalysisPanel builds={comparisonBuilds} targetAC={target.ac} className="mt-8" />
+        )}
+
+        {/* Buffs and effect stacking */}
+        {comparisonBuilds.length > 0 && (
+          <ActiveEffectsPanel
+            precast={precastEffects}
+            onPrecastChange={setPrecastEffects}
+            builds={effectStacks}
+            targetAC={target.ac}
+            className="mt-8"
+          />
+        )}
+
+        {/* Multi-target Encounter Simulation */}
+        {comparisonBuilds.length > 0 && (
+          <EncounterSimulationPanel
+            packId={encounterPackId}
+            onPackChange={(packId) => {
+              setEncounterPackId(packId);
+              setEncounterResults([]);
+            }}
+            onRun={runEncounterSimulation}
+            isRunning={isRunningEncounter}
+            results={encounterResults}
+            className="mt-8"
+          />
+        )}
+
+        {/* Area Spell Damage */}
+        {comparisonBuilds.length > 0 && (
+          <AreaSpellPanel builds={comparisonBuilds} className="mt-8" />
+        )}
+
+        {/* Spell Damage by Slot Level */}
+        {comparisonBuilds.length > 0 && (
+          <SpellSlotPanel builds={comparisonBuilds} target={target} className="mt-8" />
+        )}
+
+        {/* Control Spells vs Legendary Resistance */}
+        {comparisonBuilds.length > 0 && (
+          <LegendaryResistancePanel
+            legendaryResistances={target.legendaryResistances}
+            onRun={runControlSimulation}
+            isRunning={isRunningControl}
+            results={controlResults}
+            className="mt-8"
+          />
+        )}
+
         {/* Helper Text */}
         {builds.length === 0 && (
           <div className="mt-8 text-center py-12 bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700">
@@ -1480,7 +1630,7 @@ export const EnhancedDPRSimulator: React.FC = () => {
                         color: colors[index % colors.length]
                       };
                     })
-                    .filter(Boolean) as Array<{ build: SimpleBuild; name: string; color: string }>
+                    .filter(Boolean) as Array<{ build: Build; name: string; color: string }>
                   }
                   acRange={acRange}
                   showAdvantage={showAdvantageInChart}
@@ -1493,6 +1643,12 @@ export const EnhancedDPRSimulator: React.FC = () => {
               )}
             </div>
 
+            {/* Round Damage Distribution */}
+            <DamageDistributionPanel builds={comparisonBuilds} targetAC={target.ac} />
+
+            {/* Marginal DPR of each upgrade */}
+            <SensitivityPanel builds={comparisonBuilds} acRange={acRange} />
+
             {/* Level Progression Analysis */}
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6">
               <div className="flex items-center justify-between mb-4">
@@ -3,13 +3,24 @@
  * Integration with simplified store for persistent character builds
  */
 
-import React, { useState, useEffect } from 'react';
-import { useSimpleStore, type SimpleBuild } from '../store/simpleStore';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useSimpleStore } from '../store/simpleStore';
 import { BasicAbilityScoreForm, type AbilityScores } from '../components/forms/BasicAbilityScoreForm';
 import { ClassLevelForm } from '../components/forms/ClassLevelForm';
 import { EquipmentForm } from '../components/forms/EquipmentForm';
+import { SpellSelectionForm } from '../components/forms/SpellSelectionForm';
 import { ClassFeatureDisplay, type FeatureSelection } from '../components/forms/ClassFeatureDisplay';
-import type { Equipment, ClassLevel } from '../types/build';
+import { HomebrewEditor } from '../components/homebrew/HomebrewEditor';
+import type { Effect } from '../types/effects';
+import type { Abilities, AbilityScoreMethod, Build, Equipment, ClassLevel } from '../types/build';
+import { buildFromSheet, getCharacterLevel, type BuildSheet } from '../utils/buildConversion';
+import { describeEffectRule } from '../utils/homebrewEffects';
+import { effectLibrary } from '../data/effects';
+import { getRaceEffects, getRaceOptions, getRacialAbilityBonuses, meetsRacePrerequisites } from '../engine/races';
+import { getItemACBonus } from '../engine/items';
+import { getAbilityScoreLedger, getFinalAbilityScores, validateAbilityScores } from '../engine/abilityScores';
+import { validateSpellSelections } from '../engine/spellcasting';
+import { DPRAnalysisEngine } from '../utils/dprAnalysis';
 import { 
   calculateClassResources, 
   optimizeSpellSlotUsage, 
@@ -19,31 +30,6 @@ import {
   type ClassResources
 } from '../utils/multiclassSpellcasting';
 
-// Import feats for half-feat ability score handling
-const COMMON_FEATS = [
-  { id: 'athlete', name: 'Athlete', abilityOptions: ['strength', 'dexterity'], isHalfFeat: true },
-  { id: 'durable', name: 'Durable', fixedAbility: 'constitution', isHalfFeat: true },
-  { id: 'elven-accuracy', name: 'Elven Accuracy', abilityOptions: ['dexterity', 'intelligence', 'wisdom', 'charisma'], isHalfFeat: true },
-  { id: 'fey-touched', name: 'Fey Touched', abilityOptions: ['intelligence', 'wisdom', 'charisma'], isHalfFeat: true },
-  { id: 'great-weapon-master', name: 'Great Weapon Master', isHalfFeat: false },
-  { id: 'heavy-armor-master', name: 'Heavy Armor Master', fixedAbility: 'strength', isHalfFeat: true },
-  { id: 'inspiring-leader', name: 'Inspiring Leader', fixedAbility: 'charisma', isHalfFeat: true },
-  { id: 'keen-mind', name: 'Keen Mind', fixedAbility: 'intelligence', isHalfFeat: true },
-  { id: 'moderately-armored', name: 'Moderately Armored', abilityOptions: ['strength', 'dexterity'], isHalfFeat: true },
-  { id: 'observant', name: 'Observant', abilityOptions: ['intelligence', 'wisdom'], isHalfFeat: true },
-  { id: 'piercer', name: 'Piercer', abilityOptions: ['strength', 'dexterity'], isHalfFeat: true },
-  { id: 'resilient', name: 'Resilient', abilityOptions: ['strength', 'dexterity', 'constitution', 'intelligence', 'wisdom', 'charisma'], isHalfFeat: true },
-  { id: 'shadow-touched', name: 'Shadow Touched', abilityOptions: ['intelligence', 'wisdom', 'charisma'], isHalfFeat: true },
-  { id: 'sharpshooter', name: 'Sharpshooter', isHalfFeat: false },
-  { id: 'skill-expert', name: 'Skill Expert', abilityOptions: ['strength', 'dexterity', 'constitution', 'intelligence', 'wisdom', 'charisma'], isHalfFeat: true },
-  { id: 'slasher', name: 'Slasher', abilityOptions: ['strength', 'dexterity'], isHalfFeat: true },
-  { id: 'telekinetic', name: 'Telekinetic', abilityOptions: ['intelligence', 'wisdom', 'charisma'], isHalfFeat: true },
-  { id: 'telepathic', name: 'Telepathic', abilityOptions: ['intelligence', 'wisdom', 'charisma'], isHalfFeat: true },
-  { id: 'weapon-master', name: 'Weapon Master', abilityOptions: ['strength', 'dexterity'], isHalfFeat: true },
-  { id: 'savage-attacker', name: 'Savage Attacker', isHalfFeat: false },
-  // Add other feats as needed
-] as const;
-
 // Extended build interface for Build Lab
 interface DetailedBuild {
   id: string;
@@ -65,18 +51,20 @@ export const SimpleBuildLab: React.FC = () => {
   // Store integration
   const builds = useSimpleStore((state) => state.builds);
   const selectedBuild = useSimpleStore((state) => state.getSelectedBuild());
-  const { addBuild, updateBuild, deleteBuild, selectBuild, addNotification } = useSimpleStore();
+  const homebrewEffects = useSimpleStore((state) => state.homebrewEffects);
+  const { addBuild, updateBuild, deleteBuild, selectBuild, addNotification, saveHomebrewEffect, deleteHomebrewEffect } = useSimpleStore();
 
   // Build creation/editing state
   const [isCreating, setIsCreating] = useState<boolean>(false);
-  const [editingBuild, setEditingBuild] = useState<SimpleBuild | null>(null);
-  const [activeTab, setActiveTab] = useState<'basics' | 'abilities' | 'classes' | 'equipment'>('basics');
+  const [editingBuild, setEditingBuild] = useState<Build | null>(null);
+  const [activeTab, setActiveTab] = useState<'basics' | 'abilities' | 'classes' | 'spells' | 'equipment' | 'homebrew'>('basics');
   
   // Form state
   const [buildName, setBuildName] = useState<string>('');
   const [buildRace, setBuildRace] = useState<string>('Human');
   const [buildBackground, setBuildBackground] = useState<string>('Soldier');
-  const [abilityScores, setAbilityScores] = useState<AbilityScores>({
+  // Scores as entered; racial bonuses are added on top
+  const [baseAbilityScores, setBaseAbilityScores] = useState<AbilityScores>({
     strength: 15,
     dexterity: 14,
     constitution: 13,
@@ -84,7 +72,7 @@ export const SimpleBuildLab: React.FC = () => {
     wisdom: 10,
     charisma: 8,
   });
-  const [abilityScoreMethod, setAbilityScoreMethod] = useState<'pointBuy' | 'standardArray' | 'manual'>('pointBuy');
+  const [abilityScoreMethod, setAbilityScoreMethod] = useState<AbilityScoreMethod>('pointBuy');
   const [classLevels, setClassLevels] = useState<ClassLevel[]>([{
     class: 'fighter',
     level: 1,
@@ -98,9 +86,29 @@ export const SimpleBuildLab: React.FC = () => {
     accessories: []
   });
   const [featureSelections, setFeatureSelections] = useState<{ [featureId: string]: FeatureSelection }>({});
+  // Racial bonuses moved with Tasha's custom origin rules; undefined keeps the race's own
+  const [racialAbilityBonuses, setRacialAbilityBonuses] = useState<Partial<Abilities> | undefined>(undefined);
+  const [spellSelections, setSpellSelections] = useState<NonNullable<Build['spellSelections']>>({});
+  const [selectedHomebrew, setSelectedHomebrew] = useState<string[]>([]);
+  
+  // Homebrew editor: null when closed, 'new' for a new effect, otherwise the effect being edited
+  const [homebrewEditorEffect, setHomebrewEditorEffect] = useState<Effect | 'new' | null>(null);
+
+  // Final scores come from the ledger: base scores, racial bonuses, ASIs and half-feats, then magic items
+  const abilitySheet = useMemo(() => ({
+    abilities: baseAbilityScores,
+    baseAbilities: baseAbilityScores,
+    race: buildRace,
+    racialAbilityBonuses,
+    levels: classLevels,
+    featureSelections,
+    equipment
+  }), [baseAbilityScores, buildRace, racialAbilityBonuses, classLevels, featureSelections, equipment]);
+  const abilityLedger = useMemo(() => getAbilityScoreLedger(abilitySheet), [abilitySheet]);
+  const abilityScores = useMemo(() => getFinalAbilityScores(abilitySheet), [abilitySheet]);
 
-  // Common D&D races and backgrounds
-  const races = ['Human', 'Elf', 'Dwarf', 'Halfling', 'Dragonborn', 'Gnome', 'Half-Elf', 'Half-Orc', 'Tiefling'];
+  // Races with their subraces from the effect library, and common backgrounds
+  const raceOptions = getRaceOptions();
   const backgrounds = ['Acolyte', 'Criminal', 'Folk Hero', 'Noble', 'Sage', 'Soldier', 'Charlatan', 'Entertainer', 'Guild Artisan', 'Hermit', 'Outlander', 'Sailor'];
 
   // Calculate derived stats
@@ -150,7 +158,6 @@ export const SimpleBuildLab: React.FC = () => {
     const totalLevel = getTotalLevel();
     const proficiencyBonus = Math.ceil(totalLevel / 4) + 1;
     const selectedFeats = getSelectedFeats();
-    const halfFeatBonuses = getHalfFeatAbilityBonuses();
     let primaryAbilityMod = 0;
     let equipmentBonus = 0;
     let fightingStyleBonus = 0;
@@ -215,6 +222,7 @@ export const SimpleBuildLab: React.FC = () => {
     if (weapon?.toHitBonus) {
       equipmentBonus += weapon.toHitBonus;
     }
+    equipmentBonus += getItemAttackTraits().toHitBonus;
     
     // Feat penalties (power attack features)
     // Note: This shows the penalty in the attack bonus, but in actual combat
@@ -249,25 +257,11 @@ export const SimpleBuildLab: React.FC = () => {
     return feats;
   };
   
-  // Get ability score bonuses from half-feats
-  const getHalfFeatAbilityBonuses = () => {
-    const bonuses = {
-      strength: 0,
-      dexterity: 0,
-      constitution: 0,
-      intelligence: 0,
-      wisdom: 0,
-      charisma: 0
-    };
-    
-    const selectedFeats = getSelectedFeats();
-    selectedFeats.forEach(feat => {
-      if (feat.abilityChoice && feat.abilityChoice in bonuses) {
-        (bonuses as any)[feat.abilityChoice] += 1;
-      }
-    });
-    
-    return bonuses;
+  // Chosen feats the race doesn't qualify for, e.g. Elven Accuracy on a dwarf; the simulators leave them out
+  const getUnmetFeatPrerequisites = (): Effect[] => {
+    return getSelectedFeats()
+      .map(({ feat }) => effectLibrary.feats[feat])
+      .filter((feat): feat is Effect => feat !== undefined && !meetsRacePrerequisites(feat, buildRace));
   };
   
   // Get critical hit range (20 by default, expanded for Champion, etc.)
@@ -290,9 +284,10 @@ export const SimpleBuildLab: React.FC = () => {
     const baseCritChance = critRange / 20;
     
     const selectedFeats = getSelectedFeats().map(f => f.feat);
+    const unmetFeats = getUnmetFeatPrerequisites().map(feat => feat.id);
     
     if (advantageState === 'advantage') {
-      if (selectedFeats.includes('elven-accuracy')) {
+      if (selectedFeats.includes('elven-accuracy') && !unmetFeats.includes('elven-accuracy')) {
         // Elven Accuracy: Triple advantage for crit fishing
         return 1 - Math.pow(1 - baseCritChance, 3);
       } else {
@@ -312,7 +307,6 @@ export const SimpleBuildLab: React.FC = () => {
     const selectedFeats = getSelectedFeats().map(f => f.feat);
     const weapon = equipment.mainHand;
     const offHand = equipment.offHand;
-    const halfFeatBonuses = getHalfFeatAbilityBonuses();
     
     // Two-Weapon Fighting
     if (weapon && offHand && !weapon.properties.includes('heavy') && !offHand.properties.includes('heavy')) {
@@ -322,8 +316,8 @@ export const SimpleBuildLab: React.FC = () => {
       // Two-Weapon Fighting style adds ability modifier
       if (fightingStyles.includes('two-weapon-fighting')) {
         const abilityMod = weapon.type === 'ranged' 
-          ? getAbilityModifier(abilityScores.dexterity + halfFeatBonuses.dexterity)
-          : getAbilityModifier(abilityScores.strength + halfFeatBonuses.strength);
+          ? getAbilityModifier(abilityScores.dexterity)
+          : getAbilityModifier(abilityScores.strength);
         offHandDamage += `+${abilityMod}`;
       }
       
@@ -338,7 +332,7 @@ export const SimpleBuildLab: React.FC = () => {
     if (selectedFeats.includes('polearm-master') && weapon && 
         ['glaive', 'halberd', 'pike', 'quarterstaff', 'spear'].some(w => weapon.name.toLowerCase().includes(w))) {
       bonusAttacks.push({
-        damage: '1d4+' + getAbilityModifier(abilityScores.strength + halfFeatBonuses.strength),
+        damage: '1d4+' + getAbilityModifier(abilityScores.strength),
         attacks: 1,
         description: 'Polearm Master'
       });
@@ -347,7 +341,7 @@ export const SimpleBuildLab: React.FC = () => {
     // Crossbow Expert bonus attack
     if (selectedFeats.includes('crossbow-expert') && weapon && weapon.name.toLowerCase().includes('crossbow')) {
       bonusAttacks.push({
-        damage: '1d6+' + getAbilityModifier(abilityScores.dexterity + halfFeatBonuses.dexterity),
+        damage: '1d6+' + getAbilityModifier(abilityScores.dexterity),
         attacks: 1,
         description: 'Crossbow Expert'
       });
@@ -356,24 +350,28 @@ export const SimpleBuildLab: React.FC = () => {
     return bonusAttacks;
   };
 
+  // To-hit, damage and extra dice from attuned magic items such as a Flame Tongue
+  const getItemAttackTraits = () => {
+    return DPRAnalysisEngine.getItemAttackTraits(buildFromSheet({
+      name: buildName,
+      abilities: abilityScores,
+      levels: classLevels,
+      equipment
+    }, 'current'));
+  };
+
   // Calculate all resources for the current build
   const calculateResources = (): ClassResources => {
     const totalLevel = getTotalLevel();
-    const mockBuild: SimpleBuild = {
-      id: 'current',
+    const mockBuild = buildFromSheet({
       name: buildName,
-      level: totalLevel,
-      attackBonus: 0,
-      damage: '',
-      createdAt: new Date().toISOString(),
       race: buildRace,
       background: buildBackground,
-      abilityScores,
-      classLevels,
+      abilities: abilityScores,
+      levels: classLevels,
       equipment,
-      featureSelections,
-      notes: ''
-    };
+      featureSelections
+    }, 'current');
     
     return calculateClassResources(mockBuild, totalLevel);
   };
@@ -425,7 +423,6 @@ export const SimpleBuildLab: React.FC = () => {
     const primaryClass = classLevels[0]?.class.toLowerCase() || 'fighter';
     const totalLevel = getTotalLevel();
     const selectedFeats = getSelectedFeats();
-    const halfFeatBonuses = getHalfFeatAbilityBonuses();
     
     let damageDice = '1d8'; // Default if no weapon
     let abilityMod = 0;
@@ -494,6 +491,9 @@ export const SimpleBuildLab: React.FC = () => {
     if (weapon?.damageBonus) {
       equipmentBonus += weapon.damageBonus;
     }
+    const itemTraits = getItemAttackTraits();
+    equipmentBonus += itemTraits.damageBonus;
+    itemTraits.hitDice.forEach(dice => extraDamage.push(`Item+${dice}`));
     
     // Class feature bonuses
     // Barbarian Rage damage
@@ -675,6 +675,9 @@ export const SimpleBuildLab: React.FC = () => {
       fightingStyleBonus += 1; // Defense fighting style gives +1 AC while wearing armor
     }
     
+    // Ring and Cloak of Protection
+    magicBonus += getItemACBonus(equipment);
+    
     // TODO: Add shield bonus when shield state is properly tracked
     // This would require passing shield state from EquipmentForm
     
@@ -691,28 +694,30 @@ export const SimpleBuildLab: React.FC = () => {
       return;
     }
 
-    const totalLevel = getTotalLevel();
     const classNames = classLevels.map(cl => `${cl.class} ${cl.level}`).join('/');
     
-    const newBuild = {
+    const newBuild: BuildSheet = {
       name: buildName.trim(),
-      level: totalLevel,
       attackBonus: calculateAttackBonus(),
       damage: calculateDamage(),
       notes: `${buildRace} ${classNames} (${buildBackground})`,
       // Store detailed character data for editing
       race: buildRace,
       background: buildBackground,
-      abilityScores: { ...abilityScores },
+      abilities: { ...abilityScores },
+      baseAbilities: { ...baseAbilityScores },
+      racialAbilityBonuses,
       abilityScoreMethod,
-      classLevels: [...classLevels],
+      levels: [...classLevels],
       equipment: {
         mainHand: equipment.mainHand,
         offHand: equipment.offHand,
         armor: equipment.armor,
         accessories: equipment.accessories || []
       },
-      featureSelections: { ...featureSelections }
+      featureSelections: { ...featureSelections },
+      spellSelections: { ...spellSelections },
+      homebrewEffects: [...selectedHomebrew]
     };
 
     addBuild(newBuild);
@@ -727,7 +732,7 @@ export const SimpleBuildLab: React.FC = () => {
   };
 
   // Start editing an existing build
-  const handleEditBuild = (build: SimpleBuild) => {
+  const handleEditBuild = (build: Build) => {
     setEditingBuild(build);
     setBuildName(build.name);
     
@@ -756,19 +761,9 @@ export const SimpleBuildLab: React.FC = () => {
       }
     }
     
-    // Load ability scores or use defaults
-    if (build.abilityScores) {
-      setAbilityScores({ ...build.abilityScores });
-    } else {
-      setAbilityScores({
-        strength: 15,
-        dexterity: 14,
-        constitution: 13,
-        intelligence: 12,
-        wisdom: 10,
-        charisma: 8,
-      });
-    }
+    // Builds saved before racial bonuses were applied only have their final scores
+    setBaseAbilityScores({ ...(build.baseAbilities || build.abilities) });
+    setRacialAbilityBonuses(build.racialAbilityBonuses);
     
     // Load ability score method or use default
     if (build.abilityScoreMethod) {
@@ -777,18 +772,7 @@ export const SimpleBuildLab: React.FC = () => {
       setAbilityScoreMethod('manual'); // Default to manual for legacy builds since they had manual entry
     }
     
-    // Load class levels or create from build level
-    if (build.classLevels && build.classLevels.length > 0) {
-      setClassLevels([...build.classLevels]);
-    } else {
-      // Fall back to single class at build level
-      setClassLevels([{
-        class: 'fighter',
-        level: build.level,
-        hitDie: 10,
-        subclass: '',
-      }]);
-    }
+    setClassLevels([...build.levels]);
     
     // Load equipment or use defaults
     if (build.equipment) {
@@ -814,6 +798,9 @@ export const SimpleBuildLab: React.FC = () => {
       setFeatureSelections({});
     }
     
+    setSpellSelections({ ...(build.spellSelections || {}) });
+    setSelectedHomebrew([...(build.homebrewEffects || [])]);
+    
     setIsCreating(true);
     setActiveTab('basics');
   };
@@ -828,28 +815,30 @@ export const SimpleBuildLab: React.FC = () => {
       return;
     }
 
-    const totalLevel = getTotalLevel();
     const classNames = classLevels.map(cl => `${cl.class} ${cl.level}`).join('/');
     
-    const updatedData = {
+    const updatedData: BuildSheet = {
       name: buildName.trim(),
-      level: totalLevel,
       attackBonus: calculateAttackBonus(),
       damage: calculateDamage(),
       notes: `${buildRace} ${classNames} (${buildBackground})`,
       // Store detailed character data for future editing
       race: buildRace,
       background: buildBackground,
-      abilityScores: { ...abilityScores },
+      abilities: { ...abilityScores },
+      baseAbilities: { ...baseAbilityScores },
+      racialAbilityBonuses,
       abilityScoreMethod,
-      classLevels: [...classLevels],
+      levels: [...classLevels],
       equipment: {
         mainHand: equipment.mainHand,
         offHand: equipment.offHand,
         armor: equipment.armor,
         accessories: equipment.accessories || []
       },
-      featureSelections: { ...featureSelections }
+      featureSelections: { ...featureSelections },
+      spellSelections: { ...spellSelections },
+      homebrewEffects: [...selectedHomebrew]
     };
 
     updateBuild(editingBuild.id, updatedData);
@@ -870,7 +859,7 @@ export const SimpleBuildLab: React.FC = () => {
     setBuildName('');
     setBuildRace('Human');
     setBuildBackground('Soldier');
-    setAbilityScores({
+    setBaseAbilityScores({
       strength: 15,
       dexterity: 14,
       constitution: 13,
@@ -878,6 +867,7 @@ export const SimpleBuildLab: React.FC = () => {
       wisdom: 10,
       charisma: 8,
     });
+    setRacialAbilityBonuses(undefined);
     setAbilityScoreMethod('pointBuy');
     setClassLevels([{
       class: 'fighter',
@@ -892,10 +882,24 @@ export const SimpleBuildLab: React.FC = () => {
       accessories: []
     });
     setFeatureSelections({});
+    setSpellSelections({});
+    setSelectedHomebrew([]);
+  };
+
+  const toggleHomebrew = (id: string) => {
+    setSelectedHomebrew(prev => (prev.includes(id) ? prev.filter(effectId => effectId !== id) : [...prev, id]));
+  };
+
+  // Delete a homebrew effect from the store and every build using it
+  const handleDeleteHomebrew = (effect: Effect) => {
+    if (window.confirm(`Delete homebrew effect "${effect.name}"? Builds using it will no longer apply it.`)) {
+      deleteHomebrewEffect(effect.id);
+      setSelectedHomebrew(prev => prev.filter(id => id !== effect.id));
+    }
   };
 
   // Delete build with confirmation
-  const handleDeleteBuild = (build: SimpleBuild) => {
+  const handleDeleteBuild = (build: Build) => {
     if (window.confirm(`Are you sure you want to delete "${build.name}"? This action cannot be undone.`)) {
       deleteBuild(build.id);
     }
@@ -947,7 +951,9 @@ export const SimpleBuildLab: React.FC = () => {
               { key: 'basics' as const, label: 'Basics' },
               { key: 'abilities' as const, label: 'Ability Scores' },
               { key: 'classes' as const, label: 'Classes & Features' },
+              { key: 'spells' as const, label: 'Spells' },
               { key: 'equipment' as const, label: 'Equipment' },
+              { key: 'homebrew' as const, label: `Homebrew${selectedHomebrew.length ? ` (${selectedHomebrew.length})` : ''}` },
             ].map(({ key, label }) => (
               <button
                 key={key}
@@ -990,10 +996,22 @@ export const SimpleBuildLab: React.FC = () => {
                     onChange={(e) => setBuildRace(e.target.value)}
                     className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
                   >
-                    {races.map((race) => (
-                      <option key={race} value={race}>{race}</option>
+                    {raceOptions.map(({ race, subraces }) => subraces.length === 0 ? (
+                      <option key={race.id} value={race.name}>{race.name}</option>
+                    ) : (
+                      <optgroup key={race.id} label={race.name}>
+                        <option value={race.name}>{race.name} (no subrace)</option>
+                        {subraces.map((subrace) => (
+                          <option key={subrace.id} value={subrace.name}>{subrace.name}</option>
+                        ))}
+                      </optgroup>
                     ))}
                   </select>
+                  {getRaceEffects(buildRace).map((effect) => (
+                    <p key={effect.id} className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+                      <span className="font-medium text-gray-700 dark:text-gray-300">{effect.name}:</span> {effect.description}
+                    </p>
+                  ))}
                 </div>
 
 
@@ -1022,6 +1040,21 @@ export const SimpleBuildLab: React.FC = () => {
                 <p className="text-xs text-blue-700 dark:text-blue-300 mt-1">
                   Attack Bonus: +{calculateAttackBonus()} • Damage: {calculateDamage()} • AC: {calculateArmorClass()}
                 </p>
+                {getUnmetFeatPrerequisites().map((feat) => (
+                  <p key={feat.id} className="text-xs text-red-600 dark:text-red-400 mt-1">
+                    {feat.name} requires {feat.prerequisites?.join(', ')}; simulations ignore it for a {buildRace}
+                  </p>
+                ))}
+                {validateAbilityScores(abilitySheet).map((issue) => (
+                  <p key={issue} className="text-xs text-red-600 dark:text-red-400 mt-1">
+                    {issue}
+                  </p>
+                ))}
+                {validateSpellSelections({ levels: classLevels, abilities: abilityScores, featureSelections, spellSelections }).map((issue) => (
+                  <p key={issue} className="text-xs text-red-600 dark:text-red-400 mt-1">
+                    {issue}
+                  </p>
+                ))}
                 {classLevels.length > 1 && (
                   <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
                     Classes: {classLevels.map(cl => `${cl.class} ${cl.level}`).join(', ')}
@@ -1071,8 +1104,13 @@ export const SimpleBuildLab: React.FC = () => {
 
           {activeTab === 'abilities' && (
             <BasicAbilityScoreForm
-              scores={abilityScores}
-              onChange={setAbilityScores}
+              scores={baseAbilityScores}
+              onChange={setBaseAbilityScores}
+              racialBonuses={getRacialAbilityBonuses(buildRace)}
+              floatingBonuses={racialAbilityBonuses}
+              onFloatingBonusesChange={setRacialAbilityBonuses}
+              ledger={abilityLedger}
+              issues={validateAbilityScores(abilitySheet)}
               method={abilityScoreMethod}
               onMethodChange={setAbilityScoreMethod}
               className="mt-4"
@@ -1083,6 +1121,7 @@ export const SimpleBuildLab: React.FC = () => {
             <ClassLevelForm
               levels={classLevels}
               onChange={setClassLevels}
+              race={buildRace}
               featureSelections={featureSelections}
               onFeatureSelectionChange={(featureId, selection) => {
                 setFeatureSelections(prev => ({
@@ -1093,6 +1132,13 @@ export const SimpleBuildLab: React.FC = () => {
             />
           )}
 
+          {activeTab === 'spells' && (
+            <SpellSelectionForm
+              sheet={{ levels: classLevels, abilities: abilityScores, featureSelections }}
+              selections={spellSelections}
+              onChange={setSpellSelections}
+            />
+          )}
 
           {activeTab === 'equipment' && (
             <EquipmentForm
@@ -1101,6 +1147,75 @@ export const SimpleBuildLab: React.FC = () => {
             />
           )}
 
+          {activeTab === 'homebrew' && (
+            <div className="space-y-4">
+              <div className="flex justify-between items-center">
+                <p className="text-sm text-gray-600 dark:text-gray-300">
+                  Checked effects are applied to this character in every simulation
+                </p>
+                <button
+                  onClick={() => setHomebrewEditorEffect('new')}
+                  className="px-3 py-1.5 text-sm font-medium bg-green-600 text-white rounded-md hover:bg-green-700"
+                >
+                  New Homebrew Effect
+                </button>
+              </div>
+
+              {homebrewEffects.length === 0 ? (
+                <div className="text-center py-6 text-sm text-gray-500 dark:text-gray-400">
+                  No homebrew effects yet
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {homebrewEffects.map((effect) => (
+                    <div
+                      key={effect.id}
+                      className={`p-3 rounded-lg border ${
+                        selectedHomebrew.includes(effect.id)
+                          ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                          : 'border-gray-200 dark:border-gray-600'
+                      }`}
+                    >
+                      <div className="flex justify-between items-start">
+                        <label className="flex items-start space-x-2 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={selectedHomebrew.includes(effect.id)}
+                            onChange={() => toggleHomebrew(effect.id)}
+                            className="mt-1"
+                          />
+                          <div>
+                            <div className="font-medium text-gray-900 dark:text-white">{effect.name}</div>
+                            {effect.description && (
+                              <div className="text-sm text-gray-600 dark:text-gray-300">{effect.description}</div>
+                            )}
+                            {(effect.rules || []).map((rule, index) => (
+                              <div key={index} className="text-xs text-gray-500 dark:text-gray-400">{describeEffectRule(rule)}</div>
+                            ))}
+                          </div>
+                        </label>
+                        <div className="flex space-x-2 ml-3">
+                          <button
+                            onClick={() => setHomebrewEditorEffect(effect)}
+                            className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleDeleteHomebrew(effect)}
+                            className="text-xs text-red-600 dark:text-red-400 hover:underline"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Form Actions */}
           <div className="flex justify-end space-x-3 mt-6 pt-6 border-t border-gray-200 dark:border-gray-600">
             <button
@@ -1140,7 +1255,7 @@ export const SimpleBuildLab: React.FC = () => {
                 >
                   <div className="flex justify-between items-start mb-2">
                     <h4 className="font-medium text-gray-900 dark:text-white truncate">{build.name}</h4>
-                    <span className="text-xs text-gray-500 dark:text-gray-400 ml-2">Lv.{build.level}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400 ml-2">Lv.{getCharacterLevel(build)}</span>
                   </div>
                   
                   {build.notes && (
@@ -1149,10 +1264,17 @@ export const SimpleBuildLab: React.FC = () => {
                   
                   <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
                     <div>Attack: +{build.attackBonus} • Damage: {build.damage}</div>
+                    {build.homebrewEffects && build.homebrewEffects.length > 0 && (
+                      <div>
+                        Homebrew: {build.homebrewEffects
+                          .map(id => homebrewEffects.find(effect => effect.id === id)?.name || id)
+                          .join(', ')}
+                      </div>
+                    )}
                     {(() => {
                       // Calculate resources for this build
-                      const resources = calculateClassResources(build, build.level);
-                      const spellSlots = getMulticlassSpellSlots(build.classLevels || []);
+                      const resources = calculateClassResources(build, getCharacterLevel(build));
+                      const spellSlots = getMulticlassSpellSlots(build.levels);
                       const resourceStrings: string[] = [];
                       
                       if (Object.keys(spellSlots).length > 0) {
@@ -1239,6 +1361,17 @@ export const SimpleBuildLab: React.FC = () => {
           </button>
         </div>
       )}
+
+      {homebrewEditorEffect && (
+        <HomebrewEditor
+          key={homebrewEditorEffect === 'new' ? 'new' : homebrewEditorEffect.id}
+          isOpen
+          onClose={() => setHomebrewEditorEffect(null)}
+          onSave={saveHomebrewEffect}
+          editingEffect={homebrewEditorEffect === 'new' ? null : homebrewEditorEffect}
+          existingIds={homebrewEffects.map(effect => effect.id)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
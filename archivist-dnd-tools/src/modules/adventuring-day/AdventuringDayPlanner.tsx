@@ -0,0 +1,326 @@
+/**
+ * Adventuring Day Planner
+ * Lay out a day of encounters and short rests and see how builds pace their resources through it
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useSimpleStore } from '../../store/simpleStore';
+import { AdventuringDaySimulator, type DayEncounterPlan } from '../../utils/adventuringDay';
+import { PolicyOptimizer, type SpendingPolicy } from '../../utils/policyOptimizer';
+import { getCharacterLevel } from '../../utils/buildConversion';
+import { ENCOUNTER_PACKS } from '../../data/encounters/encounterPacks';
+
+const DEFAULT_PACK_ID = 'early-game-humanoids';
+const MAX_COMPARED_BUILDS = 3;
+const BUILD_COLORS = ['#3b82f6', '#f97316', '#10b981'];
+
+// Six fights with a short rest after the second and fourth
+const DEFAULT_PLAN: DayEncounterPlan[] = AdventuringDaySimulator.createDayPlan(DEFAULT_PACK_ID, {
+  ...ENCOUNTER_PACKS[DEFAULT_PACK_ID].scenarios[0],
+  encounters: 6,
+  rounds: 3,
+  restType: 'short'
+});
+
+export const AdventuringDayPlanner: React.FC = () => {
+  const builds = useSimpleStore((state) => state.builds);
+  const { addNotification, updateBuild } = useSimpleStore();
+
+  const [plan, setPlan] = useState<DayEncounterPlan[]>(DEFAULT_PLAN);
+  const [selectedBuildIds, setSelectedBuildIds] = useState<string[]>([]);
+
+  const selectedBuilds = useMemo(() => {
+    return selectedBuildIds
+      .map(id => builds.find(build => build.id === id))
+      .filter((build): build is NonNullable<typeof build> => Boolean(build));
+  }, [selectedBuildIds, builds]);
+
+  const results = useMemo(() => {
+    return selectedBuilds.map(build => AdventuringDaySimulator.simulateDay(build, plan));
+  }, [selectedBuilds, plan]);
+
+  const optimizations = useMemo(() => {
+    return selectedBuilds.map(build => PolicyOptimizer.optimize(build, plan));
+  }, [selectedBuilds, plan]);
+
+  const toggleBuild = (buildId: string) => {
+    if (selectedBuildIds.includes(buildId)) {
+      setSelectedBuildIds(selectedBuildIds.filter(id => id !== buildId));
+      return;
+    }
+    if (selectedBuildIds.length >= MAX_COMPARED_BUILDS) {
+      addNotification({ type: 'warning', message: `Compare at most ${MAX_COMPARED_BUILDS} builds at once` });
+      return;
+    }
+    setSelectedBuildIds([...selectedBuildIds, buildId]);
+  };
+
+  const updateEncounter = (index: number, updates: Partial<DayEncounterPlan>) => {
+    setPlan(plan.map((encounter, i) => (i === index ? { ...encounter, ...updates } : encounter)));
+  };
+
+  const addEncounter = () => {
+    const last = plan[plan.length - 1];
+    setPlan([...plan, { packId: last?.packId || DEFAULT_PACK_ID, rounds: last?.rounds || 3, shortRestAfter: false }]);
+  };
+
+  const removeEncounter = (index: number) => {
+    setPlan(plan.filter((_, i) => i !== index));
+  };
+
+  // Save the whole spending policy with the build, smite slot levels and surge and quickened timings included
+  const applySpendingPolicy = (buildId: string, policy: SpendingPolicy) => {
+    const build = builds.find(candidate => candidate.id === buildId);
+    if (!build) return;
+    updateBuild(buildId, {
+      policies: {
+        ...build.policies,
+        smitePolicy: policy.smitePolicy,
+        smiteSlotLevels: policy.smiteSlotLevels,
+        actionSurgeTiming: policy.actionSurge,
+        quickenedSpellTiming: policy.quickenedSpell
+      }
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 py-6">
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Adventuring Day</h1>
+            <p className="mt-2 text-gray-600 dark:text-gray-300">
+              Plan encounters and short rests, then compare how nova and sustained builds last the day
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 py-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Day plan and builds */}
+        <div className="space-y-6">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Encounters</h3>
+              <button
+                onClick={addEncounter}
+                className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+              >
+                Add
+              </button>
+            </div>
+            <div className="space-y-3">
+              {plan.map((encounter, index) => (
+                <div key={index} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-md space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">Encounter {index + 1}</span>
+                    <button
+                      onClick={() => removeEncounter(index)}
+                      disabled={plan.length <= 1}
+                      className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                  <select
+                    value={encounter.packId}
+                    onChange={(e) => updateEncounter(index, { packId: e.target.value })}
+                    className="w-full px-2 py-1 border border-gray-300 rounded text-sm bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  >
+                    {Object.values(ENCOUNTER_PACKS).map(pack => (
+                      <option key={pack.id} value={pack.id}>{pack.name}</option>
+                    ))}
+                  </select>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <label className="text-sm text-gray-700 dark:text-gray-300">Rounds:</label>
+                      <input
+                        type="number"
+                        min="1"
+                        max="20"
+                        value={encounter.rounds}
+                        onChange={(e) => updateEncounter(index, { rounds: Math.max(1, parseInt(e.target.value) || 1) })}
+                        className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+                      />
+                    </div>
+                    {index < plan.length - 1 && (
+                      <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={encounter.shortRestAfter}
+                          onChange={(e) => updateEncounter(index, { shortRestAfter: e.target.checked })}
+                        />
+                        <span>Short rest after</span>
+                      </label>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Builds</h3>
+            {builds.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Create builds in the Build Lab first</p>
+            ) : (
+              <div className="space-y-2">
+                {builds.map(build => (
+                  <label key={build.id} className="flex items-center space-x-2 text-sm text-gray-900 dark:text-white">
+                    <input
+                      type="checkbox"
+                      checked={selectedBuildIds.includes(build.id)}
+                      onChange={() => toggleBuild(build.id)}
+                    />
+                    <span>{build.name} (Level {getCharacterLevel(build)})</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Results */}
+        <div className="lg:col-span-2 space-y-6">
+          {results.length === 0 ? (
+            <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400">
+              Select up to {MAX_COMPARED_BUILDS} builds to run them through the day
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {results.map((result, index) => (
+                  <div key={result.buildId} className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-4">
+                    <div className="flex items-center space-x-2 mb-2">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: BUILD_COLORS[index] }}></span>
+                      <span className="font-medium text-gray-900 dark:text-white">{result.name}</span>
+                    </div>
+                    <div className="text-2xl font-bold text-gray-900 dark:text-white">{result.totalDamage.toFixed(0)}</div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">Damage over the day</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {result.averageDPR.toFixed(1)} DPR over {result.totalRounds} rounds · {result.shortRests} short rests
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Encounter</th>
+                      {results.map(result => (
+                        <th key={result.buildId} className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">
+                          {result.name}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {plan.map((encounter, index) => (
+                      <React.Fragment key={index}>
+                        <tr>
+                          <td className="px-4 py-3 text-sm text-gray-900 dark:text-white align-top">
+                            {index + 1}. {ENCOUNTER_PACKS[encounter.packId]?.name}
+                            <div className="text-xs text-gray-500">{encounter.rounds} rounds</div>
+                          </td>
+                          {results.map(result => {
+                            const encounterResult = result.encounters[index];
+                            if (!encounterResult) return <td key={result.buildId}></td>;
+                            return (
+                              <td key={result.buildId} className="px-4 py-3 text-sm align-top">
+                                <div className="font-semibold text-gray-900 dark:text-white">
+                                  {encounterResult.dpr.toFixed(1)} DPR
+                                </div>
+                                {encounterResult.spellsCast.length > 0 && (
+                                  <div className="text-xs text-gray-600 dark:text-gray-400">
+                                    {encounterResult.spellsCast.join(', ')}
+                                  </div>
+                                )}
+                                <div className="text-xs text-gray-500 dark:text-gray-400">
+                                  {Object.entries(encounterResult.resourcesRemaining)
+                                    .map(([label, amount]) => `${label} ${amount}`)
+                                    .join(' · ') || 'No resources'}
+                                  {' '}({(encounterResult.resourcePercentage * 100).toFixed(0)}% left)
+                                </div>
+                              </td>
+                            );
+                          })}
+                        </tr>
+                        {encounter.shortRestAfter && index < plan.length - 1 && (
+                          <tr className="bg-green-50 dark:bg-green-900/20">
+                            <td className="px-4 py-1 text-xs text-green-800 dark:text-green-300">Short rest</td>
+                            {results.map(result => (
+                              <td key={result.buildId} className="px-4 py-1 text-xs text-green-800 dark:text-green-300">
+                                {Object.entries(result.encounters[index]?.restored || {})
+                                  .map(([label, amount]) => `+${amount} ${label}`)
+                                  .join(', ') || 'Nothing restored'}
+                              </td>
+                            ))}
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Spending Policy</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                  Best way to spend smites, Action Surge and Quickened Spell over this day, by expected damage
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {optimizations.map((optimization, index) => {
+                    const lines = PolicyOptimizer.describePolicy(optimization.recommended.policy, optimization);
+                    // The optimizer only recommends something other than the saved policy when it does better
+                    const policyChanged = optimization.recommended !== optimization.current;
+                    return (
+                      <div key={optimization.buildId} className="p-4 bg-gray-50 dark:bg-gray-700 rounded-md space-y-2">
+                        <div className="flex items-center space-x-2">
+                          <span className="w-3 h-3 rounded-full" style={{ backgroundColor: BUILD_COLORS[index] }}></span>
+                          <span className="font-medium text-gray-900 dark:text-white">{optimization.name}</span>
+                        </div>
+                        {lines.length === 0 ? (
+                          <p className="text-sm text-gray-500 dark:text-gray-400">No smites, Action Surge or Quickened Spell to plan</p>
+                        ) : (
+                          <ul className="text-sm text-gray-700 dark:text-gray-300 list-disc list-inside space-y-0.5">
+                            {lines.map(line => <li key={line}>{line}</li>)}
+                          </ul>
+                        )}
+                        <div className="text-sm text-gray-900 dark:text-white">
+                          {optimization.gain > 0.05 ? (
+                            <span className="font-semibold text-green-700 dark:text-green-400">
+                              +{optimization.gain.toFixed(1)} damage over your current setting
+                            </span>
+                          ) : (
+                            <span className="text-gray-600 dark:text-gray-400">Your current setting is already the best found</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {optimization.recommended.totalDamage.toFixed(0)} vs {optimization.current.totalDamage.toFixed(0)} damage
+                          {optimization.canSmite && ` · ${optimization.recommended.smitesUsed.toFixed(1)} smites`}
+                          {optimization.perfectPlayDamage !== null && optimization.canSmite &&
+                            ` · perfect smite play ${optimization.perfectPlayDamage.toFixed(0)}`}
+                        </div>
+                        {policyChanged && (
+                          <button
+                            onClick={() => applySpendingPolicy(optimization.buildId, optimization.recommended.policy)}
+                            className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+                          >
+                            Use this policy
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useSimpleStore } from '../../store/simpleStore';
-import { Build } from '../../types/build';
+import type { Build } from '../../types/build';
+import { getRacialHitPoints, getRacialResistances, getRacialSpeed } from '../../engine/races';
+import { getItemACBonus, getItemResistances } from '../../engine/items';
 
 interface ComparisonMetrics {
   defense: number;
@@ -37,9 +39,13 @@ export const CharacterCompare: React.FC = () => {
     const baseAC = build.equipment.armor?.ac || 10;
     const dexMod = Math.floor((build.abilities.dexterity - 10) / 2);
     const estimatedAC = baseAC + (build.equipment.armor?.type === 'light' ? dexMod : 
-                                build.equipment.armor?.type === 'medium' ? Math.min(2, dexMod) : 0);
-    const avgHP = totalLevel * 8 + Math.floor((build.abilities.constitution - 10) / 2) * totalLevel;
-    const defense = Math.min(1.0, (estimatedAC - 10) / 12 + (avgHP - 50) / 150);
+                                build.equipment.armor?.type === 'medium' ? Math.min(2, dexMod) : 0) +
+      getItemACBonus(build.equipment);
+    const avgHP = totalLevel * 8 + Math.floor((build.abilities.constitution - 10) / 2) * totalLevel +
+      getRacialHitPoints(build.race, totalLevel);
+    // Each damage resistance from race or items (Hellish Resistance, Frost Brand) counts for a little
+    const resistances = new Set([...getRacialResistances(build.race), ...getItemResistances(build.equipment)]).size;
+    const defense = Math.min(1.0, (estimatedAC - 10) / 12 + (avgHP - 50) / 150 + resistances * 0.05);
 
     // Control calculation (based on spell save DC and control spells)
     const spellcastingMod = Math.max(
@@ -54,7 +60,7 @@ export const CharacterCompare: React.FC = () => {
     const control = Math.min(1.0, (spellSaveDC - 10) / 12 + controlSpells.length / 10);
 
     // Mobility calculation
-    const baseSpeed = 30; // Assume human base speed
+    const baseSpeed = getRacialSpeed(build.race);
     const hasFlightSpells = build.spells.some(spell => 
       ['fly', 'misty step', 'dimension door'].includes(spell.toLowerCase())
     );
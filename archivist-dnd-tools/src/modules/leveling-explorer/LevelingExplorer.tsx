@@ -1,11 +1,16 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useSimpleStore } from '../../store/simpleStore';
-import type { SimpleBuild } from '../../store/simpleStore';
+import type { Abilities, Build } from '../../types/build';
+import { getCharacterLevel } from '../../utils/buildConversion';
+import { ABILITY_KEYS, getAbilityScoreLedger, getAbilityScoresAtLevel } from '../../engine/abilityScores';
+import { applyItemAbilityScores } from '../../engine/items';
+import { getAttacksPerAction, getClassProgression, getFeaturesAtLevel } from '../../data/classProgression';
 
 // Simplified interfaces for the working version
 interface SimpleLevelAnalysis {
   level: number;
   proficiencyBonus: number;
+  abilities: Abilities;
   hitPointsAverage: number;
   attackBonus: number;
   damage: string;
@@ -24,7 +29,7 @@ export const LevelingExplorer: React.FC = () => {
   const { addNotification } = useSimpleStore();
 
   // Get selected feats from build
-  const getSelectedFeats = (build: SimpleBuild): string[] => {
+  const getSelectedFeats = (build: Build): string[] => {
     const feats: string[] = [];
     if (build.featureSelections) {
       Object.values(build.featureSelections).forEach(selection => {
@@ -37,7 +42,7 @@ export const LevelingExplorer: React.FC = () => {
   };
   
   // Get fighting styles from build
-  const getFightingStyles = (build: SimpleBuild): string[] => {
+  const getFightingStyles = (build: Build): string[] => {
     const styles: string[] = [];
     if (build.featureSelections) {
       Object.values(build.featureSelections).forEach(selection => {
@@ -54,20 +59,20 @@ export const LevelingExplorer: React.FC = () => {
   };
   
   // Calculate feature-based damage at a given level
-  const calculateFeatureDamage = (build: SimpleBuild, characterLevel: number): { bonus: number; extraDamage: string[] } => {
+  const calculateFeatureDamage = (build: Build, characterLevel: number): { bonus: number; extraDamage: string[] } => {
     let bonus = 0;
     const extraDamage: string[] = [];
     const selectedFeats = getSelectedFeats(build);
     
     // Sneak Attack for Rogues
-    const rogueLevel = build.classLevels?.find(cl => cl.class.toLowerCase() === 'rogue')?.level || 0;
+    const rogueLevel = build.levels?.find(cl => cl.class.toLowerCase() === 'rogue')?.level || 0;
     if (rogueLevel > 0) {
       const sneakDice = Math.ceil(rogueLevel / 2);
       extraDamage.push(`Sneak+${sneakDice}d6`);
     }
     
     // Rage damage for Barbarians
-    const barbarianLevel = build.classLevels?.find(cl => cl.class.toLowerCase() === 'barbarian')?.level || 0;
+    const barbarianLevel = build.levels?.find(cl => cl.class.toLowerCase() === 'barbarian')?.level || 0;
     if (barbarianLevel > 0) {
       let rageDamage = 2; // Base rage damage
       if (barbarianLevel >= 16) rageDamage = 4;
@@ -77,7 +82,7 @@ export const LevelingExplorer: React.FC = () => {
     }
     
     // Divine Smite for Paladins (level 1 slot assumption)
-    const paladinLevel = build.classLevels?.find(cl => cl.class.toLowerCase() === 'paladin')?.level || 0;
+    const paladinLevel = build.levels?.find(cl => cl.class.toLowerCase() === 'paladin')?.level || 0;
     if (paladinLevel >= 2) {
       extraDamage.push('Smite+2d8');
     }
@@ -95,27 +100,31 @@ export const LevelingExplorer: React.FC = () => {
   };
 
   // Enhanced build analysis function with feature integration
-  const analyzeBuildProgression = (build: SimpleBuild): SimpleLevelAnalysis[] => {
-    if (!build.classLevels || !build.abilityScores) {
+  const analyzeBuildProgression = (build: Build): SimpleLevelAnalysis[] => {
+    if (!build.levels || !build.abilities) {
       return [];
     }
 
     const results: SimpleLevelAnalysis[] = [];
     const selectedFeats = getSelectedFeats(build);
     const fightingStyles = getFightingStyles(build);
+    const ledger = getAbilityScoreLedger(build);
+    const characterLevel = getCharacterLevel(build);
     
     for (let level = 1; level <= 20; level++) {
       const proficiencyBonus = Math.ceil(level / 4) + 1;
+      // Scores as of this level: ASIs and half-feats apply from the level they're taken
+      const abilities = applyItemAbilityScores(getAbilityScoresAtLevel(build, level, ledger), build.equipment);
       
       // Calculate hit points (simplified)
-      const hitDie = build.classLevels[0]?.hitDie || 8;
-      const conMod = Math.floor((build.abilityScores.constitution - 10) / 2);
+      const hitDie = getClassProgression(build.levels[0]?.class)?.hitDie || build.levels[0]?.hitDie || 8;
+      const conMod = Math.floor((abilities.constitution - 10) / 2);
       const hitPointsAverage = Math.max(1, (hitDie / 2 + 0.5) + conMod) + (level - 1) * (hitDie / 2 + 0.5 + conMod);
       
       // Calculate attack bonus with fighting style bonuses
-      let abilityMod = Math.floor((build.abilityScores.strength - 10) / 2);
+      let abilityMod = Math.floor((abilities.strength - 10) / 2);
       if (build.equipment?.mainHand?.type === 'ranged') {
-        abilityMod = Math.floor((build.abilityScores.dexterity - 10) / 2);
+        abilityMod = Math.floor((abilities.dexterity - 10) / 2);
       }
       
       let attackBonus = proficiencyBonus + abilityMod + (build.equipment?.mainHand?.magic || 0);
@@ -127,22 +136,15 @@ export const LevelingExplorer: React.FC = () => {
       
       // Calculate extra attacks based on class levels at this character level
       let extraAttacks = 0;
-      if (build.classLevels && build.classLevels.length > 0) {
+      if (build.levels && build.levels.length > 0) {
         // Scale class levels proportionally to character level
-        const totalLevels = build.classLevels.reduce((sum, cl) => sum + cl.level, 0);
+        const totalLevels = build.levels.reduce((sum, cl) => sum + cl.level, 0);
         const levelRatio = level / totalLevels;
         
-        build.classLevels.forEach(classLevel => {
+        build.levels.forEach(classLevel => {
           const scaledLevel = Math.min(20, Math.floor(classLevel.level * levelRatio));
-          const className = classLevel.class.toLowerCase();
-          
-          if (className === 'fighter') {
-            if (scaledLevel >= 20) extraAttacks += 3;
-            else if (scaledLevel >= 11) extraAttacks += 2;
-            else if (scaledLevel >= 5) extraAttacks += 1;
-          } else if (['barbarian', 'paladin', 'ranger'].includes(className) && scaledLevel >= 5) {
-            extraAttacks += 1;
-          }
+          // Extra Attack doesn't stack across classes
+          extraAttacks = Math.max(extraAttacks, getAttacksPerAction(classLevel.class, scaledLevel) - 1);
         });
       }
       
@@ -217,14 +219,30 @@ export const LevelingExplorer: React.FC = () => {
       
       // Extract notable features for this level
       const features: string[] = [];
-      if (level % 4 === 0) features.push('ASI/Feat');
-      if (level === 5 && extraAttacks > 0) features.push('Extra Attack');
-      if (level === 11 && build.classLevels?.some(cl => cl.class.toLowerCase() === 'fighter')) features.push('Extra Attack (2)');
-      if (rogueLevel > 0 && level % 2 === 1) features.push(`Sneak Attack (${Math.ceil(level/2)}d6)`);
+      // The build's own ASIs and feats up to its level; past it, only where one would usually come
+      if (level > characterLevel) {
+        if (level % 4 === 0) features.push('ASI/Feat');
+      } else {
+        ledger
+          .filter(entry => entry.level === level && (entry.source === 'asi' || entry.source === 'feat'))
+          .forEach(entry => features.push(entry.label));
+      }
+      build.levels.forEach(classLevel => {
+        const totalLevels = build.levels.reduce((sum, cl) => sum + cl.level, 0);
+        const scaledLevel = Math.min(20, Math.floor(classLevel.level * level / totalLevels));
+        const previousLevel = Math.min(20, Math.floor(classLevel.level * (level - 1) / totalLevels));
+        // Only report features the first time the scaled class level reaches them
+        for (let classLevelReached = previousLevel + 1; classLevelReached <= scaledLevel; classLevelReached++) {
+          getFeaturesAtLevel(classLevel.class, classLevelReached)
+            .filter(feature => feature.name !== 'Ability Score Improvement')
+            .forEach(feature => features.push(feature.name));
+        }
+      });
       
       results.push({
         level,
         proficiencyBonus,
+        abilities,
         hitPointsAverage,
         attackBonus,
         damage,
@@ -455,12 +473,12 @@ export const LevelingExplorer: React.FC = () => {
   };
 
   // Calculate DPR against different AC values for sensitivity analysis
-  const calculateACAnalysis = (build: SimpleBuild, level: number, levelData: SimpleLevelAnalysis) => {
+  const calculateACAnalysis = (build: Build, level: number, levelData: SimpleLevelAnalysis) => {
     const attackBonus = levelData.attackBonus;
     
     const weapon = build.equipment?.mainHand;
     const baseDamage = weapon ? parseDamageString(weapon.damage) : 4.5;
-    const abilityMod = Math.floor((Math.max(build.abilityScores?.strength || 10, build.abilityScores?.dexterity || 10) - 10) / 2);
+    const abilityMod = Math.floor((Math.max(levelData.abilities.strength, levelData.abilities.dexterity) - 10) / 2);
     const totalDamage = (baseDamage + abilityMod) * (levelData.extraAttacks + 1);
     
     const calculateDPRForAC = (targetAC: number) => {
@@ -514,7 +532,7 @@ export const LevelingExplorer: React.FC = () => {
       const attackBonus = levelData.attackBonus;
       const weapon = build.equipment?.mainHand;
       const baseDamage = weapon ? parseDamageString(weapon.damage) : 4.5;
-      const abilityMod = Math.floor((Math.max(build.abilityScores?.strength || 10, build.abilityScores?.dexterity || 10) - 10) / 2);
+      const abilityMod = Math.floor((Math.max(levelData.abilities.strength, levelData.abilities.dexterity) - 10) / 2);
       const totalDamage = (baseDamage + abilityMod) * (levelData.extraAttacks + 1);
       
       const dprData = acRange.map(ac => {
@@ -617,18 +635,18 @@ export const LevelingExplorer: React.FC = () => {
   };
 
   // Generate detailed mathematical trace for DPR calculation
-  const generateDPRTrace = (build: SimpleBuild, levelData: SimpleLevelAnalysis) => {
+  const generateDPRTrace = (build: Build, levelData: SimpleLevelAnalysis) => {
     const trace: Array<{step: string; formula: string; result: string; explanation: string}> = [];
     
     // Step 1: Basic stats
     const proficiencyBonus = levelData.proficiencyBonus;
-    const strMod = Math.floor(((build.abilityScores?.strength || 10) - 10) / 2);
-    const dexMod = Math.floor(((build.abilityScores?.dexterity || 10) - 10) / 2);
+    const strMod = Math.floor((levelData.abilities.strength - 10) / 2);
+    const dexMod = Math.floor((levelData.abilities.dexterity - 10) / 2);
     const primaryMod = Math.max(strMod, dexMod);
     
     trace.push({
       step: "1. Ability Modifiers",
-      formula: `STR: ${build.abilityScores?.strength || 10} → ${strMod >= 0 ? '+' : ''}${strMod}, DEX: ${build.abilityScores?.dexterity || 10} → ${dexMod >= 0 ? '+' : ''}${dexMod}`,
+      formula: `STR: ${levelData.abilities.strength} → ${strMod >= 0 ? '+' : ''}${strMod}, DEX: ${levelData.abilities.dexterity} → ${dexMod >= 0 ? '+' : ''}${dexMod}`,
       result: `Primary modifier: ${primaryMod >= 0 ? '+' : ''}${primaryMod}`,
       explanation: "Calculate ability modifiers using (score - 10) / 2, rounded down"
     });
@@ -754,7 +772,7 @@ export const LevelingExplorer: React.FC = () => {
                 <option value="">No build selected</option>
                 {builds.map((build) => (
                   <option key={build.id} value={build.id}>
-                    {build.name} (Lv.{build.level})
+                    {build.name} (Lv.{getCharacterLevel(build)})
                   </option>
                 ))}
               </select>
@@ -826,10 +844,25 @@ export const LevelingExplorer: React.FC = () => {
               
               const levelData = levelAnalyses[buildId][currentLevel - 1];
               if (!levelData) return null;
+              const previousAbilities = levelAnalyses[buildId][currentLevel - 2]?.abilities;
               
               return (
                 <div key={buildId} className="border border-gray-200 dark:border-gray-600 rounded p-4">
                   <h4 className="font-semibold text-gray-900 dark:text-white mb-2">{build.name}</h4>
+                  <div className="flex flex-wrap gap-3 mb-3 text-xs font-mono">
+                    {ABILITY_KEYS.map(ability => {
+                      const previous = previousAbilities?.[ability];
+                      const raised = previous !== undefined && levelData.abilities[ability] > previous;
+                      return (
+                        <span
+                          key={ability}
+                          className={raised ? 'font-semibold text-green-600 dark:text-green-400' : 'text-gray-600 dark:text-gray-400'}
+                        >
+                          {ability.slice(0, 3).toUpperCase()} {raised ? `${previous} → ` : ''}{levelData.abilities[ability]}
+                        </span>
+                      );
+                    })}
+                  </div>
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                     <div>
                       <span className="text-gray-600 dark:text-gray-400">DPR:</span>
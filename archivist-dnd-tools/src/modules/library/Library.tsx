@@ -1,90 +1,288 @@
-import React from 'react';
+/**
+ * Effect Library
+ * Browse every feat, feature, spell, item, condition and race the tools know about, and what each one does
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useSimpleStore } from '../../store/simpleStore';
+import {
+  buildLibraryCatalog,
+  filterLibrary,
+  getLibraryFacets,
+  describeEffect,
+  describeSpell,
+  DEFAULT_LIBRARY_FILTERS,
+  SOURCE_BOOKS,
+  type LibraryEntry,
+  type LibraryEntryType,
+  type LibraryFilters
+} from '../../utils/libraryCatalog';
+
+const TYPE_LABELS: Record<LibraryEntryType, string> = {
+  feat: 'Feat',
+  feature: 'Feature',
+  spell: 'Spell',
+  item: 'Item',
+  condition: 'Condition',
+  race: 'Race'
+};
+
+const TYPE_COLORS: Record<LibraryEntryType, string> = {
+  feat: 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300',
+  feature: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  spell: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300',
+  item: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  condition: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  race: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300'
+};
+
+const ORIGIN_LABELS: Record<LibraryEntry['origin'], string> = {
+  simulation: 'Used in simulations',
+  reference: 'Reference only',
+  'class-feature': 'Build Lab class feature',
+  homebrew: 'Homebrew, used in simulations'
+};
+
+const MAX_LEVEL = 20;
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+const formatLevel = (entry: LibraryEntry): string | null => {
+  if (entry.level === undefined) return null;
+  if (entry.type === 'spell') return entry.level === 0 ? 'Cantrip' : `Level ${entry.level} spell`;
+  return `Level ${entry.level}`;
+};
+
+const selectClassName = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm';
+
+const DetailSection: React.FC<{ title: string; lines: string[]; empty: string }> = ({ title, lines, empty }) => (
+  <div>
+    <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-1">{title}</h4>
+    {lines.length === 0 ? (
+      <p className="text-sm text-gray-500 dark:text-gray-400">{empty}</p>
+    ) : (
+      <ul className="text-sm text-gray-700 dark:text-gray-300 list-disc list-inside space-y-0.5">
+        {lines.map(line => <li key={line}>{line}</li>)}
+      </ul>
+    )}
+  </div>
+);
 
 export const Library: React.FC = () => {
+  const homebrewEffects = useSimpleStore((state) => state.homebrewEffects);
+  const catalog = useMemo(() => buildLibraryCatalog(homebrewEffects), [homebrewEffects]);
+  const facets = useMemo(() => getLibraryFacets(catalog), [catalog]);
+
+  const [filters, setFilters] = useState<LibraryFilters>(DEFAULT_LIBRARY_FILTERS);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const entries = useMemo(() => filterLibrary(catalog, filters), [catalog, filters]);
+  const selected = entries.find(entry => entry.key === selectedKey) || entries[0];
+  const details = selected?.effect ? describeEffect(selected.effect) : null;
+
+  const updateFilters = (updates: Partial<LibraryFilters>) => {
+    setFilters({ ...filters, ...updates });
+  };
+
+  const toggleTag = (tag: string) => {
+    updateFilters({ tags: filters.tags.includes(tag) ? filters.tags.filter(t => t !== tag) : [...filters.tags, tag] });
+  };
+
   return (
-    <div className="space-y-6">
-      <div className="text-center">
-        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Effect Library</h1>
-        <p className="mt-2 text-gray-600 dark:text-gray-300">
-          Browse and manage features, spells, feats, and conditions
-        </p>
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 py-6">
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Effect Library</h1>
+            <p className="mt-2 text-gray-600 dark:text-gray-300">
+              Browse features, spells, feats, items and conditions, and see how the simulator applies them
+            </p>
+          </div>
+        </div>
       </div>
 
-      {/* Search and Filters */}
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6">
-        <div className="flex flex-col md:flex-row md:items-center md:justify-between space-y-4 md:space-y-0">
-          <div className="flex-1 max-w-md">
+      <div className="max-w-7xl mx-auto px-4 py-8 space-y-6">
+        {/* Search and filters */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+          <div className="flex flex-col lg:flex-row gap-3">
             <input
               type="text"
-              placeholder="Search effects..."
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              value={filters.query}
+              onChange={(e) => updateFilters({ query: e.target.value })}
+              placeholder="Search names and descriptions..."
+              className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
             />
-          </div>
-          <div className="flex space-x-2">
-            <select className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white">
-              <option>All Types</option>
-              <option>Feats</option>
-              <option>Features</option>
-              <option>Spells</option>
-              <option>Items</option>
-              <option>Conditions</option>
+            <select
+              value={filters.type}
+              onChange={(e) => updateFilters({ type: e.target.value as LibraryFilters['type'] })}
+              className={selectClassName}
+            >
+              <option value="all">All Types</option>
+              {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>{label}s</option>
+              ))}
+            </select>
+            <select
+              value={filters.book}
+              onChange={(e) => updateFilters({ book: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="all">All Sources</option>
+              {facets.books.map(book => (
+                <option key={book} value={book}>{SOURCE_BOOKS[book] || book}</option>
+              ))}
+            </select>
+            <select
+              value={filters.className}
+              onChange={(e) => updateFilters({ className: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="all">All Classes</option>
+              {facets.classes.map(className => (
+                <option key={className} value={className}>{capitalize(className)}</option>
+              ))}
             </select>
-            <select className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white">
-              <option>All Sources</option>
-              <option>Player's Handbook</option>
-              <option>Xanathar's Guide</option>
-              <option>Tasha's Cauldron</option>
-              <option>Homebrew</option>
+            <select
+              value={filters.maxLevel ?? ''}
+              onChange={(e) => updateFilters({ maxLevel: e.target.value === '' ? null : parseInt(e.target.value) })}
+              className={selectClassName}
+            >
+              <option value="">Any Level</option>
+              {Array.from({ length: MAX_LEVEL + 1 }, (_, level) => (
+                <option key={level} value={level}>Up to level {level}</option>
+              ))}
             </select>
           </div>
+
+          <div className="flex flex-wrap gap-2">
+            {facets.tags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => toggleTag(tag)}
+                className={`px-2 py-1 rounded-full text-xs border transition-colors ${
+                  filters.tags.includes(tag)
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-blue-400'
+                }`}
+              >
+                {tag}
+              </button>
+            ))}
+            {(filters !== DEFAULT_LIBRARY_FILTERS) && (
+              <button
+                onClick={() => setFilters(DEFAULT_LIBRARY_FILTERS)}
+                className="px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
         </div>
-      </div>
 
-      {/* Effect Categories */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        {['Feats', 'Features', 'Spells', 'Conditions'].map((category) => (
-          <div
-            key={category}
-            className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6"
-          >
-            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-              {category}
-            </h3>
-            <div className="h-32 bg-gray-100 dark:bg-gray-700 rounded-lg flex items-center justify-center">
-              <span className="text-gray-500 dark:text-gray-400">{category} List</span>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Results */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700">
+            <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 text-sm text-gray-600 dark:text-gray-400">
+              {entries.length} of {catalog.length} entries
             </div>
+            {entries.length === 0 ? (
+              <div className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">Nothing matches these filters</div>
+            ) : (
+              <ul className="max-h-[40rem] overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+                {entries.map(entry => (
+                  <li key={entry.key}>
+                    <button
+                      onClick={() => setSelectedKey(entry.key)}
+                      className={`w-full text-left px-4 py-3 transition-colors ${
+                        selected?.key === entry.key ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-900 dark:text-white">{entry.name}</span>
+                        <span className={`px-2 py-0.5 rounded text-xs ${TYPE_COLORS[entry.type]}`}>{TYPE_LABELS[entry.type]}</span>
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {[entry.book, entry.className && capitalize(entry.className), formatLevel(entry)].filter(Boolean).join(' · ')}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
-        ))}
-      </div>
 
-      {/* Effect Details */}
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6">
-        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-          Effect Details
-        </h3>
-        <div className="h-48 bg-gray-100 dark:bg-gray-700 rounded-lg flex items-center justify-center">
-          <span className="text-gray-500 dark:text-gray-400">
-            Selected Effect Description, Mechanics, and Usage
-          </span>
-        </div>
-      </div>
+          {/* Detail pane */}
+          <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6">
+            {!selected ? (
+              <div className="text-center text-gray-500 dark:text-gray-400">Select an entry to see its details</div>
+            ) : (
+              <div className="space-y-5">
+                <div>
+                  <div className="flex items-center space-x-3">
+                    <h2 className="text-2xl font-bold text-gray-900 dark:text-white">{selected.name}</h2>
+                    <span className={`px-2 py-0.5 rounded text-xs ${TYPE_COLORS[selected.type]}`}>{TYPE_LABELS[selected.type]}</span>
+                  </div>
+                  <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                    {[
+                      `${SOURCE_BOOKS[selected.book] || selected.book}${selected.page ? `, p. ${selected.page}` : ''}`,
+                      selected.className && capitalize(selected.className),
+                      selected.subclass && capitalize(selected.subclass),
+                      formatLevel(selected),
+                      ORIGIN_LABELS[selected.origin]
+                    ].filter(Boolean).join(' · ')}
+                  </div>
+                  <p className="mt-3 text-gray-700 dark:text-gray-300">{selected.description}</p>
+                </div>
 
-      {/* Homebrew Management */}
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6">
-        <div className="flex justify-between items-center mb-4">
-          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-            Custom Effects
-          </h3>
-          <button className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
-            Add Custom Effect
-          </button>
-        </div>
-        <div className="h-32 bg-gray-100 dark:bg-gray-700 rounded-lg flex items-center justify-center">
-          <span className="text-gray-500 dark:text-gray-400">
-            User-created Custom Effects
-          </span>
+                {selected.spell && (
+                  <DetailSection title="Casting" lines={describeSpell(selected.spell)} empty="" />
+                )}
+
+                {details && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+                    <DetailSection title="Modifiers" lines={details.modifiers} empty="No static modifiers" />
+                    <DetailSection title="Hooks" lines={details.hooks} empty="No combat hooks" />
+                    <DetailSection title="Usage" lines={details.usage} empty="No usage limits" />
+                    <DetailSection title="Stacking" lines={details.stacking} empty="No stacking rules" />
+                    {details.conditions.length > 0 && (
+                      <DetailSection title="Applies When" lines={details.conditions} empty="" />
+                    )}
+                  </div>
+                )}
+
+                {selected.feature && (
+                  <div className="space-y-3">
+                    <div className="text-sm text-gray-700 dark:text-gray-300">
+                      {selected.feature.type === 'automatic' && 'Gained automatically at this level.'}
+                      {selected.feature.type === 'choice' && `Choose ${selected.feature.maxSelections || 1} option${(selected.feature.maxSelections || 1) === 1 ? '' : 's'} in the Build Lab.`}
+                      {selected.feature.type === 'improvement' && 'Pick an ability score improvement or a feat in the Build Lab.'}
+                      {selected.feature.prerequisite && ` Requires ${selected.feature.prerequisite}.`}
+                    </div>
+                    {selected.feature.choices && selected.feature.choices.length > 0 && (
+                      <DetailSection
+                        title="Options"
+                        lines={selected.feature.choices.map(choice => `${choice.name}: ${choice.shortDescription || choice.description}`)}
+                        empty=""
+                      />
+                    )}
+                  </div>
+                )}
+
+                {selected.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {selected.tags.map(tag => (
+                      <span key={tag} className="px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-xs text-gray-600 dark:text-gray-300">
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,363 @@
+/**
+ * Party Planner
+ * Group saved builds into a party and see combined DPR with buffs crossing between members,
+ * then run each member through an encounter pack with the party's save bonuses
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useSimpleStore } from '../../store/simpleStore';
+import { PartyAnalysisEngine, MIN_PARTY_SIZE, MAX_PARTY_SIZE } from '../../utils/partyAnalysis';
+import { getCharacterLevel } from '../../utils/buildConversion';
+import { ENCOUNTER_PACKS } from '../../data/encounters/encounterPacks';
+import { MonteCarloEngine, type EncounterSimulationResults } from '../../engine/monteCarlo';
+
+export const PartyPlanner: React.FC = () => {
+  const builds = useSimpleStore((state) => state.builds);
+  const parties = useSimpleStore((state) => state.parties);
+  const { addParty, updateParty, deleteParty, addNotification } = useSimpleStore();
+
+  const [selectedPartyId, setSelectedPartyId] = useState<string | null>(null);
+  const [newPartyName, setNewPartyName] = useState<string>('');
+  // 'custom' or 'pack:<id>'
+  const [targetSource, setTargetSource] = useState<string>('custom');
+  const [targetAC, setTargetAC] = useState<number>(15);
+  const [targetHP, setTargetHP] = useState<number>(100);
+  const [encounterResults, setEncounterResults] = useState<Array<{ buildId: string; name: string; results: EncounterSimulationResults }>>([]);
+  const [isRunningEncounter, setIsRunningEncounter] = useState<boolean>(false);
+
+  const selectedParty = parties.find(party => party.id === selectedPartyId) || parties[0];
+  const members = useMemo(() => {
+    if (!selectedParty) return [];
+    return selectedParty.memberIds
+      .map(id => builds.find(build => build.id === id))
+      .filter((build): build is NonNullable<typeof build> => Boolean(build));
+  }, [selectedParty, builds]);
+
+  const [targetKind, packId] = targetSource.split(':');
+  const pack = targetKind === 'pack' ? ENCOUNTER_PACKS[packId] : undefined;
+
+  const enemies = useMemo(() => {
+    if (pack) {
+      return pack.enemies.map(enemy => ({ armorClass: enemy.armorClass, hitPoints: enemy.hitPoints }));
+    }
+    return [{ armorClass: targetAC, hitPoints: targetHP }];
+  }, [pack, targetAC, targetHP]);
+
+  const analysis = useMemo(() => {
+    if (members.length < MIN_PARTY_SIZE) return null;
+    return PartyAnalysisEngine.analyzeParty(members, enemies);
+  }, [members, enemies]);
+
+  const handleCreateParty = () => {
+    const name = newPartyName.trim();
+    if (!name) {
+      addNotification({ type: 'error', message: 'Please enter a party name' });
+      return;
+    }
+    addParty({ name, memberIds: [] });
+    setNewPartyName('');
+    setSelectedPartyId(null);
+  };
+
+  // Each member fights the pack alone, with the save bonuses the party's Bless and auras give them
+  const runEncounterSimulation = async () => {
+    if (!pack || !analysis) return;
+    setIsRunningEncounter(true);
+
+    try {
+      const results = [];
+      for (const member of members) {
+        const engine = new MonteCarloEngine(12345); // Fixed seed for consistency
+        const partyContext = PartyAnalysisEngine.getMemberContext(analysis, member.id);
+        const encounter = await engine.simulateEncounter(member, pack.enemies, pack.scenarios[0], 1000, 20, partyContext);
+        results.push({ buildId: member.id, name: member.name, results: encounter });
+      }
+      setEncounterResults(results);
+    } catch (error) {
+      console.error('Encounter simulation error:', error);
+      addNotification({ type: 'error', message: 'Encounter simulation failed. Please try again.' });
+    } finally {
+      setIsRunningEncounter(false);
+    }
+  };
+
+  const toggleMember = (buildId: string) => {
+    if (!selectedParty) return;
+    const isMember = selectedParty.memberIds.includes(buildId);
+
+    if (!isMember && selectedParty.memberIds.length >= MAX_PARTY_SIZE) {
+      addNotification({ type: 'warning', message: `A party can have at most ${MAX_PARTY_SIZE} members` });
+      return;
+    }
+
+    setEncounterResults([]);
+    updateParty(selectedParty.id, {
+      memberIds: isMember
+        ? selectedParty.memberIds.filter(id => id !== buildId)
+        : [...selectedParty.memberIds, buildId]
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 py-6">
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Party Planner</h1>
+            <p className="mt-2 text-gray-600 dark:text-gray-300">
+              Combine {MIN_PARTY_SIZE}–{MAX_PARTY_SIZE} saved builds and see party DPR with shared buffs
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 py-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Parties and members */}
+        <div className="space-y-6">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Parties</h3>
+            <div className="flex space-x-2 mb-4">
+              <input
+                type="text"
+                value={newPartyName}
+                onChange={(e) => setNewPartyName(e.target.value)}
+                placeholder="New party name"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              />
+              <button
+                onClick={handleCreateParty}
+                className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+              >
+                Create
+              </button>
+            </div>
+            {parties.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No parties yet</p>
+            ) : (
+              <div className="space-y-2">
+                {parties.map(party => (
+                  <div
+                    key={party.id}
+                    className={`flex items-center justify-between p-2 rounded-md cursor-pointer ${
+                      party.id === selectedParty?.id
+                        ? 'bg-blue-100 dark:bg-blue-900'
+                        : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                    }`}
+                    onClick={() => {
+                      setSelectedPartyId(party.id);
+                      setEncounterResults([]);
+                    }}
+                  >
+                    <span className="text-sm text-gray-900 dark:text-white">
+                      {party.name} ({party.memberIds.length})
+                    </span>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deleteParty(party.id);
+                      }}
+                      className="text-xs text-red-600 hover:text-red-800"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {selectedParty && (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                Members of {selectedParty.name}
+              </h3>
+              {builds.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Create builds in the Build Lab first</p>
+              ) : (
+                <div className="space-y-2">
+                  {builds.map(build => (
+                    <label key={build.id} className="flex items-center space-x-2 text-sm text-gray-900 dark:text-white">
+                      <input
+                        type="checkbox"
+                        checked={selectedParty.memberIds.includes(build.id)}
+                        onChange={() => toggleMember(build.id)}
+                      />
+                      <span>{build.name} (Level {getCharacterLevel(build)})</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Analysis */}
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6">
+            <div className="flex flex-wrap items-center gap-4">
+              <select
+                value={targetSource}
+                onChange={(e) => {
+                  setTargetSource(e.target.value);
+                  setEncounterResults([]);
+                }}
+                className="px-2 py-1 border border-gray-300 rounded text-sm bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              >
+                <option value="custom">Single target</option>
+                <optgroup label="Encounter Packs">
+                  {Object.values(ENCOUNTER_PACKS).map(pack => (
+                    <option key={pack.id} value={`pack:${pack.id}`}>
+                      {pack.name} ({pack.enemies.length} enemies)
+                    </option>
+                  ))}
+                </optgroup>
+              </select>
+              {targetSource === 'custom' && (
+                <>
+                  <div className="flex items-center space-x-2">
+                    <label className="text-sm text-gray-700 dark:text-gray-300">AC:</label>
+                    <input
+                      type="number"
+                      min="5"
+                      max="30"
+                      value={targetAC}
+                      onChange={(e) => setTargetAC(parseInt(e.target.value) || 15)}
+                      className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+                    />
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <label className="text-sm text-gray-700 dark:text-gray-300">HP:</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="1000"
+                      value={targetHP}
+                      onChange={(e) => setTargetHP(parseInt(e.target.value) || 1)}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                    />
+                  </div>
+                </>
+              )}
+              {pack && analysis && (
+                <button
+                  onClick={runEncounterSimulation}
+                  disabled={isRunningEncounter}
+                  className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm"
+                >
+                  {isRunningEncounter ? 'Simulating...' : 'Simulate Encounter'}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {!analysis ? (
+            <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400">
+              Add at least {MIN_PARTY_SIZE} builds to a party to see party DPR
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4">
+                  <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">
+                    {analysis.totalDPR.toFixed(1)}
+                  </div>
+                  <div className="text-sm text-blue-800 dark:text-blue-300">Party DPR</div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                    +{(analysis.totalDPR - analysis.totalBaseDPR).toFixed(1)} from buffs
+                  </div>
+                </div>
+                <div className="bg-green-50 dark:bg-green-900/20 rounded-lg p-4">
+                  <div className="text-2xl font-bold text-green-600 dark:text-green-400">
+                    {Number.isFinite(analysis.estimatedRounds) ? analysis.estimatedRounds.toFixed(1) : '—'}
+                  </div>
+                  <div className="text-sm text-green-800 dark:text-green-300">Rounds to clear</div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                    {analysis.totalHitPoints} enemy HP
+                  </div>
+                </div>
+                <div className="bg-purple-50 dark:bg-purple-900/20 rounded-lg p-4">
+                  <div className="text-2xl font-bold text-purple-600 dark:text-purple-400">
+                    {analysis.partyContext.averageLevel.toFixed(1)}
+                  </div>
+                  <div className="text-sm text-purple-800 dark:text-purple-300">Average level</div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                    {analysis.partyContext.hasHealer ? 'Has healer' : 'No healer'} · {analysis.partyContext.hasSupport ? 'Has support' : 'No support'}
+                  </div>
+                </div>
+              </div>
+
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Member</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Solo DPR</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Party DPR</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Save Bonus</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Buffs</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {analysis.members.map(member => (
+                      <tr key={member.buildId}>
+                        <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">
+                          {member.name} <span className="text-gray-500">(L{member.level})</span>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900 dark:text-white">{member.baseDPR.toFixed(1)}</td>
+                        <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900 dark:text-white">{member.partyDPR.toFixed(1)}</td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900 dark:text-white">
+                          {member.saveBonus > 0 ? `+${member.saveBonus.toFixed(1)}` : '—'}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">{member.buffs.join(', ') || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {analysis.buffs.length > 0 && (
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 space-y-2">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Party Buffs</h3>
+                  {analysis.buffs.map(buff => (
+                    <div key={buff.id} className="text-sm text-gray-700 dark:text-gray-300">
+                      <span className="font-medium">{buff.name}</span> from {buff.sourceName}: {buff.description} → {buff.recipients.join(', ')}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {pack && encounterResults.length > 0 && (
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 overflow-x-auto">
+                  <div className="px-4 pt-4 text-sm text-gray-600 dark:text-gray-400">
+                    Each member against {pack.name} alone, with party save bonuses applied
+                  </div>
+                  <table className="w-full">
+                    <thead className="bg-gray-50 dark:bg-gray-700">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Member</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Cleared</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Survived</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Damage Taken</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {encounterResults.map(({ buildId, name, results }) => (
+                        <tr key={buildId}>
+                          <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">{name}</td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-900 dark:text-white">{(results.duration.clearRate * 100).toFixed(0)}%</td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-900 dark:text-white">{(results.survival.probability * 100).toFixed(0)}%</td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-900 dark:text-white">{results.survival.damageTaken.mean.toFixed(1)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
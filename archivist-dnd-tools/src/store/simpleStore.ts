@@ -5,34 +5,17 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { Equipment, ClassLevel } from '../types/build';
-import type { FeatureSelection } from '../components/forms/ClassFeatureDisplay';
+import type { Build } from '../types/build';
+import type { Effect } from '../types/effects';
+import { buildFromSheet, withDerivedFields, migrateBuilds, type BuildSheet } from '../utils/buildConversion';
+import { setHomebrewEffects } from '../engine/effectRules';
 
-// Basic Build interface - extended to store detailed character data
-export interface SimpleBuild {
+// Adventuring party made of saved builds
+export interface Party {
   id: string;
   name: string;
-  level: number;
-  attackBonus: number;
-  damage: string;
-  notes?: string;
+  memberIds: string[]; // 3-6 build ids
   createdAt: string;
-  
-  // Detailed character data for editing
-  race?: string;
-  background?: string;
-  abilityScores?: {
-    strength: number;
-    dexterity: number;
-    constitution: number;
-    intelligence: number;
-    wisdom: number;
-    charisma: number;
-  };
-  abilityScoreMethod?: 'pointBuy' | 'standardArray' | 'manual';
-  classLevels?: ClassLevel[];
-  equipment?: Equipment;
-  featureSelections?: { [featureId: string]: FeatureSelection };
 }
 
 // Notification interface
@@ -46,19 +29,34 @@ export interface Notification {
 // Store interface
 interface SimpleStore {
   // Build management
-  builds: SimpleBuild[];
+  builds: Build[];
   selectedBuildId: string | null;
   
+  // Party management
+  parties: Party[];
+  
+  // Homebrew effects, saved as declarative rules and validated before they get here
+  homebrewEffects: Effect[];
+  
   // UI state
   notifications: Notification[];
   isLoading: boolean;
   
   // Build actions
-  addBuild: (build: Omit<SimpleBuild, 'id' | 'createdAt'>) => void;
-  updateBuild: (id: string, updates: Partial<SimpleBuild>) => void;
+  addBuild: (build: BuildSheet) => void;
+  updateBuild: (id: string, updates: Partial<BuildSheet>) => void;
   deleteBuild: (id: string) => void;
   selectBuild: (id: string | null) => void;
   
+  // Party actions
+  addParty: (party: Omit<Party, 'id' | 'createdAt'>) => void;
+  updateParty: (id: string, updates: Partial<Party>) => void;
+  deleteParty: (id: string) => void;
+  
+  // Homebrew actions
+  saveHomebrewEffect: (effect: Effect) => void;
+  deleteHomebrewEffect: (id: string) => void;
+  
   // UI actions
   addNotification: (notification: Omit<Notification, 'id' | 'timestamp'>) => void;
   removeNotification: (id: string) => void;
@@ -66,8 +64,8 @@ interface SimpleStore {
   setLoading: (loading: boolean) => void;
   
   // Utilities
-  getBuild: (id: string) => SimpleBuild | undefined;
-  getSelectedBuild: () => SimpleBuild | undefined;
+  getBuild: (id: string) => Build | undefined;
+  getSelectedBuild: () => Build | undefined;
 }
 
 // Generate simple ID
@@ -82,16 +80,14 @@ export const useSimpleStore = create<SimpleStore>()(
       // Initial state
       builds: [],
       selectedBuildId: null,
+      parties: [],
+      homebrewEffects: [],
       notifications: [],
       isLoading: false,
       
       // Build actions
       addBuild: (buildData) => {
-        const newBuild: SimpleBuild = {
-          ...buildData,
-          id: generateId(),
-          createdAt: new Date().toISOString(),
-        };
+        const newBuild = buildFromSheet(buildData, generateId());
         
         set((state) => ({
           builds: [...state.builds, newBuild],
@@ -109,7 +105,9 @@ export const useSimpleStore = create<SimpleStore>()(
       updateBuild: (id, updates) => {
         set((state) => ({
           builds: state.builds.map((build) =>
-            build.id === id ? { ...build, ...updates } : build
+            build.id === id
+              ? withDerivedFields({ ...build, ...updates, lastModified: new Date().toISOString() })
+              : build
           ),
         }));
         
@@ -126,6 +124,10 @@ export const useSimpleStore = create<SimpleStore>()(
         set((state) => ({
           builds: state.builds.filter((build) => build.id !== id),
           selectedBuildId: state.selectedBuildId === id ? null : state.selectedBuildId,
+          parties: state.parties.map((party) => ({
+            ...party,
+            memberIds: party.memberIds.filter((memberId) => memberId !== id),
+          })),
         }));
         
         get().addNotification({
@@ -138,6 +140,82 @@ export const useSimpleStore = create<SimpleStore>()(
         set({ selectedBuildId: id });
       },
       
+      // Party actions
+      addParty: (partyData) => {
+        const newParty: Party = {
+          ...partyData,
+          id: generateId(),
+          createdAt: new Date().toISOString(),
+        };
+        
+        set((state) => ({
+          parties: [...state.parties, newParty],
+        }));
+        
+        get().addNotification({
+          type: 'success',
+          message: `Party "${newParty.name}" created successfully!`,
+        });
+      },
+      
+      updateParty: (id, updates) => {
+        set((state) => ({
+          parties: state.parties.map((party) =>
+            party.id === id ? { ...party, ...updates } : party
+          ),
+        }));
+      },
+      
+      deleteParty: (id) => {
+        const party = get().parties.find((p) => p.id === id);
+        
+        set((state) => ({
+          parties: state.parties.filter((p) => p.id !== id),
+        }));
+        
+        get().addNotification({
+          type: 'warning',
+          message: `Party "${party?.name || 'Unknown party'}" deleted.`,
+        });
+      },
+      
+      // Homebrew actions
+      saveHomebrewEffect: (effect) => {
+        const exists = get().homebrewEffects.some((e) => e.id === effect.id);
+        
+        set((state) => ({
+          homebrewEffects: exists
+            ? state.homebrewEffects.map((e) => (e.id === effect.id ? effect : e))
+            : [...state.homebrewEffects, effect],
+        }));
+        setHomebrewEffects(get().homebrewEffects);
+        
+        get().addNotification({
+          type: 'success',
+          message: `Homebrew effect "${effect.name}" ${exists ? 'updated' : 'saved'}.`,
+        });
+      },
+      
+      deleteHomebrewEffect: (id) => {
+        const effect = get().homebrewEffects.find((e) => e.id === id);
+        
+        // Builds using the effect drop it too, so no build points at a missing effect
+        set((state) => ({
+          homebrewEffects: state.homebrewEffects.filter((e) => e.id !== id),
+          builds: state.builds.map((build) =>
+            build.homebrewEffects?.includes(id)
+              ? { ...build, homebrewEffects: build.homebrewEffects.filter((effectId) => effectId !== id) }
+              : build
+          ),
+        }));
+        setHomebrewEffects(get().homebrewEffects);
+        
+        get().addNotification({
+          type: 'warning',
+          message: `Homebrew effect "${effect?.name || id}" deleted.`,
+        });
+      },
+      
       // UI actions
       addNotification: (notificationData) => {
         const notification: Notification = {
@@ -183,10 +261,31 @@ export const useSimpleStore = create<SimpleStore>()(
     {
       name: 'archivist-simple-storage', // localStorage key
       partialize: (state) => ({
-        // Only persist builds and selected build
+        // Only persist builds, selected build, parties and the homebrew effects builds use
         builds: state.builds,
         selectedBuildId: state.selectedBuildId,
+        parties: state.parties,
+        homebrewEffects: state.homebrewEffects,
       }),
+      version: 3,
+      migrate: (persistedState, version) => {
+        const state = persistedState as { builds?: unknown[] };
+        let builds = state?.builds || [];
+        // Version 0 saved builds as SimpleBuilds; upgrade them so saved characters keep working
+        if (version === 0) {
+          builds = migrateBuilds(builds);
+        }
+        // Version 1 guessed spells from class and level, and version 2 left ASIs and half-feats out of
+        // ability scores; derive both from the sheet instead, seeding base scores for builds without them
+        if (version < 3) {
+          builds = (builds as Build[]).map(withDerivedFields);
+        }
+        return { ...state, builds } as SimpleStore;
+      },
+      // Saved effects hold rules only; compile them so the simulators can find them by id
+      onRehydrateStorage: () => (state) => {
+        setHomebrewEffects(state?.homebrewEffects || []);
+      },
     }
   )
 );
@@ -194,4 +293,6 @@ export const useSimpleStore = create<SimpleStore>()(
 // Export individual selectors for easier use
 export const useBuilds = () => useSimpleStore((state) => state.builds);
 export const useSelectedBuild = () => useSimpleStore((state) => state.getSelectedBuild());
+export const useParties = () => useSimpleStore((state) => state.parties);
+export const useHomebrewEffects = () => useSimpleStore((state) => state.homebrewEffects);
 export const useNotifications = () => useSimpleStore((state) => state.notifications);
\ No newline at end of file
@@ -48,11 +48,20 @@ export interface Armor {
   magic?: number;
 }
 
+// A worn or carried item; itemId names a magic item in the effect library
+export interface Accessory {
+  name: string;
+  properties?: string[];
+  itemId?: string;
+  attuned?: boolean;
+  charges?: number; // charges left, for items that have them
+}
+
 export interface Equipment {
   mainHand?: Weapon | null;
   offHand?: Weapon | null;
   armor?: Armor | null;
-  accessories?: Array<{ name: string; properties?: string[] }>;
+  accessories?: Accessory[];
 }
 
 export interface Policies {
@@ -61,8 +70,39 @@ export interface Policies {
   precast: string[];
   buffAssumptions: 'none' | 'conservative' | 'moderate' | 'optimal';
   powerAttackThresholdEV: number;
+  legendaryResistancePolicy?: 'direct' | 'bait'; // Burn Legendary Resistances with cheap control spells first
+  // Spending policy saved from the Adventuring Day optimizer
+  smiteSlotLevels?: number[]; // slot levels Divine Smite may spend; every level when unset
+  actionSurgeTiming?: 'never' | 'opening-round' | 'toughest-fight';
+  quickenedSpellTiming?: 'never' | 'opening-round' | 'every-round';
+}
+
+// How a build's base ability scores were generated
+export type AbilityScoreMethod = 'pointBuy' | 'standardArray' | 'rolled' | 'manual';
+
+// Choices made for a class feature in the Build Lab: subclass options, ASIs and feats
+export interface FeatureSelection {
+  featureId: string;
+  selections: string[];
+  improvements?: {
+    type: string;
+    selections: string[];
+    customData?: Record<string, number>;
+    asi?: { [ability: string]: number };
+    feat?: string;
+    featAbility?: string; // For half-feat ability score choice
+  }[];
+}
+
+// Spells chosen in the Build Lab for one spellcasting class, as spell catalogue ids
+export interface ClassSpellSelection {
+  cantrips: string[];
+  spells: string[]; // spells known, or today's prepared spells for classes that prepare
+  spellbook?: string[]; // Wizard: spells copied into the spellbook, which prepared spells come from
+  mysticArcanum?: string[]; // Warlock: one spell of each level from 6th to 9th, cast once per long rest
 }
 
+// The one build model: saved by the Build Lab, read by every module and engine
 export interface Build {
   id: string;
   name: string;
@@ -80,6 +120,39 @@ export interface Build {
   version: string;
   createdAt: string;
   lastModified: string;
+
+  // Character sheet details from the Build Lab
+  race?: string;
+  baseAbilities?: Abilities; // scores before racial bonuses, ASIs, feats and magic items; abilities is recomputed from these on save
+  racialAbilityBonuses?: Partial<Abilities>; // racial bonuses moved to other abilities with Tasha's custom origin rules
+  background?: string;
+  notes?: string;
+  abilityScoreMethod?: AbilityScoreMethod;
+  featureSelections?: { [featureId: string]: FeatureSelection };
+  spellSelections?: { [className: string]: ClassSpellSelection }; // keyed by lowercase class name; spells is recomputed from these on save
+  homebrewEffects?: string[]; // ids of saved homebrew effects the simulators apply
+
+  // Main attack summary computed by the Build Lab
+  attackBonus?: number;
+  damage?: string;
+}
+
+// Build shape the Build Lab saved before Build became the only model; kept for migration and import
+export interface SimpleBuild {
+  id: string;
+  name: string;
+  level: number;
+  attackBonus: number;
+  damage: string;
+  notes?: string;
+  createdAt: string;
+  race?: string;
+  background?: string;
+  abilityScores?: Abilities;
+  abilityScoreMethod?: AbilityScoreMethod;
+  classLevels?: ClassLevel[];
+  equipment?: Equipment;
+  featureSelections?: { [featureId: string]: FeatureSelection };
 }
 
 // Target/Enemy interface for combat simulation
@@ -134,6 +207,13 @@ export interface SpellSlotProgression {
   9?: number;
 }
 
+// Warlock Pact Magic: every slot is the same level
+export interface PactMagicProgression {
+  level: number;
+  slots: number;
+  slotLevel: number;
+}
+
 export interface ClassProgression {
   class: string;
   hitDie: number;
@@ -145,6 +225,7 @@ export interface ClassProgression {
   armorProficiencies: string[];
   features: ClassFeature[];
   spellSlots?: SpellSlotProgression[];
+  pactMagic?: PactMagicProgression[];
   attacksPerAction: { level: number; attacks: number }[];
   proficiencyBonus: { level: number; bonus: number }[];
 }
@@ -1,4 +1,18 @@
-import type { Build, Target, CombatContext } from './build';
+import type { Abilities, Build, Target, CombatContext } from './build';
+
+// A d20 reroll or substitution and when it's used
+export type D20Reroll =
+  | { type: 'reroll-ones' } // Halfling Luck: reroll a natural 1 on each d20 and use the new roll
+  | { type: 'reroll-on-miss' } // Lucky: after a miss, roll another d20 and use any of the dice
+  | { type: 'replace'; value?: number } // Portent: a die rolled earlier replaces the d20; without a value it's rolled per combat
+  | { type: 'add-on-miss'; dice: string }; // Precision Attack: add a die after seeing a miss
+
+// A damage die reroll or substitution
+export interface DamageReroll {
+  condition: 'min' | 'max' | number[]; // Faces to reroll: 'min' is a 1, 'max' the die's highest face
+  once?: boolean; // Reroll once and use the new roll (default), or until another face comes up
+  minimum?: number; // Faces below this count as this, e.g. Elemental Adept treats 1s as 2s
+}
 
 // Modifier types for different aspects of combat
 export interface AttackModifier {
@@ -6,6 +20,7 @@ export interface AttackModifier {
   advantageState?: 'advantage' | 'disadvantage' | 'elven-accuracy';
   critRange?: number;
   bonusDice?: Array<{ dice: string; type: string }>;
+  reroll?: D20Reroll;
 }
 
 export interface DamageModifier {
@@ -13,10 +28,7 @@ export interface DamageModifier {
   dice?: string;
   damageType?: string;
   multiplier?: number;
-  reroll?: {
-    condition: 'min' | 'max' | number[];
-    once?: boolean;
-  };
+  reroll?: DamageReroll;
 }
 
 export interface SaveModifier {
@@ -83,6 +95,49 @@ export interface ResourceCost {
   restType?: 'short' | 'long' | 'turn' | 'round';
 }
 
+// Declarative rules: serializable conditions plus modifiers that stand in for hook functions,
+// so homebrew effects can be saved as JSON and compiled into hooks when loaded
+export type EffectRuleHook = 'onAttackRoll' | 'onHit' | 'onCrit' | 'onSave';
+
+export interface EffectRuleCondition {
+  weaponProperties?: string[]; // any of, e.g. 'heavy', 'finesse'; 'melee' and 'ranged' match the weapon type
+  advantage?: boolean; // the attack roll has advantage
+  firstAttackOnly?: boolean;
+  minLevel?: number; // total character level
+  targetTypes?: string[]; // e.g. 'undead', 'fiend'
+  targetConditions?: string[]; // e.g. 'prone', 'frightened'
+  expression?: string; // rule expression, e.g. `target.type == "undead" and attack.number == 0`
+}
+
+export type EffectRule =
+  | { hook: 'onAttackRoll'; when?: EffectRuleCondition; modifier: AttackModifier }
+  | { hook: 'onHit' | 'onCrit'; when?: EffectRuleCondition; modifier: DamageModifier }
+  | { hook: 'onSave'; when?: EffectRuleCondition; modifier: SaveModifier };
+
+// An action an effect grants, such as a Dragonborn's breath weapon
+export interface EffectAction {
+  name: string;
+  damageByLevel: Record<number, string>; // character level the damage starts at -> dice
+  damageType: string;
+  save: 'STR' | 'DEX' | 'CON' | 'INT' | 'WIS' | 'CHA';
+  saveDCAbility: keyof Abilities; // DC is 8 + this modifier + proficiency bonus
+  halfOnSave: boolean;
+  area?: string; // e.g. "15 ft. cone"
+}
+
+// A magic item's rarity, attunement and activation; its charges are usage.charges
+export interface MagicItemDetails {
+  rarity: 'common' | 'uncommon' | 'rare' | 'very rare' | 'legendary';
+  requiresAttunement: boolean;
+  appliesTo?: 'weapon' | 'armor'; // enchants the equipped main-hand weapon or armor rather than being worn on its own
+  activation?: {
+    type: 'action' | 'bonus' | 'reaction';
+    description: string;
+    chargeCost?: number;
+  };
+  rechargeDice?: string; // charges regained at dawn, e.g. "1d6+1"
+}
+
 // Main Effect interface
 export interface Effect {
   id: string;
@@ -93,9 +148,12 @@ export interface Effect {
     page?: number;
     section?: string;
   };
-  type: 'feat' | 'feature' | 'spell' | 'item' | 'condition' | 'buff' | 'debuff';
+  type: 'feat' | 'feature' | 'spell' | 'item' | 'condition' | 'buff' | 'debuff' | 'race';
   level?: number; // for spells and class features
   prerequisites?: string[];
+  subraceOf?: string; // id of the race whose traits a subrace adds to
+  action?: EffectAction;
+  magicItem?: MagicItemDetails;
   
   // Effect hooks - these modify game mechanics
   hooks: {
@@ -111,6 +169,9 @@ export interface Effect {
     onRoundStart?: (context: CombatContext) => void;
     onRoundEnd?: (context: CombatContext) => void;
   };
+
+  // Declarative hooks; compiled into `hooks` by the effect rules engine
+  rules?: EffectRule[];
   
   // Static modifiers
   modifiers: {
@@ -120,9 +181,11 @@ export interface Effect {
     savingThrows?: Partial<Record<'STR' | 'DEX' | 'CON' | 'INT' | 'WIS' | 'CHA', number>>;
     speed?: number;
     hitPoints?: number;
+    hitPointsPerLevel?: number;
     critRange?: number;
-    advantageOn?: string[]; // conditions for advantage
-    disadvantageOn?: string[]; // conditions for disadvantage
+    abilityScores?: Partial<Abilities>;
+    abilityScoreMinimums?: Partial<Abilities>; // scores an item sets unless they're already higher, e.g. Strength 19
+    resistances?: string[]; // damage types
   };
   
   // Stacking and interaction rules
@@ -155,7 +218,7 @@ export interface Effect {
     damageTypes?: string[];
     targetTypes?: string[];
     combatPhase?: 'action' | 'bonus' | 'reaction' | 'free' | 'movement';
-    requirements?: string[]; // arbitrary requirements
+    requirements?: string[]; // rule expressions that must all hold for the effect to apply
   };
   
   // Metadata
@@ -170,6 +233,7 @@ export interface EffectLibrary {
   spells: Record<string, Effect>;
   items: Record<string, Effect>;
   conditions: Record<string, Effect>;
+  races: Record<string, Effect>;
 }
 
 // Applied effect with runtime state
@@ -3,6 +3,8 @@ export * from './build';
 export * from './effects';
 export * from './simulation';
 
+import type { Effect } from './effects';
+
 // UI-specific types
 export interface UIState {
   currentModule: 'dpr' | 'leveling' | 'compare' | 'buildLab' | 'library';
@@ -38,7 +40,7 @@ export interface SaveData {
   version: string;
   builds: any[];
   settings: any;
-  customEffects: any[];
+  customEffects: Effect[]; // homebrew effects, saved as rules without hook functions
   lastModified: string;
 }
 
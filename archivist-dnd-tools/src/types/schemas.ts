@@ -2,19 +2,20 @@ import { z } from 'zod';
 
 // Abilities schema
 export const AbilitiesSchema = z.object({
-  STR: z.number().int().min(1).max(30),
-  DEX: z.number().int().min(1).max(30),
-  CON: z.number().int().min(1).max(30),
-  INT: z.number().int().min(1).max(30),
-  WIS: z.number().int().min(1).max(30),
-  CHA: z.number().int().min(1).max(30),
+  strength: z.number().int().min(1).max(30),
+  dexterity: z.number().int().min(1).max(30),
+  constitution: z.number().int().min(1).max(30),
+  intelligence: z.number().int().min(1).max(30),
+  wisdom: z.number().int().min(1).max(30),
+  charisma: z.number().int().min(1).max(30),
 });
 
 // Class level schema
 export const ClassLevelSchema = z.object({
   class: z.string().min(1),
-  subclass: z.string().min(1),
+  subclass: z.string().optional(),
   level: z.number().int().min(1).max(20),
+  hitDie: z.number().int().min(6).max(12),
 });
 
 // Proficiencies schema
@@ -28,41 +29,62 @@ export const ProficienciesSchema = z.object({
 
 // Weapon schema
 export const WeaponSchema = z.object({
-  type: z.string().min(1),
-  die: z.string().regex(/^\d*d\d+(\+\d+)?$/),
-  magic: z.number().int().min(0).max(5),
+  name: z.string().min(1),
+  type: z.enum(['melee', 'ranged']),
+  damage: z.string().regex(/^\d*d\d+(\+\d+)?$/),
+  damageType: z.string(),
   properties: z.array(z.string()),
-  damageType: z.string().optional(),
+  category: z.enum(['simple', 'martial']),
+  cost: z.string(),
+  weight: z.number().min(0),
+  range: z.string().optional(),
+  magic: z.number().int().min(0).max(5).optional(),
   toHitBonus: z.number().optional(),
   damageBonus: z.number().optional(),
 });
 
 // Armor schema
 export const ArmorSchema = z.object({
-  type: z.string().min(1),
+  name: z.string().min(1),
+  type: z.enum(['light', 'medium', 'heavy']),
   ac: z.number().int().min(10).max(25),
-  magic: z.number().int().min(0).max(5),
-  stealthDisadvantage: z.boolean().optional(),
-  properties: z.array(z.string()).optional(),
+  stealthDisadvantage: z.boolean(),
+  strengthRequirement: z.number().int().optional(),
+  cost: z.string(),
+  weight: z.number().min(0),
+  magic: z.number().int().min(0).max(5).optional(),
 });
 
 // Equipment schema
 export const EquipmentSchema = z.object({
-  mainHand: WeaponSchema.optional(),
-  offHand: z.union([
-    WeaponSchema,
-    z.object({
-      type: z.literal('shield'),
-      acBonus: z.number().int().min(1).max(5),
-    })
-  ]).optional(),
-  armor: ArmorSchema.optional(),
-  items: z.array(z.object({
+  mainHand: WeaponSchema.nullable().optional(),
+  offHand: WeaponSchema.nullable().optional(),
+  armor: ArmorSchema.nullable().optional(),
+  accessories: z.array(z.object({
     name: z.string(),
     properties: z.array(z.string()).optional(),
+    itemId: z.string().optional(),
+    attuned: z.boolean().optional(),
+    charges: z.number().int().min(0).optional(),
   })).optional(),
 });
 
+// Feature selection schema: choices made for one class feature in the Build Lab
+export const FeatureSelectionSchema = z.object({
+  featureId: z.string(),
+  selections: z.array(z.string()),
+  // The class feature form saves a single improvement object rather than an array
+  improvements: z.any().optional(),
+});
+
+// Spells chosen for one spellcasting class in the Build Lab
+export const ClassSpellSelectionSchema = z.object({
+  cantrips: z.array(z.string()),
+  spells: z.array(z.string()),
+  spellbook: z.array(z.string()).optional(),
+  mysticArcanum: z.array(z.string()).optional(),
+});
+
 // Policies schema
 export const PoliciesSchema = z.object({
   smitePolicy: z.enum(['never', 'onCrit', 'optimal', 'always']),
@@ -70,6 +92,10 @@ export const PoliciesSchema = z.object({
   precast: z.array(z.string()),
   buffAssumptions: z.enum(['none', 'conservative', 'moderate', 'optimal']),
   powerAttackThresholdEV: z.number(),
+  legendaryResistancePolicy: z.enum(['direct', 'bait']).optional(),
+  smiteSlotLevels: z.array(z.number().int().min(1).max(9)).optional(),
+  actionSurgeTiming: z.enum(['never', 'opening-round', 'toughest-fight']).optional(),
+  quickenedSpellTiming: z.enum(['never', 'opening-round', 'every-round']).optional(),
 });
 
 // Main build schema
@@ -77,7 +103,7 @@ export const BuildSchema = z.object({
   id: z.string().min(1),
   name: z.string().min(1).max(100),
   description: z.string().optional(),
-  levels: z.array(ClassLevelSchema).min(1).max(20),
+  levels: z.array(ClassLevelSchema).max(20),
   abilities: AbilitiesSchema,
   proficiencyBonus: z.number().int().min(2).max(6),
   equipment: EquipmentSchema,
@@ -90,7 +116,22 @@ export const BuildSchema = z.object({
   version: z.string(),
   createdAt: z.string(),
   lastModified: z.string(),
-});
+  race: z.string().optional(),
+  baseAbilities: AbilitiesSchema.optional(),
+  racialAbilityBonuses: AbilitiesSchema.partial().optional(),
+  background: z.string().optional(),
+  notes: z.string().optional(),
+  abilityScoreMethod: z.enum(['pointBuy', 'standardArray', 'rolled', 'manual']).optional(),
+  featureSelections: z.record(z.string(), FeatureSelectionSchema).optional(),
+  spellSelections: z.record(z.string(), ClassSpellSelectionSchema).optional(),
+  homebrewEffects: z.array(z.string()).optional(),
+  attackBonus: z.number().optional(),
+  damage: z.string().optional(),
+}).refine(
+  // Only builds migrated from a SimpleBuild without class levels go without, on their saved attack line
+  build => build.levels.length > 0 || (build.attackBonus !== undefined && Boolean(build.damage)),
+  { message: 'A build needs at least one class level', path: ['levels'] }
+);
 
 // Target schema
 export const TargetSchema = z.object({
@@ -135,6 +176,67 @@ export const ResourceCostSchema = z.object({
   restType: z.enum(['short', 'long', 'turn', 'round']).optional(),
 });
 
+// Single dice expression like "1d6"; the damage engine rolls one expression per hook
+const DiceSchema = z.string().regex(/^\d+d\d+$/, 'Dice must look like 1d6');
+
+const DamageModifierSchema = z.object({
+  bonus: z.number().optional(),
+  dice: DiceSchema.optional(),
+  damageType: z.string().optional(),
+  multiplier: z.number().min(0).optional(),
+  reroll: z.object({
+    condition: z.union([z.enum(['min', 'max']), z.array(z.number().int().min(1))]),
+    once: z.boolean().optional(),
+    minimum: z.number().int().min(1).optional(),
+  }).optional(),
+});
+
+const D20RerollSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('reroll-ones') }),
+  z.object({ type: z.literal('reroll-on-miss') }),
+  z.object({ type: z.literal('replace'), value: z.number().int().min(1).max(20).optional() }),
+  z.object({ type: z.literal('add-on-miss'), dice: DiceSchema }),
+]);
+
+// Declarative effect rule schemas
+export const EffectRuleConditionSchema = z.object({
+  weaponProperties: z.array(z.string()).optional(),
+  advantage: z.boolean().optional(),
+  firstAttackOnly: z.boolean().optional(),
+  minLevel: z.number().int().min(1).max(20).optional(),
+  targetTypes: z.array(z.string()).optional(),
+  targetConditions: z.array(z.string()).optional(),
+  expression: z.string().optional(),
+});
+
+export const EffectRuleSchema = z.discriminatedUnion('hook', [
+  z.object({
+    hook: z.literal('onAttackRoll'),
+    when: EffectRuleConditionSchema.optional(),
+    modifier: z.object({
+      toHitBonus: z.number().int().optional(),
+      advantageState: z.enum(['advantage', 'disadvantage', 'elven-accuracy']).optional(),
+      critRange: z.number().int().min(2).max(20).optional(),
+      bonusDice: z.array(z.object({ dice: z.string().regex(/^-?\d+d\d+$/), type: z.string() })).optional(),
+      reroll: D20RerollSchema.optional(),
+    }),
+  }),
+  z.object({
+    hook: z.enum(['onHit', 'onCrit']),
+    when: EffectRuleConditionSchema.optional(),
+    modifier: DamageModifierSchema,
+  }),
+  z.object({
+    hook: z.literal('onSave'),
+    when: EffectRuleConditionSchema.optional(),
+    modifier: z.object({
+      dcBonus: z.number().int().optional(),
+      advantageState: z.enum(['advantage', 'disadvantage']).optional(),
+      rerollFailed: z.boolean().optional(),
+    }),
+  }),
+]);
+
 // Effect schema
 export const EffectSchema = z.object({
   id: z.string().min(1),
@@ -145,24 +247,34 @@ export const EffectSchema = z.object({
     page: z.number().int().optional(),
     section: z.string().optional(),
   }),
-  type: z.enum(['feat', 'feature', 'spell', 'item', 'condition', 'buff', 'debuff']),
+  type: z.enum(['feat', 'feature', 'spell', 'item', 'condition', 'buff', 'debuff', 'race']),
   level: z.number().int().min(0).max(20).optional(),
   prerequisites: z.array(z.string()).optional(),
+  subraceOf: z.string().optional(),
+  magicItem: z.object({
+    rarity: z.enum(['common', 'uncommon', 'rare', 'very rare', 'legendary']),
+    requiresAttunement: z.boolean(),
+    appliesTo: z.enum(['weapon', 'armor']).optional(),
+    activation: z.object({
+      type: z.enum(['action', 'bonus', 'reaction']),
+      description: z.string(),
+      chargeCost: z.number().int().min(1).optional(),
+    }).optional(),
+    rechargeDice: z.string().optional(),
+  }).optional(),
+  rules: z.array(EffectRuleSchema).optional(),
   modifiers: z.object({
     toHit: z.number().optional(),
-    damage: z.object({
-      bonus: z.number().optional(),
-      dice: z.string().optional(),
-      damageType: z.string().optional(),
-      multiplier: z.number().optional(),
-    }).optional(),
+    damage: DamageModifierSchema.optional(),
     ac: z.number().optional(),
     savingThrows: z.record(z.string(), z.number()).optional(),
     speed: z.number().optional(),
     hitPoints: z.number().optional(),
+    hitPointsPerLevel: z.number().optional(),
     critRange: z.number().int().min(1).max(20).optional(),
-    advantageOn: z.array(z.string()).optional(),
-    disadvantageOn: z.array(z.string()).optional(),
+    abilityScores: AbilitiesSchema.partial().optional(),
+    abilityScoreMinimums: AbilitiesSchema.partial().optional(),
+    resistances: z.array(z.string()).optional(),
   }),
   stacking: z.object({
     replaces: z.array(z.string()).optional(),
@@ -0,0 +1,337 @@
+/**
+ * Adventuring Day Simulator
+ * Runs a build through a day of encounters, spending and recovering resources between fights
+ */
+
+import type { Build } from '../types/build';
+import type { EffectAction } from '../types/effects';
+import { getCharacterLevel } from './buildConversion';
+import type { CombatScenario } from '../engine/monteCarlo';
+import { parseDiceExpression } from '../engine/damage';
+import { getActionDamage, getActionSaveDC, getRacialAction } from '../engine/races';
+import { ENCOUNTER_PACKS, type EnemyTemplate } from '../data/encounters/encounterPacks';
+import { getSpell, type SpellDefinition } from '../data/spellCatalog';
+import { DPRAnalysisEngine } from './dprAnalysis';
+import { ResourceManager } from './resourceManagement';
+import type { ClassResources } from './multiclassSpellcasting';
+import {
+  calculateSpellDamage,
+  calculateSpellSaveDC,
+  calculateSpellAttackBonus,
+  getTargetSaveBonus,
+  type SavingThrowAbility
+} from './spellCalculations';
+
+// One fight in the day and whether the party short rests after it
+export interface DayEncounterPlan {
+  packId: string;
+  rounds: number;
+  shortRestAfter: boolean;
+}
+
+export interface DayEncounterResult {
+  packId: string;
+  packName: string;
+  rounds: number;
+  damage: number;
+  dpr: number;
+  spellsCast: string[];
+  resourcesRemaining: Record<string, number>; // resource label -> amount left after the fight
+  resourcePercentage: number;
+  shortRestAfter: boolean;
+  restored: Record<string, number>; // what the short rest after this fight gave back
+}
+
+export interface AdventuringDayResult {
+  buildId: string;
+  name: string;
+  encounters: DayEncounterResult[];
+  totalDamage: number;
+  totalRounds: number;
+  averageDPR: number;
+  shortRests: number;
+}
+
+// Resources worth reporting, in display order
+const TRACKED_RESOURCES: Array<{ key: keyof ClassResources; label: string }> = [
+  { key: 'spellSlots', label: 'Spell Slots' },
+  { key: 'warlockSlots', label: 'Pact Slots' },
+  { key: 'sorceryPoints', label: 'Sorcery Points' },
+  { key: 'actionSurges', label: 'Action Surge' },
+  { key: 'superiorityDice', label: 'Superiority Dice' },
+  { key: 'kiPoints', label: 'Ki' },
+  { key: 'rageUses', label: 'Rage' },
+  { key: 'channelDivinityUses', label: 'Channel Divinity' },
+  { key: 'bardInspiration', label: 'Bardic Inspiration' }
+];
+
+const SAVE_ABILITIES: SavingThrowAbility[] = ['strength', 'dexterity', 'constitution', 'intelligence', 'wisdom', 'charisma'];
+
+const SAVE_ABILITY_NAMES: Record<EffectAction['save'], SavingThrowAbility> = {
+  STR: 'strength', DEX: 'dexterity', CON: 'constitution', INT: 'intelligence', WIS: 'wisdom', CHA: 'charisma'
+};
+
+// Slot the build can spend this round
+interface SlotOption {
+  level: number;
+  pactMagic: boolean;
+}
+
+export class AdventuringDaySimulator {
+  /**
+   * Run one build through every encounter in the plan, carrying resources between fights
+   */
+  static simulateDay(build: Build, plan: DayEncounterPlan[]): AdventuringDayResult {
+    const resources = new ResourceManager(build);
+    const encounters: DayEncounterResult[] = [];
+    let shortRests = 0;
+
+    // A racial action such as a breath weapon, with its own uses per short rest
+    const racialUsesPerRest = getRacialAction(build.race)?.effect.usage?.perShortRest || 0;
+    const racialUses = { remaining: racialUsesPerRest };
+
+    plan.forEach((encounter, index) => {
+      const pack = ENCOUNTER_PACKS[encounter.packId];
+      if (!pack) return;
+
+      resources.nextEncounter();
+      const result = this.simulateEncounter(build, pack.enemies, encounter.rounds, resources, {
+        // Leveled slots come back on a long rest, pact slots on the next short rest
+        spellSlots: plan.length - index,
+        pactSlots: this.getEncountersUntilShortRest(plan, index)
+      }, racialUses);
+
+      const isLast = index === plan.length - 1;
+      const restored = encounter.shortRestAfter && !isLast ? resources.takeShortRest().resourcesRestored : {};
+      if (encounter.shortRestAfter && !isLast) {
+        shortRests++;
+        racialUses.remaining = racialUsesPerRest;
+      }
+
+      encounters.push({
+        packId: pack.id,
+        packName: pack.name,
+        rounds: encounter.rounds,
+        damage: result.damage,
+        dpr: encounter.rounds > 0 ? result.damage / encounter.rounds : 0,
+        spellsCast: result.spellsCast,
+        resourcesRemaining: result.resourcesRemaining,
+        resourcePercentage: result.resourcePercentage,
+        shortRestAfter: encounter.shortRestAfter && !isLast,
+        restored
+      });
+    });
+
+    const totalDamage = encounters.reduce((sum, encounter) => sum + encounter.damage, 0);
+    const totalRounds = encounters.reduce((sum, encounter) => sum + encounter.rounds, 0);
+
+    return {
+      buildId: build.id,
+      name: build.name,
+      encounters,
+      totalDamage,
+      totalRounds,
+      averageDPR: totalRounds > 0 ? totalDamage / totalRounds : 0,
+      shortRests
+    };
+  }
+
+  /**
+   * Day plan from a combat scenario: its encounter count and length, with short rests
+   * after every second fight when the scenario allows them
+   */
+  static createDayPlan(packId: string, scenario: CombatScenario): DayEncounterPlan[] {
+    const allowsShortRests = scenario.restType === 'short' || scenario.restType === 'mixed';
+
+    return Array.from({ length: Math.max(1, scenario.encounters) }, (_, index) => ({
+      packId,
+      rounds: scenario.rounds,
+      shortRestAfter: allowsShortRests && index % 2 === 1
+    }));
+  }
+
+  /**
+   * Fight one encounter round by round: use a racial action or cast a leveled spell when it beats
+   * the at-will option and uses or the slot budget allow, otherwise attack or cast a cantrip
+   */
+  private static simulateEncounter(
+    build: Build,
+    enemies: EnemyTemplate[],
+    rounds: number,
+    resources: ResourceManager,
+    encountersUntilRefresh: { spellSlots: number; pactSlots: number },
+    racialUses: { remaining: number } = { remaining: 0 }
+  ): {
+    damage: number;
+    spellsCast: string[];
+    resourcesRemaining: Record<string, number>;
+    resourcePercentage: number;
+  } {
+    const weaponDPR = this.getWeaponDPR(build, enemies);
+    const atWillDPR = Math.max(weaponDPR, this.getBestSpellDamage(build, enemies, 0));
+    const racialAction = this.getRacialActionDamage(build, enemies);
+    const spellsCast: string[] = [];
+    let damage = 0;
+
+    // Spread slots over the fights left before they come back instead of dumping them all in the first
+    const state = resources.getState();
+    const slotBudget = Math.ceil(
+      this.countSlots(state.current.spellSlots) / Math.max(1, encountersUntilRefresh.spellSlots)
+    );
+    const pactBudget = Math.ceil(
+      (state.current.warlockSlots?.slots || 0) / Math.max(1, encountersUntilRefresh.pactSlots)
+    );
+    let slotsSpent = 0;
+    let pactSpent = 0;
+
+    for (let round = 1; round <= rounds; round++) {
+      resources.nextRound();
+      let roundDamage = atWillDPR;
+
+      const options = this.getSlotOptions(resources.getState().current)
+        .filter(option => (option.pactMagic ? pactSpent < pactBudget : slotsSpent < slotBudget));
+      const best = options
+        .map(option => ({ option, ...this.getBestSpell(build, enemies, option.level) }))
+        .sort((a, b) => b.damage - a.damage)[0];
+
+      // The racial action takes the round's action when nothing else castable does more
+      if (racialAction && racialUses.remaining > 0 && racialAction.damage > Math.max(atWillDPR, best?.damage || 0)) {
+        roundDamage = racialAction.damage;
+        spellsCast.push(racialAction.name);
+        racialUses.remaining--;
+      } else if (best && best.damage > atWillDPR && resources.useSpellSlot(best.option.level, best.option.pactMagic, best.damage)) {
+        roundDamage = best.damage;
+        spellsCast.push(`${best.name} (${best.option.level})`);
+        if (best.option.pactMagic) pactSpent++;
+        else slotsSpent++;
+      }
+
+      // Action Surge on the opening round buys a second attack action
+      if (round === 1 && weaponDPR > 0 && resources.useResource('actionSurges', 1, 'damage', weaponDPR)) {
+        roundDamage += weaponDPR;
+      }
+
+      damage += roundDamage;
+    }
+
+    const resourcesRemaining: Record<string, number> = {};
+    for (const { key, label } of TRACKED_RESOURCES) {
+      if (resources.getMaximumResource(key) > 0) {
+        resourcesRemaining[label] = resources.getCurrentResource(key);
+      }
+    }
+
+    return {
+      damage,
+      spellsCast,
+      resourcesRemaining,
+      resourcePercentage: resources.calculateResourcePercentage()
+    };
+  }
+
+  /**
+   * Weapon DPR against the pack, weighting each AC by the hit points fought through at it
+   */
+  static getWeaponDPR(build: Build, enemies: EnemyTemplate[]): number {
+    return this.weightByHitPoints(enemies, enemy =>
+      DPRAnalysisEngine.calculateDPRAtAC(build, enemy.armorClass, 'normal').dpr
+    );
+  }
+
+  /**
+   * Expected damage of the race's action, such as a Dragonborn breath weapon, against one enemy
+   * of the pack, counted against a single target like the damage spells
+   */
+  private static getRacialActionDamage(build: Build, enemies: EnemyTemplate[]): { name: string; damage: number } | null {
+    const racial = getRacialAction(build.race);
+    if (!racial) return null;
+
+    const { action } = racial;
+    const dice = parseDiceExpression(getActionDamage(action, getCharacterLevel(build)));
+    const average = dice.count * (dice.sides + 1) / 2 + dice.bonus;
+    const saveDC = getActionSaveDC(action, build);
+
+    return {
+      name: action.name,
+      damage: this.weightByHitPoints(enemies, enemy => {
+        const saveBonus = getTargetSaveBonus(enemy, SAVE_ABILITY_NAMES[action.save]);
+        const saveChance = Math.max(0.05, Math.min(0.95, (saveBonus + 11 - saveDC) / 20));
+        return average * (1 - saveChance) + (action.halfOnSave ? (average / 2) * saveChance : 0);
+      })
+    };
+  }
+
+  private static getBestSpellDamage(build: Build, enemies: EnemyTemplate[], slotLevel: number): number {
+    return this.getBestSpell(build, enemies, slotLevel).damage;
+  }
+
+  /**
+   * Highest damage spell castable with a slot of the given level (0 for cantrips)
+   */
+  static getBestSpell(
+    build: Build,
+    enemies: EnemyTemplate[],
+    slotLevel: number
+  ): { name: string; damage: number } {
+    const characterLevel = getCharacterLevel(build);
+    const spellAttackBonus = calculateSpellAttackBonus(build, characterLevel);
+    const spellSaveDC = calculateSpellSaveDC(build, characterLevel);
+
+    return (build.spells || [])
+      .map(spellName => getSpell(spellName))
+      // Concentration riders deal no damage of their own; the simulator counts them on the attacks they boost
+      .filter((spell): spell is SpellDefinition => (
+        spell !== undefined && (slotLevel === 0 ? spell.level === 0 : spell.level > 0 && spell.level <= slotLevel)
+      ))
+      .map(spell => ({
+        name: spell.name,
+        damage: this.weightByHitPoints(enemies, enemy => calculateSpellDamage(
+          spell,
+          characterLevel,
+          slotLevel,
+          { ac: enemy.armorClass, saves: this.getSaves(enemy) },
+          spellAttackBonus,
+          spellSaveDC
+        ).averageDamage)
+      }))
+      .reduce((best, spell) => (spell.damage > best.damage ? spell : best), { name: '', damage: 0 });
+  }
+
+  private static getSlotOptions(current: ClassResources): SlotOption[] {
+    const options: SlotOption[] = Object.entries(current.spellSlots)
+      .filter(([, count]) => count > 0)
+      .map(([level]) => ({ level: Number(level), pactMagic: false }));
+
+    if (current.warlockSlots && current.warlockSlots.slots > 0) {
+      options.push({ level: current.warlockSlots.level, pactMagic: true });
+    }
+
+    return options;
+  }
+
+  private static getEncountersUntilShortRest(plan: DayEncounterPlan[], index: number): number {
+    const restIndex = plan.findIndex((encounter, i) => i >= index && encounter.shortRestAfter);
+    return (restIndex === -1 ? plan.length - 1 : restIndex) - index + 1;
+  }
+
+  private static countSlots(spellSlots: Record<number, number>): number {
+    return Object.values(spellSlots).reduce((sum, count) => sum + count, 0);
+  }
+
+  private static getSaves(enemy: EnemyTemplate): Record<string, number> {
+    return Object.fromEntries(SAVE_ABILITIES.map(ability => [ability, getTargetSaveBonus(enemy, ability)]));
+  }
+
+  /**
+   * Average of a per-enemy value, weighting each enemy by its share of the pack's hit points
+   */
+  static weightByHitPoints(enemies: EnemyTemplate[], value: (enemy: EnemyTemplate) => number): number {
+    const totalHitPoints = enemies.reduce((sum, enemy) => sum + enemy.hitPoints, 0);
+    if (enemies.length === 0) return 0;
+
+    return enemies.reduce((sum, enemy) => {
+      const weight = totalHitPoints > 0 ? enemy.hitPoints / totalHitPoints : 1 / enemies.length;
+      return sum + value(enemy) * weight;
+    }, 0);
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Build conversion: derives the rules-driven parts of a Build from its character sheet
+ * and upgrades the SimpleBuild shape saved before Build became the only build model
+ */
+
+import type { Build, SimpleBuild, Abilities, Policies, Equipment } from '../types/build';
+import { getMulticlassSpellSlots, getWarlockSlots } from './multiclassSpellcasting';
+import { getFinalAbilityScores, inferBaseAbilities } from '../engine/abilityScores';
+import { getCastableSpells } from '../engine/spellcasting';
+
+export const BUILD_VERSION = '1.0.0';
+
+export const DEFAULT_ABILITIES: Abilities = {
+  strength: 15,
+  dexterity: 14,
+  constitution: 13,
+  intelligence: 12,
+  wisdom: 10,
+  charisma: 8
+};
+
+export const DEFAULT_POLICIES: Policies = {
+  smitePolicy: 'optimal',
+  oncePerTurnPriority: 'optimal',
+  precast: [],
+  buffAssumptions: 'moderate',
+  powerAttackThresholdEV: 0.5
+};
+
+const EMPTY_EQUIPMENT: Equipment = { mainHand: null, offHand: null, armor: null };
+
+// Build fields that follow from the sheet, plus bookkeeping filled in on save
+type DerivedBuildField = 'proficiencyBonus' | 'features' | 'spells' | 'spellSlots';
+
+// What the Build Lab edits: everything except ids, timestamps and derived fields
+export type BuildSheet = Omit<
+  Build,
+  'id' | 'createdAt' | 'lastModified' | 'version' | 'conditions' | 'policies' | DerivedBuildField
+> & Partial<Pick<Build, 'conditions' | 'policies'>>;
+
+/**
+ * Total character level across all classes
+ */
+export function getCharacterLevel(build: Pick<Build, 'levels'>): number {
+  return Math.max(1, (build.levels || []).reduce((sum, classLevel) => sum + classLevel.level, 0));
+}
+
+export function getProficiencyBonus(characterLevel: number): number {
+  return Math.ceil(characterLevel / 4) + 1;
+}
+
+/**
+ * Feat ids chosen through ASI feature selections, e.g. "great-weapon-master" or "resilient-constitution"
+ */
+export function getSelectedFeats(build: Pick<Build, 'featureSelections'>): string[] {
+  return Object.values(build.featureSelections || {})
+    // improvements is saved as a single object by the class feature form
+    .flatMap(selection => ([] as Array<{ type?: string; feat?: string; featAbility?: string }>).concat(selection.improvements || []))
+    .filter(improvement => improvement?.type === 'feat' && improvement.feat)
+    .map(improvement => improvement.feat === 'resilient' && improvement.featAbility
+      ? `resilient-${improvement.featAbility}`
+      : improvement.feat);
+}
+
+/**
+ * Spell slots by level, with warlock pact slots added on top
+ */
+export function getBuildSpellSlots(build: Pick<Build, 'levels'>): Record<string, number> {
+  const classLevels = build.levels || [];
+  const slots: Record<string, number> = { ...getMulticlassSpellSlots(classLevels) };
+
+  const warlockLevel = classLevels
+    .filter(cl => cl.class.toLowerCase() === 'warlock')
+    .reduce((sum, cl) => sum + cl.level, 0);
+  const pactSlots = getWarlockSlots(warlockLevel);
+  if (pactSlots) {
+    slots[pactSlots.level] = (slots[pactSlots.level] || 0) + pactSlots.slots;
+  }
+
+  return slots;
+}
+
+/**
+ * Recompute proficiency bonus, feats, castable spells and spell slots from the sheet, and ability
+ * scores from the ability score ledger with magic items on top. Builds saved without base scores
+ * get them worked back from their entered scores, so item scores never land in the stored base
+ */
+export function withDerivedFields(build: Build): Build {
+  const characterLevel = getCharacterLevel(build);
+  const baseAbilities = inferBaseAbilities(build);
+  const abilities = getFinalAbilityScores({ ...build, baseAbilities });
+  return {
+    ...build,
+    baseAbilities,
+    abilities,
+    proficiencyBonus: getProficiencyBonus(characterLevel),
+    features: getSelectedFeats(build),
+    spells: getCastableSpells({ ...build, abilities }),
+    spellSlots: getBuildSpellSlots(build)
+  };
+}
+
+/**
+ * Complete Build from a Build Lab sheet
+ */
+export function buildFromSheet(sheet: BuildSheet, id: string, createdAt: string = new Date().toISOString()): Build {
+  return withDerivedFields({
+    conditions: [],
+    policies: { ...DEFAULT_POLICIES },
+    ...sheet,
+    id,
+    proficiencyBonus: 2,
+    features: [],
+    spells: [],
+    spellSlots: {},
+    version: BUILD_VERSION,
+    createdAt,
+    lastModified: createdAt
+  });
+}
+
+/**
+ * True for data saved in the SimpleBuild shape rather than as a Build
+ */
+export function isSimpleBuild(data: unknown): data is SimpleBuild {
+  if (!data || typeof data !== 'object') return false;
+  const record = data as Record<string, unknown>;
+  return !Array.isArray(record.levels) && ('classLevels' in record || 'abilityScores' in record || typeof record.level === 'number');
+}
+
+/**
+ * Upgrade a SimpleBuild to a Build. One without class levels has no sheet to derive attacks from:
+ * it keeps an empty levels list rather than an invented class, and the DPR calculations use its
+ * saved attack bonus and damage instead (see getSavedAttackLine). Missing ability scores are filled
+ * with defaults and the total level isn't kept, so toSimpleBuild doesn't always give back the original
+ */
+export function fromSimpleBuild(simple: SimpleBuild): Build {
+  return buildFromSheet({
+    name: simple.name,
+    levels: simple.classLevels || [],
+    abilities: simple.abilityScores || { ...DEFAULT_ABILITIES },
+    equipment: simple.equipment || { ...EMPTY_EQUIPMENT },
+    race: simple.race,
+    background: simple.background,
+    notes: simple.notes,
+    abilityScoreMethod: simple.abilityScoreMethod,
+    featureSelections: simple.featureSelections,
+    attackBonus: simple.attackBonus,
+    damage: simple.damage
+  }, simple.id, simple.createdAt);
+}
+
+/**
+ * SimpleBuild view of a Build, for exports read by older versions of the app
+ */
+export function toSimpleBuild(build: Build): SimpleBuild {
+  return {
+    id: build.id,
+    name: build.name,
+    level: getCharacterLevel(build),
+    attackBonus: build.attackBonus ?? 0,
+    damage: build.damage ?? '',
+    notes: build.notes,
+    createdAt: build.createdAt,
+    race: build.race,
+    background: build.background,
+    abilityScores: build.abilities,
+    abilityScoreMethod: build.abilityScoreMethod,
+    classLevels: build.levels,
+    equipment: build.equipment,
+    featureSelections: build.featureSelections
+  };
+}
+
+/**
+ * Upgrade any SimpleBuilds in a saved list, leaving Builds untouched
+ */
+export function migrateBuilds(builds: unknown[]): Build[] {
+  return builds.map(build => (isSimpleBuild(build) ? fromSimpleBuild(build) : build as Build));
+}
@@ -3,8 +3,24 @@
  * Handles AC-based DPR curves, level progression, and advantage states
  */
 
-import type { SimpleBuild } from '../store/simpleStore';
+import type { Build, ClassLevel, Target, Weapon } from '../types/build';
+import type { D20Reroll } from '../types/effects';
+import { getCharacterLevel } from './buildConversion';
 import { calculateClassResources, getMulticlassSpellSlots } from './multiclassSpellcasting';
+import {
+  getSavedAttackLine,
+  parseDiceExpression,
+  type AttackSequence,
+  type DamageDistribution,
+  type DamageSource,
+  type ParsedDice
+} from '../engine/damage';
+import { createRoundProfile, getRoundProfileDistribution, type RoundProfile } from '../engine/killAnalysis';
+import { getAttackRollOutcome } from '../engine/probability';
+import { createCombatContext, resolveAttackRoll, resolveHitDamage } from '../engine/effectHooks';
+import { getRaceEffects, meetsRacePrerequisites } from '../engine/races';
+import { getEquippedItemEffects } from '../engine/items';
+import { effectLibrary } from '../data/effects';
 
 export interface DPRPoint {
   ac: number;
@@ -59,8 +75,42 @@ export interface AttackCalculation {
     damage: string;
     description: string;
   }>;
+  hitDice: string[]; // Magic item dice on every main-hand hit, doubled on a crit, e.g. Flame Tongue's 2d6 fire
+  critDice: string[]; // Racial extra dice on a critical hit, not doubled, e.g. Savage Attacks
+  rerolls: D20Reroll[]; // Racial d20 rerolls, e.g. Halfling Lucky
 }
 
+// One input changed for sensitivity analysis: a modified build, or a change to the attack roll
+interface SensitivityChange {
+  id: string;
+  label: string;
+  category: SensitivityResult['category'];
+  build?: Build;
+  attackBonus?: number;
+  bonusDice?: string[];
+  advantageState?: 'advantage';
+}
+
+export interface SensitivityResult {
+  id: string;
+  label: string;
+  category: 'ability' | 'attack' | 'damage' | 'item' | 'feat' | 'buff';
+  dprByAC: Array<{ ac: number; dpr: number; change: number }>;
+  averageChange: number; // mean DPR change across the AC range
+}
+
+export interface SensitivityAnalysis {
+  baseline: Array<{ ac: number; dpr: number }>;
+  results: SensitivityResult[]; // largest average gain first
+}
+
+// Feats the engine prices, offered when the main weapon can use them
+const SENSITIVITY_FEATS: Array<{ id: string; name: string; applies: (weapon?: Weapon) => boolean }> = [
+  { id: 'great-weapon-master', name: 'Great Weapon Master', applies: weapon => Boolean(weapon?.properties?.includes('heavy') && weapon.type !== 'ranged') },
+  { id: 'sharpshooter', name: 'Sharpshooter', applies: weapon => weapon?.type === 'ranged' },
+  { id: 'polearm-master', name: 'Polearm Master', applies: weapon => /glaive|halberd|quarterstaff|spear|pike/i.test(weapon?.name || '') }
+];
+
 /**
  * DPR Analysis Engine
  */
@@ -69,81 +119,112 @@ export class DPRAnalysisEngine {
    * Calculate DPR for a specific AC with advantage state
    */
   static calculateDPRAtAC(
-    build: SimpleBuild,
+    build: Build,
     targetAC: number,
-    advantageState: 'normal' | 'advantage' | 'disadvantage' = 'normal'
+    advantageState: 'normal' | 'advantage' | 'disadvantage' = 'normal',
+    attackBonusModifier: number = 0, // Situational to-hit changes such as a Bless die result
+    bonusDice: string[] = [] // Dice added to every attack roll, e.g. '1d4' for Bless
   ): DPRPoint {
-    const attackCalc = this.getAttackCalculation(build);
-    
-    // Base hit chance calculation
-    const attackRoll = attackCalc.attackBonus;
-    const neededRoll = Math.max(2, Math.min(20, targetAC - attackRoll + 1));
-    let baseHitChance = Math.max(0.05, Math.min(0.95, (21 - neededRoll) / 20));
-    
-    // Apply advantage/disadvantage
-    let hitChance = baseHitChance;
-    if (advantageState === 'advantage') {
-      hitChance = 1 - Math.pow(1 - baseHitChance, 2);
-    } else if (advantageState === 'disadvantage') {
-      hitChance = Math.pow(baseHitChance, 2);
-    }
-    
-    // Critical hit chance
-    const baseCritChance = attackCalc.critRange / 20;
-    let critChance = baseCritChance;
-    if (advantageState === 'advantage') {
-      const hasElvenAccuracy = this.hasFeature(build, 'elven-accuracy');
-      if (hasElvenAccuracy) {
-        critChance = 1 - Math.pow(1 - baseCritChance, 3); // Triple advantage
-      } else {
-        critChance = 1 - Math.pow(1 - baseCritChance, 2); // Regular advantage
-      }
-    } else if (advantageState === 'disadvantage') {
-      critChance = Math.pow(baseCritChance, 2);
-    }
-    
-    // Calculate damage components
-    const weaponDamage = this.parseDiceExpression(attackCalc.damageDice) + attackCalc.damageBonus;
-    const critDamage = this.parseDiceExpression(attackCalc.damageDice); // Only dice double on crit
-    
-    // Regular hit damage vs critical hit damage
-    const regularHitDamage = weaponDamage;
-    const criticalHitDamage = weaponDamage + critDamage;
-    
-    // Expected damage per attack
-    const nonCritHitChance = hitChance - critChance;
-    const expectedDamagePerAttack = (nonCritHitChance * regularHitDamage) + (critChance * criticalHitDamage);
-    
-    // Main hand attacks
-    let totalDPR = expectedDamagePerAttack * attackCalc.attackCount;
-    
-    // Bonus action attacks
-    for (const bonusAttack of attackCalc.bonusActionAttacks) {
-      const bonusDamage = this.parseDiceExpression(bonusAttack.damage);
-      const bonusExpectedDamage = (nonCritHitChance * bonusDamage) + (critChance * (bonusDamage + this.parseDiceExpression(bonusAttack.damage.split('+')[0] || bonusAttack.damage)));
-      totalDPR += bonusExpectedDamage * bonusAttack.count;
-    }
-    
-    // Once-per-turn effects (like Sneak Attack)
-    for (const oncePerTurn of attackCalc.oncePerTurnEffects) {
-      const onceDamage = this.parseDiceExpression(oncePerTurn.damage);
-      // Once per turn damage benefits from any hit in the turn
-      const chanceToHitAtLeastOnce = Math.min(0.95, 1 - Math.pow(1 - hitChance, attackCalc.attackCount));
-      totalDPR += chanceToHitAtLeastOnce * onceDamage;
-    }
-    
+    const baseAttackCalc = this.getAttackCalculation(build);
+    const attackCalc = { ...baseAttackCalc, attackBonus: baseAttackCalc.attackBonus + attackBonusModifier };
+    const standard = this.getDPRPoint(build, attackCalc, targetAC, advantageState, bonusDice, false);
+    if (!this.canPowerAttack(build)) return standard;
+
+    // Great Weapon Master and Sharpshooter trade -5 to hit for +10 damage whenever that pays at this AC
+    const powerAttack = this.getDPRPoint(build, attackCalc, targetAC, advantageState, bonusDice, true);
+    return powerAttack.dpr > standard.dpr ? powerAttack : standard;
+  }
+
+  /**
+   * DPR change from one input at a time, +1 to the primary stat, +1 to hit, a +1 weapon, each
+   * candidate feat, Bless and advantage, at every AC in the range and ranked by their average
+   */
+  static calculateSensitivity(
+    build: Build,
+    acRange: { min: number; max: number } = { min: 10, max: 25 }
+  ): SensitivityAnalysis {
+    const acs = Array.from({ length: Math.max(0, acRange.max - acRange.min + 1) }, (_, index) => acRange.min + index);
+    const baseline = acs.map(ac => this.calculateDPRAtAC(build, ac, 'normal').dpr);
+
+    const results = this.getSensitivityChanges(build).map(change => {
+      const dprByAC = acs.map((ac, index) => {
+        const dpr = this.calculateDPRAtAC(
+          change.build || build,
+          ac,
+          change.advantageState || 'normal',
+          change.attackBonus || 0,
+          change.bonusDice || []
+        ).dpr;
+        return { ac, dpr, change: dpr - baseline[index] };
+      });
+      return {
+        id: change.id,
+        label: change.label,
+        category: change.category,
+        dprByAC,
+        averageChange: dprByAC.reduce((sum, point) => sum + point.change, 0) / Math.max(1, dprByAC.length)
+      };
+    });
+
     return {
-      ac: targetAC,
-      dpr: Math.max(0, totalDPR),
-      hitChance,
-      critChance
+      baseline: acs.map((ac, index) => ({ ac, dpr: baseline[index] })),
+      results: results.sort((a, b) => b.averageChange - a.averageChange)
     };
   }
 
+  /**
+   * Calculate the exact damage distribution of one round at a specific AC
+   */
+  static calculateRoundDistribution(
+    build: Build,
+    targetAC: number,
+    advantageState: 'normal' | 'advantage' | 'disadvantage' = 'normal'
+  ): DamageDistribution {
+    return getRoundProfileDistribution(this.calculateRoundProfile(build, targetAC, advantageState));
+  }
+
+  /**
+   * Describe one round attack by attack for kill and rounds-to-kill analysis
+   */
+  static calculateRoundProfile(
+    build: Build,
+    targetAC: number,
+    advantageState: 'normal' | 'advantage' | 'disadvantage' = 'normal'
+  ): RoundProfile {
+    const attackCalc = this.getAttackCalculation(build);
+    const { hitChance, critChance } = this.getHitAndCritChance(build, attackCalc, targetAC, advantageState);
+    
+    const sequences: AttackSequence[] = [
+      {
+        hitProbability: hitChance,
+        critProbability: critChance,
+        normalDamage: [
+          this.toDamageSource(attackCalc.damageDice, attackCalc.damageBonus, 'Weapon', true),
+          ...attackCalc.hitDice.map(dice => this.toDamageSource(dice, 0, 'Magic item', true))
+        ],
+        critDamage: attackCalc.critDice.map(dice => this.toDamageSource(dice, 0, 'Racial crit die', false)),
+        numAttacks: attackCalc.attackCount
+      },
+      ...attackCalc.bonusActionAttacks.map(bonusAttack => ({
+        hitProbability: hitChance,
+        critProbability: critChance,
+        normalDamage: [this.toDamageSource(bonusAttack.damage, 0, bonusAttack.description, true)],
+        numAttacks: bonusAttack.count
+      }))
+    ];
+    
+    // Once-per-turn damage rides on the first hit of the turn
+    const oncePerTurn = attackCalc.oncePerTurnEffects.map(effect =>
+      this.toDamageSource(effect.damage, 0, effect.description, true)
+    );
+    
+    return createRoundProfile(sequences, oncePerTurn);
+  }
+
   /**
    * Generate DPR curve across AC range
    */
-  static generateDPRCurve(build: SimpleBuild, acRange: { min: number; max: number } = { min: 10, max: 25 }): DPRCurve {
+  static generateDPRCurve(build: Build, acRange: { min: number; max: number } = { min: 10, max: 25 }): DPRCurve {
     const normal: DPRPoint[] = [];
     const advantage: DPRPoint[] = [];
     const disadvantage: DPRPoint[] = [];
@@ -160,19 +241,18 @@ export class DPRAnalysisEngine {
   /**
    * Calculate level-by-level DPR progression
    */
-  static analyzeLevelProgression(build: SimpleBuild, targetAC: number = 15): LevelDPRProgression[] {
+  static analyzeLevelProgression(build: Build, targetAC: number = 15): LevelDPRProgression[] {
     const progression: LevelDPRProgression[] = [];
-    const baseClassLevels = build.classLevels || [];
+    const baseClassLevels = build.levels || [];
     
     for (let level = 1; level <= 20; level++) {
       // Calculate class levels at this total level
       const scaledClassLevels = this.scaleClassLevelsToLevel(baseClassLevels, level);
       
       // Create build at this level
-      const levelBuild: SimpleBuild = {
+      const levelBuild: Build = {
         ...build,
-        level,
-        classLevels: scaledClassLevels
+        levels: scaledClassLevels
       };
       
       // Calculate progression data
@@ -215,13 +295,30 @@ export class DPRAnalysisEngine {
   }
 
   /**
-   * Get attack calculation details for a build
+   * Attack bonus, damage and attacks per round for the build's main weapon
    */
-  private static getAttackCalculation(build: SimpleBuild): AttackCalculation {
-    const classLevels = build.classLevels || [];
-    const totalLevel = build.level || classLevels.reduce((sum, cl) => sum + cl.level, 0);
+  static getAttackCalculation(build: Build): AttackCalculation {
+    // Builds migrated without class levels have only the attack line they were saved with
+    const savedLine = getSavedAttackLine(build);
+    if (savedLine) {
+      return {
+        attackBonus: savedLine.attackBonus,
+        damageDice: savedLine.damageDice,
+        damageBonus: savedLine.damageBonus,
+        attackCount: savedLine.attackCount,
+        critRange: 1,
+        bonusActionAttacks: [],
+        oncePerTurnEffects: [],
+        hitDice: [],
+        critDice: [],
+        rerolls: []
+      };
+    }
+
+    const classLevels = build.levels || [];
+    const totalLevel = getCharacterLevel(build);
     const profBonus = Math.ceil(totalLevel / 4) + 1;
-    const abilityScores = build.abilityScores || { strength: 15, dexterity: 14, constitution: 13, intelligence: 12, wisdom: 10, charisma: 8 };
+    const abilityScores = build.abilities || { strength: 15, dexterity: 14, constitution: 13, intelligence: 12, wisdom: 10, charisma: 8 };
     
     // Determine primary attack ability
     const mainWeapon = build.equipment?.mainHand;
@@ -240,11 +337,12 @@ export class DPRAnalysisEngine {
     
     // Calculate attack bonus
     const magicBonus = mainWeapon?.magic || 0;
-    const attackBonus = profBonus + abilityMod + magicBonus;
+    const itemTraits = this.getItemAttackTraits(build);
+    const attackBonus = profBonus + abilityMod + magicBonus + itemTraits.toHitBonus;
     
     // Base damage
     const damageDice = mainWeapon?.damage || '1d8';
-    let damageBonus = abilityMod + magicBonus + (mainWeapon?.damageBonus || 0);
+    let damageBonus = abilityMod + magicBonus + (mainWeapon?.damageBonus || 0) + itemTraits.damageBonus;
     
     // Fighting style bonuses
     const fightingStyles = this.getFightingStyles(build);
@@ -293,7 +391,236 @@ export class DPRAnalysisEngine {
       attackCount,
       critRange,
       bonusActionAttacks,
-      oncePerTurnEffects
+      oncePerTurnEffects,
+      hitDice: itemTraits.hitDice,
+      ...this.getRacialAttackTraits(build)
+    };
+  }
+
+  /**
+   * Hook context for the first main-hand attack against a generic target
+   */
+  private static getMainAttackContext(build: Build) {
+    const target: Target = { name: 'Target', armorClass: 10, hitPoints: 1, resistances: [], immunities: [], vulnerabilities: [] };
+    return {
+      build,
+      target,
+      combat: createCombatContext(),
+      weapon: build.equipment?.mainHand?.name || 'Unarmed Strike',
+      attackNumber: 0,
+      isMainAction: true
+    };
+  }
+
+  /**
+   * To-hit, flat damage and extra dice from equipped magic items, read from the item effects' hooks
+   */
+  static getItemAttackTraits(build: Build): { toHitBonus: number; damageBonus: number; hitDice: string[] } {
+    const itemEffects = getEquippedItemEffects(build.equipment);
+    if (itemEffects.length === 0) return { toHitBonus: 0, damageBonus: 0, hitDice: [] };
+
+    const context = this.getMainAttackContext(build);
+    const attackModifier = resolveAttackRoll(itemEffects, context);
+    const hitModifier = resolveHitDamage(itemEffects, { ...context, attackRoll: 10, isCrit: false });
+
+    return {
+      toHitBonus: attackModifier.toHitBonus,
+      damageBonus: hitModifier.bonus,
+      hitDice: hitModifier.dice.map(({ dice }) => dice)
+    };
+  }
+
+  /**
+   * Crit dice and d20 rerolls from the build's race, read from the race effects' hooks
+   */
+  private static getRacialAttackTraits(build: Build): Pick<AttackCalculation, 'critDice' | 'rerolls'> {
+    const raceEffects = getRaceEffects(build.race);
+    if (raceEffects.length === 0) return { critDice: [], rerolls: [] };
+
+    const context = this.getMainAttackContext(build);
+    const attackModifier = resolveAttackRoll(raceEffects, context);
+    const critModifier = resolveHitDamage(raceEffects, { ...context, attackRoll: 20, isCrit: true });
+
+    return {
+      critDice: critModifier.dice.filter(({ critOnly }) => critOnly).map(({ dice }) => dice),
+      rerolls: attackModifier.rerolls.map(({ reroll }) => reroll)
+    };
+  }
+
+  /**
+   * Expected damage of one round at a specific AC, optionally with the -5/+10 power attack on main-hand attacks
+   */
+  private static getDPRPoint(
+    build: Build,
+    attackCalc: AttackCalculation,
+    targetAC: number,
+    advantageState: 'normal' | 'advantage' | 'disadvantage',
+    bonusDice: string[],
+    powerAttack: boolean
+  ): DPRPoint {
+    const mainAttackCalc = powerAttack
+      ? { ...attackCalc, attackBonus: attackCalc.attackBonus - 5, damageBonus: attackCalc.damageBonus + 10 }
+      : attackCalc;
+    const { hitChance, critChance } = this.getHitAndCritChance(build, mainAttackCalc, targetAC, advantageState, bonusDice);
+    
+    // Calculate damage components
+    const itemDiceDamage = attackCalc.hitDice.reduce((sum, dice) => sum + this.parseDiceExpression(dice), 0);
+    const weaponDamage = this.parseDiceExpression(mainAttackCalc.damageDice) + itemDiceDamage + mainAttackCalc.damageBonus;
+    // Only dice double on crit; racial crit dice are added once
+    const critDamage = this.parseDiceExpression(mainAttackCalc.damageDice) + itemDiceDamage +
+      attackCalc.critDice.reduce((sum, dice) => sum + this.parseDiceExpression(dice), 0);
+    
+    // Regular hit damage vs critical hit damage
+    const regularHitDamage = weaponDamage;
+    const criticalHitDamage = weaponDamage + critDamage;
+    
+    // Expected damage per attack
+    const nonCritHitChance = hitChance - critChance;
+    const expectedDamagePerAttack = (nonCritHitChance * regularHitDamage) + (critChance * criticalHitDamage);
+    
+    // Main hand attacks
+    let totalDPR = expectedDamagePerAttack * mainAttackCalc.attackCount;
+    
+    // Bonus action attacks roll without the power attack penalty
+    const bonusChances = powerAttack ? this.getHitAndCritChance(build, attackCalc, targetAC, advantageState, bonusDice) : { hitChance, critChance };
+    const bonusNonCritHitChance = bonusChances.hitChance - bonusChances.critChance;
+    for (const bonusAttack of attackCalc.bonusActionAttacks) {
+      const bonusDamage = this.parseDiceExpression(bonusAttack.damage);
+      const bonusExpectedDamage = (bonusNonCritHitChance * bonusDamage) + (bonusChances.critChance * (bonusDamage + this.parseDiceExpression(bonusAttack.damage.split('+')[0] || bonusAttack.damage)));
+      totalDPR += bonusExpectedDamage * bonusAttack.count;
+    }
+    
+    // Once-per-turn effects (like Sneak Attack)
+    for (const oncePerTurn of attackCalc.oncePerTurnEffects) {
+      const onceDamage = this.parseDiceExpression(oncePerTurn.damage);
+      // Once per turn damage benefits from any hit in the turn
+      const chanceToHitAtLeastOnce = Math.min(0.95, 1 - Math.pow(1 - hitChance, mainAttackCalc.attackCount));
+      totalDPR += chanceToHitAtLeastOnce * onceDamage;
+    }
+    
+    return {
+      ac: targetAC,
+      dpr: Math.max(0, totalDPR),
+      hitChance,
+      critChance
+    };
+  }
+
+  // Great Weapon Master needs a heavy melee weapon, Sharpshooter a ranged one
+  private static canPowerAttack(build: Build): boolean {
+    const weapon = build.equipment?.mainHand;
+    if (!weapon) return false;
+    if (weapon.type === 'ranged') return this.hasFeature(build, 'sharpshooter');
+    return Boolean(weapon.properties?.includes('heavy')) && this.hasFeature(build, 'great-weapon-master');
+  }
+
+  /**
+   * One-at-a-time changes to price: ability increases, accuracy and damage, a better weapon,
+   * feats the engine models that the build doesn't have yet, Bless and advantage
+   */
+  private static getSensitivityChanges(build: Build): SensitivityChange[] {
+    const changes: SensitivityChange[] = [];
+    const weapon = build.equipment?.mainHand;
+    const abilities = build.abilities || { strength: 15, dexterity: 14, constitution: 13, intelligence: 12, wisdom: 10, charisma: 8 };
+    const ability = this.getAttackAbility(build);
+    const abilityLabel = ability === 'strength' ? 'STR' : 'DEX';
+
+    ([1, 2] as const).forEach(increase => {
+      if (abilities[ability] + increase > 20) return;
+      changes.push({
+        id: `ability-${increase}`,
+        label: increase === 1 ? `+1 ${abilityLabel}` : `+2 ${abilityLabel} (ASI)`,
+        category: 'ability',
+        build: { ...build, abilities: { ...abilities, [ability]: abilities[ability] + increase } }
+      });
+    });
+
+    changes.push({ id: 'to-hit', label: '+1 to hit', category: 'attack', attackBonus: 1 });
+
+    if (weapon) {
+      changes.push({
+        id: 'damage',
+        label: '+1 damage',
+        category: 'damage',
+        build: { ...build, equipment: { ...build.equipment, mainHand: { ...weapon, damageBonus: (weapon.damageBonus || 0) + 1 } } }
+      });
+      if ((weapon.magic || 0) < 3) {
+        changes.push({
+          id: 'magic-weapon',
+          label: `+${(weapon.magic || 0) + 1} ${weapon.name}`,
+          category: 'item',
+          build: { ...build, equipment: { ...build.equipment, mainHand: { ...weapon, magic: (weapon.magic || 0) + 1 } } }
+        });
+      }
+    }
+
+    SENSITIVITY_FEATS
+      .filter(feat => !this.hasFeature(build, feat.id) && feat.applies(weapon))
+      .forEach(feat => changes.push({
+        id: feat.id,
+        label: feat.name,
+        category: 'feat',
+        build: { ...build, features: [...(build.features || []), feat.id] }
+      }));
+
+    changes.push({ id: 'bless', label: 'Bless (+1d4)', category: 'buff', bonusDice: ['1d4'] });
+    changes.push({ id: 'advantage', label: 'Advantage', category: 'buff', advantageState: 'advantage' });
+
+    return changes;
+  }
+
+  // The ability the main weapon attacks with, matching getAttackCalculation
+  private static getAttackAbility(build: Build): 'strength' | 'dexterity' {
+    const weapon = build.equipment?.mainHand;
+    const abilities = build.abilities || { strength: 15, dexterity: 14 };
+    if (weapon?.properties?.includes('finesse')) return abilities.dexterity > abilities.strength ? 'dexterity' : 'strength';
+    return weapon?.type === 'ranged' ? 'dexterity' : 'strength';
+  }
+
+  /**
+   * Hit and crit chances for an attack calculation at a specific AC
+   */
+  private static getHitAndCritChance(
+    build: Build,
+    attackCalc: AttackCalculation,
+    targetAC: number,
+    advantageState: 'normal' | 'advantage' | 'disadvantage',
+    bonusDice: string[] = []
+  ): { hitChance: number; critChance: number } {
+    // Elven Accuracy rolls a third die whenever the attack has advantage
+    const rollState = advantageState === 'advantage' && this.hasFeature(build, 'elven-accuracy')
+      ? 'elven-accuracy'
+      : advantageState;
+    const { hitProbability, critProbability } = getAttackRollOutcome({
+      attackBonus: attackCalc.attackBonus,
+      targetAC,
+      critRange: 21 - attackCalc.critRange,
+      advantageState: rollState,
+      bonusDice,
+      rerolls: attackCalc.rerolls
+    });
+    
+    return { hitChance: hitProbability, critChance: critProbability };
+  }
+
+  /**
+   * Convert a dice expression into a damage source for distribution math
+   */
+  private static toDamageSource(expression: string, bonus: number, name: string, onCritDouble: boolean): DamageSource {
+    let dice: ParsedDice;
+    try {
+      dice = parseDiceExpression(expression.replace(/\s+/g, ''));
+    } catch {
+      // Fall back to a flat average for expressions the dice parser doesn't support
+      dice = { count: 0, sides: 0, bonus: Math.round(this.parseDiceExpression(expression)), damageType: 'untyped' };
+    }
+    
+    return {
+      name,
+      dice: { ...dice, bonus: dice.bonus + bonus },
+      source: 'weapon',
+      onCritDouble,
+      rerollMechanic: 'none'
     };
   }
 
@@ -338,8 +665,8 @@ export class DPRAnalysisEngine {
   /**
    * Scale class levels to target level
    */
-  private static scaleClassLevelsToLevel(classLevels: Array<{class: string; level: number}>, targetLevel: number) {
-    if (classLevels.length === 0) return [{ class: 'Fighter', level: targetLevel }];
+  private static scaleClassLevelsToLevel(classLevels: ClassLevel[], targetLevel: number): ClassLevel[] {
+    if (classLevels.length === 0) return [{ class: 'Fighter', level: targetLevel, hitDie: 10 }];
     
     const totalLevels = classLevels.reduce((sum, cl) => sum + cl.level, 0);
     
@@ -351,11 +678,11 @@ export class DPRAnalysisEngine {
       return classLevels.map((cl, index) => {
         if (index === classLevels.length - 1) {
           // Last class gets remaining levels
-          return { class: cl.class, level: remainingLevels };
+          return { ...cl, level: remainingLevels };
         } else {
           const scaledLevel = Math.max(1, Math.floor(cl.level * scaleFactor));
           remainingLevels -= scaledLevel;
-          return { class: cl.class, level: scaledLevel };
+          return { ...cl, level: scaledLevel };
         }
       });
     } else {
@@ -365,11 +692,11 @@ export class DPRAnalysisEngine {
       
       return classLevels.map((cl, index) => {
         if (index === classLevels.length - 1) {
-          return { class: cl.class, level: Math.max(1, remainingLevels) };
+          return { ...cl, level: Math.max(1, remainingLevels) };
         } else {
           const scaledLevel = Math.max(1, Math.floor(cl.level * scaleFactor));
           remainingLevels -= scaledLevel;
-          return { class: cl.class, level: scaledLevel };
+          return { ...cl, level: scaledLevel };
         }
       });
     }
@@ -378,7 +705,11 @@ export class DPRAnalysisEngine {
   /**
    * Helper methods
    */
-  private static hasFeature(build: SimpleBuild, featureId: string): boolean {
+  private static hasFeature(build: Build, featureId: string): boolean {
+    // A feat the build's race doesn't qualify for, like Elven Accuracy on a dwarf, has no effect
+    const feat = effectLibrary.feats[featureId];
+    if (feat && !meetsRacePrerequisites(feat, build.race)) return false;
+    if (build.features?.includes(featureId)) return true;
     if (!build.featureSelections) return false;
     
     return Object.values(build.featureSelections).some(selection => {
@@ -387,7 +718,7 @@ export class DPRAnalysisEngine {
     });
   }
 
-  private static getFightingStyles(build: SimpleBuild): string[] {
+  private static getFightingStyles(build: Build): string[] {
     const styles: string[] = [];
     if (!build.featureSelections) return styles;
     
@@ -404,8 +735,8 @@ export class DPRAnalysisEngine {
     return styles;
   }
 
-  private static hasRage(build: SimpleBuild): boolean {
-    return (build.classLevels || []).some(cl => cl.class.toLowerCase() === 'barbarian');
+  private static hasRage(build: Build): boolean {
+    return (build.levels || []).some(cl => cl.class.toLowerCase() === 'barbarian');
   }
 
   private static getRageDamageBonus(classLevels: Array<{class: string; level: number}>): number {
@@ -415,7 +746,7 @@ export class DPRAnalysisEngine {
     return 2;
   }
 
-  private static getBonusActionAttacks(build: SimpleBuild): Array<{damage: string; count: number; description: string}> {
+  private static getBonusActionAttacks(build: Build): Array<{damage: string; count: number; description: string}> {
     const attacks = [];
     const mainWeapon = build.equipment?.mainHand;
     const offHand = build.equipment?.offHand;
@@ -432,7 +763,7 @@ export class DPRAnalysisEngine {
     // Polearm Master
     if (this.hasFeature(build, 'polearm-master')) {
       attacks.push({
-        damage: '1d4+' + Math.floor(((build.abilityScores?.strength || 15) - 10) / 2),
+        damage: '1d4+' + Math.floor(((build.abilities?.strength || 15) - 10) / 2),
         count: 1,
         description: 'Polearm Master'
       });
@@ -441,9 +772,9 @@ export class DPRAnalysisEngine {
     return attacks;
   }
 
-  private static getOncePerTurnEffects(build: SimpleBuild): Array<{damage: string; description: string}> {
+  private static getOncePerTurnEffects(build: Build): Array<{damage: string; description: string}> {
     const effects = [];
-    const classLevels = build.classLevels || [];
+    const classLevels = build.levels || [];
     
     // Sneak Attack
     const rogueLevel = classLevels.find(cl => cl.class.toLowerCase() === 'rogue')?.level || 0;
@@ -6,6 +6,8 @@
 import type { Build } from '../types/build';
 import type { Effect } from '../types/effects';
 import type { MonteCarloResults } from '../engine/monteCarlo';
+import { DEFAULT_POLICIES, isSimpleBuild, fromSimpleBuild } from './buildConversion';
+import { validateHomebrewEffects } from './homebrewEffects';
 
 // Export format types
 export type ExportFormat = 'json' | 'csv' | 'pdf' | 'url' | 'qr';
@@ -276,9 +278,17 @@ export class ExportImportManager {
         }
       }
 
+      // Homebrew effects go through the same schema check as the editor; invalid ones are dropped
+      let homebrewEffects: Effect[] | undefined;
+      if (Array.isArray(packageData.homebrewEffects)) {
+        const validated = validateHomebrewEffects(packageData.homebrewEffects);
+        validated.errors.forEach(error => console.warn(`Skipped homebrew effect - ${error}`));
+        homebrewEffects = validated.effects;
+      }
+
       return {
         builds: packageData.builds.map(build => this.validateAndUpgradeBuild(build)),
-        homebrewEffects: packageData.homebrewEffects,
+        homebrewEffects,
         simulationResults: packageData.simulationResults,
         metadata: packageData.metadata
       };
@@ -376,7 +386,11 @@ export class ExportImportManager {
       pb: build.proficiencyBonus,
       e: build.equipment,
       f: build.features,
-      s: build.spells
+      s: build.spells,
+      r: build.race,
+      bg: build.background,
+      fs: build.featureSelections,
+      hb: build.homebrewEffects
     };
   }
 
@@ -401,6 +415,10 @@ export class ExportImportManager {
         powerAttackThresholdEV: 0.5
       },
       spellSlots: {},
+      race: compact.r,
+      background: compact.bg,
+      featureSelections: compact.fs,
+      homebrewEffects: compact.hb,
       version: this.CURRENT_VERSION,
       createdAt: new Date().toISOString(),
       lastModified: new Date().toISOString()
@@ -440,6 +458,12 @@ export class ExportImportManager {
   private static validateBuild(build: any): string[] {
     const errors: string[] = [];
 
+    // Builds saved before the canonical model only need a name; the rest is filled in on upgrade
+    if (isSimpleBuild(build)) {
+      if (!build.name) errors.push('Build name is required');
+      return errors;
+    }
+
     if (!build.name) errors.push('Build name is required');
     if (!build.levels || !Array.isArray(build.levels)) errors.push('Build levels are required');
     if (!build.abilities) errors.push('Ability scores are required');
@@ -448,6 +472,8 @@ export class ExportImportManager {
   }
 
   private static validateAndUpgradeBuild(build: any): Build {
+    if (isSimpleBuild(build)) return fromSimpleBuild(build);
+
     // Validate and upgrade build format if necessary
     return {
       id: build.id || this.generateId(),
@@ -461,17 +487,22 @@ export class ExportImportManager {
       fightingStyles: build.fightingStyles || [],
       spells: build.spells || [],
       conditions: build.conditions || [],
-      policies: build.policies || {
-        smitePolicy: 'optimal',
-        oncePerTurnPriority: 'optimal',
-        precast: [],
-        buffAssumptions: 'moderate',
-        powerAttackThresholdEV: 0.5
-      },
+      policies: build.policies || { ...DEFAULT_POLICIES },
       spellSlots: build.spellSlots || {},
       version: this.CURRENT_VERSION,
       createdAt: build.createdAt || new Date().toISOString(),
-      lastModified: new Date().toISOString()
+      lastModified: new Date().toISOString(),
+      race: build.race,
+      baseAbilities: build.baseAbilities,
+      racialAbilityBonuses: build.racialAbilityBonuses,
+      background: build.background,
+      notes: build.notes,
+      abilityScoreMethod: build.abilityScoreMethod,
+      featureSelections: build.featureSelections,
+      spellSelections: build.spellSelections,
+      homebrewEffects: build.homebrewEffects,
+      attackBonus: build.attackBonus,
+      damage: build.damage
     };
   }
 
@@ -0,0 +1,160 @@
+/**
+ * Homebrew effects: the blank effect the editor starts from, validation against EffectSchema
+ * and the rule expression type-checker before an effect is saved or imported, and readable
+ * summaries of declarative rules
+ */
+
+import type { D20Reroll, Effect, EffectRule, EffectRuleCondition } from '../types/effects';
+import { EffectSchema } from '../types/schemas';
+import { getEffect } from '../data/effects';
+import { checkRuleExpression } from '../engine/ruleExpressions';
+
+export interface HomebrewValidationResult {
+  effect?: Effect;
+  errors: string[];
+}
+
+export const RULE_HOOK_LABELS: Record<EffectRule['hook'], string> = {
+  onAttackRoll: 'On attack roll',
+  onHit: 'On hit',
+  onCrit: 'On critical hit',
+  onSave: "On a target's saving throw"
+};
+
+const signed = (value: number): string => (value >= 0 ? `+${value}` : `${value}`);
+
+const D20_REROLL_LABELS: Record<D20Reroll['type'], string> = {
+  'reroll-ones': 'reroll natural 1s',
+  'reroll-on-miss': 'reroll a miss',
+  replace: 'replace the d20 with a foretold roll',
+  'add-on-miss': 'add a die after a miss'
+};
+
+/**
+ * Empty homebrew effect with the fields EffectSchema requires
+ */
+export function createHomebrewEffect(): Effect {
+  return {
+    id: '',
+    name: '',
+    description: '',
+    source: { book: 'Homebrew' },
+    type: 'feature',
+    hooks: {},
+    rules: [],
+    modifiers: {},
+    stacking: {},
+    tags: ['homebrew'],
+    homebrew: true
+  };
+}
+
+/**
+ * Check an effect against EffectSchema and the rules the simulators rely on. Hook functions
+ * are never saved; the returned effect carries only its declarative rules
+ */
+export function validateHomebrewEffect(data: unknown, existingIds: string[] = []): HomebrewValidationResult {
+  const parsed = EffectSchema.safeParse(data);
+  if (!parsed.success) {
+    return {
+      errors: parsed.error.issues.map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    };
+  }
+
+  const effect = { ...parsed.data, hooks: {}, homebrew: true } as Effect;
+  const errors: string[] = [];
+
+  if (!/^[a-z0-9-]+$/.test(effect.id)) {
+    errors.push('ID must contain only lowercase letters, numbers, and hyphens');
+  }
+  if (getEffect(effect.id)) {
+    errors.push(`ID "${effect.id}" is already used by a built-in effect`);
+  }
+  if (existingIds.includes(effect.id)) {
+    errors.push(`ID "${effect.id}" is already used by another homebrew effect`);
+  }
+
+  (effect.conditions?.requirements || []).forEach(requirement => {
+    checkRuleExpression(requirement).forEach(error => errors.push(`Applies when "${requirement}": ${error}`));
+  });
+  (effect.rules || []).forEach((rule, index) => {
+    if (!rule.when?.expression) return;
+    checkRuleExpression(rule.when.expression).forEach(error => errors.push(`Rule ${index + 1} expression: ${error}`));
+  });
+
+  (['onHit', 'onCrit'] as const).forEach(hook => {
+    const diceRules = (effect.rules || []).filter(rule => rule.hook === hook && 'dice' in rule.modifier && rule.modifier.dice);
+    if (diceRules.length > 1) errors.push(`Only one ${RULE_HOOK_LABELS[hook].toLowerCase()} rule can add damage dice`);
+  });
+
+  return errors.length === 0 ? { effect, errors } : { errors };
+}
+
+/**
+ * Validate a list of saved or imported homebrew effects, keeping the valid ones
+ */
+export function validateHomebrewEffects(data: unknown[]): { effects: Effect[]; errors: string[] } {
+  const effects: Effect[] = [];
+  const errors: string[] = [];
+
+  data.forEach((item, index) => {
+    const result = validateHomebrewEffect(item, effects.map(effect => effect.id));
+    if (result.effect) {
+      effects.push(result.effect);
+    } else {
+      const name = (item as { name?: string } | null)?.name || `Effect ${index + 1}`;
+      errors.push(`${name}: ${result.errors.join(', ')}`);
+    }
+  });
+
+  return { effects, errors };
+}
+
+const describeCondition = (when: EffectRuleCondition | undefined): string => {
+  if (!when) return '';
+  const parts = [
+    when.weaponProperties?.length ? `with a ${when.weaponProperties.join(' or ')} weapon` : null,
+    when.advantage ? 'with advantage' : null,
+    when.firstAttackOnly ? 'on the first attack' : null,
+    when.minLevel ? `from level ${when.minLevel}` : null,
+    when.targetTypes?.length ? `against ${when.targetTypes.join(' or ')}` : null,
+    when.targetConditions?.length ? `while the target is ${when.targetConditions.join(' or ')}` : null,
+    when.expression ? `when ${when.expression}` : null
+  ].filter(Boolean);
+  return parts.length ? ` ${parts.join(', ')}` : '';
+};
+
+/**
+ * One-line summary of a rule, e.g. "On hit with a heavy weapon: +1d6 fire damage"
+ */
+export function describeEffectRule(rule: EffectRule): string {
+  const effects: string[] = [];
+
+  if (rule.hook === 'onAttackRoll') {
+    const { toHitBonus, advantageState, critRange, bonusDice, reroll } = rule.modifier;
+    if (toHitBonus) effects.push(`${signed(toHitBonus)} to hit`);
+    if (advantageState) effects.push(advantageState === 'elven-accuracy' ? 'Elven Accuracy' : advantageState);
+    if (critRange) effects.push(`crit on ${critRange}–20`);
+    bonusDice?.forEach(bonus => effects.push(`${bonus.dice.startsWith('-') ? '' : '+'}${bonus.dice} to the roll`));
+    if (reroll?.type === 'add-on-miss') effects.push(`add ${reroll.dice} after a miss`);
+    else if (reroll?.type === 'replace' && reroll.value) effects.push(`replace the d20 with a ${reroll.value}`);
+    else if (reroll) effects.push(D20_REROLL_LABELS[reroll.type]);
+  } else if (rule.hook === 'onSave') {
+    const { dcBonus, advantageState, rerollFailed } = rule.modifier;
+    if (dcBonus) effects.push(`${signed(dcBonus)} save DC`);
+    if (advantageState) effects.push(`target has ${advantageState}`);
+    if (rerollFailed) effects.push('reroll failed saves');
+  } else {
+    const { bonus, dice, damageType, multiplier, reroll } = rule.modifier;
+    const type = damageType ? ` ${damageType}` : '';
+    if (dice) effects.push(`+${dice}${type} damage`);
+    if (bonus) effects.push(`${signed(bonus)}${dice ? '' : type} damage`);
+    if (multiplier && multiplier !== 1) effects.push(`damage ×${multiplier}`);
+    if (reroll) {
+      const faces = Array.isArray(reroll.condition) ? `${reroll.condition.join(' and ')}s` : reroll.condition === 'min' ? '1s' : 'maximum rolls';
+      effects.push(`reroll ${faces} on weapon dice${reroll.minimum ? `, treating rolls below ${reroll.minimum} as ${reroll.minimum}` : ''}`);
+    }
+  }
+
+  return `${RULE_HOOK_LABELS[rule.hook]}${describeCondition(rule.when)}: ${effects.join(', ') || 'no change'}`;
+}
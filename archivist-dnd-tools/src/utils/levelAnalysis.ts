@@ -1,5 +1,5 @@
 import { Build, LevelAnalysis, ClassLevel } from '../types/build';
-import { getProficiencyBonus, getAttacksPerAction, getSpellSlots, getFeaturesAtLevel } from '../data/classProgression';
+import { getProficiencyBonus, getAttacksPerAction, getSpellSlots, getFeaturesAtLevel, getClassProgression } from '../data/classProgression';
 
 export class LevelAnalysisEngine {
   // Calculate DPR analysis for a build at all levels 1-20
@@ -131,22 +131,7 @@ export class LevelAnalysisEngine {
   }
 
   private static getClassHitDie(className: string): number {
-    const hitDice: Record<string, number> = {
-      'Fighter': 10,
-      'Rogue': 8,
-      'Ranger': 10,
-      'Barbarian': 12,
-      'Paladin': 10,
-      'Wizard': 6,
-      'Sorcerer': 6,
-      'Warlock': 8,
-      'Bard': 8,
-      'Cleric': 8,
-      'Druid': 8,
-      'Monk': 8,
-      'Artificer': 8
-    };
-    return hitDice[className] || 8;
+    return getClassProgression(className)?.hitDie || 8;
   }
 
   private static calculateAttacksPerAction(classLevels: Array<{class: string; level: number}>): number {
@@ -0,0 +1,437 @@
+/**
+ * Library catalogue: one searchable list over the simulation effect library, the reference
+ * effects database, the spell catalogue and the class features table, with readable summaries
+ * of effect mechanics
+ */
+
+import type { Effect } from '../types/effects';
+import type { ClassFeature } from '../components/forms/ClassFeatureDisplay';
+import { effectLibrary, getEffect, searchEffects, EFFECT_TAGS } from '../data/effects';
+import { COMPREHENSIVE_EFFECTS_DATABASE } from '../data/effects/comprehensiveEffects';
+import { CLASS_FEATURES_DATABASE } from '../data/classFeatures';
+import { SPELL_CATALOG, type SpellDefinition } from '../data/spellCatalog';
+import { describeEffectRule } from './homebrewEffects';
+
+export type LibraryEntryType = 'feat' | 'feature' | 'spell' | 'item' | 'condition' | 'race';
+
+// simulation: effectLibrary, applied by the engines; reference: COMPREHENSIVE_EFFECTS_DATABASE
+// and SPELL_CATALOG spells the effect library doesn't define;
+// class-feature: CLASS_FEATURES_DATABASE, used by the Build Lab's feature choices;
+// homebrew: effects saved in the Build Lab, applied by the engines like simulation effects
+export type LibraryOrigin = 'simulation' | 'reference' | 'class-feature' | 'homebrew';
+
+export interface LibraryEntry {
+  key: string; // unique across origins
+  id: string;
+  name: string;
+  description: string;
+  type: LibraryEntryType;
+  origin: LibraryOrigin;
+  book: string; // abbreviation, e.g. PHB
+  page?: number;
+  className?: string; // lowercase class name
+  subclass?: string;
+  level?: number; // spell level or class level gained
+  tags: string[];
+  effect?: Effect;
+  feature?: ClassFeature;
+  spell?: SpellDefinition; // catalogue entry for spells, with casting details per slot level
+}
+
+export interface LibraryFilters {
+  query: string;
+  type: LibraryEntryType | 'all';
+  book: string;
+  className: string;
+  maxLevel: number | null;
+  tags: string[];
+}
+
+export interface EffectDetails {
+  modifiers: string[];
+  hooks: string[];
+  usage: string[];
+  stacking: string[];
+  conditions: string[];
+}
+
+export const DEFAULT_LIBRARY_FILTERS: LibraryFilters = {
+  query: '',
+  type: 'all',
+  book: 'all',
+  className: 'all',
+  maxLevel: null,
+  tags: []
+};
+
+export const SOURCE_BOOKS: Record<string, string> = {
+  PHB: "Player's Handbook",
+  XGtE: "Xanathar's Guide to Everything",
+  TCoE: "Tasha's Cauldron of Everything",
+  DMG: "Dungeon Master's Guide",
+  SRD: 'System Reference Document'
+};
+
+// The reference database spells book names out in full
+const BOOK_ABBREVIATIONS: Record<string, string> = {
+  "Player's Handbook": 'PHB',
+  "Xanathar's Guide": 'XGtE',
+  "Xanathar's Guide to Everything": 'XGtE',
+  "Tasha's Cauldron": 'TCoE',
+  "Tasha's Cauldron of Everything": 'TCoE',
+  "Dungeon Master's Guide": 'DMG'
+};
+
+const CLASS_TAGS: string[] = [
+  EFFECT_TAGS.BARBARIAN, EFFECT_TAGS.BARD, EFFECT_TAGS.CLERIC, EFFECT_TAGS.DRUID,
+  EFFECT_TAGS.FIGHTER, EFFECT_TAGS.MONK, EFFECT_TAGS.PALADIN, EFFECT_TAGS.RANGER,
+  EFFECT_TAGS.ROGUE, EFFECT_TAGS.SORCERER, EFFECT_TAGS.WARLOCK, EFFECT_TAGS.WIZARD
+];
+
+// Reference entries carry a category and class instead of type and tags
+type ReferenceEffect = Effect & {
+  category?: string;
+  class?: string;
+  concentration?: boolean;
+  rechargeType?: string;
+  duration?: Effect['duration'] | string;
+};
+
+const CATEGORY_TYPES: Record<string, LibraryEntryType> = {
+  'class-feature': 'feature',
+  'fighting-style': 'feature',
+  feat: 'feat',
+  spell: 'spell',
+  condition: 'condition',
+  'magic-item': 'item'
+};
+
+const EFFECT_TYPES: Record<Effect['type'], LibraryEntryType> = {
+  feat: 'feat',
+  feature: 'feature',
+  spell: 'spell',
+  item: 'item',
+  condition: 'condition',
+  buff: 'spell',
+  debuff: 'condition',
+  race: 'race'
+};
+
+const HOOK_LABELS: Record<string, string> = {
+  onAttackRoll: 'Changes your attack rolls',
+  onHit: 'Adds to damage when you hit',
+  onCrit: 'Triggers on a critical hit',
+  onCritical: 'Triggers on a critical hit',
+  onDamageRoll: 'Changes your damage rolls',
+  onSave: "Changes a target's saving throw against you",
+  onFailSave: 'Triggers when a target fails its save',
+  onKill: 'Triggers when you reduce a creature to 0 hit points',
+  onTurnStart: 'At the start of your turn',
+  onTurnEnd: 'At the end of your turn',
+  onRoundStart: 'At the start of each round',
+  onRoundEnd: 'At the end of each round'
+};
+
+const SAVE_NAMES: Record<string, string> = {
+  STR: 'Strength', DEX: 'Dexterity', CON: 'Constitution', INT: 'Intelligence', WIS: 'Wisdom', CHA: 'Charisma'
+};
+
+const normalizeBook = (book: string): string => BOOK_ABBREVIATIONS[book] || book;
+
+const signed = (value: number): string => (value >= 0 ? `+${value}` : `${value}`);
+
+// "onAttackAction" -> "On attack action"
+const humanizeHook = (hook: string): string => {
+  const words = hook.replace(/([A-Z])/g, ' $1').trim().toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const humanizeId = (id: string): string => {
+  return getEffect(id)?.name || id.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+};
+
+const fromEffect = (effect: Effect, origin: LibraryOrigin): LibraryEntry => {
+  const reference = effect as ReferenceEffect;
+  const tags = effect.tags || [reference.category, reference.class?.toLowerCase()].filter(Boolean);
+  const className = reference.class?.toLowerCase() || tags.find(tag => CLASS_TAGS.includes(tag));
+
+  return {
+    key: `${origin}:${effect.id}`,
+    id: effect.id,
+    name: effect.name,
+    description: effect.description,
+    type: EFFECT_TYPES[effect.type] || CATEGORY_TYPES[reference.category] || 'feature',
+    origin,
+    book: normalizeBook(effect.source.book),
+    page: effect.source.page || undefined,
+    className,
+    level: effect.level,
+    tags,
+    effect,
+    spell: effect.type === 'spell' ? SPELL_CATALOG[effect.id] : undefined
+  };
+};
+
+const fromSpell = (spell: SpellDefinition): LibraryEntry => ({
+  key: `reference:${spell.id}`,
+  id: spell.id,
+  name: spell.name,
+  description: spell.description,
+  type: 'spell',
+  origin: 'reference',
+  book: normalizeBook(spell.source.book),
+  page: spell.source.page,
+  className: spell.classes.length === 1 ? spell.classes[0] : undefined,
+  level: spell.level,
+  tags: [...spell.classes, spell.school, ...(spell.concentration ? ['concentration'] : [])],
+  spell
+});
+
+const fromClassFeature = (feature: ClassFeature): LibraryEntry => ({
+  key: `class-feature:${feature.id}`,
+  id: feature.id,
+  name: feature.name,
+  description: feature.description,
+  type: 'feature',
+  origin: 'class-feature',
+  book: 'SRD',
+  className: feature.class.toLowerCase(),
+  subclass: feature.subclass,
+  level: feature.level,
+  tags: [feature.class.toLowerCase(), ...(feature.subclass ? [feature.subclass] : []), feature.type],
+  feature
+});
+
+/**
+ * Every library entry, sorted by name. Reference effects that the simulation library also
+ * defines are listed once, as the simulation version
+ */
+export function buildLibraryCatalog(homebrewEffects: Effect[] = []): LibraryEntry[] {
+  const simulationEffects = [
+    ...Object.values(effectLibrary.feats),
+    ...Object.values(effectLibrary.features),
+    ...Object.values(effectLibrary.spells),
+    ...Object.values(effectLibrary.items),
+    ...Object.values(effectLibrary.conditions),
+    ...Object.values(effectLibrary.races)
+  ];
+  const simulationIds = new Set(simulationEffects.map(effect => effect.id));
+
+  return [
+    ...simulationEffects.map(effect => fromEffect(effect, 'simulation')),
+    ...Object.values(COMPREHENSIVE_EFFECTS_DATABASE)
+      .filter(effect => !simulationIds.has(effect.id))
+      .map(effect => fromEffect(effect, 'reference')),
+    ...Object.values(SPELL_CATALOG)
+      .filter(spell => !simulationIds.has(spell.id))
+      .map(fromSpell),
+    ...CLASS_FEATURES_DATABASE.map(fromClassFeature),
+    ...homebrewEffects.map(effect => fromEffect(effect, 'homebrew'))
+  ].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Apply search text, tag and facet filters. Simulation effects are matched by searchEffects;
+ * other entries use the same rules on their own name, description and tags
+ */
+export function filterLibrary(entries: LibraryEntry[], filters: LibraryFilters): LibraryEntry[] {
+  const query = filters.query.trim().toLowerCase();
+  const simulationMatches = new Set(searchEffects(query, filters.tags).map(effect => effect.id));
+
+  return entries.filter(entry => {
+    const matchesSearch = entry.origin === 'simulation'
+      ? simulationMatches.has(entry.id)
+      : (query === '' || entry.name.toLowerCase().includes(query) || entry.description.toLowerCase().includes(query)) &&
+        (filters.tags.length === 0 || filters.tags.some(tag => entry.tags.includes(tag)));
+
+    return (
+      matchesSearch &&
+      (filters.type === 'all' || entry.type === filters.type) &&
+      (filters.book === 'all' || entry.book === filters.book) &&
+      (filters.className === 'all' || entry.className === filters.className) &&
+      (filters.maxLevel === null || entry.level === undefined || entry.level <= filters.maxLevel)
+    );
+  });
+}
+
+/**
+ * Values present in the catalogue for each filter, so the dropdowns never offer an empty result
+ */
+export function getLibraryFacets(entries: LibraryEntry[]): { books: string[]; classes: string[]; tags: string[] } {
+  const unique = (values: Array<string | undefined>) => [...new Set(values.filter((value): value is string => Boolean(value)))].sort();
+  const knownTags: string[] = Object.values(EFFECT_TAGS);
+
+  return {
+    books: unique(entries.map(entry => entry.book)),
+    classes: unique(entries.map(entry => entry.className)),
+    tags: knownTags.filter(tag => entries.some(entry => entry.tags.includes(tag)))
+  };
+}
+
+const describeModifiers = (effect: Effect): string[] => {
+  const modifiers = effect.modifiers || {};
+  const lines: string[] = [];
+
+  if (modifiers.toHit) lines.push(`${signed(modifiers.toHit)} to attack rolls`);
+  if (modifiers.damage) {
+    const { bonus, dice, damageType, multiplier, reroll } = modifiers.damage;
+    const type = damageType ? ` ${damageType}` : '';
+    if (dice) lines.push(`+${dice}${type} damage`);
+    if (bonus) lines.push(`${signed(bonus)}${type} damage`);
+    if (multiplier && multiplier !== 1) lines.push(`Damage ×${multiplier}`);
+    if (reroll) {
+      const faces = Array.isArray(reroll.condition) ? reroll.condition.join(' and ') : reroll.condition === 'min' ? 'the minimum' : 'the maximum';
+      lines.push(`Reroll ${faces} on damage dice${reroll.once ? ' once' : ''}`);
+    }
+  }
+  if (modifiers.ac) lines.push(`${signed(modifiers.ac)} AC`);
+  Object.entries(modifiers.savingThrows || {}).forEach(([save, bonus]) => {
+    lines.push(`${signed(bonus)} to ${SAVE_NAMES[save] || save} saving throws`);
+  });
+  if (modifiers.speed !== undefined) lines.push(modifiers.speed === 0 ? 'Speed becomes 0' : `${signed(modifiers.speed)} ft. speed`);
+  if (modifiers.hitPoints) lines.push(`${signed(modifiers.hitPoints)} hit points`);
+  if (modifiers.hitPointsPerLevel) lines.push(`${signed(modifiers.hitPointsPerLevel)} hit points per level`);
+  Object.entries(modifiers.abilityScores || {}).forEach(([ability, bonus]) => {
+    lines.push(`${signed(bonus || 0)} ${ability.charAt(0).toUpperCase()}${ability.slice(1)}`);
+  });
+  Object.entries(modifiers.abilityScoreMinimums || {}).forEach(([ability, score]) => {
+    lines.push(`${ability.charAt(0).toUpperCase()}${ability.slice(1)} becomes ${score} unless already higher`);
+  });
+  if (modifiers.resistances?.length) lines.push(`Resistance to ${modifiers.resistances.join(', ')} damage`);
+  if (effect.action) {
+    const { name, damageByLevel, damageType, area, save, halfOnSave } = effect.action;
+    const levels = Object.entries(damageByLevel).map(([level, dice]) => `${dice} at level ${level}`).join(', ');
+    lines.push(`${name}: ${damageType} damage (${levels})${area ? ` in a ${area}` : ''}, ${SAVE_NAMES[save]} save for ${halfOnSave ? 'half' : 'none'}`);
+  }
+  if (modifiers.critRange) lines.push(`Critical hit on a ${modifiers.critRange}–20`);
+
+  return lines;
+};
+
+const describeDuration = (duration: ReferenceEffect['duration'], concentration: boolean): string | null => {
+  if (!duration) return concentration ? 'Concentration' : null;
+  if (typeof duration === 'string') return duration.charAt(0).toUpperCase() + duration.slice(1);
+
+  const length = duration.permanent ? 'permanent'
+    : duration.untilRest ? `until a ${duration.untilRest} rest`
+    : duration.hours ? `${duration.hours} hour${duration.hours === 1 ? '' : 's'}`
+    : duration.minutes ? `${duration.minutes} minute${duration.minutes === 1 ? '' : 's'}`
+    : duration.rounds ? `${duration.rounds} round${duration.rounds === 1 ? '' : 's'}`
+    : null;
+  if (concentration || duration.concentration) return length ? `Concentration, up to ${length}` : 'Concentration';
+  return length ? `Lasts ${length}` : null;
+};
+
+const describeUsage = (effect: ReferenceEffect): string[] => {
+  const lines: string[] = [];
+  const times = (count: number) => (count === 1 ? 'Once' : `${count} times`);
+  const usage = effect.usage || {};
+
+  if (usage.perTurn) lines.push(`${times(usage.perTurn)} per turn`);
+  if (usage.perRound) lines.push(`${times(usage.perRound)} per round`);
+  if (usage.perEncounter) lines.push(`${times(usage.perEncounter)} per encounter`);
+  if (usage.perShortRest) lines.push(`${times(usage.perShortRest)} per short rest`);
+  if (usage.perLongRest) lines.push(`${times(usage.perLongRest)} per long rest`);
+  if (usage.perDay) lines.push(`${times(usage.perDay)} per day`);
+  const item = effect.magicItem;
+  if (item) {
+    lines.push(`${item.rarity.charAt(0).toUpperCase()}${item.rarity.slice(1)}${item.requiresAttunement ? ', requires attunement' : ''}`);
+    if (item.activation) {
+      const cost = item.activation.chargeCost ? ` (${item.activation.chargeCost} charge${item.activation.chargeCost === 1 ? '' : 's'})` : '';
+      lines.push(`${item.activation.type === 'bonus' ? 'Bonus action' : humanizeHook(item.activation.type)}: ${item.activation.description}${cost}`);
+    }
+  }
+  if (usage.charges) lines.push(`${usage.charges} charges${item?.rechargeDice ? `, regains ${item.rechargeDice} at dawn` : ''}`);
+  if (effect.rechargeType) lines.push(`Recharges on a ${effect.rechargeType.replace('-', ' ')}`);
+
+  const cost = effect.resourceCost;
+  if (cost) {
+    const resource = cost.type === 'spellSlot'
+      ? `${cost.level ? `level ${cost.level}+ ` : ''}spell slot`
+      : humanizeHook(cost.type).toLowerCase();
+    lines.push(`Costs ${cost.amount} ${resource}${cost.amount === 1 ? '' : 's'}`);
+  }
+
+  const duration = describeDuration(effect.duration, Boolean(effect.concentration));
+  if (duration) lines.push(duration);
+
+  return lines;
+};
+
+const describeStacking = (effect: Effect): string[] => {
+  const stacking = effect.stacking || {};
+  const names = (ids: string[]) => ids.map(humanizeId).join(', ');
+  const lines: string[] = [];
+
+  if (stacking.replaces?.length) lines.push(`Replaces ${names(stacking.replaces)}`);
+  if (stacking.mutuallyExclusive?.length) lines.push(`Can't be combined with ${names(stacking.mutuallyExclusive)}`);
+  if (stacking.stacksWith?.length) lines.push(`Stacks with ${names(stacking.stacksWith)}`);
+  if (stacking.category) lines.push(`Stacking category: ${stacking.category}`);
+
+  return lines;
+};
+
+const describeConditions = (effect: Effect): string[] => {
+  const conditions = effect.conditions;
+  if (!conditions) return [];
+
+  return [
+    conditions.weaponTypes?.length ? `Weapons: ${conditions.weaponTypes.join(', ')}` : null,
+    conditions.spellTypes?.length ? `Spells: ${conditions.spellTypes.join(', ')}` : null,
+    conditions.damageTypes?.length ? `Damage types: ${conditions.damageTypes.join(', ')}` : null,
+    conditions.targetTypes?.length ? `Targets: ${conditions.targetTypes.join(', ')}` : null,
+    conditions.combatPhase ? `Uses your ${conditions.combatPhase === 'bonus' ? 'bonus action' : conditions.combatPhase}` : null,
+    ...(conditions.requirements || []).map(requirement => `When ${requirement}`)
+  ].filter((line): line is string => Boolean(line));
+};
+
+const ACTION_LABELS: Record<SpellDefinition['castingTime'], string> = {
+  action: '1 action',
+  bonus: '1 bonus action',
+  reaction: '1 reaction'
+};
+
+/**
+ * Casting time, how a spell resolves, and what it does at each slot level (or each cantrip
+ * tier) as readable lines
+ */
+export function describeSpell(spell: SpellDefinition): string[] {
+  const save = spell.save ? `${spell.save.charAt(0).toUpperCase()}${spell.save.slice(1)}` : '';
+  const resolution = spell.resolution === 'attack' ? 'Spell attack'
+    : spell.resolution === 'save' ? `${save} save${spell.saveForHalf ? ' for half' : ''}`
+    : spell.resolution === 'auto' ? 'Hits automatically'
+    : null;
+
+  const lines = [
+    `${spell.level === 0 ? 'Cantrip' : `Level ${spell.level}`} ${spell.school}, ${ACTION_LABELS[spell.castingTime]}${spell.concentration ? ', concentration' : ''}`,
+    ...(resolution ? [resolution] : []),
+    ...(spell.area ? [`Area: ${spell.area}`] : [])
+  ];
+
+  Object.entries(spell.castings).forEach(([level, casting]) => {
+    const parts = [
+      casting.damage ? `${casting.attacks && casting.attacks > 1 ? `${casting.attacks} × ` : ''}${casting.damage}${spell.damageType ? ` ${spell.damageType}` : ''}` : null,
+      casting.targets && casting.targets > 1 ? `${casting.targets} targets` : null,
+      casting.rider || null
+    ].filter((part): part is string => Boolean(part));
+    const label = spell.level === 0 ? `Character level ${level}+` : `Level ${level} slot`;
+    if (parts.length > 0) lines.push(`${label}: ${parts.join(', ')}`);
+  });
+
+  return lines;
+}
+
+/**
+ * Modifiers, hook stages, usage limits and stacking rules of an effect as readable lines
+ */
+export function describeEffect(effect: Effect): EffectDetails {
+  return {
+    modifiers: describeModifiers(effect),
+    hooks: effect.rules?.length
+      ? effect.rules.map(describeEffectRule)
+      : Object.keys(effect.hooks || {}).map(hook => HOOK_LABELS[hook] || humanizeHook(hook)),
+    usage: describeUsage(effect as ReferenceEffect),
+    stacking: describeStacking(effect),
+    conditions: describeConditions(effect)
+  };
+}
@@ -3,7 +3,7 @@
  * Handles spell slot stacking, resource tracking, and optimization for D&D 5e
  */
 
-import type { SimpleBuild, ClassLevel } from '../store/simpleStore';
+import type { Build, ClassLevel } from '../types/build';
 
 // Spellcasting progression types
 export type SpellcasterType = 'full' | 'half' | 'third' | 'warlock' | 'none';
@@ -192,13 +192,17 @@ export function calculateMulticlassSpellcasterLevel(classLevels: ClassLevel[]):
  * Get spell slots for a multiclass character
  */
 export function getMulticlassSpellSlots(classLevels: ClassLevel[]): Record<number, number> {
-  const spellcasterLevel = calculateMulticlassSpellcasterLevel(classLevels);
+  // A single half or third caster uses its own table; the multiclass rule only applies when classes combine
+  const casterClasses = classLevels.filter(classLevel => !['none', 'warlock'].includes(getSpellcasterType(classLevel.class)));
+  const singleCasterType = casterClasses.length === 1 ? getSpellcasterType(casterClasses[0].class) : null;
+  const singleClassTable = singleCasterType === 'half' ? HALF_CASTER_SLOTS : singleCasterType === 'third' ? THIRD_CASTER_SLOTS : null;
+  const spellcasterLevel = singleClassTable ? casterClasses[0].level : calculateMulticlassSpellcasterLevel(classLevels);
   
   if (spellcasterLevel === 0) {
     return {};
   }
   
-  const slotData = FULL_CASTER_SLOTS.find(entry => entry.level === spellcasterLevel);
+  const slotData = (singleClassTable || FULL_CASTER_SLOTS).find(entry => entry.level === spellcasterLevel);
   if (!slotData) {
     return {};
   }
@@ -228,8 +232,8 @@ export function getWarlockSlots(warlockLevel: number): { level: number; slots: n
 /**
  * Calculate all class resources for a build
  */
-export function calculateClassResources(build: SimpleBuild, characterLevel: number): ClassResources {
-  const classLevels = build.classLevels || [];
+export function calculateClassResources(build: Build, characterLevel: number): ClassResources {
+  const classLevels = build.levels || [];
   
   // Calculate spell slots
   const multiclassSpellSlots = getMulticlassSpellSlots(classLevels);
@@ -303,7 +307,7 @@ export function calculateClassResources(build: SimpleBuild, characterLevel: numb
         
       case 'bard':
         const inspirationDie = level >= 15 ? 'd12' : level >= 10 ? 'd10' : level >= 5 ? 'd8' : 'd6';
-        resources.bardInspiration = Math.max(1, Math.floor((build.abilityScores?.charisma || 10 - 10) / 2));
+        resources.bardInspiration = Math.max(1, Math.floor((build.abilities?.charisma || 10 - 10) / 2));
         break;
         
       case 'wizard':
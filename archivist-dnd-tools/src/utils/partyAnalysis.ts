@@ -0,0 +1,185 @@
+/**
+ * Party Analysis Engine
+ * Combined DPR for an adventuring party, with buffs crossing between members
+ */
+
+import type { Build } from '../types/build';
+import { getCharacterLevel } from './buildConversion';
+import type { CombatPolicyContext } from '../engine/policyEngine';
+import { DPRAnalysisEngine } from './dprAnalysis';
+
+export const MIN_PARTY_SIZE = 3;
+export const MAX_PARTY_SIZE = 6;
+
+export type PartyContext = NonNullable<CombatPolicyContext['partyContext']>;
+
+// Buff one member provides to others
+export interface PartyBuff {
+  id: string;
+  name: string;
+  sourceName: string;
+  recipients: string[];
+  description: string;
+}
+
+export interface PartyMemberResult {
+  buildId: string;
+  name: string;
+  level: number;
+  baseDPR: number; // alone
+  partyDPR: number; // with party buffs applied
+  buffs: string[];
+  saveBonus: number; // average bonus to saving throws from party buffs
+}
+
+export interface PartyAnalysis {
+  members: PartyMemberResult[];
+  buffs: PartyBuff[];
+  totalBaseDPR: number;
+  totalDPR: number;
+  partyContext: PartyContext;
+  totalHitPoints: number;
+  estimatedRounds: number; // total enemy hit points over party DPR
+}
+
+// Enemy the party is fighting
+export interface PartyEnemy {
+  armorClass: number;
+  hitPoints: number;
+}
+
+const HEALER_CLASSES = ['cleric', 'druid', 'bard'];
+const SUPPORT_CLASSES = ['cleric', 'bard', 'paladin'];
+const BLESS_TARGETS = 3;
+
+export class PartyAnalysisEngine {
+  /**
+   * Analyze a party against a single target or a group of enemies
+   */
+  static analyzeParty(builds: Build[], enemies: PartyEnemy[]): PartyAnalysis {
+    const buffs: PartyBuff[] = [];
+    const totalHitPoints = enemies.reduce((sum, enemy) => sum + enemy.hitPoints, 0);
+
+    const members: PartyMemberResult[] = builds.map(build => {
+      const baseDPR = this.getEncounterDPR(build, enemies, 0);
+      return {
+        buildId: build.id,
+        name: build.name,
+        level: this.getTotalLevel(build),
+        baseDPR,
+        partyDPR: baseDPR,
+        buffs: [],
+        saveBonus: 0
+      };
+    });
+
+    // Bless: one caster concentrating, up to three members get +1d4 to attacks and saves
+    const blessCaster = builds.find(build =>
+      this.getClassLevel(build, 'cleric') >= 1 || this.getClassLevel(build, 'paladin') >= 2
+    );
+    if (blessCaster) {
+      const gains = builds.map((build, index) => {
+        const blessedDPR = [1, 2, 3, 4]
+          .map(roll => this.getEncounterDPR(build, enemies, roll))
+          .reduce((sum, dpr) => sum + dpr, 0) / 4;
+        return { index, blessedDPR, gain: blessedDPR - members[index].baseDPR };
+      });
+      const recipients = [...gains].sort((a, b) => b.gain - a.gain).slice(0, BLESS_TARGETS);
+
+      for (const { index, blessedDPR } of recipients) {
+        members[index].partyDPR = blessedDPR;
+        members[index].saveBonus += 2.5;
+        members[index].buffs.push('Bless');
+      }
+
+      buffs.push({
+        id: 'bless',
+        name: 'Bless',
+        sourceName: blessCaster.name,
+        recipients: recipients.map(({ index }) => members[index].name),
+        description: '+1d4 to attack rolls and saving throws'
+      });
+    }
+
+    // Aura of Protection: the strongest paladin aura covers the whole party; auras don't stack
+    const strongestAura = builds
+      .filter(build => this.getClassLevel(build, 'paladin') >= 6)
+      .map(build => ({ build, bonus: Math.max(1, Math.floor(((build.abilities?.charisma ?? 10) - 10) / 2)) }))
+      .sort((a, b) => b.bonus - a.bonus)[0];
+    if (strongestAura) {
+      for (const member of members) {
+        member.saveBonus += strongestAura.bonus;
+        member.buffs.push('Aura of Protection');
+      }
+
+      buffs.push({
+        id: 'aura-of-protection',
+        name: 'Aura of Protection',
+        sourceName: strongestAura.build.name,
+        recipients: members.map(member => member.name),
+        description: `+${strongestAura.bonus} to saving throws`
+      });
+    }
+
+    const totalBaseDPR = members.reduce((sum, member) => sum + member.baseDPR, 0);
+    const totalDPR = members.reduce((sum, member) => sum + member.partyDPR, 0);
+
+    return {
+      members,
+      buffs,
+      totalBaseDPR,
+      totalDPR,
+      partyContext: this.getPartyContext(builds),
+      totalHitPoints,
+      estimatedRounds: totalDPR > 0 ? totalHitPoints / totalDPR : Infinity
+    };
+  }
+
+  /**
+   * Party context for policy decisions made by one member
+   */
+  static getPartyContext(builds: Build[]): PartyContext {
+    const classes = builds.flatMap(build => (build.levels || []).map(cl => cl.class.toLowerCase()));
+
+    return {
+      allyCount: Math.max(0, builds.length - 1),
+      averageLevel: builds.length > 0
+        ? builds.reduce((sum, build) => sum + this.getTotalLevel(build), 0) / builds.length
+        : 0,
+      hasHealer: classes.some(cls => HEALER_CLASSES.includes(cls)),
+      hasSupport: classes.some(cls => SUPPORT_CLASSES.includes(cls))
+    };
+  }
+
+  /**
+   * Party context for simulating one member, carrying the save bonus party buffs give them
+   */
+  static getMemberContext(analysis: PartyAnalysis, buildId: string): PartyContext {
+    const member = analysis.members.find(result => result.buildId === buildId);
+    return { ...analysis.partyContext, saveBonus: member?.saveBonus ?? 0 };
+  }
+
+  /**
+   * DPR against a group of enemies, weighting each AC by the hit points fought through at it
+   */
+  private static getEncounterDPR(build: Build, enemies: PartyEnemy[], attackBonusModifier: number): number {
+    const totalHitPoints = enemies.reduce((sum, enemy) => sum + enemy.hitPoints, 0);
+    if (enemies.length === 0) return 0;
+
+    return enemies.reduce((sum, enemy) => {
+      const weight = totalHitPoints > 0 ? enemy.hitPoints / totalHitPoints : 1 / enemies.length;
+      const { dpr } = DPRAnalysisEngine.calculateDPRAtAC(build, enemy.armorClass, 'normal', attackBonusModifier);
+      return sum + dpr * weight;
+    }, 0);
+  }
+
+  private static getClassLevel(build: Build, className: string): number {
+    return (build.levels || [])
+      .filter(cl => cl.class.toLowerCase() === className)
+      .reduce((sum, cl) => sum + cl.level, 0);
+  }
+
+  private static getTotalLevel(build: Build): number {
+    return getCharacterLevel(build);
+  }
+}
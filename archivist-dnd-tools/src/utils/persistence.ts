@@ -1,5 +1,7 @@
 import type { Build, SaveData, ExportData, AppSettings } from '../types';
+import type { Effect } from '../types/effects';
 import { validateBuild, validateSaveData, validateSettings } from '../types/schemas';
+import { validateHomebrewEffects } from './homebrewEffects';
 import { storage } from './helpers';
 
 const STORAGE_KEYS = {
@@ -14,7 +16,7 @@ const CURRENT_VERSION = '1.0.0';
 export const createSaveData = (
   builds: Build[], 
   settings: AppSettings, 
-  customEffects: any[] = []
+  customEffects: Effect[] = []
 ): SaveData => {
   return {
     version: CURRENT_VERSION,
@@ -192,13 +194,13 @@ export const exportToJSON = (
 export const importFromJSON = (jsonData: any): {
   builds: Build[];
   settings?: AppSettings;
-  customEffects?: any[];
+  customEffects?: Effect[];
   errors: string[];
 } => {
   const errors: string[] = [];
   const builds: Build[] = [];
   let settings: AppSettings | undefined;
-  let customEffects: any[] | undefined;
+  let customEffects: Effect[] | undefined;
   
   try {
     // Handle different import formats
@@ -237,8 +239,10 @@ export const importFromJSON = (jsonData: any): {
     }
     
     // Import custom effects
-    if (dataToImport.customEffects) {
-      customEffects = dataToImport.customEffects; // TODO: Add validation
+    if (Array.isArray(dataToImport.customEffects)) {
+      const validated = validateHomebrewEffects(dataToImport.customEffects);
+      customEffects = validated.effects;
+      validated.errors.forEach(error => errors.push(`Custom effect ${error}`));
     }
     
   } catch (error) {
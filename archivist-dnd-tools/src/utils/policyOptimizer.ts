@@ -0,0 +1,503 @@
+/**
+ * Spending Policy Optimizer
+ * Searches Divine Smite, Action Surge and Quickened Spell policies over an adventuring day and
+ * scores each one by its exact expected damage, with dynamic programming for the best possible smite play
+ */
+
+import type { Build, Policies } from '../types/build';
+import { getCharacterLevel } from './buildConversion';
+import { AdventuringDaySimulator, type DayEncounterPlan } from './adventuringDay';
+import { DPRAnalysisEngine } from './dprAnalysis';
+import { calculateClassResources } from './multiclassSpellcasting';
+import { ENCOUNTER_PACKS } from '../data/encounters/encounterPacks';
+
+export type ActionSurgeTiming = NonNullable<Policies['actionSurgeTiming']>;
+export type QuickenedSpellTiming = NonNullable<Policies['quickenedSpellTiming']>;
+
+// How a build spends its limited resources over the day
+export interface SpendingPolicy {
+  smitePolicy: Policies['smitePolicy'];
+  smiteSlotLevels: number[]; // slot levels Divine Smite may spend; the rest are kept for spells
+  actionSurge: ActionSurgeTiming;
+  quickenedSpell: QuickenedSpellTiming;
+}
+
+export interface PolicyEvaluation {
+  policy: SpendingPolicy;
+  totalDamage: number; // expected damage over the day
+  smiteDamage: number;
+  smitesUsed: number; // expected number of smites
+  actionSurgeDamage: number;
+  quickenedDamage: number;
+  spellDamage: number; // what slots kept back from smiting add when cast as damage spells
+}
+
+export interface PolicyOptimizationResult {
+  buildId: string;
+  name: string;
+  canSmite: boolean;
+  actionSurges: number; // uses per short rest
+  quickenedUses: number; // uses per long rest
+  current: PolicyEvaluation;
+  recommended: PolicyEvaluation;
+  gain: number; // recommended over current
+  perfectPlayDamage: number | null; // best smite play found by dynamic programming; null when the slot table is too large
+  candidates: PolicyEvaluation[]; // every policy searched, best first
+}
+
+// One pool of slots; pact slots come back on a short rest, the rest on a long rest
+interface SlotPool {
+  level: number;
+  count: number;
+  pactMagic: boolean;
+}
+
+// Per-encounter numbers every policy is scored against
+interface EncounterProfile {
+  rounds: number;
+  atWillDPR: number;
+  weaponDPR: number;
+  cantripDamage: number;
+  hitChance: number;
+  critChance: number;
+  smiteBonusDice: number; // extra d8 against undead and fiends, weighted by hit points
+  hitPoints: number;
+  spellValue: Record<number, number>; // slot level -> damage a spell adds over the at-will option
+}
+
+// The day as the optimizer sees it
+interface DayModel {
+  encounters: EncounterProfile[];
+  segments: number[][]; // encounter indices between short rests
+  pools: SlotPool[];
+  attacksPerRound: number;
+  surgeAttacks: number;
+  actionSurges: number;
+  quickenedUses: number;
+  canSmite: boolean;
+}
+
+type DayStep = { type: 'attack'; encounter: number } | { type: 'rest' };
+
+const SMITE_DIE_AVERAGE = 4.5;
+const MAX_SMITE_DICE = 5;
+const QUICKENED_SPELL_COST = 2;
+const SMITE_BONUS_TYPES = ['undead', 'fiend'];
+const ACTION_SURGE_TIMINGS: ActionSurgeTiming[] = ['opening-round', 'toughest-fight', 'never'];
+const QUICKENED_SPELL_TIMINGS: QuickenedSpellTiming[] = ['opening-round', 'every-round', 'never'];
+
+// Slot table size times day length above which the perfect-play search is skipped
+const MAX_PERFECT_PLAY_STATES = 250000;
+
+const ordinal = (level: number): string => `${level}${level === 1 ? 'st' : level === 2 ? 'nd' : level === 3 ? 'rd' : 'th'}`;
+
+export class PolicyOptimizer {
+  /**
+   * Score every spending policy for the build over the day plan and recommend the best one
+   */
+  static optimize(build: Build, plan: DayEncounterPlan[]): PolicyOptimizationResult {
+    const model = this.createDayModel(build, plan);
+    const levels = [...new Set(model.pools.map(pool => pool.level))].sort((a, b) => a - b);
+
+    // Smite with any contiguous range of slot levels, keeping the others for spells
+    const ranges: number[][] = [];
+    levels.forEach((_, start) => {
+      levels.slice(start).forEach((__, length) => ranges.push(levels.slice(start, start + length + 1)));
+    });
+    const smiteOptions: Array<Pick<SpendingPolicy, 'smitePolicy' | 'smiteSlotLevels'>> = model.canSmite
+      ? [
+          { smitePolicy: 'never', smiteSlotLevels: [] },
+          ...(['onCrit', 'optimal', 'always'] as const).flatMap(smitePolicy =>
+            ranges.map(smiteSlotLevels => ({ smitePolicy, smiteSlotLevels }))
+          )
+        ]
+      : [{ smitePolicy: build.policies.smitePolicy, smiteSlotLevels: levels }];
+    const surgeOptions = model.actionSurges > 0 ? ACTION_SURGE_TIMINGS : (['never'] as ActionSurgeTiming[]);
+
+    // Quickened Spell spends sorcery points no other policy touches, so its best timing is found on its own
+    const quickenedOptions = (model.quickenedUses > 0 ? QUICKENED_SPELL_TIMINGS : (['never'] as QuickenedSpellTiming[]))
+      .map(quickenedSpell => ({ quickenedSpell, damage: this.getQuickenedDamage(model, quickenedSpell) }));
+    const bestQuickened = quickenedOptions.reduce((best, option) => (option.damage > best.damage ? option : best));
+
+    const candidates = surgeOptions.flatMap(actionSurge =>
+      smiteOptions.map(smite => this.evaluatePolicy(model, { ...smite, actionSurge, quickenedSpell: bestQuickened.quickenedSpell }))
+    ).sort((a, b) => b.totalDamage - a.totalDamage);
+
+    // The saved policy, with slot levels the build no longer has dropped
+    const savedSlotLevels = build.policies.smiteSlotLevels?.filter(level => levels.includes(level));
+    const current = this.evaluatePolicy(model, {
+      smitePolicy: build.policies.smitePolicy,
+      smiteSlotLevels: savedSlotLevels?.length ? savedSlotLevels : levels,
+      actionSurge: model.actionSurges > 0 ? build.policies.actionSurgeTiming ?? 'opening-round' : 'never',
+      quickenedSpell: model.quickenedUses > 0 ? build.policies.quickenedSpellTiming ?? 'never' : 'never'
+    });
+    // Keep the current setting unless something actually beats it
+    const recommended = candidates[0] && candidates[0].totalDamage > current.totalDamage + 0.01 ? candidates[0] : current;
+
+    return {
+      buildId: build.id,
+      name: build.name,
+      canSmite: model.canSmite,
+      actionSurges: model.actionSurges,
+      quickenedUses: model.quickenedUses,
+      current,
+      recommended,
+      gain: recommended.totalDamage - current.totalDamage,
+      perfectPlayDamage: this.getPerfectPlayDamage(model, recommended.policy),
+      candidates
+    };
+  }
+
+  /**
+   * Plain-language summary of a spending policy, one line per resource the build has
+   */
+  static describePolicy(policy: SpendingPolicy, result: Pick<PolicyOptimizationResult, 'canSmite' | 'actionSurges' | 'quickenedUses'>): string[] {
+    const lines: string[] = [];
+
+    if (result.canSmite) {
+      const levels = policy.smiteSlotLevels;
+      const slots = levels.length === 1
+        ? `${ordinal(levels[0])} level slots`
+        : `${ordinal(levels[0])}–${ordinal(levels[levels.length - 1])} level slots`;
+      if (policy.smitePolicy === 'never' || levels.length === 0) lines.push('Never smite; keep every slot for spells');
+      if (policy.smitePolicy === 'onCrit' && levels.length) lines.push(`Smite only on critical hits, with ${slots}`);
+      if (policy.smitePolicy === 'optimal' && levels.length) {
+        lines.push(`Smite every crit, and other hits only while ${slots} outnumber the crits still to come`);
+      }
+      if (policy.smitePolicy === 'always' && levels.length) lines.push(`Smite on every hit with ${slots}, lowest first`);
+    }
+    if (result.actionSurges > 0) {
+      if (policy.actionSurge === 'opening-round') lines.push('Action Surge in the opening round of the first fight after each rest');
+      if (policy.actionSurge === 'toughest-fight') lines.push('Hold Action Surge for the toughest fight before each rest');
+      if (policy.actionSurge === 'never') lines.push('Keep Action Surge in reserve');
+    }
+    if (result.quickenedUses > 0) {
+      if (policy.quickenedSpell === 'opening-round') lines.push('Quicken a cantrip in the opening round of each fight');
+      if (policy.quickenedSpell === 'every-round') lines.push('Quicken a cantrip every round until sorcery points run out');
+      if (policy.quickenedSpell === 'never') lines.push('Save sorcery points instead of quickening cantrips');
+    }
+
+    return lines;
+  }
+
+  private static createDayModel(build: Build, plan: DayEncounterPlan[]): DayModel {
+    const characterLevel = getCharacterLevel(build);
+    const resources = calculateClassResources(build, characterLevel);
+    const attackCalc = DPRAnalysisEngine.getAttackCalculation(build);
+
+    const pools: SlotPool[] = Object.entries(resources.spellSlots)
+      .filter(([, count]) => count > 0)
+      .map(([level, count]) => ({ level: Number(level), count, pactMagic: false }));
+    if (resources.warlockSlots && resources.warlockSlots.slots > 0) {
+      pools.push({ level: resources.warlockSlots.level, count: resources.warlockSlots.slots, pactMagic: true });
+    }
+
+    const paladinLevel = build.levels.find(classLevel => classLevel.class.toLowerCase() === 'paladin')?.level || 0;
+    const canSmite = paladinLevel >= 2 && build.equipment?.mainHand?.type !== 'ranged' && pools.length > 0;
+    const hasQuickenedSpell = Object.values(build.featureSelections || {})
+      .some(selection => selection.selections?.includes('quickened-spell'));
+
+    const encounters = plan
+      .filter(encounter => ENCOUNTER_PACKS[encounter.packId])
+      .map(encounter => {
+        const enemies = ENCOUNTER_PACKS[encounter.packId].enemies;
+        const weaponDPR = AdventuringDaySimulator.getWeaponDPR(build, enemies);
+        const cantripDamage = AdventuringDaySimulator.getBestSpell(build, enemies, 0).damage;
+        const atWillDPR = Math.max(weaponDPR, cantripDamage);
+        const spellValue = Object.fromEntries(pools.map(pool => [
+          pool.level,
+          Math.max(0, AdventuringDaySimulator.getBestSpell(build, enemies, pool.level).damage - atWillDPR)
+        ]));
+
+        return {
+          rounds: encounter.rounds,
+          atWillDPR,
+          weaponDPR,
+          cantripDamage,
+          hitChance: AdventuringDaySimulator.weightByHitPoints(enemies, enemy =>
+            DPRAnalysisEngine.calculateDPRAtAC(build, enemy.armorClass).hitChance
+          ),
+          critChance: AdventuringDaySimulator.weightByHitPoints(enemies, enemy =>
+            DPRAnalysisEngine.calculateDPRAtAC(build, enemy.armorClass).critChance
+          ),
+          smiteBonusDice: AdventuringDaySimulator.weightByHitPoints(enemies, enemy =>
+            (SMITE_BONUS_TYPES.includes(enemy.type || '') ? 1 : 0)
+          ),
+          hitPoints: enemies.reduce((sum, enemy) => sum + enemy.hitPoints, 0),
+          spellValue
+        };
+      });
+
+    // Short rests split the day; a rest after the last fight changes nothing
+    const segments: number[][] = [[]];
+    plan.filter(encounter => ENCOUNTER_PACKS[encounter.packId]).forEach((encounter, index) => {
+      segments[segments.length - 1].push(index);
+      if (encounter.shortRestAfter && index < encounters.length - 1) segments.push([]);
+    });
+
+    return {
+      encounters,
+      segments,
+      pools,
+      attacksPerRound: attackCalc.attackCount + attackCalc.bonusActionAttacks.reduce((sum, attack) => sum + attack.count, 0),
+      surgeAttacks: attackCalc.attackCount,
+      actionSurges: resources.actionSurges,
+      quickenedUses: hasQuickenedSpell ? Math.floor(resources.sorceryPoints / QUICKENED_SPELL_COST) : 0,
+      canSmite
+    };
+  }
+
+  /**
+   * Expected damage of one policy: at-will damage plus exact smite, surge, quickened and spell damage
+   */
+  private static evaluatePolicy(model: DayModel, policy: SpendingPolicy): PolicyEvaluation {
+    const surgeRounds = this.getSurgeRounds(model, policy.actionSurge);
+    const steps = this.getDaySteps(model, surgeRounds);
+    const allowed = model.pools.map(pool => model.canSmite && policy.smitePolicy !== 'never' && policy.smiteSlotLevels.includes(pool.level));
+
+    const { damage: smiteDamage, used: smitesUsed } = this.getSmiteDamage(model, steps, policy, allowed);
+    const baseDamage = model.encounters.reduce((sum, encounter) => sum + encounter.atWillDPR * encounter.rounds, 0);
+    const actionSurgeDamage = [...surgeRounds].reduce((sum, key) => sum + model.encounters[Number(key.split(':')[0])].weaponDPR, 0);
+    const quickenedDamage = this.getQuickenedDamage(model, policy.quickenedSpell);
+
+    // Slots kept back from smiting are cast as damage spells; pact slots again after every short rest
+    const spellDamage = model.pools.reduce((sum, pool, index) => {
+      if (allowed[index]) return sum;
+      const refills = pool.pactMagic ? model.segments.length : 1;
+      return sum + pool.count * refills * this.getAverageSpellValue(model, pool.level);
+    }, 0);
+
+    return {
+      policy,
+      totalDamage: baseDamage + smiteDamage + actionSurgeDamage + quickenedDamage + spellDamage,
+      smiteDamage,
+      smitesUsed,
+      actionSurgeDamage,
+      quickenedDamage,
+      spellDamage
+    };
+  }
+
+  /**
+   * Follow the probability of every slot table through the day's attacks: each attack misses,
+   * hits or crits, and the policy decides which slot, if any, that hit spends
+   */
+  private static getSmiteDamage(
+    model: DayModel,
+    steps: DayStep[],
+    policy: SpendingPolicy,
+    allowed: boolean[]
+  ): { damage: number; used: number } {
+    if (!allowed.some(Boolean)) return { damage: 0, used: 0 };
+
+    const remainingCrits = this.getRemainingCrits(model, steps);
+    let states = new Map<string, { counts: number[]; probability: number }>();
+    const initial = model.pools.map(pool => pool.count);
+    states.set(initial.join(','), { counts: initial, probability: 1 });
+    let damage = 0;
+    let used = 0;
+
+    const add = (next: typeof states, counts: number[], probability: number) => {
+      const key = counts.join(',');
+      const existing = next.get(key);
+      if (existing) existing.probability += probability;
+      else next.set(key, { counts, probability });
+    };
+
+    steps.forEach((step, t) => {
+      const next: typeof states = new Map();
+
+      if (step.type === 'rest') {
+        states.forEach(({ counts, probability }) => add(next, this.refillPactSlots(model, counts), probability));
+        states = next;
+        return;
+      }
+
+      const encounter = model.encounters[step.encounter];
+      const outcomes = [
+        { probability: 1 - encounter.hitChance, isHit: false, isCrit: false },
+        { probability: encounter.hitChance - encounter.critChance, isHit: true, isCrit: false },
+        { probability: encounter.critChance, isHit: true, isCrit: true }
+      ].filter(outcome => outcome.probability > 0);
+
+      states.forEach(({ counts, probability }) => {
+        outcomes.forEach(outcome => {
+          const branch = probability * outcome.probability;
+          const pool = outcome.isHit ? this.chooseSmitePool(model, policy, allowed, counts, outcome.isCrit, remainingCrits[t]) : -1;
+          if (pool < 0) {
+            add(next, counts, branch);
+            return;
+          }
+          damage += branch * this.getSmiteDamagePerUse(model.pools[pool].level, encounter, outcome.isCrit);
+          used += branch;
+          add(next, counts.map((count, index) => (index === pool ? count - 1 : count)), branch);
+        });
+      });
+      states = next;
+    });
+
+    return { damage, used };
+  }
+
+  /**
+   * Slot a hit spends under the policy: crits take the highest allowed slot, other hits the lowest.
+   * The optimal policy smites a normal hit only while its slots outnumber the crits expected before they come back
+   */
+  private static chooseSmitePool(
+    model: DayModel,
+    policy: SpendingPolicy,
+    allowed: boolean[],
+    counts: number[],
+    isCrit: boolean,
+    remainingCrits: { leveled: number; pact: number }
+  ): number {
+    const available = model.pools
+      .map((pool, index) => ({ pool, index }))
+      .filter(({ index }) => allowed[index] && counts[index] > 0)
+      .sort((a, b) => a.pool.level - b.pool.level);
+    if (available.length === 0) return -1;
+    if (isCrit) return available[available.length - 1].index;
+    if (policy.smitePolicy === 'always') return available[0].index;
+    if (policy.smitePolicy !== 'optimal') return -1;
+
+    const spare = available.find(({ pool }) => {
+      const slotsLeft = available
+        .filter(candidate => candidate.pool.pactMagic === pool.pactMagic)
+        .reduce((sum, candidate) => sum + counts[candidate.index], 0);
+      return slotsLeft > (pool.pactMagic ? remainingCrits.pact : remainingCrits.leveled);
+    });
+    return spare ? spare.index : -1;
+  }
+
+  /**
+   * Best smite play over the day by backward induction over every slot table, with the
+   * policy's Action Surge timing; leftover slots are cast as damage spells
+   */
+  private static getPerfectPlayDamage(model: DayModel, policy: SpendingPolicy): number | null {
+    const surgeRounds = this.getSurgeRounds(model, policy.actionSurge);
+    const steps = this.getDaySteps(model, surgeRounds);
+    const tableSize = model.pools.reduce((product, pool) => product * (pool.count + 1), 1);
+    if (tableSize * steps.length > MAX_PERFECT_PLAY_STATES) return null;
+
+    const spellValue = model.pools.map(pool => this.getAverageSpellValue(model, pool.level));
+    const leftoverValue = (counts: number[], pactOnly: boolean): number => counts.reduce(
+      (sum, count, index) => (pactOnly && !model.pools[index].pactMagic ? sum : sum + count * spellValue[index]),
+      0
+    );
+    const memo = new Map<string, number>();
+
+    const value = (t: number, counts: number[]): number => {
+      if (t === steps.length) return leftoverValue(counts, false);
+      const key = `${t}|${counts.join(',')}`;
+      const cached = memo.get(key);
+      if (cached !== undefined) return cached;
+
+      const step = steps[t];
+      let result: number;
+      if (step.type === 'rest') {
+        result = leftoverValue(counts, true) + value(t + 1, this.refillPactSlots(model, counts));
+      } else {
+        const encounter = model.encounters[step.encounter];
+        const bestOnHit = (isCrit: boolean): number => counts.reduce((best, count, index) => {
+          if (!model.canSmite || count === 0) return best;
+          const spent = counts.map((c, i) => (i === index ? c - 1 : c));
+          return Math.max(best, this.getSmiteDamagePerUse(model.pools[index].level, encounter, isCrit) + value(t + 1, spent));
+        }, value(t + 1, counts));
+        result = (1 - encounter.hitChance) * value(t + 1, counts) +
+          (encounter.hitChance - encounter.critChance) * bestOnHit(false) +
+          encounter.critChance * bestOnHit(true);
+      }
+
+      memo.set(key, result);
+      return result;
+    };
+
+    const evaluation = this.evaluatePolicy(model, policy);
+    const smitePlay = value(0, model.pools.map(pool => pool.count));
+    return evaluation.totalDamage - evaluation.smiteDamage - evaluation.spellDamage + smitePlay;
+  }
+
+  // Attacks in order, with a rest step wherever a short rest falls
+  private static getDaySteps(model: DayModel, surgeRounds: Set<string>): DayStep[] {
+    const steps: DayStep[] = [];
+    model.segments.forEach((segment, segmentIndex) => {
+      if (segmentIndex > 0) steps.push({ type: 'rest' });
+      segment.forEach(encounterIndex => {
+        for (let round = 1; round <= model.encounters[encounterIndex].rounds; round++) {
+          const attacks = model.attacksPerRound + (surgeRounds.has(`${encounterIndex}:${round}`) ? model.surgeAttacks : 0);
+          for (let attack = 0; attack < attacks; attack++) steps.push({ type: 'attack', encounter: encounterIndex });
+        }
+      });
+    });
+    return steps;
+  }
+
+  /**
+   * Rounds ("encounter:round") that get an Action Surge: opening rounds first, in fight order
+   * or toughest fight first, up to the uses each short rest gives back
+   */
+  private static getSurgeRounds(model: DayModel, timing: ActionSurgeTiming): Set<string> {
+    const rounds = new Set<string>();
+    if (timing === 'never' || model.actionSurges === 0) return rounds;
+
+    model.segments.forEach(segment => {
+      const fights = timing === 'toughest-fight'
+        ? [...segment].sort((a, b) => model.encounters[b].hitPoints - model.encounters[a].hitPoints)
+        : segment;
+      const maxRounds = Math.max(0, ...fights.map(index => model.encounters[index].rounds));
+      const candidates: string[] = [];
+      for (let round = 1; round <= maxRounds; round++) {
+        fights.forEach(index => {
+          if (round <= model.encounters[index].rounds) candidates.push(`${index}:${round}`);
+        });
+      }
+      candidates.slice(0, model.actionSurges).forEach(key => rounds.add(key));
+    });
+    return rounds;
+  }
+
+  // Extra cantrip damage from Quickened Spell until the sorcery points run out
+  private static getQuickenedDamage(model: DayModel, timing: QuickenedSpellTiming): number {
+    if (timing === 'never' || model.quickenedUses === 0) return 0;
+
+    const casts = model.encounters.flatMap((encounter, index) =>
+      timing === 'opening-round' ? [index] : Array.from({ length: encounter.rounds }, () => index)
+    );
+    return casts
+      .slice(0, model.quickenedUses)
+      .reduce((sum, index) => sum + model.encounters[index].cantripDamage, 0);
+  }
+
+  // Expected crits left before each pool type comes back, counted after each step
+  private static getRemainingCrits(model: DayModel, steps: DayStep[]): Array<{ leveled: number; pact: number }> {
+    const remaining: Array<{ leveled: number; pact: number }> = new Array(steps.length);
+    let leveled = 0;
+    let pact = 0;
+    for (let t = steps.length - 1; t >= 0; t--) {
+      remaining[t] = { leveled, pact };
+      const step = steps[t];
+      if (step.type === 'rest') {
+        pact = 0;
+      } else {
+        leveled += model.encounters[step.encounter].critChance;
+        pact += model.encounters[step.encounter].critChance;
+      }
+    }
+    return remaining;
+  }
+
+  private static refillPactSlots(model: DayModel, counts: number[]): number[] {
+    return counts.map((count, index) => (model.pools[index].pactMagic ? model.pools[index].count : count));
+  }
+
+  // 2d8 from a 1st level slot, 1d8 more per level up to 5d8, doubled on a crit
+  private static getSmiteDamagePerUse(slotLevel: number, encounter: EncounterProfile, isCrit: boolean): number {
+    const dice = Math.min(MAX_SMITE_DICE, slotLevel + 1) + encounter.smiteBonusDice;
+    return dice * SMITE_DIE_AVERAGE * (isCrit ? 2 : 1);
+  }
+
+  private static getAverageSpellValue(model: DayModel, slotLevel: number): number {
+    if (model.encounters.length === 0) return 0;
+    return model.encounters.reduce((sum, encounter) => sum + (encounter.spellValue[slotLevel] || 0), 0) / model.encounters.length;
+  }
+}
@@ -3,7 +3,8 @@
  * Handles spell slots, class resources, short/long rests, and optimization
  */
 
-import type { SimpleBuild } from '../store/simpleStore';
+import type { Build } from '../types/build';
+import { getCharacterLevel } from './buildConversion';
 import { calculateClassResources, type ClassResources } from './multiclassSpellcasting';
 
 export interface ResourceState {
@@ -44,11 +45,12 @@ export interface RestBenefit {
 export class ResourceManager {
   private state: ResourceState;
   
-  constructor(build: SimpleBuild) {
-    const maxResources = calculateClassResources(build, build.level);
+  constructor(build: Build) {
+    const maxResources = calculateClassResources(build, getCharacterLevel(build));
     this.state = {
-      current: { ...maxResources },
-      maximum: { ...maxResources },
+      // Slot tables are copied so spending current slots never touches the maximum
+      current: ResourceManager.copyResources(maxResources),
+      maximum: ResourceManager.copyResources(maxResources),
       usageHistory: [],
       combatRound: 0,
       encountersToday: 0,
@@ -91,6 +93,36 @@ export class ResourceManager {
     return true;
   }
 
+  /**
+   * Spend one spell slot of a specific level, from pact magic or regular slots
+   */
+  useSpellSlot(level: number, pactMagic: boolean = false, damageDealt: number = 0): boolean {
+    if (pactMagic) {
+      const warlockSlots = this.state.current.warlockSlots;
+      if (!warlockSlots || warlockSlots.level !== level || warlockSlots.slots < 1) {
+        return false;
+      }
+      warlockSlots.slots--;
+    } else {
+      const spellSlots = this.state.current.spellSlots;
+      if (!spellSlots[level] || spellSlots[level] < 1) {
+        return false;
+      }
+      spellSlots[level]--;
+    }
+
+    this.state.usageHistory.push({
+      round: this.state.combatRound,
+      encounter: this.state.encountersToday,
+      resource: pactMagic ? 'warlockSlots' : 'spellSlots',
+      amount: 1,
+      purpose: 'damage',
+      efficiency: damageDealt
+    });
+
+    return true;
+  }
+
   /**
    * Get current amount of a resource
    */
@@ -412,6 +444,15 @@ export class ResourceManager {
     };
   }
 
+  private static copyResources(resources: ClassResources): ClassResources {
+    return {
+      ...resources,
+      spellSlots: { ...resources.spellSlots },
+      warlockSlots: resources.warlockSlots ? { ...resources.warlockSlots } : null,
+      metamagicOptions: [...resources.metamagicOptions]
+    };
+  }
+
   /**
    * Advance to next round
    */
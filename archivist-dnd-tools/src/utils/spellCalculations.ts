@@ -2,112 +2,53 @@
  * Spell damage and effect calculations for DPR simulation
  */
 
-import type { SimpleBuild } from '../store/simpleStore';
+import type { Build } from '../types/build';
+import type { EnemyTemplate } from '../data/encounters/encounterPacks';
+import { getCharacterLevel } from './buildConversion';
+import { getSpell, type SpellCasting, type SpellDefinition } from '../data/spellCatalog';
 
-export interface SpellEffect {
+export type SavingThrowAbility = 'strength' | 'dexterity' | 'constitution' | 'intelligence' | 'wisdom' | 'charisma';
+
+// A damage spell a build can cast, with its expected damage at every slot level the build has
+export interface BuildSpellDamage {
   name: string;
   level: number;
-  damageType?: 'attack' | 'save';
-  savingThrow?: 'strength' | 'dexterity' | 'constitution' | 'intelligence' | 'wisdom' | 'charisma';
-  damage: string; // Dice notation like "3d6" or "8d6"
-  scalingDamage?: string; // Additional damage per spell level above base
-  isCantrip?: boolean;
-  attackBonus?: number; // For spell attacks
-  requiresConcentration?: boolean;
-  targetCount?: number; // For AoE spells
-  saveForHalf?: boolean; // Whether failed save deals half damage
-  duration?: number; // In rounds
+  resolution: SpellDefinition['resolution'];
+  slotLevel: number; // slot it's best cast with; 0 for cantrips
+  averageDamage: number;
+  damageBySlot: SpellSlotDamage[];
 }
 
-// Common spell database for DPR calculations
-export const SPELL_DATABASE: Record<string, SpellEffect> = {
-  // Cantrips
-  'fire bolt': {
-    name: 'Fire Bolt',
-    level: 0,
-    isCantrip: true,
-    damageType: 'attack',
-    damage: '1d10',
-    scalingDamage: '1d10', // Cantrips scale at character level
-  },
-  'eldritch blast': {
-    name: 'Eldritch Blast',
-    level: 0,
-    isCantrip: true,
-    damageType: 'attack',
-    damage: '1d10',
-    scalingDamage: '1d10',
-  },
-  
-  // 1st Level Spells
-  'magic missile': {
-    name: 'Magic Missile',
-    level: 1,
-    damageType: 'attack',
-    damage: '3*(1d4+1)', // 3 missiles, auto-hit
-    scalingDamage: '1*(1d4+1)', // +1 missile per level
-  },
-  'burning hands': {
-    name: 'Burning Hands',
-    level: 1,
-    damageType: 'save',
-    savingThrow: 'dexterity',
-    damage: '3d6',
-    scalingDamage: '1d6',
-    saveForHalf: true,
-    targetCount: 3, // Typical number of enemies in cone
-  },
-  
-  // 2nd Level Spells
-  'scorching ray': {
-    name: 'Scorching Ray',
-    level: 2,
-    damageType: 'attack',
-    damage: '3*(2d6)', // 3 rays
-    scalingDamage: '1*(2d6)', // +1 ray per level
-  },
-  
-  // 3rd Level Spells
-  'fireball': {
-    name: 'Fireball',
-    level: 3,
-    damageType: 'save',
-    savingThrow: 'dexterity',
-    damage: '8d6',
-    scalingDamage: '1d6',
-    saveForHalf: true,
-    targetCount: 4, // Typical number of enemies in blast
-  },
-  
-  // Concentration buffs/debuffs
-  'hex': {
-    name: 'Hex',
-    level: 1,
-    requiresConcentration: true,
-    damage: '1d6', // Extra damage on each hit
-    duration: 10, // 1 hour = many rounds
-  },
-  'hunters mark': {
-    name: "Hunter's Mark",
-    level: 1,
-    requiresConcentration: true,
-    damage: '1d6',
-    duration: 10,
-  },
-  'bless': {
-    name: 'Bless',
-    level: 1,
-    requiresConcentration: true,
-    damage: '0', // No direct damage, provides +1d4 to attacks
-    duration: 10,
-  },
-};
+// Creature caught in an area spell
+export type AreaSpellTarget = Pick<
+  EnemyTemplate,
+  'name' | 'abilityScores' | 'savingThrows' | 'traits' | 'resistances' | 'immunities' | 'vulnerabilities'
+>;
+
+// Expected area spell damage against one creature
+export interface AreaSpellTargetResult {
+  name: string;
+  saveBonus: number;
+  saveChance: number;
+  damageMultiplier: number; // 0 immune, 0.5 resistant, 2 vulnerable
+  hasEvasion: boolean;
+  hasMagicResistance: boolean;
+  expectedDamage: number;
+}
+
+export interface AreaSpellResult {
+  spellName: string;
+  baseDamage: number;
+  spellSaveDC: number;
+  targets: AreaSpellTargetResult[];
+  totalExpectedDamage: number;
+}
 
 /**
  * Calculate spell damage for DPR analysis
  */
 export function calculateSpellDamage(
-  spell: SpellEffect,
+  spell: SpellDefinition,
   casterLevel: number,
   spellSlotLevel: number,
   target: {
@@ -121,38 +62,24 @@ export function calculateSpellDamage(
   hitChance?: number;
   saveChance?: number;
 } {
-  // Parse base damage
-  let baseDamage = parseDiceNotation(spell.damage);
-  
-  // Add scaling damage
-  if (spell.scalingDamage && spellSlotLevel > spell.level) {
-    const additionalLevels = spellSlotLevel - spell.level;
-    const scalingDamage = parseDiceNotation(spell.scalingDamage);
-    baseDamage += scalingDamage * additionalLevels;
-  }
-  
-  // Handle cantrip scaling based on character level
-  if (spell.isCantrip && spell.scalingDamage) {
-    const cantripTier = Math.floor((casterLevel - 1) / 6); // 0-3 tiers
-    const scalingDamage = parseDiceNotation(spell.scalingDamage);
-    baseDamage += scalingDamage * cantripTier;
-  }
+  const casting = getSpellCasting(spell, casterLevel, spellSlotLevel);
+  let baseDamage = calculateSpellBaseDamage(spell, casterLevel, spellSlotLevel);
   
   // Apply target count for AoE spells
-  if (spell.targetCount && spell.targetCount > 1) {
-    baseDamage *= spell.targetCount;
+  if (casting?.targets && casting.targets > 1) {
+    baseDamage *= casting.targets;
   }
   
-  if (spell.damageType === 'attack') {
+  if (spell.resolution === 'attack') {
     // Spell attack roll
     const hitChance = Math.max(0.05, Math.min(0.95, (21 - (target.ac - spellAttackBonus)) / 20));
     return {
       averageDamage: hitChance * baseDamage,
       hitChance,
     };
-  } else if (spell.damageType === 'save') {
+  } else if (spell.resolution === 'save') {
     // Saving throw spell
-    const saveBonus = target.saves[spell.savingThrow!] || 0;
+    const saveBonus = target.saves[spell.save!] || 0;
     const saveChance = Math.max(0.05, Math.min(0.95, (saveBonus + 11 - spellSaveDC) / 20));
     
     if (spell.saveForHalf) {
@@ -170,27 +97,220 @@ export function calculateSpellDamage(
         saveChance,
       };
     }
+  } else if (spell.resolution === 'auto') {
+    // Magic Missile's darts always hit
+    return {
+      averageDamage: baseDamage,
+      hitChance: 1,
+    };
   }
   
-  // Default case (concentration effects, etc.)
+  // Buffs and riders deal no damage of their own
   return {
     averageDamage: baseDamage,
   };
 }
 
+/**
+ * What a spell does cast with a slot of the given level; cantrips use the tier for the caster's
+ * character level (5th, 11th and 17th) instead. Undefined when the slot is below the spell's level
+ */
+export function getSpellCasting(spell: SpellDefinition, casterLevel: number, spellSlotLevel: number): SpellCasting | undefined {
+  const key = spell.level === 0 ? casterLevel : spellSlotLevel;
+  const levels = Object.keys(spell.castings).map(Number).filter(level => level <= key);
+  return levels.length > 0 ? spell.castings[Math.max(...levels)] : undefined;
+}
+
+/**
+ * Average damage of one target's share of a spell before hit or save: every ray or missile
+ * of the casting, including upcast and cantrip scaling
+ */
+function calculateSpellBaseDamage(spell: SpellDefinition, casterLevel: number, spellSlotLevel: number): number {
+  const casting = getSpellCasting(spell, casterLevel, spellSlotLevel);
+  if (!casting?.damage) return 0;
+  return (casting.attacks || 1) * parseDiceNotation(casting.damage);
+}
+
+// Expected damage of a spell cast with one slot level
+export interface SpellSlotDamage {
+  slotLevel: number; // 0 for cantrips
+  averageDamage: number;
+  hitChance?: number;
+  saveChance?: number;
+}
+
+/**
+ * Expected damage of a spell at each slot level given, skipping slots below the spell's level.
+ * Cantrips don't use slots and get a single entry at slot level 0
+ */
+export function calculateSpellDamageBySlot(
+  spell: SpellDefinition,
+  casterLevel: number,
+  slotLevels: number[],
+  target: {
+    ac: number;
+    saves: Record<string, number>;
+  },
+  spellAttackBonus: number,
+  spellSaveDC: number
+): SpellSlotDamage[] {
+  const levels = spell.level === 0 ? [0] : [...new Set(slotLevels)].filter(level => level >= spell.level).sort((a, b) => a - b);
+  return levels.map(slotLevel => ({
+    slotLevel,
+    ...calculateSpellDamage(spell, casterLevel, slotLevel, target, spellAttackBonus, spellSaveDC)
+  }));
+}
+
+/**
+ * Slot to cast a spell with: the one dealing the most damage, and the lowest of those when
+ * upcasting adds nothing. Undefined when no slot is high enough
+ */
+export function chooseSpellSlot(damageBySlot: SpellSlotDamage[]): SpellSlotDamage | undefined {
+  return damageBySlot.reduce<SpellSlotDamage | undefined>(
+    (best, slot) => (!best || slot.averageDamage > best.averageDamage ? slot : best),
+    undefined
+  );
+}
+
+/**
+ * Slot levels a build has at least one slot of, lowest first
+ */
+export function getAvailableSlotLevels(build: Pick<Build, 'spellSlots'>): number[] {
+  return Object.entries(build.spellSlots || {})
+    .filter(([, count]) => count > 0)
+    .map(([level]) => Number(level))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Damage spells a build can cast against one target, each cast with the slot that deals the most,
+ * highest damage first
+ */
+export function calculateBuildSpellDamage(
+  build: Build,
+  target: {
+    ac: number;
+    saves: Record<string, number>;
+  }
+): BuildSpellDamage[] {
+  const characterLevel = getCharacterLevel(build);
+  const spellAttackBonus = calculateSpellAttackBonus(build, characterLevel);
+  const spellSaveDC = calculateSpellSaveDC(build, characterLevel);
+  const slotLevels = getAvailableSlotLevels(build);
+
+  return (build.spells || [])
+    .map(spellName => getSpell(spellName))
+    .filter((spell): spell is SpellDefinition => spell !== undefined)
+    .flatMap(spell => {
+      const damageBySlot = calculateSpellDamageBySlot(spell, characterLevel, slotLevels, target, spellAttackBonus, spellSaveDC);
+      const best = chooseSpellSlot(damageBySlot);
+      if (!best || best.averageDamage <= 0) return [];
+      return [{
+        name: spell.name,
+        level: spell.level,
+        resolution: spell.resolution,
+        slotLevel: best.slotLevel,
+        averageDamage: best.averageDamage,
+        damageBySlot
+      }];
+    })
+    .sort((a, b) => b.averageDamage - a.averageDamage);
+}
+
+/**
+ * Saving throw bonus for a creature, falling back to the raw ability modifier
+ */
+export function getTargetSaveBonus(target: AreaSpellTarget, ability: SavingThrowAbility): number {
+  const proficientSave = target.savingThrows?.[ability];
+  if (proficientSave !== undefined) return proficientSave;
+  return Math.floor(((target.abilityScores?.[ability] ?? 10) - 10) / 2);
+}
+
+/**
+ * Chance a creature succeeds on a saving throw (no automatic success or failure on saves)
+ */
+export function calculateSaveSuccessChance(saveBonus: number, spellSaveDC: number, hasAdvantage: boolean = false): number {
+  const singleRoll = Math.max(0, Math.min(1, (21 + saveBonus - spellSaveDC) / 20));
+  return hasAdvantage ? 1 - (1 - singleRoll) * (1 - singleRoll) : singleRoll;
+}
+
+/**
+ * Calculate area spell damage with a separate save for every creature caught in it
+ */
+export function calculateAreaSpellDamage(
+  spell: SpellDefinition,
+  casterLevel: number,
+  spellSlotLevel: number,
+  targets: AreaSpellTarget[],
+  spellSaveDC: number
+): AreaSpellResult {
+  const baseDamage = calculateSpellBaseDamage(spell, casterLevel, spellSlotLevel);
+  const ability = spell.save || 'dexterity';
+  const element = spell.damageType?.toLowerCase();
+
+  const targetResults = targets.map(target => {
+    const traits = (target.traits || []).map(trait => trait.toLowerCase());
+    const hasTrait = (name: string) => traits.some(trait => trait.startsWith(name));
+
+    // Evasion only works against Dexterity saves
+    const hasEvasion = ability === 'dexterity' && hasTrait('evasion');
+    const hasMagicResistance = hasTrait('magic resistance');
+
+    let damageMultiplier = 1;
+    if (element) {
+      if (target.immunities.some(immunity => immunity.toLowerCase() === element)) damageMultiplier = 0;
+      else if (target.resistances.some(resistance => resistance.toLowerCase() === element)) damageMultiplier = 0.5;
+      else if (target.vulnerabilities.some(vulnerability => vulnerability.toLowerCase() === element)) damageMultiplier = 2;
+    }
+
+    const saveBonus = getTargetSaveBonus(target, ability);
+    const saveChance = spell.resolution === 'save'
+      ? calculateSaveSuccessChance(saveBonus, spellSaveDC, hasMagicResistance)
+      : 0;
+
+    // Share of full damage taken on a failed and a successful save
+    let onFail = 1;
+    let onSave = spell.saveForHalf ? 0.5 : 0;
+    if (hasEvasion && spell.saveForHalf) {
+      onFail = 0.5;
+      onSave = 0;
+    }
+
+    const expectedDamage = baseDamage * damageMultiplier * ((1 - saveChance) * onFail + saveChance * onSave);
+
+    return {
+      name: target.name,
+      saveBonus,
+      saveChance,
+      damageMultiplier,
+      hasEvasion,
+      hasMagicResistance,
+      expectedDamage,
+    };
+  });
+
+  return {
+    spellName: spell.name,
+    baseDamage,
+    spellSaveDC,
+    targets: targetResults,
+    totalExpectedDamage: targetResults.reduce((sum, target) => sum + target.expectedDamage, 0),
+  };
+}
+
 /**
  * Calculate spell save DC for a character
  */
-export function calculateSpellSaveDC(build: SimpleBuild, casterLevel: number): number {
-  if (!build.abilityScores) return 13; // Default
+export function calculateSpellSaveDC(build: Build, casterLevel: number): number {
+  if (!build.abilities) return 13; // Default
   
   // Determine primary spellcasting ability
   let spellcastingMod = 0;
-  const { intelligence, wisdom, charisma } = build.abilityScores;
+  const { intelligence, wisdom, charisma } = build.abilities;
   
   // Simple heuristic based on likely classes
-  if (build.classLevels) {
-    const primaryClass = build.classLevels[0]?.class?.toLowerCase() || 'fighter';
+  if (build.levels) {
+    const primaryClass = build.levels[0]?.class?.toLowerCase() || 'fighter';
     switch (primaryClass) {
       case 'wizard':
       case 'eldritch knight': // Fighter subclass
@@ -224,7 +344,7 @@ export function calculateSpellSaveDC(build: SimpleBuild, casterLevel: number): n
 /**
  * Calculate spell attack bonus for a character
  */
-export function calculateSpellAttackBonus(build: SimpleBuild, casterLevel: number): number {
+export function calculateSpellAttackBonus(build: Build, casterLevel: number): number {
   const spellSaveDC = calculateSpellSaveDC(build, casterLevel);
   return spellSaveDC - 8; // Attack bonus = DC - 8
 }
@@ -265,52 +385,3 @@ function parseDiceNotation(notation: string): number {
     return 0;
   }
 }
-
-/**
- * Get available spells for a character build
- */
-export function getAvailableSpells(build: SimpleBuild, characterLevel: number): string[] {
-  // For now, return a basic set based on class
-  // In the future, this could be more sophisticated
-  const spells: string[] = [];
-  
-  if (!build.classLevels) return spells;
-  
-  const primaryClass = build.classLevels[0]?.class?.toLowerCase() || '';
-  
-  // Add cantrips for spellcasting classes
-  if (['wizard', 'sorcerer', 'warlock', 'bard', 'cleric', 'druid'].includes(primaryClass)) {
-    spells.push('fire bolt');
-  }
-  
-  if (primaryClass === 'warlock') {
-    spells.push('eldritch blast');
-  }
-  
-  // Add leveled spells based on class progression
-  if (characterLevel >= 1) {
-    if (['wizard', 'sorcerer'].includes(primaryClass)) {
-      spells.push('magic missile', 'burning hands');
-    }
-    if (['warlock', 'ranger'].includes(primaryClass)) {
-      spells.push('hex', 'hunters mark');
-    }
-    if (['cleric', 'bard'].includes(primaryClass)) {
-      spells.push('bless');
-    }
-  }
-  
-  if (characterLevel >= 2) {
-    if (['wizard', 'sorcerer', 'warlock'].includes(primaryClass)) {
-      spells.push('scorching ray');
-    }
-  }
-  
-  if (characterLevel >= 3) {
-    if (['wizard', 'sorcerer'].includes(primaryClass)) {
-      spells.push('fireball');
-    }
-  }
-  
-  return spells;
-}
\ No newline at end of file